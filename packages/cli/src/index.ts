@@ -5,17 +5,42 @@ import inquirer from 'inquirer';
 import fs from 'fs-extra';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { renderSpecSummary, verifyAllSpecs } from '@spec-driven-asteroids/mcp/all-specs';
+import { archiveSpec } from '@spec-driven-asteroids/mcp/archive';
+import { applyConfig, loadConfig } from '@spec-driven-asteroids/mcp/config';
+import { verifyImplementationCoverage } from '@spec-driven-asteroids/mcp/coverage';
+import { formatDiagnostic, toSarif, type Diagnostic } from '@spec-driven-asteroids/mcp/diagnostics';
+import { formatSpec } from '@spec-driven-asteroids/mcp/format';
+import { getSpecHistory } from '@spec-driven-asteroids/mcp/git-history';
+import { getProjectGlossary, renderProjectGlossary } from '@spec-driven-asteroids/mcp/glossary';
+import { mcpHttpUrl } from '@spec-driven-asteroids/mcp/http';
+import { renameSpecId } from '@spec-driven-asteroids/mcp/rename';
+import { createSpec } from '@spec-driven-asteroids/mcp/scaffold';
+import { diffSpec, renderSpecDiff } from '@spec-driven-asteroids/mcp/spec-diff';
+import { verifyTestResults } from '@spec-driven-asteroids/mcp/test-results';
+import { verifyCompleteSpec } from '@spec-driven-asteroids/mcp/validators';
 import { MCP_SERVERS } from './mcp-registry.js';
 
 interface McpConfig {
   mcpServers: Record<string, McpServerEntry>;
 }
 
-interface McpServerEntry {
+type McpServerEntry = StdioServerEntry | HttpServerEntry;
+
+interface StdioServerEntry {
   command: string;
   args: string[];
 }
 
+/** Entry of a server reached over HTTP; the key of the URL depends on the platform */
+interface HttpServerEntry {
+  type?: 'http' | 'remote';
+  url?: string;
+  serverUrl?: string;
+}
+
+type Platform = 'github' | 'antigravity' | 'opencode';
+
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
@@ -31,7 +56,9 @@ program
 program
   .command('inject')
   .description('Inject platform-specific Spec Driven configs')
-  .action(async () => {
+  .option('--http [url]', `Connect to a running MCP server over HTTP (default: ${mcpHttpUrl()}) instead of starting one per agent`)
+  .action(async (options: { http?: boolean | string }) => {
+    const httpUrl = options.http === true ? mcpHttpUrl() : options.http || undefined;
     console.log(chalk.bold.cyan('\n☄️ Injecting asteroids...\n'));
 
     const { platforms } = await inquirer.prompt([
@@ -69,21 +96,21 @@ program
         let skillsSubDir = 'skills';
 
         if (platform === 'github') {
-          await configureCopilotMcp(targetDir, mcpServers);
+          await configureCopilotMcp(targetDir, mcpServers, httpUrl);
           const src = path.join(standardsDir, 'github');
           platformDest = path.join(targetDir, '.github');
           await fs.copy(src, platformDest, { overwrite: true });
         }
 
         if (platform === 'antigravity') {
-          await configureAntigravityMcp(targetDir, mcpServers);
+          await configureAntigravityMcp(targetDir, mcpServers, httpUrl);
           const src = path.join(standardsDir, 'antigravity');
           platformDest = path.join(targetDir, '.agent');
           await fs.copy(src, platformDest, { overwrite: true });
         }
 
         if (platform === 'opencode') {
-          await configureOpenCodeMcp(targetDir, mcpServers);
+          await configureOpenCodeMcp(targetDir, mcpServers, httpUrl);
           const src = path.join(standardsDir, 'opencode');
           platformDest = path.join(targetDir, '.opencode');
           await fs.copy(src, platformDest, { overwrite: true });
@@ -110,6 +137,9 @@ program
     console.log(chalk.white('Next steps:'));
     console.log(chalk.white('1. Configure API keys for MCP servers that require them.'));
     console.log(chalk.white('2. Ensure your MCP servers are running.'));
+    if (httpUrl) {
+      console.log(chalk.white(`   Start the shared validator with: npx @spec-driven-asteroids/mcp --http (serving ${httpUrl})`));
+    }
     console.log(chalk.white('3. Use @spec-driven in Copilot or /spec-driven in Antigravity.\n'));
   });
 
@@ -139,8 +169,337 @@ program
     console.log(chalk.yellow('\nTip: Make sure to connect your MCP server to enable structural validation.\n'));
   });
 
+program
+  .command('check [slug]')
+  .description('Validate specs/changes/<slug>, or every change with --all, with the MCP validators')
+  .option('-a, --all', 'Validate every change under specs/changes/ and compare them with each other')
+  .option('--fix', 'Renumber IDs, normalize headings and rebuild the Traceability Matrix before validating')
+  .option('-f, --format <format>', 'Output format: text, json or sarif', 'text')
+  .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+  .action(async (slug: string | undefined, options: { all?: boolean; fix?: boolean; format: string; output?: string }) => {
+    if (!['text', 'json', 'sarif'].includes(options.format)) {
+      console.error(chalk.red(`Unknown format: ${options.format}. Use text, json or sarif.`));
+      process.exitCode = 2;
+      return;
+    }
+    if (options.all && (slug !== undefined || options.fix)) {
+      console.error(chalk.red('--all checks every change and cannot be combined with a slug or --fix.'));
+      process.exitCode = 2;
+      return;
+    }
+
+    const { config, diagnostics: configDiagnostics } = await loadConfig(process.cwd());
+    if (options.all) {
+      const result = applyConfig(await verifyAllSpecs(process.cwd(), config), config, configDiagnostics);
+      if (options.format === 'text' && !options.output) {
+        console.log(result.specs.length > 0 ? renderSpecSummary(result.specs, result.sharedFiles) : chalk.gray('No changes found.'));
+        console.log('');
+      }
+      await writeReport(result, options);
+      if (!result.valid) {
+        process.exitCode = 1;
+      }
+      return;
+    }
+    if (slug === undefined) {
+      console.error(chalk.red('Missing slug. Use check <slug> or check --all.'));
+      process.exitCode = 2;
+      return;
+    }
+
+    if (options.fix) {
+      const fixed = await formatSpec(slug, true, 'diff', process.cwd(), config);
+      if (options.format === 'text' && !options.output) {
+        if (fixed.changedFiles.length === 0) {
+          console.log(chalk.gray('Nothing to fix.'));
+        } else {
+          console.log(chalk.green(`🔧 Fixed ${fixed.changedFiles.join(', ')}`));
+          for (const change of fixed.renumbered) {
+            console.log(chalk.white(`   ${change.from} → ${change.to}`));
+          }
+          if (fixed.rebuiltMatrix) console.log(chalk.white('   Rebuilt the Traceability Matrix'));
+          if (fixed.addedFinalCheckpoint) console.log(chalk.white('   Added the Final Checkpoint phase'));
+        }
+        console.log('');
+      }
+    }
+
+    const result = applyConfig(await verifyCompleteSpec(slug, process.cwd(), config), config, configDiagnostics);
+    await writeReport(result, options);
+    if (!result.valid) {
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('create <slug> <title>')
+  .description('Create specs/changes/<slug> with skeleton requirements.md, design.md and tasks.md')
+  .action(async (slug: string, title: string) => {
+    const { config, diagnostics: configDiagnostics } = await loadConfig(process.cwd());
+    const result = applyConfig(await createSpec(slug, title, process.cwd(), config), config, configDiagnostics);
+    if (!result.created) {
+      console.error(formatTextReport(result.diagnostics));
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log(chalk.green(`✅ Created spec '${slug}':`));
+    for (const file of result.files) {
+      console.log(chalk.white(`   ${file}`));
+    }
+    if (result.diagnostics.length > 0) {
+      console.log(formatTextReport(result.diagnostics));
+    }
+  });
+
+program
+  .command('coverage <slug>')
+  .description('Report which acceptance criteria of specs/changes/<slug> are referenced by code comments and tests')
+  .option('-i, --include <globs...>', 'Glob patterns of the files to scan (default: coverage.include of .spec-driven.json)')
+  .option('-e, --exclude <globs...>', 'Glob patterns of the files to skip (default: coverage.exclude of .spec-driven.json)')
+  .option('-f, --format <format>', 'Output format: text, json or sarif', 'text')
+  .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+  .action(async (slug: string, options: { include?: string[]; exclude?: string[]; format: string; output?: string }) => {
+    if (!['text', 'json', 'sarif'].includes(options.format)) {
+      console.error(chalk.red(`Unknown format: ${options.format}. Use text, json or sarif.`));
+      process.exitCode = 2;
+      return;
+    }
+
+    const { config, diagnostics: configDiagnostics } = await loadConfig(process.cwd());
+    const result = applyConfig(
+      await verifyImplementationCoverage(slug, process.cwd(), config, options.include, options.exclude),
+      config,
+      configDiagnostics
+    );
+    if (options.format === 'text' && !options.output) {
+      const mark = (found: boolean) => found ? chalk.green('✓') : chalk.red('✗');
+      console.log(chalk.bold(`Implementation coverage of '${slug}' (${result.report.filesScanned} files scanned):`));
+      for (const coverage of result.report.criteria) {
+        console.log(chalk.white(`   ${coverage.criterion.padEnd(12)} code ${mark(coverage.code.length > 0)}  tests ${mark(coverage.tests.length > 0)}`));
+      }
+      console.log('');
+    }
+    await writeReport(result, options);
+    if (!result.valid) {
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('test-results <slug> <reports...>')
+  .description('Map JUnit XML or TAP test reports to the acceptance criteria of specs/changes/<slug>')
+  .option('-a, --annotate', 'Write the results into the Final Checkpoint tasks of tasks.md')
+  .option('-f, --format <format>', 'Output format: text, json or sarif', 'text')
+  .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+  .action(async (slug: string, reports: string[], options: { annotate?: boolean; format: string; output?: string }) => {
+    if (!['text', 'json', 'sarif'].includes(options.format)) {
+      console.error(chalk.red(`Unknown format: ${options.format}. Use text, json or sarif.`));
+      process.exitCode = 2;
+      return;
+    }
+
+    const { config, diagnostics: configDiagnostics } = await loadConfig(process.cwd());
+    const result = applyConfig(
+      await verifyTestResults(slug, reports, options.annotate, process.cwd(), config),
+      config,
+      configDiagnostics
+    );
+    if (options.format === 'text' && !options.output) {
+      const colors = { passed: chalk.green, failed: chalk.red, untested: chalk.yellow };
+      const { passed, failed, untested } = result.report.totals;
+      console.log(chalk.bold(`Test results of '${slug}': ${passed} passed, ${failed} failed, ${untested} untested criteria`));
+      for (const requirement of result.report.requirements) {
+        console.log(colors[requirement.status](`   ${requirement.requirement.padEnd(8)} ${requirement.status.padEnd(9)} ${requirement.title}`));
+      }
+      if (result.annotated.length > 0) {
+        console.log(chalk.white(`   Annotated Final Checkpoint task(s) ${result.annotated.join(', ')}`));
+      }
+      console.log('');
+    }
+    await writeReport(result, options);
+    if (!result.valid) {
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('history <slug> [range]')
+  .description('Audit the git history of specs/changes/<slug>: commits citing its IDs, completed tasks without commits, commits without IDs')
+  .option('-f, --format <format>', 'Output format: text, json or sarif', 'text')
+  .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+  .action(async (slug: string, range: string | undefined, options: { format: string; output?: string }) => {
+    if (!['text', 'json', 'sarif'].includes(options.format)) {
+      console.error(chalk.red(`Unknown format: ${options.format}. Use text, json or sarif.`));
+      process.exitCode = 2;
+      return;
+    }
+
+    const { config, diagnostics: configDiagnostics } = await loadConfig(process.cwd());
+    const result = applyConfig(await getSpecHistory(slug, range, process.cwd(), config), config, configDiagnostics);
+    if (options.format === 'text' && !options.output) {
+      const { commits, commitsScanned } = result.report;
+      console.log(chalk.bold(`Git history of '${slug}' (${result.report.range}): ${commits.length} of ${commitsScanned} commit(s) cite its IDs`));
+      for (const commit of commits) {
+        console.log(chalk.white(`   ${commit.shortHash} ${commit.subject} `) + chalk.gray(`[${commit.ids.join(', ')}]`));
+      }
+      console.log('');
+    }
+    await writeReport(result, options);
+    if (!result.valid) {
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('rename <slug> <from> <to...>')
+  .description('Rename a REQ/DES ID of specs/changes/<slug> in all spec files, or split it into several IDs')
+  .option('-n, --dry-run', 'Show the changes without writing the files')
+  .option('-f, --format <format>', 'Output format: text, json or sarif', 'text')
+  .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+  .action(async (slug: string, from: string, to: string[], options: { dryRun?: boolean; format: string; output?: string }) => {
+    if (!['text', 'json', 'sarif'].includes(options.format)) {
+      console.error(chalk.red(`Unknown format: ${options.format}. Use text, json or sarif.`));
+      process.exitCode = 2;
+      return;
+    }
+
+    const { config, diagnostics: configDiagnostics } = await loadConfig(process.cwd());
+    const result = applyConfig(await renameSpecId(slug, from, to, options.dryRun, process.cwd(), config), config, configDiagnostics);
+    if (options.format === 'text' && !options.output && result.changes.length > 0) {
+      console.log(chalk.bold(`${options.dryRun ? 'Would rename' : 'Renamed'} ${from} → ${to.join(', ')} at ${result.changes.length} line(s):`));
+      for (const change of result.changes) {
+        console.log(chalk.white(`   ${change.file}:${change.line} `) + chalk.gray(change.after.trim()));
+      }
+      console.log('');
+    }
+    await writeReport(result, options);
+    if (!result.valid) {
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('diff <slug> [base] [head]')
+  .description('Compare specs/changes/<slug> between two git revisions or spec folders (default: HEAD and the working tree)')
+  .option('-f, --format <format>', 'Output format: markdown, json or sarif', 'markdown')
+  .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+  .action(async (slug: string, base: string | undefined, head: string | undefined, options: { format: string; output?: string }) => {
+    if (!['markdown', 'json', 'sarif'].includes(options.format)) {
+      console.error(chalk.red(`Unknown format: ${options.format}. Use markdown, json or sarif.`));
+      process.exitCode = 2;
+      return;
+    }
+
+    const { config, diagnostics: configDiagnostics } = await loadConfig(process.cwd());
+    const result = applyConfig(await diffSpec(slug, base, head, process.cwd(), config), config, configDiagnostics);
+    if (options.format !== 'markdown') {
+      await writeReport(result, options);
+    } else if (options.output) {
+      await fs.outputFile(options.output, renderSpecDiff(slug, result.report, result.diagnostics) + '\n');
+      console.log(chalk.green(`✅ Report written to ${options.output}`));
+    } else {
+      console.log(renderSpecDiff(slug, result.report, result.diagnostics));
+    }
+    if (!result.valid) {
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('glossary')
+  .description('Build the project glossary from the Glossary tables of every spec and capability')
+  .option('-f, --format <format>', 'Output format: text, json or sarif', 'text')
+  .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+  .action(async (options: { format: string; output?: string }) => {
+    if (!['text', 'json', 'sarif'].includes(options.format)) {
+      console.error(chalk.red(`Unknown format: ${options.format}. Use text, json or sarif.`));
+      process.exitCode = 2;
+      return;
+    }
+
+    const { config, diagnostics: configDiagnostics } = await loadConfig(process.cwd());
+    const result = applyConfig(await getProjectGlossary(process.cwd(), config), config, configDiagnostics);
+    if (options.format === 'text' && !options.output) {
+      console.log(result.glossary.length > 0 ? renderProjectGlossary(result.glossary) : chalk.gray('No glossary terms found.'));
+      console.log('');
+    }
+    await writeReport(result, options);
+    if (!result.valid) {
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('archive <slug>')
+  .description('Archive a completed spec and merge its requirements into specs/capabilities/<name>')
+  .option('-c, --capability <name>', 'Capability spec to merge the requirements into (default: the baseline, or the slug)')
+  .option('-d, --date <date>', 'Archive date in YYYY-MM-DD format (default: today)')
+  .action(async (slug: string, options: { capability?: string; date?: string }) => {
+    const { config, diagnostics: configDiagnostics } = await loadConfig(process.cwd());
+    const result = applyConfig(
+      await archiveSpec(slug, options.capability, process.cwd(), config, options.date),
+      config,
+      configDiagnostics
+    );
+    if (!result.archived) {
+      console.error(formatTextReport(result.diagnostics));
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log(chalk.green(`✅ Archived spec '${slug}' to ${result.archivePath}`));
+    console.log(chalk.white(`   Requirements merged into ${result.capabilityFile}:`));
+    for (const { from, to } of result.renumbered) {
+      console.log(chalk.white(`   ${from} → ${to}`));
+    }
+    for (const id of result.modified) {
+      console.log(chalk.white(`   ${id} modified`));
+    }
+    for (const id of result.removed) {
+      console.log(chalk.white(`   ${id} removed`));
+    }
+    if (result.diagnostics.length > 0) {
+      console.log(formatTextReport(result.diagnostics));
+    }
+  });
+
 program.parse();
 
+async function writeReport(
+  result: { valid: boolean; diagnostics: Diagnostic[] },
+  options: { format: string; output?: string }
+) {
+  let report: string;
+  if (options.format === 'sarif') {
+    report = JSON.stringify(toSarif(result.diagnostics), null, 2);
+  } else if (options.format === 'json') {
+    report = JSON.stringify(result, null, 2);
+  } else {
+    report = formatTextReport(result.diagnostics);
+  }
+
+  if (options.output) {
+    await fs.outputFile(options.output, report + '\n');
+    console.log(chalk.green(`✅ Report written to ${options.output}`));
+  } else {
+    console.log(report);
+  }
+}
+
+function formatTextReport(diagnostics: Diagnostic[]): string {
+  if (diagnostics.length === 0) {
+    return chalk.green('✅ No problems found.');
+  }
+
+  const colors = { error: chalk.red, warning: chalk.yellow, info: chalk.gray };
+  const lines = diagnostics.map(d => colors[d.severity](formatDiagnostic(d)));
+  const errors = diagnostics.filter(d => d.severity === 'error').length;
+  const warnings = diagnostics.filter(d => d.severity === 'warning').length;
+  lines.push('', chalk.bold(`${errors} error(s), ${warnings} warning(s)`));
+  return lines.join('\n');
+}
+
 function getMcpChoices() {
   const categories = Array.from(new Set(MCP_SERVERS.map(s => s.category)));
 
@@ -162,6 +521,18 @@ function getMcpChoices() {
   ];
 }
 
+/**
+ * Returns the spec-driven-asteroids entry: a `pnpm dlx` command that starts the
+ * server over stdio, or the URL of a server started with `--http`.
+ */
+function specDrivenMcpEntry(platform: Platform, httpUrl?: string): McpServerEntry {
+  if (!httpUrl) {
+    return { command: 'pnpm', args: ['dlx', '@spec-driven-asteroids/mcp'] };
+  }
+  if (platform === 'antigravity') return { serverUrl: httpUrl };
+  return { type: platform === 'opencode' ? 'remote' : 'http', url: httpUrl };
+}
+
 async function addMcpsToConfig(
   config: any,
   selectedMcpIds: string[]
@@ -190,7 +561,7 @@ async function addMcpsToConfig(
   }
 }
 
-async function configureCopilotMcp(targetDir: string, selectedMcpIds: string[]) {
+async function configureCopilotMcp(targetDir: string, selectedMcpIds: string[], httpUrl?: string) {
   try {
     const vscodeDir = path.join(targetDir, '.vscode');
     await fs.ensureDir(vscodeDir);
@@ -206,10 +577,7 @@ async function configureCopilotMcp(targetDir: string, selectedMcpIds: string[])
     }
 
     // Add spec-driven-asteroids (always)
-    config.mcpServers['spec-driven-asteroids'] = {
-      command: 'pnpm',
-      args: ['dlx', '@spec-driven-asteroids/mcp']
-    };
+    config.mcpServers['spec-driven-asteroids'] = specDrivenMcpEntry('github', httpUrl);
 
     // Add selected MCP servers
     await addMcpsToConfig(config, selectedMcpIds);
@@ -220,7 +588,7 @@ async function configureCopilotMcp(targetDir: string, selectedMcpIds: string[])
   }
 }
 
-async function configureAntigravityMcp(targetDir: string, selectedMcpIds: string[]) {
+async function configureAntigravityMcp(targetDir: string, selectedMcpIds: string[], httpUrl?: string) {
   try {
     const agentDir = path.join(targetDir, '.agent');
     await fs.ensureDir(agentDir);
@@ -236,10 +604,7 @@ async function configureAntigravityMcp(targetDir: string, selectedMcpIds: string
     }
 
     // Add spec-driven-asteroids (always)
-    config.mcpServers['spec-driven-asteroids'] = {
-      command: 'pnpm',
-      args: ['dlx', '@spec-driven-asteroids/mcp']
-    };
+    config.mcpServers['spec-driven-asteroids'] = specDrivenMcpEntry('antigravity', httpUrl);
 
     // Add selected MCP servers
     await addMcpsToConfig(config, selectedMcpIds);
@@ -250,7 +615,7 @@ async function configureAntigravityMcp(targetDir: string, selectedMcpIds: string
   }
 }
 
-async function configureOpenCodeMcp(targetDir: string, selectedMcpIds: string[]) {
+async function configureOpenCodeMcp(targetDir: string, selectedMcpIds: string[], httpUrl?: string) {
   try {
     const configPath = path.join(targetDir, 'opencode.json');
 
@@ -268,10 +633,7 @@ async function configureOpenCodeMcp(targetDir: string, selectedMcpIds: string[])
     if (!config.mcpServers) config.mcpServers = {};
 
     // Add spec-driven-asteroids (always)
-    config.mcpServers['spec-driven-asteroids'] = {
-      command: 'pnpm',
-      args: ['dlx', '@spec-driven-asteroids/mcp']
-    };
+    config.mcpServers['spec-driven-asteroids'] = specDrivenMcpEntry('opencode', httpUrl);
 
     // Add selected MCP servers
     await addMcpsToConfig(config, selectedMcpIds);
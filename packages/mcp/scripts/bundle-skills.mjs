@@ -0,0 +1,17 @@
+/**
+ * Copies the SKILL.md files of the standards package to dist/skills, so that the
+ * published package serves the skills as prompts without the monorepo.
+ */
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const packageDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const source = path.resolve(packageDir, "../standards/src/templates/universal/skills");
+const target = path.join(packageDir, "dist/skills");
+
+await fs.rm(target, { recursive: true, force: true });
+for (const entry of (await fs.readdir(source, { withFileTypes: true })).filter(entry => entry.isDirectory())) {
+  await fs.mkdir(path.join(target, entry.name), { recursive: true });
+  await fs.copyFile(path.join(source, entry.name, "SKILL.md"), path.join(target, entry.name, "SKILL.md"));
+}
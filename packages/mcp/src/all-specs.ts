@@ -0,0 +1,206 @@
+/**
+ * Analysis across every active change under specs/changes/.
+ *
+ * Each spec is validated on its own, then the specs are compared with each other:
+ * slugs and titles that are the same or nearly the same after normalization, and
+ * files that the Code Anatomy of several changes lists, which are likely to cause
+ * merge conflicts. The title of a spec is the H1 of requirements.md after
+ * "Requirements Document", or else the title of its first requirement.
+ */
+import fs from "fs/promises";
+import path from "path";
+import { applyConfig, DEFAULT_CONFIG, type SpecDrivenConfig } from "./config.js";
+import { createDiagnostic, hasErrors, type Diagnostic } from "./diagnostics.js";
+import { readSpecFiles, specDirectory } from "./spec-files.js";
+import { parseDesign, parseRequirements, type IdPrefixes } from "./spec-model.js";
+import { getSpecStatus, type ProgressCounts } from "./task-status.js";
+import { verifyCompleteSpec } from "./validators.js";
+
+export interface SpecSummary {
+  slug: string;
+  title?: string;
+  valid: boolean;
+  errors: number;
+  warnings: number;
+  /** Task completion of tasks.md */
+  progress: ProgressCounts;
+}
+
+export interface SharedFile {
+  path: string;
+  /** Slugs of the changes listing the file in their Code Anatomy */
+  specs: string[];
+}
+
+/** Similarity from which two normalized names count as near-duplicates */
+const NEAR_DUPLICATE_SIMILARITY = 0.85;
+
+/**
+ * Normalizes a slug or title for comparison: lowercase words without common
+ * suffixes, in alphabetical order, so that "rate-limiter" and "Rate Limiting"
+ * compare equal.
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 0)
+    .map(word => word.length > 4 ? word.replace(/(?:ing|ers|er|ed|ion|s)$/, "") : word)
+    .sort()
+    .join(" ");
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Returns "duplicate", "near-duplicate" or undefined for two names */
+function compareNames(a: string, b: string): "duplicate" | "near-duplicate" | undefined {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return undefined;
+  if (left === right) return a.toLowerCase() === b.toLowerCase() ? "duplicate" : "near-duplicate";
+  const similarity = 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+  return similarity >= NEAR_DUPLICATE_SIMILARITY ? "near-duplicate" : undefined;
+}
+
+function titleOf(content: string, prefixes: IdPrefixes): string | undefined {
+  const model = parseRequirements(content, prefixes);
+  const heading = model.document.sections.find(section => section.level === 1);
+  const title = heading?.title.replace(/^requirements(?:\s+document)?\s*[:\-–—]?\s*/i, "").trim();
+  return title || model.requirements[0]?.title;
+}
+
+async function activeSlugs(targetDir: string, specRoot: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(path.join(targetDir, specRoot), { withFileTypes: true });
+    return entries.filter(entry => entry.isDirectory() && !entry.name.startsWith(".")).map(entry => entry.name).sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Renders the summary of the active changes as a Markdown table.
+ */
+export function renderSpecSummary(specs: SpecSummary[], sharedFiles: SharedFile[] = []): string {
+  const cell = (text: string) => text.replace(/\|/g, "\\|");
+  const lines = [
+    "| Change | Title | Status | Errors | Warnings | Completion |",
+    "|--------|-------|--------|--------|----------|------------|",
+    ...specs.map(spec => {
+      const completion = spec.progress.total > 0
+        ? `${spec.progress.done}/${spec.progress.total} (${spec.progress.percent}%)`
+        : "-";
+      return `| ${spec.slug} | ${cell(spec.title || "")} | ${spec.valid ? "valid" : "invalid"} | ${spec.errors} | ${spec.warnings} | ${completion} |`;
+    })
+  ];
+  if (sharedFiles.length > 0) {
+    lines.push("", "| Shared File | Changes |", "|-------------|---------|");
+    lines.push(...sharedFiles.map(file => `| ${cell(file.path)} | ${file.specs.join(", ")} |`));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Tool: verify_all_specs
+ * Validates every active change and compares them with each other
+ */
+export async function verifyAllSpecs(
+  targetDir: string = process.cwd(),
+  config: SpecDrivenConfig = DEFAULT_CONFIG
+): Promise<{
+  valid: boolean;
+  diagnostics: Diagnostic[];
+  specs: SpecSummary[];
+  sharedFiles: SharedFile[];
+}> {
+  const diagnostics: Diagnostic[] = [];
+  const specs: SpecSummary[] = [];
+  const anatomy = new Map<string, { slug: string; line: number }[]>();
+
+  for (const slug of await activeSlugs(targetDir, config.specRoot)) {
+    const result = await verifyCompleteSpec(slug, targetDir, config);
+    diagnostics.push(...result.diagnostics);
+
+    // The summary counts what the project reports after its rule settings
+    const configured = applyConfig(result, config);
+
+    const contents = await readSpecFiles(slug, targetDir, config.specRoot);
+    const requirements = contents["requirements.md"];
+    const design = contents["design.md"];
+    const tasks = contents["tasks.md"];
+    specs.push({
+      slug,
+      title: requirements !== undefined ? titleOf(requirements, config.idPrefixes) : undefined,
+      valid: configured.valid,
+      errors: configured.diagnostics.filter(d => d.severity === "error").length,
+      warnings: configured.diagnostics.filter(d => d.severity === "warning").length,
+      progress: tasks !== undefined
+        ? (await getSpecStatus(slug, targetDir, config)).overall
+        : { total: 0, done: 0, inProgress: 0, pending: 0, percent: 0 }
+    });
+
+    // Glob patterns name groups of files and are not compared
+    for (const entry of (design !== undefined ? parseDesign(design, config.idPrefixes).codeAnatomy || [] : [])
+      .filter(entry => !/[*?{]/.test(entry.path))) {
+      const key = path.posix.normalize(entry.path.replace(/\\/g, "/"));
+      const listed = anatomy.get(key) || [];
+      if (!listed.some(other => other.slug === slug)) listed.push({ slug, line: entry.line });
+      anatomy.set(key, listed);
+    }
+  }
+
+  // Each pair is reported once, on the spec that sorts later
+  for (let i = 0; i < specs.length; i++) {
+    for (let j = i + 1; j < specs.length; j++) {
+      const [first, second] = [specs[i], specs[j]];
+      const file = path.join(specDirectory(second.slug, config.specRoot), "requirements.md");
+      const slugMatch = compareNames(first.slug, second.slug);
+      const titleMatch = first.title && second.title ? compareNames(first.title, second.title) : undefined;
+      if (slugMatch) {
+        diagnostics.push(createDiagnostic("XSP001", {
+          message: `Change ${second.slug} has a ${slugMatch} slug of ${first.slug}`,
+          suggestedFix: "Merge the two changes, or rename one so that their scopes are clearly different",
+          file: specDirectory(second.slug, config.specRoot)
+        }));
+      }
+      if (titleMatch) {
+        diagnostics.push(createDiagnostic("XSP001", {
+          message: `Change ${second.slug} has a ${titleMatch} title of ${first.slug}: "${second.title}" and "${first.title}"`,
+          suggestedFix: "Check that the changes do not specify the same feature twice; merge them or retitle one",
+          file
+        }));
+      }
+    }
+  }
+
+  const sharedFiles: SharedFile[] = [];
+  for (const [file, listed] of [...anatomy.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    if (listed.length < 2) continue;
+    sharedFiles.push({ path: file, specs: listed.map(entry => entry.slug) });
+    for (const entry of listed) {
+      const others = listed.filter(other => other !== entry).map(other => other.slug);
+      diagnostics.push(createDiagnostic("XSP002", {
+        message: `${file} is also listed in the Code Anatomy of ${others.join(", ")}`,
+        suggestedFix: "Coordinate the changes to this file or implement them in sequence to avoid merge conflicts",
+        line: entry.line,
+        file: path.join(specDirectory(entry.slug, config.specRoot), "design.md")
+      }));
+    }
+  }
+
+  return {
+    valid: !hasErrors(diagnostics),
+    diagnostics,
+    specs,
+    sharedFiles
+  };
+}
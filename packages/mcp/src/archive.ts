@@ -0,0 +1,346 @@
+/**
+ * Spec lifecycle: completed changes are archived and their requirements merged
+ * into living capability specs.
+ *
+ * A change under `specs/changes/<slug>/` moves to `specs/archive/<date>-<slug>/`,
+ * and its requirements are appended to `specs/capabilities/<name>/requirements.md`
+ * with requirement numbers continuing after the highest existing one. The delta
+ * sections of a change to an existing capability modify or remove its requirements.
+ */
+import fs from "fs/promises";
+import path from "path";
+import { applyConfig, DEFAULT_CONFIG, type SpecDrivenConfig } from "./config.js";
+import { baselineFile } from "./delta.js";
+import { createDiagnostic, hasErrors, type Diagnostic } from "./diagnostics.js";
+import { lifecycleDirectories, readSpecFiles, SLUG_PATTERN, specDirectory } from "./spec-files.js";
+import {
+  findSection,
+  parseRequirements,
+  parseTasks,
+  type IdPrefixes,
+  type MarkdownDocument,
+  type MarkdownSection,
+  type Requirement,
+  type RequirementsModel
+} from "./spec-model.js";
+import { isTaskDone } from "./task-graph.js";
+import { verifyCompleteSpec, verifyRequirementsFile } from "./validators.js";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Rewrites requirement numbers in the lines of a requirement block: `Requirement N`
+ * headings, explicit criterion labels (`1.2`) and prefixed IDs (`REQ-1`, `REQ-1.2`).
+ */
+function renumberLines(lines: string[], numbers: Map<number, number>, prefix: string): string[] {
+  const map = (value: string) => String(numbers.get(parseInt(value, 10)) ?? value);
+  const reference = new RegExp(`\\b${escapeRegExp(prefix)}-(\\d+)(?![\\d])`, "g");
+  const heading = /^(#{3,6}\s+(?:\*\*)?Requirement\s+)(\d+)/i;
+  const label = /^(\s*(?:(?:[-*+]|\d+[.)])\s+)?(?:\*\*)?)(\d+)\.(\d+)(?!\d)/;
+
+  return lines.map(line => line
+    .replace(heading, (_match, start: string, number: string) => `${start}${map(number)}`)
+    .replace(label, (_match, start: string, number: string, criterion: string) => `${start}${map(number)}.${criterion}`)
+    .replace(reference, (_match, number: string) => `${prefix}-${map(number)}`));
+}
+
+/**
+ * Returns the rows of the first table in the Glossary section, keyed by the lower-cased term.
+ */
+function glossaryRows(document: MarkdownDocument): Map<string, string[]> {
+  const rows = new Map<string, string[]>();
+  const section = findSection(document, "Glossary", 2);
+  const table = section && document.tables.find(candidate => candidate.line > section.line && candidate.line <= section.endLine);
+  for (const row of table?.rows || []) {
+    if (row.cells[0]) rows.set(row.cells[0].toLowerCase(), row.cells);
+  }
+  return rows;
+}
+
+function capabilitySkeleton(name: string): string {
+  return `# Requirements Document
+
+## Introduction
+
+Living specification of the ${name} capability. Requirements are merged from
+archived changes; each one names the change it came from.
+
+## Glossary
+
+| Term | Definition |
+|------|------------|
+
+## Requirements
+`;
+}
+
+const BLANK_OR_RULE = /^\s*(?:---+)?\s*$/;
+
+/**
+ * Returns the line after the last content line of a section, skipping trailing
+ * blank lines and horizontal rules.
+ */
+function contentEnd(lines: string[], section: MarkdownSection): number {
+  let end = section.endLine;
+  while (end > section.line && BLANK_OR_RULE.test(lines[end - 1])) end--;
+  return end;
+}
+
+/**
+ * Merges the requirements of a change into a capability requirements.md. New and
+ * added requirements are appended and renumbered after the highest existing
+ * requirement number; modified requirements replace, and removed requirements
+ * drop, the capability requirement with the same ID. Removed requirements that the
+ * capability does not have are never appended; they are listed as `unknownRemoved`.
+ * Glossary terms that the capability does not define yet are added to its glossary table.
+ */
+export function mergeRequirements(
+  capabilityContent: string,
+  change: RequirementsModel,
+  source: string,
+  prefixes: IdPrefixes = DEFAULT_CONFIG.idPrefixes
+): {
+  content: string;
+  renumbered: { from: string; to: string }[];
+  modified: string[];
+  removed: string[];
+  unknownRemoved: Requirement[];
+} {
+  const capability = parseRequirements(capabilityContent, prefixes);
+  const existing = new Map(capability.requirements.map(req => [req.id, req]));
+  const replaces = (req: Requirement) => (req.delta === "modified" || req.delta === "removed") && existing.has(req.id);
+  const appended = change.requirements.filter(req => !replaces(req) && req.delta !== "removed");
+
+  let next = Math.max(0, ...capability.requirements.map(req => req.number)) + 1;
+  const numbers = new Map<number, number>();
+  for (const req of appended) {
+    if (!numbers.has(req.number)) numbers.set(req.number, next++);
+  }
+
+  const lines = capability.document.lines.slice();
+  const changeLines = change.document.lines;
+
+  // Requirement blocks, with the source change noted below each heading
+  const blockOf = (req: Requirement) => {
+    const block = changeLines.slice(req.section.line - 1, contentEnd(changeLines, req.section));
+    const [heading, ...body] = renumberLines(block, numbers, prefixes.requirement);
+    return [heading, "", `_Source: ${source} (${req.id})_`, ...body];
+  };
+  const blocks = appended.flatMap(req => ["", ...blockOf(req)]);
+
+  const insertions: { at: number; remove: number; lines: string[] }[] = [];
+
+  // Modified requirements replace their capability block, removed ones drop it with one blank line
+  for (const req of change.requirements.filter(replaces)) {
+    const section = existing.get(req.id)?.section;
+    if (!section) continue;
+    const end = contentEnd(lines, section);
+    const trailingBlank = req.delta === "removed" && end < lines.length && lines[end].trim() === "" ? 1 : 0;
+    insertions.push({
+      at: section.line - 1,
+      remove: end - section.line + 1 + trailingBlank,
+      lines: req.delta === "modified" ? blockOf(req) : []
+    });
+  }
+
+  // Requirements go to the end of the Requirements section, which is added when missing
+  const requirementsSection = findSection(capability.document, "Requirements", 2);
+  const floor = requirementsSection ? requirementsSection.line : 0;
+  let insertAt = requirementsSection ? requirementsSection.endLine : lines.length;
+  while (insertAt > floor && BLANK_OR_RULE.test(lines[insertAt - 1])) insertAt--;
+  const separator = (lines[insertAt] ?? "").trim() === "" ? [] : [""];
+  if (blocks.length > 0) {
+    insertions.push({ at: insertAt, remove: 0, lines: [...(requirementsSection ? [] : ["", "## Requirements"]), ...blocks, ...separator] });
+  }
+
+  // New glossary terms go after the last row of the capability glossary table
+  const known = glossaryRows(capability.document);
+  const newTerms = [...glossaryRows(change.document).entries()]
+    .filter(([term]) => !known.has(term))
+    .map(([, cells]) => `| ${cells.join(" | ")} |`);
+  const glossary = findSection(capability.document, "Glossary", 2);
+  const table = glossary && capability.document.tables.find(candidate => candidate.line > glossary.line && candidate.line <= glossary.endLine);
+  if (table && newTerms.length > 0) {
+    insertions.push({ at: table.rows.length > 0 ? table.rows[table.rows.length - 1].line : table.line + 1, remove: 0, lines: newTerms });
+  }
+
+  // Later insertions first, so that earlier line numbers stay valid
+  for (const insertion of insertions.sort((a, b) => b.at - a.at)) {
+    lines.splice(insertion.at, insertion.remove, ...insertion.lines);
+  }
+
+  return {
+    content: lines.join("\n").replace(/\n*$/, "\n"),
+    renumbered: appended.map(req => ({
+      from: req.id,
+      to: `${prefixes.requirement}-${numbers.get(req.number)}`
+    })),
+    modified: change.requirements.filter(req => req.delta === "modified" && replaces(req)).map(req => req.id),
+    removed: change.requirements.filter(req => req.delta === "removed" && replaces(req)).map(req => req.id),
+    unknownRemoved: change.requirements.filter(req => req.delta === "removed" && !replaces(req))
+  };
+}
+
+/**
+ * Tool: archive_spec
+ * Archives a completed change and merges its requirements into a capability spec:
+ * the named capability, else the baseline of a delta spec, else the capability named after the slug
+ */
+export async function archiveSpec(
+  slug: string,
+  capability?: string,
+  targetDir: string = process.cwd(),
+  config: SpecDrivenConfig = DEFAULT_CONFIG,
+  date: string = new Date().toISOString().slice(0, 10)
+): Promise<{
+  valid: boolean;
+  archived: boolean;
+  archivePath?: string;
+  capabilityFile?: string;
+  renumbered: { from: string; to: string }[];
+  modified: string[];
+  removed: string[];
+  diagnostics: Diagnostic[];
+}> {
+  const diagnostics: Diagnostic[] = [];
+  const refused = () => ({ valid: false, archived: false, renumbered: [], modified: [], removed: [], diagnostics });
+
+  const names = capability !== undefined ? [["slug", slug], ["capability name", capability]] : [["slug", slug]];
+  for (const [kind, value] of names) {
+    if (!SLUG_PATTERN.test(value)) {
+      diagnostics.push(createDiagnostic("STR005", {
+        message: `Invalid ${kind}: "${value}"`,
+        suggestedFix: "Use a kebab-case name of lowercase letters and digits, e.g. rate-limiter"
+      }));
+    }
+  }
+  if (!DATE_PATTERN.test(date)) {
+    diagnostics.push(createDiagnostic("STR005", {
+      message: `Invalid archive date: "${date}"`,
+      suggestedFix: "Use the YYYY-MM-DD format, e.g. 2025-01-31"
+    }));
+  }
+  if (diagnostics.length > 0) return refused();
+
+  // The change must be complete: valid, fully traced and with every task done
+  const relativeDir = specDirectory(slug, config.specRoot);
+  const verification = applyConfig(await verifyCompleteSpec(slug, targetDir, config), config);
+  const contents = await readSpecFiles(slug, targetDir, config.specRoot);
+  const openTasks = contents["tasks.md"] !== undefined
+    ? parseTasks(contents["tasks.md"], config.idPrefixes).tasks
+      .filter(task => task.subtasks.length === 0 && !isTaskDone(task))
+      .map(task => task.id)
+    : [];
+
+  if (!verification.valid) {
+    diagnostics.push(...verification.diagnostics.filter(diagnostic => diagnostic.severity === "error"));
+    diagnostics.push(createDiagnostic("ARC001", {
+      message: `Spec '${slug}' does not pass validation`,
+      suggestedFix: "Fix the errors reported for the spec before archiving it",
+      file: relativeDir
+    }));
+  } else if (!verification.traceabilityReport.complete) {
+    diagnostics.push(createDiagnostic("ARC001", {
+      message: `Spec '${slug}' has incomplete traceability`,
+      suggestedFix: "Cover every acceptance criterion and design element (see get_traceability_matrix)",
+      file: relativeDir
+    }));
+  }
+  if (openTasks.length > 0) {
+    diagnostics.push(createDiagnostic("ARC001", {
+      message: `Spec '${slug}' has tasks that are not done: ${openTasks.join(", ")}`,
+      suggestedFix: "Complete the remaining tasks (see get_next_task) before archiving",
+      file: path.join(relativeDir, "tasks.md")
+    }));
+  }
+  if (diagnostics.length > 0) return refused();
+
+  const directories = lifecycleDirectories(config.specRoot);
+  const archivePath = path.join(directories.archive, `${date}-${slug}`);
+  const changeModel = parseRequirements(contents["requirements.md"] ?? "", config.idPrefixes);
+  const capabilityFile = capability === undefined && changeModel.baseline
+    ? baselineFile(changeModel.baseline.value, config.specRoot)
+    : path.join(directories.capabilities, capability ?? slug, "requirements.md");
+  // Archiving writes the merged spec, which must stay a capability spec
+  const relativeToCapabilities = path.relative(directories.capabilities, capabilityFile);
+  if (relativeToCapabilities.startsWith("..") || path.isAbsolute(relativeToCapabilities)) {
+    diagnostics.push(createDiagnostic("ARC003", {
+      message: `Baseline ${capabilityFile} is not a capability spec under ${directories.capabilities}`,
+      suggestedFix: "Name a capability in the **Baseline:** line, or pass the capability to merge into",
+      line: changeModel.baseline?.line,
+      file: path.join(relativeDir, "requirements.md")
+    }));
+    return refused();
+  }
+  try {
+    await fs.access(path.join(targetDir, archivePath));
+    diagnostics.push(createDiagnostic("ARC002", {
+      message: `Archive folder ${archivePath} already exists`,
+      suggestedFix: "Archive the change under another date or remove the existing archive folder",
+      file: archivePath
+    }));
+    return refused();
+  } catch {
+    // The archive folder is free
+  }
+
+  // Merge into the capability spec
+  let previous: string | undefined;
+  try {
+    previous = await fs.readFile(path.join(targetDir, capabilityFile), "utf-8");
+  } catch {
+    previous = undefined;
+  }
+  const merged = mergeRequirements(
+    previous ?? capabilitySkeleton(path.basename(path.dirname(capabilityFile))),
+    changeModel,
+    archivePath.split(path.sep).join("/"),
+    config.idPrefixes
+  );
+  // A removed requirement that the capability does not have would otherwise be lost silently
+  for (const req of merged.unknownRemoved) {
+    diagnostics.push(createDiagnostic("DLT001", {
+      message: `Removed requirement ${req.id} does not exist in ${capabilityFile}`,
+      suggestedFix: "Remove it from the Removed Requirements section, or archive into the capability that defines it",
+      line: req.section.line,
+      file: path.join(relativeDir, "requirements.md")
+    }));
+  }
+  if (diagnostics.length > 0) return refused();
+
+  try {
+    await fs.mkdir(path.join(targetDir, path.dirname(capabilityFile)), { recursive: true });
+    await fs.writeFile(path.join(targetDir, capabilityFile), merged.content, "utf-8");
+    await fs.mkdir(path.join(targetDir, directories.archive), { recursive: true });
+    await fs.rename(path.join(targetDir, relativeDir), path.join(targetDir, archivePath));
+  } catch (error) {
+    // Leave the capability spec as it was when the change cannot be moved
+    if (previous !== undefined) {
+      await fs.writeFile(path.join(targetDir, capabilityFile), previous, "utf-8").catch(() => undefined);
+    } else {
+      await fs.rm(path.join(targetDir, capabilityFile), { force: true }).catch(() => undefined);
+    }
+    diagnostics.push(createDiagnostic("STR004", {
+      message: `Cannot archive ${relativeDir}: ${(error as Error).message}`,
+      suggestedFix: "Check the permissions of the specs folder",
+      file: relativeDir
+    }));
+    return refused();
+  }
+
+  diagnostics.push(...verifyRequirementsFile(merged.content, capabilityFile, config).diagnostics);
+  return {
+    valid: !hasErrors(diagnostics),
+    archived: true,
+    archivePath,
+    capabilityFile,
+    renumbered: merged.renumbered,
+    modified: merged.modified,
+    removed: merged.removed,
+    diagnostics
+  };
+}
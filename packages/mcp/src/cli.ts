@@ -0,0 +1,57 @@
+#!/usr/bin/env node
+/**
+ * Entry point of the MCP server. Serves stdio by default; `--http [--port N]
+ * [--host H]` serves MCP Streamable HTTP instead, shared by several clients.
+ * `--root <dir>` sets the workspace of clients that do not send roots; over
+ * HTTP, it also bounds the roots that clients send. Each session watches the
+ * spec files of its own roots.
+ */
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { DEFAULT_HTTP_HOST, DEFAULT_HTTP_PORT, startHttpServer } from "./http.js";
+import { createServer } from "./server.js";
+
+function parseOptions(): { http: boolean; port: number; host: string; root: string } {
+  const { values } = parseArgs({
+    options: {
+      http: { type: "boolean", default: false },
+      port: { type: "string", default: String(DEFAULT_HTTP_PORT) },
+      host: { type: "string", default: DEFAULT_HTTP_HOST },
+      root: { type: "string", default: process.cwd() }
+    }
+  });
+  const port = Number(values.port);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid port: ${values.port}. Use a number between 1 and 65535.`);
+  }
+  const root = path.resolve(values.root);
+  if (!fs.statSync(root, { throwIfNoEntry: false })?.isDirectory()) {
+    throw new Error(`Invalid root: ${values.root} is not a directory.`);
+  }
+  return { http: values.http, port, host: values.host, root };
+}
+
+async function main() {
+  const options = parseOptions();
+
+  if (options.http) {
+    const httpServer = await startHttpServer(() => createServer({ root: options.root, confineToRoot: true }), options);
+    for (const signal of ["SIGINT", "SIGTERM"] as const) {
+      process.once(signal, () => {
+        httpServer.close().finally(() => process.exit(0));
+      });
+    }
+    console.error(`Spec Driven Asteroids MCP Server running on ${httpServer.url}`);
+  } else {
+    const instance = createServer({ root: options.root });
+    await instance.server.connect(new StdioServerTransport());
+    console.error("Spec Driven Asteroids MCP Server running on stdio");
+  }
+}
+
+main().catch((error) => {
+  console.error("Fatal error in MCP Server:", error);
+  process.exit(1);
+});
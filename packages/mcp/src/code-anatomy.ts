@@ -0,0 +1,164 @@
+/**
+ * Checks of the Code Anatomy and Impact Analysis tables of design.md.
+ *
+ * Every Code Anatomy path must exist in the project unless the row marks it as
+ * new, a path marked as new must not exist yet, and no path may leave the
+ * project. Its Implements column must name design elements of the spec. A
+ * design that modifies existing files needs an Impact Analysis section with the
+ * affected files and the sub-tables of the design template.
+ */
+import fs from "fs/promises";
+import path from "path";
+import { createDiagnostic, type Diagnostic } from "./diagnostics.js";
+import { DEFAULT_ID_PREFIXES, type DesignModel, type IdPrefixes } from "./spec-model.js";
+import { resolveInWorkspace } from "./workspace.js";
+
+/** Subsections of the Impact Analysis template that hold a table */
+export const IMPACT_ANALYSIS_TABLES = ["Breaking Changes", "Dependencies", "Risk Assessment", "Testing Requirements", "Rollback Plan"];
+
+export interface CodeAnatomyReport {
+  /** Listed paths that exist in the project */
+  existing: string[];
+  /** Listed paths marked as new */
+  created: string[];
+  /** Listed paths that neither exist nor are marked as new */
+  missing: string[];
+}
+
+/**
+ * Tests whether an affected area names a file or folder rather than an endpoint,
+ * a service or a URL.
+ */
+function isFilePath(area: string): boolean {
+  return !/\s/.test(area)
+    && !area.startsWith("/")
+    && !area.includes("://")
+    && (area.includes("/") || /\.\w+$/.test(area));
+}
+
+/**
+ * Tests whether a listed path exists. Paths outside the target directory are
+ * reported instead of tested, so that a design cannot probe other files.
+ */
+async function checkPath(
+  targetDir: string,
+  file: string,
+  line: number,
+  table: string
+): Promise<{ exists: boolean; diagnostics: Diagnostic[] }> {
+  if ((await resolveInWorkspace(file, [targetDir])).path === undefined) {
+    return {
+      exists: false,
+      diagnostics: [createDiagnostic("ANA006", {
+        message: `${table} path ${file} is outside the project`,
+        suggestedFix: "List files of the project with paths relative to its root",
+        line
+      })]
+    };
+  }
+  return { exists: await fs.stat(path.resolve(targetDir, file)).then(() => true, () => false), diagnostics: [] };
+}
+
+/**
+ * Checks that the Implements column of the Code Anatomy table names design
+ * elements defined in design.md.
+ */
+export function checkCodeAnatomyReferences(model: DesignModel, prefixes: IdPrefixes = DEFAULT_ID_PREFIXES): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const elementIds = new Set(model.elements.map(element => element.id));
+  for (const entry of model.codeAnatomy || []) {
+    if (entry.implements.length === 0) {
+      diagnostics.push(createDiagnostic("ANA002", {
+        message: `Code Anatomy entry ${entry.path} does not name a design element`,
+        suggestedFix: `Add the ${prefixes.design}-X IDs that ${entry.path} implements to its Implements column`,
+        line: entry.line
+      }));
+    }
+    for (const id of entry.implements.filter(id => !elementIds.has(id))) {
+      diagnostics.push(createDiagnostic("ANA002", {
+        message: `Code Anatomy entry ${entry.path} implements undefined design element ${id}`,
+        suggestedFix: `Fix the reference or add a ### ${id}: <Component Name> section`,
+        line: entry.line
+      }));
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Checks the Code Anatomy and Impact Analysis paths against the files of the
+ * project, and the Impact Analysis section of designs that modify existing files.
+ */
+export async function checkCodeAnatomyPaths(
+  model: DesignModel,
+  targetDir: string = process.cwd()
+): Promise<{ diagnostics: Diagnostic[]; report: CodeAnatomyReport }> {
+  const diagnostics: Diagnostic[] = [];
+  const report: CodeAnatomyReport = { existing: [], created: [], missing: [] };
+
+  // Glob patterns name groups of files and are not checked
+  for (const entry of (model.codeAnatomy || []).filter(entry => !/[*?{]/.test(entry.path))) {
+    const { exists, diagnostics: outside } = await checkPath(targetDir, entry.path, entry.line, "Code Anatomy");
+    if (outside.length > 0) {
+      diagnostics.push(...outside);
+    } else if (entry.isNew && exists) {
+      // The change modifies the file rather than creating it
+      report.existing.push(entry.path);
+      diagnostics.push(createDiagnostic("ANA005", {
+        message: `Code Anatomy path ${entry.path} is marked as new but already exists`,
+        suggestedFix: `Remove the (new) mark of ${entry.path} and list it in the Impact Analysis, or name the file to create`,
+        line: entry.line
+      }));
+    } else if (entry.isNew) {
+      report.created.push(entry.path);
+    } else if (exists) {
+      report.existing.push(entry.path);
+    } else {
+      report.missing.push(entry.path);
+      diagnostics.push(createDiagnostic("ANA001", {
+        message: `Code Anatomy path ${entry.path} does not exist`,
+        suggestedFix: `Fix the path, or mark a file to create as new: | ${entry.path} (new) | ... |`,
+        line: entry.line
+      }));
+    }
+  }
+
+  const impact = model.impactAnalysis;
+  for (const entry of (impact?.affected || []).filter(entry => isFilePath(entry.area) && !/[*?{]/.test(entry.area))) {
+    const { exists, diagnostics: outside } = await checkPath(targetDir, entry.area, entry.line, "Impact Analysis");
+    diagnostics.push(...outside);
+    if (outside.length === 0 && !exists) {
+      diagnostics.push(createDiagnostic("ANA001", {
+        message: `Impact Analysis path ${entry.area} does not exist`,
+        suggestedFix: "List the existing files affected by the change, or fix the path",
+        line: entry.line
+      }));
+    }
+  }
+
+  // Existing files listed in the Code Anatomy are modified by the change
+  if (report.existing.length > 0) {
+    const modified = report.existing.join(", ");
+    if (!impact || impact.affected.length === 0) {
+      diagnostics.push(createDiagnostic("ANA003", {
+        message: impact
+          ? `Impact Analysis has no table of affected areas, but the design modifies ${modified}`
+          : `Impact Analysis section not found, but the design modifies ${modified}`,
+        suggestedFix: "Add ## Impact Analysis with an | Affected Area | Impact Level | Notes | table of the modified files",
+        line: impact?.line
+      }));
+    }
+    if (impact) {
+      const present = new Set(impact.tables.map(title => title.toLowerCase()));
+      for (const title of IMPACT_ANALYSIS_TABLES.filter(title => !present.has(title.toLowerCase()))) {
+        diagnostics.push(createDiagnostic("ANA004", {
+          message: `Impact Analysis has no ${title} table`,
+          suggestedFix: `Add a ### ${title} subsection with a table to the Impact Analysis`,
+          line: impact.line
+        }));
+      }
+    }
+  }
+
+  return { diagnostics, report };
+}
@@ -0,0 +1,367 @@
+/**
+ * Project-level validation settings read from `.spec-driven.json` in the target directory.
+ *
+ * Every setting is optional; missing settings fall back to the conventions of the
+ * standards templates. The file itself is validated, and problems are reported as
+ * CFG diagnostics while the defaults are used for the invalid settings.
+ */
+import fs from "fs/promises";
+import path from "path";
+import { createDiagnostic, hasErrors, RULES, type Diagnostic, type Severity } from "./diagnostics.js";
+import { loadPlugins, type CustomRule } from "./plugins.js";
+import { DEFAULT_SPEC_ROOT } from "./spec-files.js";
+import { DEFAULT_ID_PREFIXES, type IdPrefixes } from "./spec-model.js";
+
+export const CONFIG_FILE = ".spec-driven.json";
+
+export type SpecDocument = "requirements" | "design" | "tasks";
+
+export interface DocumentSections {
+  /** Level-2 sections that must be present */
+  required: string[];
+  /** Level-2 sections that may be present; any other section is reported as unknown */
+  optional: string[];
+}
+
+/** Files scanned by verify_implementation_coverage, as glob patterns relative to the target directory */
+export interface CoverageSettings {
+  include: string[];
+  exclude: string[];
+  /** Files whose references count as tests rather than implementing code */
+  tests: string[];
+}
+
+/** Word lists of the requirements quality checks; matched case-insensitively as whole words */
+export interface QualitySettings {
+  /** Vague wording that cannot be tested, e.g. "fast" or "etc." */
+  vagueTerms: string[];
+  /** Performance claims that need a number, e.g. "latency" */
+  performanceTerms: string[];
+  /** Markers of unfinished text, e.g. "TBD" */
+  placeholders: string[];
+}
+
+export type RuleSetting = "off" | Severity | { enabled?: boolean; severity?: Severity };
+
+export interface SpecDrivenConfig {
+  /** Folder holding the spec folders, relative to the target directory */
+  specRoot: string;
+  idPrefixes: IdPrefixes;
+  sections: Record<SpecDocument, DocumentSections>;
+  /** Glob patterns of extra files allowed in a spec folder, e.g. "notes.md" or "diagrams/**" */
+  allowedExtraFiles: string[];
+  /** Rule code → "off", a severity, or { enabled, severity } */
+  rules: Record<string, RuleSetting>;
+  coverage: CoverageSettings;
+  quality: QualitySettings;
+  /** Custom rule modules, relative to the target directory */
+  plugins: string[];
+  /** Rules loaded from the plugin modules */
+  customRules: CustomRule[];
+}
+
+export const DEFAULT_CONFIG: SpecDrivenConfig = {
+  specRoot: DEFAULT_SPEC_ROOT,
+  idPrefixes: DEFAULT_ID_PREFIXES,
+  sections: {
+    requirements: {
+      required: ["Introduction", "Glossary", "Requirements"],
+      optional: []
+    },
+    design: {
+      required: ["Overview", "System Architecture", "Code Anatomy"],
+      optional: ["Data Models", "Error Handling", "Impact Analysis", "Traceability Matrix"]
+    },
+    tasks: {
+      required: ["Overview"],
+      optional: []
+    }
+  },
+  allowedExtraFiles: [],
+  coverage: {
+    include: ["**/*"],
+    exclude: ["**/node_modules/**"],
+    tests: ["**/*.{test,spec}.*", "**/*_test.*", "**/test_*.py", "**/{test,tests,__tests__}/**"]
+  },
+  quality: {
+    vagueTerms: [
+      "fast", "quick", "quickly", "slow", "user-friendly", "easy", "easily", "simple", "intuitive",
+      "appropriate", "appropriately", "adequate", "reasonable", "sufficient", "efficient", "efficiently",
+      "robust", "seamless", "seamlessly", "flexible", "as needed", "if possible", "etc.", "and/or"
+    ],
+    performanceTerms: [
+      "performance", "performant", "latency", "response time", "throughput", "responsive",
+      "real-time", "real time", "scalable", "high availability", "highly available"
+    ],
+    placeholders: ["TBD", "TBC", "TODO", "FIXME", "???"]
+  },
+  rules: {},
+  plugins: [],
+  customRules: []
+};
+
+const SEVERITIES: Severity[] = ["error", "warning", "info"];
+const PREFIX_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+const TYPESCRIPT_MODULE_PATTERN = /\.[cm]?tsx?$/i;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === "string" && item.trim() !== "");
+}
+
+function isInsideProject(relativePath: string): boolean {
+  return !path.isAbsolute(relativePath) && !relativePath.split(/[\\/]/).includes("..");
+}
+
+/**
+ * Validates a parsed configuration object and merges it with the defaults.
+ * Rule settings may also refer to the codes of custom rules.
+ */
+export function validateConfig(
+  raw: unknown,
+  file: string = CONFIG_FILE,
+  customRuleCodes: string[] = []
+): { config: SpecDrivenConfig; diagnostics: Diagnostic[] } {
+  const diagnostics: Diagnostic[] = [];
+  const invalid = (key: string, message: string, suggestedFix: string) =>
+    diagnostics.push(createDiagnostic("CFG001", { message: `${key}: ${message}`, suggestedFix, file }));
+  const unknown = (key: string, known: string[]) =>
+    diagnostics.push(createDiagnostic("CFG002", {
+      message: `Unknown setting ${key}`,
+      suggestedFix: `Remove it or use one of: ${known.join(", ")}`,
+      file
+    }));
+
+  const config: SpecDrivenConfig = {
+    ...DEFAULT_CONFIG,
+    sections: { ...DEFAULT_CONFIG.sections },
+    coverage: { ...DEFAULT_CONFIG.coverage },
+    quality: { ...DEFAULT_CONFIG.quality },
+    rules: {}
+  };
+
+  if (!isObject(raw)) {
+    invalid("(root)", "expected a JSON object", "Wrap the settings in { ... }");
+    return { config, diagnostics };
+  }
+
+  const topLevel = ["$schema", "specRoot", "idPrefixes", "sections", "allowedExtraFiles", "coverage", "quality", "rules", "plugins"];
+  for (const key of Object.keys(raw).filter(key => !topLevel.includes(key))) {
+    unknown(key, topLevel.slice(1));
+  }
+
+  if (raw.specRoot !== undefined) {
+    const specRoot = raw.specRoot;
+    if (typeof specRoot !== "string" || !specRoot.trim()) {
+      invalid("specRoot", "expected a non-empty string", "Use a relative folder such as \"specs/changes\"");
+    } else if (!isInsideProject(specRoot)) {
+      invalid("specRoot", `"${specRoot}" must stay inside the project`, "Use a relative folder without \"..\" segments");
+    } else {
+      config.specRoot = path.normalize(specRoot).replace(/[\\/]+$/, "");
+    }
+  }
+
+  if (raw.idPrefixes !== undefined) {
+    if (!isObject(raw.idPrefixes)) {
+      invalid("idPrefixes", "expected an object", "Use { \"requirement\": \"REQ\", \"design\": \"DES\" }");
+    } else {
+      const prefixes = { ...DEFAULT_ID_PREFIXES };
+      for (const key of Object.keys(raw.idPrefixes)) {
+        const value = raw.idPrefixes[key];
+        if (key !== "requirement" && key !== "design") {
+          unknown(`idPrefixes.${key}`, ["requirement", "design"]);
+        } else if (typeof value !== "string" || !PREFIX_PATTERN.test(value)) {
+          invalid(`idPrefixes.${key}`, `invalid prefix ${JSON.stringify(value)}`, "Use letters, digits and underscores starting with a letter, e.g. \"REQ\"");
+        } else {
+          prefixes[key] = value;
+        }
+      }
+      if (prefixes.requirement === prefixes.design) {
+        invalid("idPrefixes", "requirement and design prefixes must differ", "Use distinct prefixes such as REQ and DES");
+      } else {
+        config.idPrefixes = prefixes;
+      }
+    }
+  }
+
+  if (raw.sections !== undefined) {
+    if (!isObject(raw.sections)) {
+      invalid("sections", "expected an object", "Use { \"design\": { \"required\": [...], \"optional\": [...] } }");
+    } else {
+      const documents = Object.keys(DEFAULT_CONFIG.sections) as SpecDocument[];
+      for (const key of Object.keys(raw.sections)) {
+        const value = raw.sections[key];
+        if (!(documents as string[]).includes(key)) {
+          unknown(`sections.${key}`, documents);
+          continue;
+        }
+        if (!isObject(value)) {
+          invalid(`sections.${key}`, "expected an object", "Use { \"required\": [...], \"optional\": [...] }");
+          continue;
+        }
+        const sections = { ...DEFAULT_CONFIG.sections[key as SpecDocument] };
+        for (const listKey of Object.keys(value)) {
+          if (listKey !== "required" && listKey !== "optional") {
+            unknown(`sections.${key}.${listKey}`, ["required", "optional"]);
+          } else if (!isStringArray(value[listKey])) {
+            invalid(`sections.${key}.${listKey}`, "expected an array of section titles", "List the level-2 section titles, e.g. [\"Overview\"]");
+          } else {
+            sections[listKey] = value[listKey] as string[];
+          }
+        }
+        config.sections[key as SpecDocument] = sections;
+      }
+    }
+  }
+
+  if (raw.allowedExtraFiles !== undefined) {
+    if (!isStringArray(raw.allowedExtraFiles)) {
+      invalid("allowedExtraFiles", "expected an array of glob patterns", "Use e.g. [\"notes.md\", \"diagrams/**\"]");
+    } else {
+      config.allowedExtraFiles = raw.allowedExtraFiles;
+    }
+  }
+
+  if (raw.coverage !== undefined) {
+    if (!isObject(raw.coverage)) {
+      invalid("coverage", "expected an object", "Use { \"include\": [\"src/**\"], \"tests\": [\"**/*.test.ts\"] }");
+    } else {
+      const keys = Object.keys(DEFAULT_CONFIG.coverage) as (keyof CoverageSettings)[];
+      for (const key of Object.keys(raw.coverage)) {
+        const value = raw.coverage[key];
+        if (!(keys as string[]).includes(key)) {
+          unknown(`coverage.${key}`, keys);
+        } else if (!isStringArray(value)) {
+          invalid(`coverage.${key}`, "expected an array of glob patterns", "Use e.g. [\"src/**\"]");
+        } else {
+          config.coverage[key as keyof CoverageSettings] = value;
+        }
+      }
+    }
+  }
+
+  if (raw.quality !== undefined) {
+    if (!isObject(raw.quality)) {
+      invalid("quality", "expected an object", "Use { \"vagueTerms\": [\"fast\", \"etc.\"] }");
+    } else {
+      const keys = Object.keys(DEFAULT_CONFIG.quality) as (keyof QualitySettings)[];
+      for (const key of Object.keys(raw.quality)) {
+        const value = raw.quality[key];
+        if (!(keys as string[]).includes(key)) {
+          unknown(`quality.${key}`, keys);
+        } else if (!isStringArray(value)) {
+          invalid(`quality.${key}`, "expected an array of words", "Use e.g. [\"fast\", \"user-friendly\"]");
+        } else {
+          config.quality[key as keyof QualitySettings] = value;
+        }
+      }
+    }
+  }
+
+  if (raw.plugins !== undefined) {
+    if (!isStringArray(raw.plugins)) {
+      invalid("plugins", "expected an array of module paths", "Use e.g. [\"spec-rules/house-rules.js\"]");
+    } else {
+      const outside = raw.plugins.filter(modulePath => !isInsideProject(modulePath));
+      const typescript = raw.plugins.filter(modulePath => TYPESCRIPT_MODULE_PATTERN.test(modulePath));
+      if (outside.length > 0) {
+        invalid("plugins", `${outside.join(", ")} must stay inside the project`, "Use module paths relative to the project without \"..\" segments");
+      } else if (typescript.length > 0) {
+        invalid("plugins", `${typescript.join(", ")} cannot be imported without a TypeScript loader`, "Compile the plugins to JavaScript and list the .js files");
+      } else {
+        config.plugins = raw.plugins;
+      }
+    }
+  }
+
+  if (raw.rules !== undefined) {
+    if (!isObject(raw.rules)) {
+      invalid("rules", "expected an object", "Use { \"DES007\": \"off\", \"TSK006\": \"error\" }");
+    } else {
+      for (const [code, setting] of Object.entries(raw.rules)) {
+        const validSetting = setting === "off" || SEVERITIES.includes(setting as Severity) || (
+          isObject(setting) &&
+          Object.keys(setting).every(key => key === "enabled" || key === "severity") &&
+          (setting.enabled === undefined || typeof setting.enabled === "boolean") &&
+          (setting.severity === undefined || SEVERITIES.includes(setting.severity as Severity))
+        );
+        const known = customRuleCodes.includes(code) || (RULES[code] && !code.startsWith("CFG"));
+        if (!known) {
+          invalid(`rules.${code}`, "unknown rule code", "Use a rule code reported by the validators, e.g. DES007");
+        } else if (!validSetting) {
+          invalid(`rules.${code}`, `invalid setting ${JSON.stringify(setting)}`, "Use \"off\", \"error\", \"warning\", \"info\" or { \"enabled\": false, \"severity\": \"warning\" }");
+        } else {
+          config.rules[code] = setting as RuleSetting;
+        }
+      }
+    }
+  }
+
+  return { config, diagnostics };
+}
+
+/**
+ * Reads `.spec-driven.json` from the target directory and loads its plugins.
+ * A missing file yields the defaults.
+ */
+export async function loadConfig(targetDir: string = process.cwd()): Promise<{ config: SpecDrivenConfig; diagnostics: Diagnostic[] }> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(targetDir, CONFIG_FILE), "utf-8");
+  } catch {
+    return { config: DEFAULT_CONFIG, diagnostics: [] };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    return {
+      config: DEFAULT_CONFIG,
+      diagnostics: [createDiagnostic("CFG001", {
+        message: `Invalid JSON: ${(error as Error).message}`,
+        suggestedFix: `Fix the syntax of ${CONFIG_FILE}`,
+        file: CONFIG_FILE
+      })]
+    };
+  }
+
+  // Rule settings can only be checked once the plugin rule codes are known
+  const { plugins } = validateConfig(raw).config;
+  const loaded = await loadPlugins(plugins, targetDir, CONFIG_FILE);
+  const { config, diagnostics } = validateConfig(raw, CONFIG_FILE, loaded.rules.map(rule => rule.code));
+  return {
+    config: { ...config, customRules: loaded.rules },
+    diagnostics: [...diagnostics, ...loaded.diagnostics]
+  };
+}
+
+/**
+ * Drops diagnostics of disabled rules and applies severity overrides.
+ */
+export function applyRuleSettings(diagnostics: Diagnostic[], config: SpecDrivenConfig): Diagnostic[] {
+  return diagnostics.flatMap(diagnostic => {
+    const setting = config.rules[diagnostic.code];
+    if (setting === undefined) return [diagnostic];
+    if (setting === "off" || (typeof setting === "object" && setting.enabled === false)) return [];
+    const severity = typeof setting === "string" ? setting : setting.severity;
+    return [severity ? { ...diagnostic, severity } : diagnostic];
+  });
+}
+
+/**
+ * Applies the rule settings to a tool result and adds the configuration diagnostics.
+ * A result that is invalid for reasons other than its error diagnostics stays invalid.
+ */
+export function applyConfig<T extends { valid: boolean; diagnostics: Diagnostic[] }>(
+  result: T,
+  config: SpecDrivenConfig,
+  configDiagnostics: Diagnostic[] = []
+): T {
+  const diagnostics = [...configDiagnostics, ...applyRuleSettings(result.diagnostics, config)];
+  const invalidWithoutErrors = !result.valid && !hasErrors(result.diagnostics);
+  return { ...result, valid: !invalidWithoutErrors && !hasErrors(diagnostics), diagnostics };
+}
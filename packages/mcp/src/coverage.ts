@@ -0,0 +1,294 @@
+/**
+ * Implementation coverage: references to requirement and design IDs in the source
+ * code and tests of the project.
+ *
+ * Comments of the known languages are scanned for REQ-x.y and DES-x IDs. In test
+ * files, test titles (`it("REQ-1.2 rejects ...")`, `t.Run(...)`, `@DisplayName(...)`)
+ * and comments count as tests. A reference to a design element counts for the
+ * criteria it implements. IDs are not qualified by spec, so a reference counts for
+ * every spec that defines the ID. The spec folders themselves are never scanned.
+ */
+import fs from "fs/promises";
+import path from "path";
+import { DEFAULT_CONFIG, type SpecDrivenConfig } from "./config.js";
+import { createDiagnostic, hasErrors, type Diagnostic } from "./diagnostics.js";
+import { matchesGlob } from "./glob.js";
+import { listProjectFiles } from "./project-files.js";
+import { lifecycleDirectories, readSpecFiles, SPEC_FILES, specDirectory } from "./spec-files.js";
+import {
+  extractDesignRefs,
+  extractRequirementRefs,
+  parseDesign,
+  parseRequirements,
+  parseTasks,
+  type IdPrefixes
+} from "./spec-model.js";
+import { isTaskDone, summarizeTask, type TaskSummary } from "./task-graph.js";
+import { checkTraceability } from "./traceability.js";
+
+export type ReferenceKind = "code" | "test";
+
+export interface IdReference {
+  /** REQ-x.y or DES-x */
+  id: string;
+  /** "/"-separated path relative to the target directory */
+  file: string;
+  line: number;
+  kind: ReferenceKind;
+}
+
+export interface CriterionCoverage {
+  criterion: string;
+  requirement: string;
+  designElements: string[];
+  /** References in code comments to the criterion or one of its design elements */
+  code: IdReference[];
+  /** References in test titles and test comments */
+  tests: IdReference[];
+}
+
+export interface ImplementationCoverageReport {
+  criteria: CriterionCoverage[];
+  notImplemented: string[];
+  notTested: string[];
+  /** Completed leaf tasks none of whose IDs is referenced by code or tests */
+  completedTasksWithoutCode: TaskSummary[];
+  filesScanned: number;
+}
+
+interface CommentSyntax {
+  line: string[];
+  block: [string, string][];
+}
+
+const C_STYLE: CommentSyntax = { line: ["//"], block: [["/*", "*/"]] };
+const HASH: CommentSyntax = { line: ["#"], block: [] };
+const PYTHON: CommentSyntax = { line: ["#"], block: [["\"\"\"", "\"\"\""], ["'''", "'''"]] };
+const DASH: CommentSyntax = { line: ["--"], block: [] };
+const MARKUP: CommentSyntax = { line: [], block: [["<!--", "-->"]] };
+const COMPONENT: CommentSyntax = { line: ["//"], block: [["/*", "*/"], ["<!--", "-->"]] };
+
+function languages(extensions: string[], syntax: CommentSyntax): [string, CommentSyntax][] {
+  return extensions.map(extension => [extension, syntax]);
+}
+
+const COMMENT_SYNTAX: Record<string, CommentSyntax> = Object.fromEntries([
+  ...languages([".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs", ".java", ".kt", ".kts", ".scala", ".groovy", ".go", ".rs", ".c", ".h", ".cc", ".cpp", ".hpp", ".cs", ".swift", ".dart", ".php", ".scss", ".less"], C_STYLE),
+  ...languages([".css"], { line: [], block: [["/*", "*/"]] }),
+  ...languages([".sh", ".bash", ".zsh", ".rb", ".pl", ".r", ".ex", ".exs", ".yaml", ".yml", ".toml", ".tf"], HASH),
+  ...languages([".py"], PYTHON),
+  ...languages([".sql", ".lua", ".hs"], DASH),
+  ...languages([".html", ".xml"], MARKUP),
+  ...languages([".vue", ".svelte"], COMPONENT)
+]);
+
+const TEST_TITLE_PATTERN = /\b(?:describe|context|suite|it|test|specify|scenario|Run|DisplayName)(?:\.[A-Za-z]+(?:\([^)]*\))?)*\s*\(\s*(["'`])((?:\\.|[^\\])*?)\1/g;
+const QUOTES = ["\"", "'", "`"];
+const MAX_FILE_SIZE = 1024 * 1024;
+
+/**
+ * Returns the comment text of every line that has one. Quoted strings on a line
+ * are skipped, so markers inside string literals do not start a comment.
+ */
+function commentLines(content: string, syntax: CommentSyntax): { line: number; text: string }[] {
+  const result: { line: number; text: string }[] = [];
+  let blockEnd: string | undefined;
+
+  content.split(/\r?\n/).forEach((text, index) => {
+    let comment = "";
+    let quote: string | undefined;
+    let position = 0;
+
+    while (position < text.length) {
+      if (blockEnd) {
+        const end = text.indexOf(blockEnd, position);
+        comment += `${text.slice(position, end === -1 ? text.length : end)} `;
+        position = end === -1 ? text.length : end + blockEnd.length;
+        if (end !== -1) blockEnd = undefined;
+        continue;
+      }
+      if (quote) {
+        if (text[position] === "\\") position++;
+        else if (text[position] === quote) quote = undefined;
+        position++;
+        continue;
+      }
+      const lineMarker = syntax.line.find(marker => text.startsWith(marker, position));
+      if (lineMarker) {
+        comment += text.slice(position + lineMarker.length);
+        break;
+      }
+      const block = syntax.block.find(([start]) => text.startsWith(start, position));
+      if (block) {
+        blockEnd = block[1];
+        position += block[0].length;
+        continue;
+      }
+      if (QUOTES.includes(text[position])) quote = text[position];
+      position++;
+    }
+
+    if (comment.trim()) result.push({ line: index + 1, text: comment });
+  });
+  return result;
+}
+
+function testTitleLines(content: string): { line: number; text: string }[] {
+  return content.split(/\r?\n/).flatMap((text, index) =>
+    [...text.matchAll(TEST_TITLE_PATTERN)].map(match => ({ line: index + 1, text: match[2] }))
+  );
+}
+
+/**
+ * Collects the references to the given IDs in one source file.
+ */
+function scanFile(
+  file: string,
+  content: string,
+  syntax: CommentSyntax,
+  isTest: boolean,
+  knownIds: Set<string>,
+  prefixes: IdPrefixes
+): IdReference[] {
+  const kind: ReferenceKind = isTest ? "test" : "code";
+  const references: IdReference[] = [];
+  const seen = new Set<string>();
+
+  for (const { line, text } of [...commentLines(content, syntax), ...(isTest ? testTitleLines(content) : [])]) {
+    for (const id of [...extractRequirementRefs(text, prefixes), ...extractDesignRefs(text, prefixes)]) {
+      if (!knownIds.has(id) || seen.has(`${id}:${line}`)) continue;
+      seen.add(`${id}:${line}`);
+      references.push({ id, file, line, kind });
+    }
+  }
+  return references;
+}
+
+/**
+ * Tool: verify_implementation_coverage
+ * Reports which acceptance criteria are referenced by code comments and tests
+ */
+export async function verifyImplementationCoverage(
+  slug: string,
+  targetDir: string = process.cwd(),
+  config: SpecDrivenConfig = DEFAULT_CONFIG,
+  include: string[] = config.coverage.include,
+  exclude: string[] = config.coverage.exclude
+): Promise<{
+  valid: boolean;
+  diagnostics: Diagnostic[];
+  report: ImplementationCoverageReport;
+}> {
+  const diagnostics: Diagnostic[] = [];
+  const { idPrefixes, specRoot } = config;
+  const relativeDir = specDirectory(slug, specRoot);
+  const contents = await readSpecFiles(slug, targetDir, specRoot);
+  const files = {
+    requirements: path.join(relativeDir, "requirements.md"),
+    design: path.join(relativeDir, "design.md"),
+    tasks: path.join(relativeDir, "tasks.md")
+  };
+
+  for (const name of SPEC_FILES.filter(name => contents[name] === undefined)) {
+    diagnostics.push(createDiagnostic("STR004", {
+      message: `Cannot read ${name}`,
+      suggestedFix: `Ensure file exists in ${relativeDir}/ directory`,
+      file: path.join(relativeDir, name)
+    }));
+  }
+
+  const requirementsContent = contents["requirements.md"];
+  const designContent = contents["design.md"];
+  const tasksContent = contents["tasks.md"];
+  const requirements = requirementsContent !== undefined ? parseRequirements(requirementsContent, idPrefixes) : undefined;
+  const design = designContent !== undefined ? parseDesign(designContent, idPrefixes) : undefined;
+  const tasks = tasksContent !== undefined ? parseTasks(tasksContent, idPrefixes) : undefined;
+  const { matrix } = checkTraceability({ requirements, design, tasks }, files, idPrefixes).report;
+
+  // Scan the project outside of the spec folders for the IDs of this spec
+  const knownIds = new Set([...matrix.map(row => row.criterion), ...(design?.elements || []).map(element => element.id)]);
+  const { archive, capabilities } = lifecycleDirectories(specRoot);
+  const specFolders = [specRoot, archive, capabilities].map(dir => `${dir.split(path.sep).join("/")}/**`);
+  const projectFiles = await listProjectFiles(targetDir, include, [...exclude, ...specFolders]);
+
+  const references: IdReference[] = [];
+  let filesScanned = 0;
+  for (const file of projectFiles) {
+    const syntax = COMMENT_SYNTAX[path.extname(file).toLowerCase()];
+    if (!syntax) continue;
+    const absolutePath = path.join(targetDir, file);
+    try {
+      if ((await fs.stat(absolutePath)).size > MAX_FILE_SIZE) continue;
+      const content = await fs.readFile(absolutePath, "utf-8");
+      filesScanned++;
+      references.push(...scanFile(file, content, syntax, matchesGlob(file, config.coverage.tests), knownIds, idPrefixes));
+    } catch {
+      continue;
+    }
+  }
+
+  const criteria: CriterionCoverage[] = matrix.map(row => {
+    const ids = [row.criterion, ...row.designElements];
+    const matching = references.filter(reference => ids.includes(reference.id));
+    return {
+      criterion: row.criterion,
+      requirement: row.requirement,
+      designElements: row.designElements,
+      code: matching.filter(reference => reference.kind === "code"),
+      tests: matching.filter(reference => reference.kind === "test")
+    };
+  });
+
+  const criterionRanges = new Map((requirements?.requirements || []).flatMap(req => req.criteria.map(criterion => [criterion.id, criterion.range] as const)));
+  for (const coverage of criteria) {
+    if (coverage.code.length === 0) {
+      diagnostics.push(createDiagnostic("IMP001", {
+        message: `${coverage.criterion} is not referenced by any code comment`,
+        suggestedFix: `Reference ${coverage.criterion}${coverage.designElements.length > 0 ? ` or ${coverage.designElements.join(", ")}` : ""} in a comment of the implementing code`,
+        range: criterionRanges.get(coverage.criterion),
+        file: files.requirements
+      }));
+    }
+    if (coverage.tests.length === 0) {
+      diagnostics.push(createDiagnostic("IMP002", {
+        message: `${coverage.criterion} is not referenced by any test`,
+        suggestedFix: `Name ${coverage.criterion} in the title of the test that verifies it, e.g. it("${coverage.criterion} ...")`,
+        range: criterionRanges.get(coverage.criterion),
+        file: files.requirements
+      }));
+    }
+  }
+
+  // Completed tasks: a reference to any ID the task implements, or to the criteria and
+  // design elements linked to them, is evidence of its implementation
+  const referencedIds = new Set(references.map(reference => reference.id));
+  const finalPhases = new Set(tasks?.phases.filter(phase => phase.isFinalCheckpoint).map(phase => phase.number));
+  const completedTasksWithoutCode = (tasks?.tasks || []).filter(task => {
+    if (!isTaskDone(task) || task.subtasks.length > 0 || task.implements.length === 0) return false;
+    if (task.phase !== undefined && finalPhases.has(task.phase)) return false;
+    const linked = matrix
+      .filter(row => task.implements.some(id => id === row.criterion || row.designElements.includes(id)))
+      .flatMap(row => [row.criterion, ...row.designElements]);
+    return ![...task.implements, ...linked].some(id => referencedIds.has(id));
+  });
+  for (const task of completedTasksWithoutCode) {
+    diagnostics.push(createDiagnostic("IMP003", {
+      message: `Task ${task.id} is completed, but no code or test refers to ${task.implements.join(", ")}`,
+      suggestedFix: "Reference the implemented IDs in the code and tests of the task, or reopen the task",
+      range: task.range,
+      file: files.tasks
+    }));
+  }
+
+  return {
+    valid: !hasErrors(diagnostics),
+    diagnostics,
+    report: {
+      criteria,
+      notImplemented: criteria.filter(coverage => coverage.code.length === 0).map(coverage => coverage.criterion),
+      notTested: criteria.filter(coverage => coverage.tests.length === 0).map(coverage => coverage.criterion),
+      completedTasksWithoutCode: completedTasksWithoutCode.map(summarizeTask),
+      filesScanned
+    }
+  };
+}
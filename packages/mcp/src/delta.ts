@@ -0,0 +1,141 @@
+/**
+ * Delta requirements for changes to existing features.
+ *
+ * Instead of restating a feature from scratch, requirements.md names its baseline
+ * spec (`**Baseline:** <capability>`) and lists requirements under
+ * "## Added Requirements", "## Modified Requirements" and "## Removed Requirements".
+ * Modified and removed entries keep the IDs of the baseline; modified entries
+ * restate the full new text.
+ */
+import fs from "fs/promises";
+import path from "path";
+import { DEFAULT_CONFIG, type SpecDrivenConfig } from "./config.js";
+import { createDiagnostic, type Diagnostic } from "./diagnostics.js";
+import { lifecycleDirectories } from "./spec-files.js";
+import {
+  DELTA_SECTIONS,
+  findSection,
+  type Requirement,
+  type RequirementsModel
+} from "./spec-model.js";
+
+const PLACEHOLDER_PATTERN = /\.\.\.|…|\b(?:unchanged|same as (?:before|baseline)|as before|see baseline)\b/i;
+
+export function hasDeltaSections(model: RequirementsModel): boolean {
+  return Object.values(DELTA_SECTIONS).some(title => findSection(model.document, title, 2));
+}
+
+/**
+ * Returns the path of the baseline requirements.md relative to the target directory:
+ * a capability name resolves to `specs/capabilities/<name>/requirements.md`.
+ */
+export function baselineFile(value: string, specRoot: string = DEFAULT_CONFIG.specRoot): string {
+  return value.endsWith(".md")
+    ? path.normalize(value)
+    : path.join(lifecycleDirectories(specRoot).capabilities, value, "requirements.md");
+}
+
+/**
+ * Reads the baseline spec named by a requirements model, if any.
+ */
+export async function readBaseline(
+  model: RequirementsModel,
+  targetDir: string = process.cwd(),
+  config: SpecDrivenConfig = DEFAULT_CONFIG,
+  file?: string
+): Promise<{ file?: string; content?: string; diagnostics: Diagnostic[] }> {
+  if (!model.baseline) return { diagnostics: [] };
+
+  const relativePath = baselineFile(model.baseline.value, config.specRoot);
+  if (path.isAbsolute(relativePath) || relativePath.split(path.sep).includes("..")) {
+    return {
+      file: relativePath,
+      diagnostics: [createDiagnostic("DLT004", {
+        message: `Baseline ${model.baseline.value} is outside the project`,
+        suggestedFix: "Name a capability, or a requirements.md path relative to the project",
+        line: model.baseline.line,
+        file
+      })]
+    };
+  }
+  try {
+    return { file: relativePath, content: await fs.readFile(path.join(targetDir, relativePath), "utf-8"), diagnostics: [] };
+  } catch {
+    return {
+      file: relativePath,
+      diagnostics: [createDiagnostic("DLT004", {
+        message: `Baseline spec ${relativePath} not found`,
+        suggestedFix: "Fix the **Baseline:** line, or archive the baseline change first",
+        line: model.baseline.line,
+        file
+      })]
+    };
+  }
+}
+
+function requirementText(req: Requirement): string {
+  return [req.title, req.userStory ?? "", ...req.criteria.map(criterion => `${criterion.number} ${criterion.text}`)]
+    .join("\n")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Checks the delta sections of a requirements model. The IDs of modified and
+ * removed requirements are only checked when the baseline model is given.
+ */
+export function checkDeltas(model: RequirementsModel, baseline?: RequirementsModel): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const isDelta = hasDeltaSections(model);
+
+  if (isDelta && !model.baseline) {
+    diagnostics.push(createDiagnostic("DLT004", {
+      message: "Delta requirement sections without a baseline spec",
+      suggestedFix: "Add a **Baseline:** <capability> line to the Introduction naming the spec that is changed"
+    }));
+  }
+
+  for (const req of model.requirements.filter(req => req.delta === "modified")) {
+    const incomplete = req.criteria.length === 0 || !req.userStory;
+    const placeholder = [req.userStory ?? "", ...req.criteria.map(criterion => criterion.text)].some(text => PLACEHOLDER_PATTERN.test(text));
+    if (incomplete || placeholder) {
+      diagnostics.push(createDiagnostic("DLT002", {
+        message: incomplete
+          ? `Modified requirement ${req.id} does not restate its ${req.criteria.length === 0 ? "acceptance criteria" : "user story"}`
+          : `Modified requirement ${req.id} refers to the baseline instead of restating its text`,
+        suggestedFix: "Restate the complete new requirement: user story and every acceptance criterion, including unchanged ones",
+        range: req.range
+      }));
+    }
+  }
+
+  if (!baseline) return diagnostics;
+
+  const baselineRequirements = new Map(baseline.requirements.map(req => [req.id, req]));
+  for (const req of model.requirements) {
+    const existing = baselineRequirements.get(req.id);
+    if (req.delta === "modified" || req.delta === "removed") {
+      if (!existing) {
+        diagnostics.push(createDiagnostic("DLT001", {
+          message: `${req.delta === "modified" ? "Modified" : "Removed"} requirement ${req.id} does not exist in the baseline`,
+          suggestedFix: `Use an ID of the baseline spec (${[...baselineRequirements.keys()].join(", ") || "none"})`,
+          range: req.range
+        }));
+      } else if (req.delta === "modified" && requirementText(req) === requirementText(existing)) {
+        diagnostics.push(createDiagnostic("DLT005", {
+          message: `Modified requirement ${req.id} is identical to the baseline`,
+          suggestedFix: "Remove it from Modified Requirements, or state the changed behavior",
+          range: req.range
+        }));
+      }
+    } else if (isDelta && existing) {
+      diagnostics.push(createDiagnostic("DLT003", {
+        message: `Added requirement ${req.id} reuses an ID of the baseline`,
+        suggestedFix: `Number added requirements after the last requirement of the baseline (Requirement ${Math.max(0, ...baseline.requirements.map(other => other.number)) + 1} onwards)`,
+        range: req.range
+      }));
+    }
+  }
+  return diagnostics;
+}
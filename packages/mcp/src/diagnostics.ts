@@ -0,0 +1,333 @@
+/**
+ * Structured diagnostics reported by the validators, and their SARIF 2.1 rendering.
+ */
+import type { SourceRange } from "./spec-model.js";
+
+export const SKILL_DOCS = {
+  requirements: "packages/standards/src/templates/universal/skills/spec-driven-requirements-writer/SKILL.md",
+  design: "packages/standards/src/templates/universal/skills/spec-driven-technical-designer/SKILL.md",
+  tasks: "packages/standards/src/templates/universal/skills/spec-driven-task-decomposer/SKILL.md",
+  implementation: "packages/standards/src/templates/universal/skills/spec-driven-task-implementer/SKILL.md"
+} as const;
+
+export const TOOL_INFO = {
+  name: "spec-driven-asteroids",
+  version: "0.1.0",
+  informationUri: "https://github.com/lindoelio/spec-driven-asteroids"
+} as const;
+
+export type Severity = "error" | "warning" | "info";
+
+export interface RuleDefinition {
+  /** Stable rule code, e.g. REQ001 */
+  code: string;
+  /** PascalCase rule name used in SARIF */
+  name: string;
+  category:
+    | "Structure Error"
+    | "Format Error"
+    | "Traceability Error"
+    | "Quality Error"
+    | "Task Status Error"
+    | "File Error"
+    | "Comparison Error"
+    | "Configuration Error"
+    | "Workspace Error";
+  severity: Severity;
+  description: string;
+  skillDocLink?: string;
+}
+
+export interface Diagnostic {
+  code: string;
+  severity: Severity;
+  category: string;
+  /** Path of the file the finding belongs to, relative to the target directory when known */
+  file?: string;
+  range?: SourceRange;
+  message: string;
+  suggestedFix: string;
+  skillDocLink?: string;
+}
+
+function rule(
+  code: string,
+  name: string,
+  category: RuleDefinition["category"],
+  severity: Severity,
+  description: string,
+  skillDocLink?: string
+): RuleDefinition {
+  return { code, name, category, severity, description, skillDocLink };
+}
+
+export const RULES: Record<string, RuleDefinition> = Object.fromEntries([
+  // Spec folder structure
+  rule("STR001", "SpecDirectoryMissing", "Structure Error", "error", "Spec directory does not exist or is not a directory"),
+  rule("STR002", "RequiredFileMissing", "Structure Error", "error", "A required spec file is missing"),
+  rule("STR003", "UnexpectedFile", "Structure Error", "error", "The spec directory contains files that are not part of a spec"),
+  rule("STR004", "FileUnreadable", "File Error", "error", "A spec file cannot be read"),
+  rule("STR005", "InvalidSpecName", "Structure Error", "error", "The spec slug or title is not valid"),
+  rule("STR006", "SpecAlreadyExists", "Structure Error", "error", "A spec with the same slug already exists"),
+  rule("STR007", "UnknownSection", "Structure Error", "info", "A spec file has a level-2 section that is neither required nor optional"),
+
+  // requirements.md
+  rule("REQ001", "RequirementsSectionMissing", "Structure Error", "error", "A required requirements.md section is missing", SKILL_DOCS.requirements),
+  rule("REQ002", "NoRequirements", "Format Error", "error", "No REQ-X requirements found", SKILL_DOCS.requirements),
+  rule("REQ003", "DuplicateRequirementId", "Format Error", "error", "Two requirements share the same ID", SKILL_DOCS.requirements),
+  rule("REQ004", "NoEarsPatterns", "Format Error", "error", "No EARS keywords used in acceptance criteria", SKILL_DOCS.requirements),
+  rule("REQ005", "NoAcceptanceCriteria", "Format Error", "error", "The document has no numbered acceptance criteria", SKILL_DOCS.requirements),
+  rule("REQ006", "RequirementWithoutCriteria", "Format Error", "error", "A requirement has no acceptance criteria", SKILL_DOCS.requirements),
+  rule("REQ007", "UnnumberedCriterion", "Format Error", "error", "An acceptance criterion is not numbered", SKILL_DOCS.requirements),
+  rule("REQ008", "CriterionNumberMismatch", "Format Error", "error", "An acceptance criterion number does not match its requirement", SKILL_DOCS.requirements),
+
+  // EARS grammar of acceptance criteria
+  rule("EARS001", "MissingShall", "Format Error", "error", "An acceptance criterion has no SHALL response", SKILL_DOCS.requirements),
+  rule("EARS002", "MultipleShall", "Format Error", "error", "An acceptance criterion states more than one SHALL response", SKILL_DOCS.requirements),
+  rule("EARS003", "IfWithoutThen", "Format Error", "error", "An Unwanted behavior criterion has IF without THEN", SKILL_DOCS.requirements),
+  rule("EARS004", "MissingSystemName", "Format Error", "error", "An acceptance criterion does not name the system before SHALL", SKILL_DOCS.requirements),
+  rule("EARS005", "PatternAnnotationMismatch", "Format Error", "warning", "The EARS pattern annotation does not match the criterion", SKILL_DOCS.requirements),
+  rule("EARS006", "MissingPatternAnnotation", "Format Error", "warning", "An acceptance criterion has no EARS pattern annotation", SKILL_DOCS.requirements),
+  rule("EARS007", "ThenWithoutIf", "Format Error", "warning", "THEN is used without an IF clause", SKILL_DOCS.requirements),
+  rule("EARS008", "EmptyEarsClause", "Format Error", "error", "An EARS clause or response is empty", SKILL_DOCS.requirements),
+
+  // Glossary of requirements.md
+  rule("GLO001", "UnusedGlossaryTerm", "Format Error", "warning", "A glossary term is never used in the requirements", SKILL_DOCS.requirements),
+  rule("GLO002", "UndefinedGlossaryTerm", "Format Error", "warning", "A Capitalized_Snake_Case term of an acceptance criterion is not defined in the glossary", SKILL_DOCS.requirements),
+  rule("GLO003", "DuplicateGlossaryTerm", "Format Error", "warning", "A glossary term is defined more than once", SKILL_DOCS.requirements),
+  rule("GLO004", "ConflictingGlossaryDefinition", "Format Error", "warning", "A glossary term is defined differently by another spec of the project", SKILL_DOCS.requirements),
+
+  // Quality of requirements.md
+  rule("QLT001", "VagueTerm", "Quality Error", "warning", "An acceptance criterion uses a vague term that cannot be tested", SKILL_DOCS.requirements),
+  rule("QLT002", "PassiveCriterion", "Quality Error", "warning", "An acceptance criterion uses the passive voice without naming the system", SKILL_DOCS.requirements),
+  rule("QLT003", "PlaceholderMarker", "Quality Error", "warning", "requirements.md still contains a TBD, <role> or similar placeholder", SKILL_DOCS.requirements),
+  rule("QLT004", "UnquantifiedPerformance", "Quality Error", "warning", "An acceptance criterion claims performance without a measurable bound", SKILL_DOCS.requirements),
+  rule("QLT005", "UnverifiableNegative", "Quality Error", "warning", "An acceptance criterion forbids a behavior without a trigger that makes it verifiable", SKILL_DOCS.requirements),
+  rule("QLT006", "IncompleteUserStory", "Quality Error", "warning", "A user story is missing its \"As a\", \"I want\" or \"so that\" part", SKILL_DOCS.requirements),
+
+  // design.md
+  rule("DES001", "DesignSectionMissing", "Structure Error", "error", "A required design.md section is missing", SKILL_DOCS.design),
+  rule("DES002", "NoMermaidDiagram", "Structure Error", "error", "No Mermaid diagram code blocks found", SKILL_DOCS.design),
+  rule("DES003", "NoDesignElements", "Format Error", "error", "No DES-X design elements found", SKILL_DOCS.design),
+  rule("DES004", "DesignElementWithoutRequirement", "Traceability Error", "warning", "A design element does not reference any requirement", SKILL_DOCS.design),
+  rule("DES005", "UnknownRequirementReference", "Traceability Error", "error", "A design link refers to a requirement that does not exist", SKILL_DOCS.design),
+  rule("DES006", "UnknownDesignElementReference", "Traceability Error", "error", "A design link refers to a design element that does not exist", SKILL_DOCS.design),
+  rule("DES007", "TraceabilityMatrixMissing", "Structure Error", "warning", "The Traceability Matrix section is missing", SKILL_DOCS.design),
+
+  // Mermaid diagrams in design.md
+  rule("MER001", "MermaidSyntaxError", "Format Error", "error", "A Mermaid diagram has a syntax error and will not render", SKILL_DOCS.design),
+  rule("MER002", "UnknownMermaidDiagram", "Format Error", "error", "A Mermaid block is empty or has an unknown diagram type", SKILL_DOCS.design),
+  rule("MER003", "UncheckedMermaidDiagram", "Format Error", "info", "A Mermaid diagram type is not covered by the offline syntax check", SKILL_DOCS.design),
+
+  // Code Anatomy and Impact Analysis of design.md
+  rule("ANA001", "AnatomyPathNotFound", "File Error", "error", "A Code Anatomy or Impact Analysis path does not exist and is not marked as new", SKILL_DOCS.design),
+  rule("ANA002", "UnknownAnatomyDesignElement", "Traceability Error", "error", "A Code Anatomy entry names no design element or an undefined one", SKILL_DOCS.design),
+  rule("ANA003", "ImpactAnalysisMissing", "Structure Error", "error", "A design modifies existing files without an Impact Analysis of the affected areas", SKILL_DOCS.design),
+  rule("ANA004", "ImpactTableMissing", "Structure Error", "warning", "An Impact Analysis sub-table of the design template is missing", SKILL_DOCS.design),
+  rule("ANA005", "NewAnatomyPathExists", "File Error", "warning", "A Code Anatomy path marked as new already exists", SKILL_DOCS.design),
+  rule("ANA006", "AnatomyPathOutsideProject", "File Error", "error", "A Code Anatomy or Impact Analysis path resolves outside the project", SKILL_DOCS.design),
+
+  // tasks.md
+  rule("TSK001", "TasksSectionMissing", "Structure Error", "error", "A required tasks.md section is missing", SKILL_DOCS.tasks),
+  rule("TSK002", "NoPhases", "Structure Error", "error", "No phase headers found", SKILL_DOCS.tasks),
+  rule("TSK003", "FinalCheckpointMissing", "Structure Error", "error", "The Final Checkpoint phase is missing", SKILL_DOCS.tasks),
+  rule("TSK004", "FinalCheckpointNotLast", "Structure Error", "error", "The Final Checkpoint phase is not the last phase", SKILL_DOCS.tasks),
+  rule("TSK005", "NoTasks", "Structure Error", "error", "No tasks in checkbox format found", SKILL_DOCS.tasks),
+  rule("TSK006", "TaskWithoutTrace", "Traceability Error", "warning", "A task has no _Implements:_ reference", SKILL_DOCS.tasks),
+  rule("TSK007", "UnknownDesignReference", "Traceability Error", "error", "A task implements a design element that does not exist", SKILL_DOCS.tasks),
+  rule("TSK008", "DuplicateTaskId", "Format Error", "error", "Two tasks share the same ID", SKILL_DOCS.tasks),
+  rule("TSK009", "InvalidStatusMarker", "Format Error", "error", "A task uses an unknown status marker", SKILL_DOCS.tasks),
+  rule("TSK010", "TaskWithoutId", "Format Error", "error", "A checkbox item does not start with a task ID", SKILL_DOCS.tasks),
+  rule("TSK011", "UnknownTaskDependency", "Traceability Error", "error", "A task depends on a task ID that does not exist", SKILL_DOCS.tasks),
+  rule("TSK012", "CircularTaskDependency", "Traceability Error", "error", "Task dependencies form a cycle", SKILL_DOCS.tasks),
+  rule("TSK013", "DependencyOnLaterPhase", "Traceability Error", "error", "A task depends on a task in a later phase", SKILL_DOCS.tasks),
+  rule("TSK014", "CompletedTaskWithPendingDependency", "Traceability Error", "warning", "A completed task depends on a task that is not completed", SKILL_DOCS.implementation),
+  rule("TSK015", "IllegalStatusTransition", "Task Status Error", "error", "A task status change is not allowed", SKILL_DOCS.implementation),
+  rule("TSK016", "TaskNotFound", "Task Status Error", "error", "The requested task ID does not exist", SKILL_DOCS.implementation),
+
+  // Cross-file traceability
+  rule("TRC001", "DesignElementWithoutTask", "Traceability Error", "error", "A design element has no implementing tasks", SKILL_DOCS.design),
+  rule("TRC002", "CriterionWithoutDesign", "Traceability Error", "error", "An acceptance criterion is not covered by any design element", SKILL_DOCS.design),
+  rule("TRC003", "CriterionWithoutTask", "Traceability Error", "error", "An acceptance criterion is not covered by any task", SKILL_DOCS.tasks),
+  rule("TRC004", "DanglingReference", "Traceability Error", "error", "A link refers to a requirement or design element that does not exist"),
+  rule("TRC005", "TraceabilityMatrixMismatch", "Traceability Error", "warning", "The Traceability Matrix table disagrees with the inline _Implements:_ links", SKILL_DOCS.design),
+
+  // Delta requirements against a baseline spec
+  rule("DLT001", "UnknownBaselineRequirement", "Traceability Error", "error", "A modified or removed requirement does not exist in the baseline spec", SKILL_DOCS.requirements),
+  rule("DLT002", "IncompleteModifiedRequirement", "Format Error", "error", "A modified requirement does not restate its full new text", SKILL_DOCS.requirements),
+  rule("DLT003", "AddedRequirementCollision", "Traceability Error", "error", "An added requirement reuses an ID of the baseline spec", SKILL_DOCS.requirements),
+  rule("DLT004", "BaselineMissing", "File Error", "error", "Delta requirements have no baseline spec, or the baseline cannot be read", SKILL_DOCS.requirements),
+  rule("DLT005", "UnchangedModifiedRequirement", "Format Error", "warning", "A modified requirement is identical to the baseline", SKILL_DOCS.requirements),
+
+  // Implementation coverage in the source code of the project
+  rule("IMP001", "CriterionNotImplemented", "Traceability Error", "warning", "No code comment refers to an acceptance criterion or its design elements", SKILL_DOCS.implementation),
+  rule("IMP002", "CriterionNotTested", "Traceability Error", "warning", "No test refers to an acceptance criterion or its design elements", SKILL_DOCS.implementation),
+  rule("IMP003", "CompletedTaskWithoutCode", "Traceability Error", "warning", "A completed task has no code or test referring to the IDs it implements", SKILL_DOCS.implementation),
+
+  // Test results of the Final Checkpoint
+  rule("TST001", "TestReportUnreadable", "File Error", "error", "A test report cannot be read or is not JUnit XML or TAP", SKILL_DOCS.implementation),
+  rule("TST002", "CriterionTestFailed", "Traceability Error", "error", "A test that verifies an acceptance criterion failed", SKILL_DOCS.implementation),
+  rule("TST003", "CriterionUntested", "Traceability Error", "warning", "No test that ran verifies an acceptance criterion", SKILL_DOCS.implementation),
+  rule("TST004", "UnknownTestReference", "Traceability Error", "info", "A test refers to a criterion that the spec does not define", SKILL_DOCS.implementation),
+
+  // Git history of a spec
+  rule("GIT001", "GitLogUnavailable", "File Error", "error", "The git log cannot be read for the requested range"),
+  rule("GIT002", "CompletedTaskWithoutCommit", "Traceability Error", "warning", "No commit cites the IDs implemented by a completed task", SKILL_DOCS.implementation),
+  rule("GIT003", "CommitWithoutId", "Traceability Error", "warning", "A commit changes a Code Anatomy path without citing a requirement or design ID", SKILL_DOCS.implementation),
+
+  // Renaming of requirement and design IDs
+  rule("RNM001", "InvalidRename", "Format Error", "error", "The IDs of a rename are malformed, of different kinds or move a criterion to another requirement"),
+  rule("RNM002", "RenamedIdNotDefined", "Traceability Error", "error", "The ID to rename is not defined by the spec"),
+  rule("RNM003", "RenameCollision", "Traceability Error", "error", "A new ID of a rename is already defined by the spec"),
+
+  // Comparison of two spec versions
+  rule("DIF001", "SpecVersionUnavailable", "Comparison Error", "error", "A version to compare is neither a directory nor a git revision"),
+
+  // Analysis across the active changes
+  rule("XSP001", "DuplicateChange", "Structure Error", "warning", "Two active changes have the same or nearly the same slug or title"),
+  rule("XSP002", "SharedCodeAnatomyFile", "File Error", "warning", "A file is listed in the Code Anatomy of more than one active change", SKILL_DOCS.design),
+
+  // Spec lifecycle
+  rule("ARC001", "SpecNotComplete", "Structure Error", "error", "A spec cannot be archived before it is valid, fully traced and all tasks are done", SKILL_DOCS.implementation),
+  rule("ARC002", "ArchiveExists", "Structure Error", "error", "The archive folder of a spec already exists"),
+  rule("ARC003", "BaselineNotCapability", "Structure Error", "error", "The baseline of an archived change is not a capability spec under specs/capabilities/", SKILL_DOCS.requirements),
+
+  // Project configuration (.spec-driven.json)
+  rule("CFG001", "InvalidConfig", "Configuration Error", "error", "A setting of .spec-driven.json is invalid and its default is used instead"),
+  rule("CFG002", "UnknownConfigKey", "Configuration Error", "warning", "A setting of .spec-driven.json is not recognized"),
+  rule("PLG001", "PluginLoadFailed", "Configuration Error", "error", "A custom rule plugin cannot be loaded"),
+  rule("PLG002", "InvalidPluginRule", "Configuration Error", "error", "A custom rule plugin exports an invalid rule"),
+  rule("PLG003", "PluginRuleFailed", "Configuration Error", "error", "A custom rule threw an error or returned an invalid result"),
+
+  // Workspace of the MCP server
+  rule("WSP001", "OutsideWorkspace", "Workspace Error", "error", "A requested directory or file resolves outside the workspace of the MCP server")
+].map(definition => [definition.code, definition]));
+
+/**
+ * Creates a diagnostic for a registered rule, using the rule's default severity and skill doc.
+ */
+export function createDiagnostic(
+  code: string,
+  details: {
+    message: string;
+    suggestedFix: string;
+    range?: SourceRange;
+    line?: number;
+    file?: string;
+    skillDocLink?: string;
+  }
+): Diagnostic {
+  const definition = RULES[code];
+  if (!definition) {
+    throw new Error(`Unknown rule code: ${code}`);
+  }
+
+  const range = details.range ?? (details.line && details.line > 0
+    ? { start: { line: details.line, column: 1 }, end: { line: details.line, column: 1 } }
+    : undefined);
+
+  return {
+    code,
+    severity: definition.severity,
+    category: definition.category,
+    file: details.file,
+    range,
+    message: details.message,
+    suggestedFix: details.suggestedFix,
+    skillDocLink: details.skillDocLink ?? definition.skillDocLink
+  };
+}
+
+/**
+ * Sets the file path on diagnostics that do not have one yet.
+ */
+export function withFile(diagnostics: Diagnostic[], file: string): Diagnostic[] {
+  return diagnostics.map(diagnostic => diagnostic.file ? diagnostic : { ...diagnostic, file });
+}
+
+export function hasErrors(diagnostics: Diagnostic[]): boolean {
+  return diagnostics.some(diagnostic => diagnostic.severity === "error");
+}
+
+/**
+ * Renders a diagnostic as a single human-readable block:
+ * `file:line:col - error REQ001: message → fix`
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  const location = [
+    diagnostic.file,
+    diagnostic.range ? `${diagnostic.range.start.line}:${diagnostic.range.start.column}` : undefined
+  ].filter(Boolean).join(":");
+
+  let message = `${location ? `${location} - ` : ""}${diagnostic.severity} ${diagnostic.code}: ${diagnostic.message} → ${diagnostic.suggestedFix}`;
+  if (diagnostic.skillDocLink) {
+    message += `\n   See: ${diagnostic.skillDocLink}`;
+  }
+  return message;
+}
+
+const SARIF_LEVELS: Record<Severity, "error" | "warning" | "note"> = {
+  error: "error",
+  warning: "warning",
+  info: "note"
+};
+
+/**
+ * Converts diagnostics into a SARIF 2.1.0 log with a single run.
+ */
+export function toSarif(diagnostics: Diagnostic[]): Record<string, unknown> {
+  const rules = Object.values(RULES);
+  const ruleIndex = new Map(rules.map((definition, index) => [definition.code, index]));
+
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_INFO.name,
+            version: TOOL_INFO.version,
+            informationUri: TOOL_INFO.informationUri,
+            rules: rules.map(definition => ({
+              id: definition.code,
+              name: definition.name,
+              shortDescription: { text: definition.description },
+              defaultConfiguration: { level: SARIF_LEVELS[definition.severity] },
+              ...(definition.skillDocLink ? { help: { text: `See: ${definition.skillDocLink}` } } : {}),
+              properties: { category: definition.category }
+            }))
+          }
+        },
+        results: diagnostics.map(diagnostic => ({
+          ruleId: diagnostic.code,
+          ...(ruleIndex.has(diagnostic.code) ? { ruleIndex: ruleIndex.get(diagnostic.code) } : {}),
+          level: SARIF_LEVELS[diagnostic.severity],
+          message: { text: `${diagnostic.message}. ${diagnostic.suggestedFix}` },
+          ...(diagnostic.file ? {
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: { uri: diagnostic.file.split(/[\\/]/).join("/") },
+                  ...(diagnostic.range ? {
+                    region: {
+                      startLine: diagnostic.range.start.line,
+                      startColumn: diagnostic.range.start.column,
+                      endLine: diagnostic.range.end.line,
+                      endColumn: diagnostic.range.end.column
+                    }
+                  } : {})
+                }
+              }
+            ]
+          } : {}),
+          properties: {
+            category: diagnostic.category,
+            suggestedFix: diagnostic.suggestedFix,
+            ...(diagnostic.skillDocLink ? { skillDocLink: diagnostic.skillDocLink } : {})
+          }
+        }))
+      }
+    ]
+  };
+}
@@ -0,0 +1,252 @@
+/**
+ * Per-criterion EARS (Easy Approach to Requirements Syntax) analysis.
+ *
+ * Each acceptance criterion is split into its precondition clauses (WHILE, WHEN,
+ * WHERE, IF), the system name and the SHALL response, then classified against
+ * the templates documented in the requirements-writer SKILL.md.
+ */
+import { createDiagnostic, type Diagnostic } from "./diagnostics.js";
+import type { AcceptanceCriterion, RequirementsModel } from "./spec-model.js";
+
+export type EarsPattern =
+  | "Ubiquitous"
+  | "Event-driven"
+  | "State-driven"
+  | "Optional"
+  | "Unwanted behavior"
+  | "Complex";
+
+export type EarsKeyword = "WHILE" | "WHEN" | "WHERE" | "IF";
+
+export interface EarsClause {
+  keyword: EarsKeyword;
+  text: string;
+}
+
+export interface EarsAnalysis {
+  criterionId: string;
+  line: number;
+  text: string;
+  /** Detected pattern; undefined when the criterion has no SHALL clause */
+  pattern?: EarsPattern;
+  /** Pattern annotation written in the document, e.g. `_(Event-driven)_` */
+  annotation?: string;
+  clauses: EarsClause[];
+  systemName?: string;
+  response?: string;
+  valid: boolean;
+  problems: string[];
+}
+
+const KEYWORD_PATTERNS: Record<EarsKeyword, EarsPattern> = {
+  WHEN: "Event-driven",
+  WHILE: "State-driven",
+  WHERE: "Optional",
+  IF: "Unwanted behavior"
+};
+
+const CLAUSE_PATTERN = /^(WHILE|WHEN|WHERE|IF|THEN)\b\s*(.*)$/i;
+
+function normalizePatternName(name: string): string {
+  const normalized = name.toLowerCase().replace(/[\s_-]+/g, " ").replace("behaviour", "behavior").trim();
+  return normalized === "unwanted" ? "unwanted behavior" : normalized;
+}
+
+function stripArticle(systemName: string): string {
+  return systemName.replace(/^the\s+/i, "").trim();
+}
+
+function classify(clauses: EarsClause[]): EarsPattern {
+  if (clauses.length === 0) return "Ubiquitous";
+  const keywords = new Set(clauses.map(clause => clause.keyword));
+  if (keywords.size === 1 && clauses.length === 1) {
+    return KEYWORD_PATTERNS[clauses[0].keyword];
+  }
+  return "Complex";
+}
+
+interface EarsProblem {
+  code: string;
+  message: string;
+  suggestedFix: string;
+}
+
+function findProblems(
+  criterion: AcceptanceCriterion,
+  shallCount: number,
+  clauses: EarsClause[],
+  hasThen: boolean,
+  pattern: EarsPattern | undefined,
+  systemName: string | undefined,
+  response: string | undefined
+): EarsProblem[] {
+  const problems: EarsProblem[] = [];
+  const keywords = new Set(clauses.map(clause => clause.keyword));
+
+  if (shallCount === 0) {
+    problems.push({
+      code: "EARS001",
+      message: clauses.length > 0 ? `${clauses[0].keyword} clause without a SHALL response` : "No SHALL clause found",
+      suggestedFix: "Rewrite as '<precondition>, THE <system> SHALL <response>'"
+    });
+  } else if (shallCount > 1) {
+    problems.push({
+      code: "EARS002",
+      message: `Contains ${shallCount} SHALL clauses`,
+      suggestedFix: "Split the criterion so each one states a single SHALL response"
+    });
+  }
+
+  if (keywords.has("IF") && !hasThen) {
+    problems.push({
+      code: "EARS003",
+      message: "IF clause without THEN",
+      suggestedFix: "Use 'IF <error condition>, THEN THE <system> SHALL <recovery>'"
+    });
+  }
+  if (hasThen && !keywords.has("IF")) {
+    problems.push({
+      code: "EARS007",
+      message: "THEN used without an IF clause",
+      suggestedFix: "Remove THEN or start the criterion with 'IF <error condition>,'"
+    });
+  }
+  if (shallCount > 0 && !systemName) {
+    problems.push({
+      code: "EARS004",
+      message: "No system name before SHALL",
+      suggestedFix: "Name the responsible system, e.g. ', THE <system> SHALL <response>'"
+    });
+  }
+  if (shallCount > 0 && !response) {
+    problems.push({
+      code: "EARS008",
+      message: "Empty SHALL response",
+      suggestedFix: "Describe the required system response after SHALL"
+    });
+  }
+  for (const clause of clauses.filter(clause => !clause.text)) {
+    problems.push({
+      code: "EARS008",
+      message: `Empty ${clause.keyword} clause`,
+      suggestedFix: `Describe the ${clause.keyword === "WHILE" ? "state" : clause.keyword === "WHERE" ? "feature" : "condition"} after ${clause.keyword}`
+    });
+  }
+
+  if (pattern && !criterion.annotation) {
+    problems.push({
+      code: "EARS006",
+      message: "No EARS pattern annotation",
+      suggestedFix: `Append _(${pattern})_ to the criterion`
+    });
+  } else if (pattern && criterion.annotation && normalizePatternName(criterion.annotation) !== normalizePatternName(pattern)) {
+    problems.push({
+      code: "EARS005",
+      message: `Annotated as ${criterion.annotation} but written as ${pattern}`,
+      suggestedFix: `Change the annotation to _(${pattern})_ or rewrite the criterion to match ${criterion.annotation}`
+    });
+  }
+
+  return problems;
+}
+
+function parseCriterionText(criterion: AcceptanceCriterion) {
+  const text = criterion.text.replace(/\.\s*$/, "").trim();
+  const shallMatches = [...text.matchAll(/\bSHALL\b/gi)];
+
+  const shallIndex = shallMatches.length > 0 ? shallMatches[0].index ?? -1 : -1;
+  const preamble = shallIndex >= 0 ? text.slice(0, shallIndex).trim() : text;
+  const response = shallIndex >= 0 ? text.slice(shallIndex + shallMatches[0][0].length).trim() : undefined;
+
+  const clauses: EarsClause[] = [];
+  let hasThen = false;
+  let systemName: string | undefined;
+
+  const segments = preamble.split(/,\s*/).map(segment => segment.trim()).filter(Boolean);
+  segments.forEach((segment, index) => {
+    const match = segment.match(CLAUSE_PATTERN);
+    if (match) {
+      const keyword = match[1].toUpperCase();
+      if (keyword === "THEN") {
+        hasThen = true;
+        systemName = match[2];
+      } else {
+        clauses.push({ keyword: keyword as EarsKeyword, text: match[2] });
+      }
+    } else if (clauses.length > 0 && index < segments.length - 1 && systemName === undefined) {
+      // Comma inside a precondition, e.g. "WHEN a, b or c happen"
+      clauses[clauses.length - 1].text += `, ${segment}`;
+    } else {
+      systemName = segment;
+    }
+  });
+
+  // Precondition and system name without a separating comma
+  if (systemName === undefined && clauses.length > 0 && shallIndex >= 0) {
+    const last = clauses[clauses.length - 1];
+    const inlineThen = last.text.match(/^(.*?)\s+THEN\s+(.*)$/i);
+    const inlineSystem = last.text.match(/^(.*)\s+(THE\s+.*)$/);
+    if (inlineThen) {
+      hasThen = true;
+      last.text = inlineThen[1];
+      systemName = inlineThen[2];
+    } else if (inlineSystem) {
+      last.text = inlineSystem[1];
+      systemName = inlineSystem[2];
+    }
+  }
+
+  return { shallCount: shallMatches.length, clauses, hasThen, systemName, response: response || undefined };
+}
+
+function analyze(criterion: AcceptanceCriterion): { analysis: EarsAnalysis; problems: EarsProblem[] } {
+  const { shallCount, clauses, hasThen, systemName, response } = parseCriterionText(criterion);
+  const pattern = shallCount > 0 ? classify(clauses) : undefined;
+  const problems = findProblems(criterion, shallCount, clauses, hasThen, pattern, systemName, response);
+
+  return {
+    analysis: {
+      criterionId: criterion.id,
+      line: criterion.line,
+      text: criterion.text,
+      pattern,
+      annotation: criterion.annotation,
+      clauses,
+      systemName: systemName && shallCount > 0 ? stripArticle(systemName) : undefined,
+      response,
+      valid: problems.length === 0,
+      problems: problems.map(problem => problem.message)
+    },
+    problems
+  };
+}
+
+/**
+ * Parses a single acceptance criterion against the EARS templates.
+ */
+export function analyzeCriterion(criterion: AcceptanceCriterion): EarsAnalysis {
+  return analyze(criterion).analysis;
+}
+
+/**
+ * Analyzes every acceptance criterion of a requirements model and reports
+ * malformed criteria as diagnostics.
+ */
+export function checkEars(model: RequirementsModel): { report: EarsAnalysis[]; diagnostics: Diagnostic[] } {
+  const report: EarsAnalysis[] = [];
+  const diagnostics: Diagnostic[] = [];
+
+  for (const criterion of model.requirements.flatMap(req => req.criteria)) {
+    const { analysis, problems } = analyze(criterion);
+    report.push(analysis);
+    for (const problem of problems) {
+      diagnostics.push(createDiagnostic(problem.code, {
+        message: `${criterion.id}: ${problem.message}`,
+        suggestedFix: problem.suggestedFix,
+        range: criterion.range
+      }));
+    }
+  }
+
+  return { report, diagnostics };
+}
@@ -0,0 +1,347 @@
+/**
+ * Mechanical fixes of spec documents: numbering, headings and the Traceability Matrix.
+ *
+ * Requirements, acceptance criteria, design elements, phases and tasks are
+ * renumbered in document order, and every REQ/DES reference in the three files is
+ * rewritten in a single pass, so an ID is never mapped twice. Requirements of a
+ * delta spec keep the IDs of their baseline. The Traceability Matrix table is
+ * rebuilt from the inline `_Implements:_` links, a missing Final Checkpoint phase
+ * is added and a misplaced one is moved to the end. References inside code blocks
+ * are left alone, and each file keeps its line endings.
+ */
+import fs from "fs/promises";
+import path from "path";
+import { DEFAULT_CONFIG, type SpecDrivenConfig } from "./config.js";
+import { hasDeltaSections, readBaseline } from "./delta.js";
+import { createDiagnostic, hasErrors, type Diagnostic } from "./diagnostics.js";
+import { unifiedDiff } from "./line-diff.js";
+import { readSpecFiles, SPEC_FILES, specDirectory, type SpecFileName } from "./spec-files.js";
+import {
+  findSection,
+  parseDesign,
+  parseRequirements,
+  parseTasks,
+  type IdPrefixes,
+  type MarkdownDocument,
+  type Task
+} from "./spec-model.js";
+import { checkTraceability } from "./traceability.js";
+import { verifyDesignFile, verifyRequirementsFile, verifyTasksFile } from "./validators.js";
+import { checkSlug } from "./workspace.js";
+
+export type RenumberedKind = "requirement" | "criterion" | "design" | "phase" | "task";
+
+export interface RenumberedId {
+  kind: RenumberedKind;
+  from: string;
+  to: string;
+}
+
+export type FormatOutput = "diff" | "files";
+
+/** Old ID → new ID, for the first definition of each old ID */
+interface IdMaps {
+  requirements: Map<string, string>;
+  criteria: Map<string, string>;
+  design: Map<string, string>;
+}
+
+const CRITERION_MARKER_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s+/;
+const TASK_ID_PATTERN = /^(\s*(?:[-*+]|\d+[.)])\s+\[[^\]]?\]\s*(?:\*\*)?)(\d+(?:\.\d+)+)/;
+const DEPENDS_LINE_PATTERN = /^(\s*[-*+]\s+[_*]{0,2}Depends(?:\s+on)?:?[_*]{0,2}:?)(.*)$/i;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Rewrites every REQ-x, REQ-x.y and DES-x reference of the document outside its
+ * code blocks. A criterion without its own mapping follows the number of its
+ * requirement.
+ */
+function rewriteReferences(document: MarkdownDocument, maps: IdMaps, prefixes: IdPrefixes): string[] {
+  const pattern = new RegExp(`\\b(${escapeRegExp(prefixes.requirement)}|${escapeRegExp(prefixes.design)})-(\\d+)(?:\\.(\\d+))?(?!\\d)`, "g");
+  const textLines = new Set(document.textLines.map(textLine => textLine.line));
+  return document.lines.map((line, index) => {
+    if (!textLines.has(index + 1)) return line;
+    return line.replace(pattern, (match, prefix: string, major: string, minor?: string) => {
+      if (prefix === prefixes.design) return maps.design.get(match) ?? match;
+      const requirement = maps.requirements.get(`${prefix}-${major}`);
+      if (minor === undefined) return requirement ?? match;
+      return maps.criteria.get(match) ?? (requirement ? `${requirement}.${minor}` : match);
+    });
+  });
+}
+
+/**
+ * Formats the three documents of a spec. Documents that are missing stay missing.
+ */
+export function formatSpecDocuments(
+  contents: Partial<Record<SpecFileName, string>>,
+  prefixes: IdPrefixes = DEFAULT_CONFIG.idPrefixes
+): {
+  contents: Partial<Record<SpecFileName, string>>;
+  renumbered: RenumberedId[];
+  addedFinalCheckpoint: boolean;
+  rebuiltMatrix: boolean;
+} {
+  const maps: IdMaps = { requirements: new Map(), criteria: new Map(), design: new Map() };
+  const renumbered: RenumberedId[] = [];
+  const formatted: Partial<Record<SpecFileName, string>> = {};
+  const labelPattern = new RegExp(`^(?:\\*\\*)?(?:${escapeRegExp(prefixes.requirement)}-)?\\d+\\.\\d+(?:\\*\\*)?[.:)]?(?:\\*\\*)?\\s+`);
+
+  // Collect the new numbers of every document before rewriting any reference
+  const requirements = contents["requirements.md"] !== undefined ? parseRequirements(contents["requirements.md"], prefixes) : undefined;
+  const design = contents["design.md"] !== undefined ? parseDesign(contents["design.md"], prefixes) : undefined;
+  const tasks = contents["tasks.md"] !== undefined ? parseTasks(contents["tasks.md"], prefixes) : undefined;
+
+  const requirementHeadings = new Map<number, string>();
+  const criterionNumbers = new Map<number, number>();
+  const keepNumbers = requirements ? hasDeltaSections(requirements) : false;
+  requirements?.requirements.forEach((req, index) => {
+    const number = keepNumbers ? req.number : index + 1;
+    const id = `${prefixes.requirement}-${number}`;
+    if (!maps.requirements.has(req.id)) {
+      maps.requirements.set(req.id, id);
+      if (req.id !== id) renumbered.push({ kind: "requirement", from: req.id, to: id });
+    }
+    requirementHeadings.set(req.line, `${"#".repeat(req.section.level)} Requirement ${number}${req.title ? `: ${req.title}` : ""}`);
+
+    req.criteria.forEach((criterion, criterionIndex) => {
+      const criterionId = `${id}.${criterionIndex + 1}`;
+      if (criterion.numbered && !maps.criteria.has(criterion.id)) {
+        maps.criteria.set(criterion.id, criterionId);
+        if (criterion.id !== criterionId) renumbered.push({ kind: "criterion", from: criterion.id, to: criterionId });
+      }
+      criterionNumbers.set(criterion.line, criterionIndex + 1);
+    });
+  });
+
+  const designHeadings = new Map<number, string>();
+  design?.elements.forEach((element, index) => {
+    const id = `${prefixes.design}-${index + 1}`;
+    if (!maps.design.has(element.id)) {
+      maps.design.set(element.id, id);
+      if (element.id !== id) renumbered.push({ kind: "design", from: element.id, to: id });
+    }
+    designHeadings.set(element.line, `${"#".repeat(element.section.level)} ${id}${element.title ? `: ${element.title}` : ""}`);
+  });
+
+  // requirements.md: headings and criterion markers
+  if (requirements) {
+    const lines = rewriteReferences(requirements.document, maps, prefixes).map((line, index) => {
+      const heading = requirementHeadings.get(index + 1);
+      if (heading) return heading;
+      const number = criterionNumbers.get(index + 1);
+      const marker = number !== undefined ? line.match(CRITERION_MARKER_PATTERN) : null;
+      if (!marker) return line;
+      return `${marker[1]}${number}. ${line.slice(marker[0].length).replace(labelPattern, "")}`;
+    });
+    formatted["requirements.md"] = lines.join("\n");
+  }
+
+  // design.md: headings, then the matrix from the rewritten inline links
+  let rebuiltMatrix = false;
+  if (design) {
+    const lines = rewriteReferences(design.document, maps, prefixes)
+      .map((line, index) => designHeadings.get(index + 1) ?? line);
+    const result = rebuildTraceabilityMatrix(lines.join("\n"), prefixes);
+    formatted["design.md"] = result.content;
+    rebuiltMatrix = result.rebuilt;
+  }
+
+  // tasks.md: phases with the Final Checkpoint last, tasks and _Depends:_ markers
+  let addedFinalCheckpoint = false;
+  if (tasks) {
+    const taskIds = new Map<string, string>();
+    const taskLines = new Map<number, string>();
+    const phaseHeadings = new Map<number, string>();
+    const ordered = [...tasks.phases.filter(phase => !phase.isFinalCheckpoint), ...tasks.phases.filter(phase => phase.isFinalCheckpoint)];
+
+    const numberTasks = (list: Task[], parent: string) => list.forEach((task, index) => {
+      const id = `${parent}.${index + 1}`;
+      if (!taskIds.has(task.id)) {
+        taskIds.set(task.id, id);
+        if (task.id !== id) renumbered.push({ kind: "task", from: task.id, to: id });
+      }
+      taskLines.set(task.line, id);
+      numberTasks(task.subtasks, id);
+    });
+    ordered.forEach((phase, index) => {
+      const number = index + 1;
+      if (phase.number !== number) renumbered.push({ kind: "phase", from: `Phase ${phase.number}`, to: `Phase ${number}` });
+      phaseHeadings.set(phase.line, `${"#".repeat(phase.section.level)} Phase ${number}${phase.title ? `: ${phase.title}` : ""}`);
+      numberTasks(phase.tasks, String(number));
+    });
+
+    let lines = rewriteReferences(tasks.document, maps, prefixes).map((line, index) => {
+      const heading = phaseHeadings.get(index + 1);
+      if (heading) return heading;
+      const taskId = taskLines.get(index + 1);
+      if (taskId) return line.replace(TASK_ID_PATTERN, (_match, start: string) => `${start}${taskId}`);
+      const depends = line.match(DEPENDS_LINE_PATTERN);
+      if (depends) return `${depends[1]}${depends[2].replace(/\d+(?:\.\d+)+/g, id => taskIds.get(id) ?? id)}`;
+      return line;
+    });
+
+    const finalPhase = tasks.phases.find(phase => phase.isFinalCheckpoint);
+    const lastPhase = tasks.phases[tasks.phases.length - 1];
+    if (finalPhase && finalPhase !== lastPhase) {
+      const block = lines.slice(finalPhase.line - 1, finalPhase.section.endLine);
+      lines.splice(finalPhase.line - 1, block.length);
+      lines = appendBlock(lines, block.join("\n").replace(/(?:\n\s*(?:---+)?\s*)+$/, "").split("\n"));
+    } else if (!finalPhase && lastPhase) {
+      const number = tasks.phases.length + 1;
+      const checks = (requirements?.requirements || [])
+        .filter(req => req.delta !== "removed")
+        .map(req => `  - ${maps.requirements.get(req.id) ?? req.id}: Confirm ${req.title || "the acceptance criteria"}`);
+      const depends = lastPhase.tasks.map(task => taskIds.get(task.id) ?? task.id);
+      lines = appendBlock(lines, [
+        `${"#".repeat(lastPhase.section.level)} Phase ${number}: Final Checkpoint`,
+        "",
+        `- [ ] ${number}.1 Verify all acceptance criteria`,
+        ...checks,
+        "  - Run tests, validate requirements",
+        ...(depends.length > 0 ? [`  - _Depends: ${depends.join(", ")}_`] : []),
+        "  - _Implements: All requirements_"
+      ]);
+      addedFinalCheckpoint = true;
+    }
+    formatted["tasks.md"] = lines.join("\n");
+  }
+
+  // The parser splits on any line ending; restore the one of each file
+  for (const name of SPEC_FILES) {
+    if (formatted[name] !== undefined && contents[name]?.includes("\r\n")) {
+      formatted[name] = formatted[name].replace(/\n/g, "\r\n");
+    }
+  }
+
+  return { contents: formatted, renumbered, addedFinalCheckpoint, rebuiltMatrix };
+}
+
+/**
+ * Appends a section after a horizontal rule, keeping a single trailing newline.
+ */
+function appendBlock(lines: string[], block: string[]): string[] {
+  const result = lines.slice();
+  while (result.length > 0 && !result[result.length - 1].trim()) result.pop();
+  if (result.length > 0 && !/^\s*---+\s*$/.test(result[result.length - 1])) result.push("", "---");
+  return [...result, "", ...block, ""];
+}
+
+/**
+ * Replaces the table of the Traceability Matrix section with one row per design
+ * element that implements requirements, or adds the section at the end.
+ */
+export function rebuildTraceabilityMatrix(content: string, prefixes: IdPrefixes = DEFAULT_CONFIG.idPrefixes): { content: string; rebuilt: boolean } {
+  const design = parseDesign(content, prefixes);
+  const rows = design.elements.flatMap(element => {
+    const requirements = [...new Set(design.links.filter(link => link.from === element.id).map(link => link.to))];
+    return requirements.length > 0 ? [`| ${element.id} | ${requirements.join(", ")} |`] : [];
+  });
+  const section = findSection(design.document, "Traceability Matrix");
+  if (rows.length === 0 && !section) return { content, rebuilt: false };
+
+  const table = ["| Design Element | Requirements |", "|----------------|--------------|", ...rows];
+  const lines = design.document.lines.slice();
+  if (!section) {
+    return { content: appendBlock(lines, ["## Traceability Matrix", "", ...table]).join("\n"), rebuilt: true };
+  }
+
+  const existing = design.document.tables.find(candidate => candidate.line > section.line && candidate.line <= section.endLine);
+  if (existing) {
+    lines.splice(existing.line - 1, existing.range.end.line - existing.line + 1, ...table);
+  } else {
+    lines.splice(section.line, 0, "", ...table);
+  }
+  const rebuilt = lines.join("\n");
+  return { content: rebuilt, rebuilt: rebuilt !== content };
+}
+
+/**
+ * Tool: format_spec
+ * Renumbers IDs, normalizes headings and rebuilds the Traceability Matrix of a spec
+ */
+export async function formatSpec(
+  slug: string,
+  write: boolean = false,
+  output: FormatOutput = "diff",
+  targetDir: string = process.cwd(),
+  config: SpecDrivenConfig = DEFAULT_CONFIG
+): Promise<{
+  valid: boolean;
+  written: boolean;
+  changedFiles: string[];
+  renumbered: RenumberedId[];
+  addedFinalCheckpoint: boolean;
+  rebuiltMatrix: boolean;
+  diff?: string;
+  files?: Record<string, string>;
+  diagnostics: Diagnostic[];
+}> {
+  const diagnostics = checkSlug(slug);
+  const refused = () => ({ valid: false, written: false, changedFiles: [], renumbered: [], addedFinalCheckpoint: false, rebuiltMatrix: false, diagnostics });
+  if (diagnostics.length > 0) return refused();
+  const { idPrefixes, specRoot } = config;
+  const relativeDir = specDirectory(slug, specRoot);
+  const fileOf = (name: string) => path.join(relativeDir, name);
+  const contents = await readSpecFiles(slug, targetDir, specRoot);
+
+  const missing = SPEC_FILES.filter(name => contents[name] === undefined);
+  for (const name of missing) {
+    diagnostics.push(createDiagnostic("STR004", {
+      message: `Cannot read ${name}`,
+      suggestedFix: `Ensure file exists in ${relativeDir}/ directory`,
+      file: fileOf(name)
+    }));
+  }
+  if (missing.length === SPEC_FILES.length) return refused();
+
+  const result = formatSpecDocuments(contents, idPrefixes);
+  const changed = SPEC_FILES.filter(name => result.contents[name] !== undefined && result.contents[name] !== contents[name]);
+  if (write) {
+    for (const name of changed) {
+      await fs.writeFile(path.join(targetDir, fileOf(name)), result.contents[name] ?? "", "utf-8");
+    }
+  }
+
+  // Problems that remain after formatting
+  const requirementsContent = result.contents["requirements.md"];
+  const designContent = result.contents["design.md"];
+  const tasksContent = result.contents["tasks.md"];
+  const requirementsModel = requirementsContent !== undefined ? parseRequirements(requirementsContent, idPrefixes) : undefined;
+  if (requirementsModel && requirementsContent !== undefined) {
+    const baseline = await readBaseline(requirementsModel, targetDir, config, fileOf("requirements.md"));
+    diagnostics.push(...baseline.diagnostics);
+    diagnostics.push(...verifyRequirementsFile(requirementsContent, fileOf("requirements.md"), config, baseline.content).diagnostics);
+  }
+  if (designContent !== undefined) {
+    diagnostics.push(...verifyDesignFile(designContent, undefined, fileOf("design.md"), config).diagnostics);
+  }
+  if (tasksContent !== undefined) {
+    diagnostics.push(...verifyTasksFile(tasksContent, undefined, fileOf("tasks.md"), config).diagnostics);
+  }
+  diagnostics.push(...checkTraceability(
+    {
+      requirements: requirementsModel,
+      design: designContent !== undefined ? parseDesign(designContent, idPrefixes) : undefined,
+      tasks: tasksContent !== undefined ? parseTasks(tasksContent, idPrefixes) : undefined
+    },
+    { requirements: fileOf("requirements.md"), design: fileOf("design.md"), tasks: fileOf("tasks.md") },
+    idPrefixes
+  ).diagnostics);
+
+  return {
+    valid: !hasErrors(diagnostics),
+    written: write && changed.length > 0,
+    changedFiles: changed.map(fileOf),
+    renumbered: result.renumbered,
+    addedFinalCheckpoint: result.addedFinalCheckpoint,
+    rebuiltMatrix: result.rebuiltMatrix,
+    ...(output === "files"
+      ? { files: Object.fromEntries(changed.map(name => [fileOf(name), result.contents[name] ?? ""])) }
+      : { diff: changed.map(name => unifiedDiff(fileOf(name).split(path.sep).join("/"), contents[name] ?? "", result.contents[name] ?? "")).join("\n") }),
+    diagnostics
+  };
+}
@@ -0,0 +1,236 @@
+/**
+ * Git history of a spec: commits citing its requirement and design IDs.
+ *
+ * The local `git log` of the target directory is read for a revision range. A
+ * commit refers to the IDs in its message (REQ-x.y, REQ-x or DES-x); file paths
+ * are relative to the target directory, so they compare with the Code Anatomy
+ * paths of design.md.
+ */
+import { execFile } from "child_process";
+import path from "path";
+import { promisify } from "util";
+import { DEFAULT_CONFIG, type SpecDrivenConfig } from "./config.js";
+import { createDiagnostic, hasErrors, type Diagnostic } from "./diagnostics.js";
+import { matchesGlob } from "./glob.js";
+import { readSpecFiles, SPEC_FILES, specDirectory } from "./spec-files.js";
+import {
+  extractDesignRefs,
+  extractRequirementRefs,
+  extractWholeRequirementRefs,
+  parseDesign,
+  parseRequirements,
+  parseTasks,
+  type CodeAnatomyEntry,
+  type IdPrefixes
+} from "./spec-model.js";
+import { isTaskDone, summarizeTask, type TaskSummary } from "./task-graph.js";
+import { checkTraceability } from "./traceability.js";
+import { checkSlug } from "./workspace.js";
+
+const execFileAsync = promisify(execFile);
+
+export interface Commit {
+  hash: string;
+  shortHash: string;
+  author: string;
+  /** Author date in ISO 8601 format */
+  date: string;
+  subject: string;
+  /** Every requirement and design ID cited in the message */
+  ids: string[];
+  files: string[];
+}
+
+export interface SpecHistoryReport {
+  range: string;
+  commitsScanned: number;
+  /** Commits citing at least one ID of the spec, newest first */
+  commits: Commit[];
+  /** ID of the spec → short hashes of the commits citing it */
+  commitsById: Record<string, string[]>;
+  /** Completed leaf tasks none of whose IDs is cited by a commit */
+  completedTasksWithoutCommit: TaskSummary[];
+  /** Commits changing Code Anatomy paths without citing any requirement or design ID */
+  commitsWithoutIds: Commit[];
+}
+
+const RECORD_SEPARATOR = "\x1e";
+const FIELD_SEPARATOR = "\x1f";
+
+function citedIds(message: string, prefixes: IdPrefixes): string[] {
+  return [
+    ...extractRequirementRefs(message, prefixes),
+    ...extractWholeRequirementRefs(message, prefixes),
+    ...extractDesignRefs(message, prefixes)
+  ];
+}
+
+/**
+ * Reads the non-merge commits of a revision range with the files they change.
+ */
+export async function readGitLog(
+  targetDir: string = process.cwd(),
+  range: string = "HEAD",
+  prefixes: IdPrefixes = DEFAULT_CONFIG.idPrefixes
+): Promise<Commit[]> {
+  const format = `${RECORD_SEPARATOR}%H${FIELD_SEPARATOR}%h${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%aI${FIELD_SEPARATOR}%s${FIELD_SEPARATOR}%B${FIELD_SEPARATOR}`;
+  const { stdout } = await execFileAsync(
+    "git",
+    ["log", "--no-merges", "--name-only", "--relative", `--format=${format}`, range, "--"],
+    { cwd: targetDir, maxBuffer: 256 * 1024 * 1024, timeout: 60_000 }
+  );
+
+  return stdout.split(RECORD_SEPARATOR).filter(record => record.trim()).map(record => {
+    const [hash, shortHash, author, date, subject, body, files] = record.split(FIELD_SEPARATOR);
+    return {
+      hash,
+      shortHash,
+      author,
+      date,
+      subject,
+      ids: citedIds(body, prefixes),
+      files: (files ?? "").split("\n").map(file => file.trim()).filter(Boolean)
+    };
+  });
+}
+
+/**
+ * Tests whether a changed file is covered by a Code Anatomy path: the same file,
+ * a file below a folder entry, or a glob pattern match.
+ */
+function isAnatomyPath(file: string, entry: CodeAnatomyEntry): boolean {
+  const anatomyPath = entry.path.split("\\").join("/").replace(/^\.\//, "").replace(/\/+$/, "");
+  if (/[*?{]/.test(anatomyPath)) return matchesGlob(file, [anatomyPath]);
+  return file === anatomyPath || file.startsWith(`${anatomyPath}/`);
+}
+
+/**
+ * Tool: get_spec_history
+ * Reports the commits citing the IDs of a spec, completed tasks without commits
+ * and commits changing its Code Anatomy paths without citing an ID
+ */
+export async function getSpecHistory(
+  slug: string,
+  range: string = "HEAD",
+  targetDir: string = process.cwd(),
+  config: SpecDrivenConfig = DEFAULT_CONFIG
+): Promise<{
+  valid: boolean;
+  diagnostics: Diagnostic[];
+  report: SpecHistoryReport;
+}> {
+  const diagnostics = checkSlug(slug);
+  const { idPrefixes, specRoot } = config;
+  const relativeDir = specDirectory(slug, specRoot);
+  const files = {
+    requirements: path.join(relativeDir, "requirements.md"),
+    design: path.join(relativeDir, "design.md"),
+    tasks: path.join(relativeDir, "tasks.md")
+  };
+  const report: SpecHistoryReport = {
+    range,
+    commitsScanned: 0,
+    commits: [],
+    commitsById: {},
+    completedTasksWithoutCommit: [],
+    commitsWithoutIds: []
+  };
+
+  // A range starting with "-" would be read by git as an option
+  if (!range.trim() || range.startsWith("-")) {
+    diagnostics.push(createDiagnostic("GIT001", {
+      message: `Invalid revision range "${range}"`,
+      suggestedFix: "Use a revision or range such as HEAD, main..HEAD or v1.0.0..v1.1.0"
+    }));
+  }
+  if (diagnostics.length > 0) return { valid: false, diagnostics, report };
+
+  const contents = await readSpecFiles(slug, targetDir, specRoot);
+  for (const name of SPEC_FILES.filter(name => contents[name] === undefined)) {
+    diagnostics.push(createDiagnostic("STR004", {
+      message: `Cannot read ${name}`,
+      suggestedFix: `Ensure file exists in ${relativeDir}/ directory`,
+      file: path.join(relativeDir, name)
+    }));
+  }
+
+  let log: Commit[];
+  try {
+    log = await readGitLog(targetDir, range, idPrefixes);
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    diagnostics.push(createDiagnostic("GIT001", {
+      message: `Cannot read the git log of ${range}: ${stderr || (error as Error).message}`,
+      suggestedFix: "Run the tool inside a git repository with git installed, and use an existing revision range"
+    }));
+    return { valid: false, diagnostics, report };
+  }
+
+  const requirementsContent = contents["requirements.md"];
+  const designContent = contents["design.md"];
+  const tasksContent = contents["tasks.md"];
+  const requirements = requirementsContent !== undefined ? parseRequirements(requirementsContent, idPrefixes) : undefined;
+  const design = designContent !== undefined ? parseDesign(designContent, idPrefixes) : undefined;
+  const tasks = tasksContent !== undefined ? parseTasks(tasksContent, idPrefixes) : undefined;
+  const { matrix } = checkTraceability({ requirements, design, tasks }, files, idPrefixes).report;
+
+  // IDs of the spec; a commit citing REQ-1 counts for every criterion of REQ-1
+  const knownIds = new Set([
+    ...(requirements?.requirements || []).flatMap(req => [req.id, ...req.criteria.filter(criterion => criterion.numbered).map(criterion => criterion.id)]),
+    ...(design?.elements || []).map(element => element.id)
+  ]);
+  const commitsById: Record<string, string[]> = {};
+  const commits = log.filter(commit => commit.ids.some(id => knownIds.has(id)));
+  for (const commit of commits) {
+    for (const id of commit.ids.filter(id => knownIds.has(id))) {
+      (commitsById[id] ??= []).push(commit.shortHash);
+    }
+  }
+
+  const finalPhases = new Set(tasks?.phases.filter(phase => phase.isFinalCheckpoint).map(phase => phase.number));
+  const completedTasksWithoutCommit = (tasks?.tasks || []).filter(task => {
+    if (!isTaskDone(task) || task.subtasks.length > 0 || task.implements.length === 0) return false;
+    if (task.phase !== undefined && finalPhases.has(task.phase)) return false;
+    const linked = matrix
+      .filter(row => task.implements.some(id => id === row.criterion || row.designElements.includes(id)))
+      .flatMap(row => [row.criterion, row.requirement, ...row.designElements]);
+    return ![...task.implements, ...linked].some(id => commitsById[id]);
+  });
+  for (const task of completedTasksWithoutCommit) {
+    diagnostics.push(createDiagnostic("GIT002", {
+      message: `Task ${task.id} is completed, but no commit in ${range} cites ${task.implements.join(", ")}`,
+      suggestedFix: `Cite the implemented IDs in the commit message, e.g. "${task.title} (${task.implements[0]})"`,
+      range: task.range,
+      file: files.tasks
+    }));
+  }
+
+  // Any requirement or design ID counts here, as a shared file may belong to several specs
+  const anatomy = design?.codeAnatomy || [];
+  const commitsWithoutIds = log.filter(commit =>
+    commit.ids.length === 0 && commit.files.some(file => anatomy.some(entry => isAnatomyPath(file, entry)))
+  );
+  for (const commit of commitsWithoutIds) {
+    const changed = commit.files.filter(file => anatomy.some(entry => isAnatomyPath(file, entry)));
+    const entry = anatomy.find(candidate => isAnatomyPath(changed[0], candidate));
+    diagnostics.push(createDiagnostic("GIT003", {
+      message: `Commit ${commit.shortHash} "${commit.subject}" changes ${changed.join(", ")} without citing a requirement or design ID`,
+      suggestedFix: `Cite the implemented IDs in commit messages, e.g. "${commit.subject} (${entry?.implements[0] ?? `${idPrefixes.design}-1`})"`,
+      line: entry?.line,
+      file: files.design
+    }));
+  }
+
+  return {
+    valid: !hasErrors(diagnostics),
+    diagnostics,
+    report: {
+      range,
+      commitsScanned: log.length,
+      commits,
+      commitsById,
+      completedTasksWithoutCommit: completedTasksWithoutCommit.map(summarizeTask),
+      commitsWithoutIds
+    }
+  };
+}
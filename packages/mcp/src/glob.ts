@@ -0,0 +1,54 @@
+/**
+ * Minimal glob matching for workspace-relative paths using "/" separators.
+ *
+ * Supports `*` (any characters except "/"), `**` (any number of path segments),
+ * `?` (one character except "/") and `{a,b}` alternatives.
+ */
+
+const globCache = new Map<string, RegExp>();
+
+export function globToRegExp(pattern: string): RegExp {
+  let regex = globCache.get(pattern);
+  if (regex) return regex;
+
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "**/" matches zero or more directories, a trailing "**" matches everything below
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      const end = pattern.indexOf("}", i);
+      if (end === -1) {
+        source += "\\{";
+      } else {
+        source += `(?:${pattern.slice(i + 1, end).split(",").map(part => part.replace(/[.+^$()|[\]\\]/g, "\\$&").replace(/\*/g, "[^/]*")).join("|")})`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^$()|[\]\\}]/g, "\\$&");
+    }
+  }
+
+  regex = new RegExp(`^${source}$`);
+  globCache.set(pattern, regex);
+  return regex;
+}
+
+/**
+ * Tests a "/"-separated relative path against glob patterns.
+ */
+export function matchesGlob(filePath: string, patterns: string[]): boolean {
+  const normalized = filePath.split("\\").join("/").replace(/^\.\//, "");
+  return patterns.some(pattern => globToRegExp(pattern.replace(/^\.\//, "")).test(normalized));
+}
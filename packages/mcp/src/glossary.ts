@@ -0,0 +1,233 @@
+/**
+ * Glossary checks of requirements.md and the project-wide glossary.
+ *
+ * Terms are compared case-insensitively. A Capitalized_Snake_Case identifier in
+ * an acceptance criterion is a glossary term; all-caps identifiers such as
+ * MAX_RETRIES are constants and are not checked. Definitions are compared across
+ * the specs under specs/changes/ and the capabilities under specs/capabilities/.
+ */
+import fs from "fs/promises";
+import path from "path";
+import { DEFAULT_CONFIG, type SpecDrivenConfig } from "./config.js";
+import { createDiagnostic, hasErrors, type Diagnostic } from "./diagnostics.js";
+import { lifecycleDirectories, specDirectory } from "./spec-files.js";
+import { parseRequirements, type RequirementsModel } from "./spec-model.js";
+
+export interface ProjectGlossaryTerm {
+  term: string;
+  definition: string;
+  /** Spec folders defining the term, e.g. `specs/changes/rate-limiter` */
+  specs: string[];
+  /** Every definition when the specs disagree */
+  definitions?: { definition: string; specs: string[] }[];
+}
+
+interface SpecGlossary {
+  /** Spec folder relative to the target directory */
+  dir: string;
+  file: string;
+  model: RequirementsModel;
+}
+
+const TERM_PATTERN = /(?<![\w-])[A-Z][A-Za-z0-9]*(?:_[A-Za-z0-9]+)+(?![\w-])/g;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function normalizeDefinition(definition: string): string {
+  return definition.replace(/\s+/g, " ").replace(/[.\s]+$/, "").trim().toLowerCase();
+}
+
+/**
+ * Checks the Glossary table of a requirements model: duplicate terms, terms the
+ * document never uses and Capitalized_Snake_Case terms of the criteria that the
+ * glossary does not define.
+ */
+export function checkGlossary(model: RequirementsModel): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  if (!model.glossary) return diagnostics;
+
+  const defined = new Map<string, number>();
+  for (const entry of model.glossary) {
+    const key = entry.term.toLowerCase();
+    const first = defined.get(key);
+    if (first !== undefined) {
+      diagnostics.push(createDiagnostic("GLO003", {
+        message: `Glossary term ${entry.term} is defined twice (first on line ${first})`,
+        suggestedFix: `Merge the definitions of ${entry.term} into one row`,
+        line: entry.line
+      }));
+    } else {
+      defined.set(key, entry.line);
+    }
+  }
+
+  // Usage outside the Glossary section, ignoring inline code
+  const glossaryLines = new Set(model.glossary.map(entry => entry.line));
+  const text = model.document.textLines
+    .filter(textLine => !glossaryLines.has(textLine.line))
+    .map(textLine => textLine.text.replace(/`[^`]*`/g, ""))
+    .join("\n");
+  for (const entry of model.glossary.filter(entry => defined.get(entry.term.toLowerCase()) === entry.line)) {
+    if (!new RegExp(`(?<![\\w-])${escapeRegExp(entry.term)}(?![\\w-])`, "i").test(text)) {
+      diagnostics.push(createDiagnostic("GLO001", {
+        message: `Glossary term ${entry.term} is never used`,
+        suggestedFix: `Use ${entry.term} in the acceptance criteria, or remove it from the glossary`,
+        line: entry.line
+      }));
+    }
+  }
+
+  const reported = new Set<string>();
+  for (const criterion of model.requirements.flatMap(req => req.criteria)) {
+    for (const match of criterion.text.replace(/`[^`]*`/g, "").matchAll(TERM_PATTERN)) {
+      const term = match[0];
+      const key = term.toLowerCase();
+      if (term === term.toUpperCase() || defined.has(key) || reported.has(key)) continue;
+      reported.add(key);
+      diagnostics.push(createDiagnostic("GLO002", {
+        message: `${term} is used in ${criterion.id} but not defined in the glossary`,
+        suggestedFix: `Add | ${term} | <definition> | to the Glossary table`,
+        range: criterion.range
+      }));
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Reads the requirements.md glossaries of the specs under specs/changes/ and
+ * specs/capabilities/.
+ */
+async function readGlossaries(targetDir: string, config: SpecDrivenConfig): Promise<SpecGlossary[]> {
+  const { specRoot } = config;
+  const { capabilities } = lifecycleDirectories(specRoot);
+  const glossaries: SpecGlossary[] = [];
+  for (const root of [specRoot, capabilities]) {
+    let names: string[];
+    try {
+      const entries = await fs.readdir(path.join(targetDir, root), { withFileTypes: true });
+      names = entries.filter(entry => entry.isDirectory()).map(entry => entry.name).sort();
+    } catch {
+      continue;
+    }
+    for (const name of names) {
+      const dir = path.join(root, name);
+      const file = path.join(dir, "requirements.md");
+      try {
+        const model = parseRequirements(await fs.readFile(path.join(targetDir, file), "utf-8"), config.idPrefixes);
+        if (model.glossary) glossaries.push({ dir, file, model });
+      } catch {
+        continue;
+      }
+    }
+  }
+  return glossaries;
+}
+
+/**
+ * Reports the glossary terms of a spec that other specs define differently.
+ */
+export async function checkGlossaryConflicts(
+  slug: string,
+  model: RequirementsModel,
+  targetDir: string = process.cwd(),
+  config: SpecDrivenConfig = DEFAULT_CONFIG
+): Promise<Diagnostic[]> {
+  const diagnostics: Diagnostic[] = [];
+  const dir = specDirectory(slug, config.specRoot);
+  const others = (await readGlossaries(targetDir, config)).filter(glossary => glossary.dir !== dir);
+
+  // Duplicate rows of the spec are reported by checkGlossary
+  const glossary = model.glossary || [];
+  const firstRows = glossary.filter(entry => glossary.find(other => other.term.toLowerCase() === entry.term.toLowerCase()) === entry);
+  for (const entry of firstRows) {
+    const conflicts = others.flatMap(other => (other.model.glossary || [])
+      .filter(candidate => candidate.term.toLowerCase() === entry.term.toLowerCase())
+      .filter(candidate => normalizeDefinition(candidate.definition) !== normalizeDefinition(entry.definition))
+      .map(candidate => ({ dir: other.dir, definition: candidate.definition })));
+    if (conflicts.length > 0) {
+      diagnostics.push(createDiagnostic("GLO004", {
+        message: `Glossary term ${entry.term} is defined differently in ${conflicts.map(conflict => `${conflict.dir} ("${conflict.definition}")`).join(", ")}`,
+        suggestedFix: `Reuse the existing definition of ${entry.term}, or name the different concept with another term`,
+        line: entry.line
+      }));
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Renders the project glossary as a Markdown table.
+ */
+export function renderProjectGlossary(glossary: ProjectGlossaryTerm[]): string {
+  const cell = (text: string) => text.replace(/\|/g, "\\|");
+  return [
+    "| Term | Definition | Specs |",
+    "|------|------------|-------|",
+    ...glossary.map(entry => {
+      const definition = entry.definitions
+        ? entry.definitions.map(variant => `${variant.definition} (${variant.specs.join(", ")})`).join("<br>")
+        : entry.definition;
+      return `| ${cell(entry.term)} | ${cell(definition)} | ${entry.specs.join(", ")} |`;
+    })
+  ].join("\n");
+}
+
+/**
+ * Tool: get_project_glossary
+ * Builds the glossary of every spec and capability of the project
+ */
+export async function getProjectGlossary(
+  targetDir: string = process.cwd(),
+  config: SpecDrivenConfig = DEFAULT_CONFIG
+): Promise<{
+  valid: boolean;
+  diagnostics: Diagnostic[];
+  glossary: ProjectGlossaryTerm[];
+}> {
+  const diagnostics: Diagnostic[] = [];
+  const terms = new Map<string, { term: string; definitions: Map<string, { definition: string; specs: string[]; line: number; file: string }> }>();
+
+  for (const { dir, file, model } of await readGlossaries(targetDir, config)) {
+    for (const entry of model.glossary || []) {
+      const key = entry.term.toLowerCase();
+      let term = terms.get(key);
+      if (!term) {
+        term = { term: entry.term, definitions: new Map() };
+        terms.set(key, term);
+      }
+      const variant = term.definitions.get(normalizeDefinition(entry.definition));
+      if (!variant) {
+        term.definitions.set(normalizeDefinition(entry.definition), { definition: entry.definition, specs: [dir], line: entry.line, file });
+      } else if (!variant.specs.includes(dir)) {
+        variant.specs.push(dir);
+      }
+    }
+  }
+
+  const glossary: ProjectGlossaryTerm[] = [];
+  for (const { term, definitions } of [...terms.values()].sort((a, b) => a.term.localeCompare(b.term))) {
+    const variants = [...definitions.values()];
+    const specs = [...new Set(variants.flatMap(variant => variant.specs))];
+    if (variants.length > 1) {
+      const [, second] = variants;
+      diagnostics.push(createDiagnostic("GLO004", {
+        message: `Glossary term ${term} has ${variants.length} definitions: ${variants.map(variant => `"${variant.definition}" (${variant.specs.join(", ")})`).join(", ")}`,
+        suggestedFix: `Agree on one definition of ${term}, or name the different concepts with different terms`,
+        line: second.line,
+        file: second.file
+      }));
+    }
+    glossary.push({
+      term,
+      definition: variants[0].definition,
+      specs,
+      ...(variants.length > 1 ? { definitions: variants.map(({ definition, specs }) => ({ definition, specs })) } : {})
+    });
+  }
+
+  return { valid: !hasErrors(diagnostics), diagnostics, glossary };
+}
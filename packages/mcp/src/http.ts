@@ -0,0 +1,195 @@
+/**
+ * MCP Streamable HTTP transport with sessions.
+ *
+ * Every client starts a session with an initialize request and sends the
+ * returned Mcp-Session-Id header on its later requests; each session gets its
+ * own server. Several agents can then share one long-running process. Sessions
+ * without a request for 30 minutes are closed. Request bodies are limited to
+ * 4 MB. On a loopback host, requests whose Host header names another host are
+ * rejected to prevent DNS rebinding.
+ */
+import { randomUUID } from "crypto";
+import http, { type IncomingMessage, type ServerResponse } from "http";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { SpecDrivenServer } from "./server.js";
+
+export const DEFAULT_HTTP_HOST = "127.0.0.1";
+export const DEFAULT_HTTP_PORT = 3737;
+/** Path of the MCP endpoint */
+export const MCP_HTTP_PATH = "/mcp";
+/** Largest request body accepted, in bytes */
+export const MAX_BODY_BYTES = 4 * 1024 * 1024;
+/** Time after the last request of a session until the session is closed */
+export const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  /** Idle time after which a session is closed (default: DEFAULT_SESSION_IDLE_MS) */
+  sessionIdleMs?: number;
+}
+
+interface HttpSession extends SpecDrivenServer {
+  transport: StreamableHTTPServerTransport;
+  idleTimer?: NodeJS.Timeout;
+}
+
+const LOOPBACK_HOSTS = ["127.0.0.1", "localhost", "::1"];
+
+/**
+ * Returns the URL of the MCP endpoint, e.g. `http://127.0.0.1:3737/mcp`.
+ */
+export function mcpHttpUrl(host: string = DEFAULT_HTTP_HOST, port: number = DEFAULT_HTTP_PORT): string {
+  return `http://${host.includes(":") ? `[${host}]` : host}:${port}${MCP_HTTP_PATH}`;
+}
+
+function sendError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+/**
+ * Reads the body of a request up to MAX_BODY_BYTES. Returns undefined, leaving
+ * the rest unread, when the body is larger.
+ */
+function readBody(req: IncomingMessage): Promise<Buffer | undefined> {
+  if (Number(req.headers["content-length"]) > MAX_BODY_BYTES) return Promise.resolve(undefined);
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        req.off("data", onData);
+        req.pause();
+        resolve(undefined);
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on("data", onData);
+    req.once("end", () => resolve(Buffer.concat(chunks)));
+    req.once("error", reject);
+  });
+}
+
+/**
+ * Serves MCP over Streamable HTTP until the process ends. `createSession` is
+ * called once per initialize request.
+ */
+export async function startHttpServer(
+  createSession: () => SpecDrivenServer,
+  options: HttpServerOptions
+): Promise<{ url: string; sessions: () => SpecDrivenServer[]; close: () => Promise<void> }> {
+  const sessions = new Map<string, HttpSession>();
+  const sessionIdleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+  const allowedHosts = LOOPBACK_HOSTS.includes(options.host)
+    ? LOOPBACK_HOSTS.map(host => `${host.includes(":") ? `[${host}]` : host}:${options.port}`)
+    : undefined;
+
+  // Every request of a session restarts its idle timer; an open SSE stream does not
+  const touch = (session: HttpSession) => {
+    clearTimeout(session.idleTimer);
+    session.idleTimer = setTimeout(() => {
+      session.transport.close().catch(() => undefined);
+    }, sessionIdleMs);
+    session.idleTimer.unref();
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    if (pathname !== MCP_HTTP_PATH) {
+      sendError(res, 404, -32000, `Not found; the MCP endpoint is ${MCP_HTTP_PATH}`);
+      return;
+    }
+
+    // Unknown sessions are rejected before their body is read
+    const sessionId = req.headers["mcp-session-id"];
+    const session = typeof sessionId === "string" ? sessions.get(sessionId) : undefined;
+    if (sessionId !== undefined && !session) {
+      sendError(res, 404, -32001, "Session not found; send a new initialize request");
+      return;
+    }
+    if (!session && req.method !== "POST") {
+      sendError(res, 400, -32000, "Missing Mcp-Session-Id header");
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === "POST") {
+      const raw = await readBody(req);
+      if (raw === undefined) {
+        res.setHeader("Connection", "close");
+        res.once("finish", () => req.destroy());
+        sendError(res, 413, -32000, `Request body larger than ${MAX_BODY_BYTES} bytes`);
+        return;
+      }
+      try {
+        body = JSON.parse(raw.toString("utf-8"));
+      } catch {
+        sendError(res, 400, -32700, "Parse error: the request body is not valid JSON");
+        return;
+      }
+    }
+    if (session) {
+      touch(session);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+    if (!isInitializeRequest(body)) {
+      sendError(res, 400, -32000, "Missing Mcp-Session-Id header; start a session with an initialize request");
+      return;
+    }
+
+    const instance = createSession();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        const session: HttpSession = { ...instance, transport };
+        sessions.set(id, session);
+        touch(session);
+      },
+      onsessionclosed: id => {
+        clearTimeout(sessions.get(id)?.idleTimer);
+        sessions.delete(id);
+      },
+      ...(allowedHosts ? { allowedHosts, enableDnsRebindingProtection: true } : {})
+    });
+    transport.onclose = () => {
+      if (!transport.sessionId) return;
+      clearTimeout(sessions.get(transport.sessionId)?.idleTimer);
+      sessions.delete(transport.sessionId);
+    };
+    await instance.server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  // Failures are reported to the client as a JSON-RPC error, or end a started response
+  const httpServer = http.createServer((req, res) => {
+    handle(req, res).catch(error => {
+      if (res.headersSent) {
+        res.end();
+      } else {
+        sendError(res, 500, -32603, `Internal error: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  return {
+    url: mcpHttpUrl(options.host, options.port),
+    sessions: () => [...sessions.values()],
+    close: async () => {
+      await Promise.all([...sessions.values()].map(session => session.transport.close()));
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+  };
+}
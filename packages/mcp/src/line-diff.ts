@@ -0,0 +1,76 @@
+/**
+ * Line-based unified diff of two versions of a text file.
+ */
+
+type DiffOp = { type: " " | "-" | "+"; text: string };
+
+// Above this many line pairs the file is reported as replaced as a whole
+const MAX_LCS_CELLS = 16_000_000;
+
+function diffOps(before: string[], after: string[]): DiffOp[] {
+  const n = before.length;
+  const m = after.length;
+  if (n * m > MAX_LCS_CELLS) {
+    return [...before.map(text => ({ type: "-" as const, text })), ...after.map(text => ({ type: "+" as const, text }))];
+  }
+
+  // lcs[i * (m + 1) + j] = length of the longest common subsequence of before[i..] and after[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = before[i] === after[j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      ops.push({ type: " ", text: before[i++] });
+      j++;
+    } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+      ops.push({ type: "-", text: before[i++] });
+    } else {
+      ops.push({ type: "+", text: after[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: "-", text: before[i++] });
+  while (j < m) ops.push({ type: "+", text: after[j++] });
+  return ops;
+}
+
+/**
+ * Returns a unified diff (`--- a/file`, `+++ b/file`, `@@` hunks), or "" when the
+ * contents are equal.
+ */
+export function unifiedDiff(file: string, before: string, after: string, context: number = 3): string {
+  if (before === after) return "";
+  const ops = diffOps(before.split("\n"), after.split("\n"));
+  const changes = ops.flatMap((op, index) => op.type === " " ? [] : [index]);
+
+  const hunks: [number, number][] = [];
+  for (const index of changes) {
+    const last = hunks[hunks.length - 1];
+    if (last && index - context <= last[1]) {
+      last[1] = Math.min(ops.length, index + context + 1);
+    } else {
+      hunks.push([Math.max(0, index - context), Math.min(ops.length, index + context + 1)]);
+    }
+  }
+
+  const output = [`--- a/${file}`, `+++ b/${file}`];
+  for (const [start, end] of hunks) {
+    const preceding = ops.slice(0, start);
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter(op => op.type !== "+").length;
+    const newCount = hunk.filter(op => op.type !== "-").length;
+    const oldStart = preceding.filter(op => op.type !== "+").length + (oldCount > 0 ? 1 : 0);
+    const newStart = preceding.filter(op => op.type !== "-").length + (newCount > 0 ? 1 : 0);
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    output.push(...hunk.map(op => `${op.type}${op.text}`));
+  }
+  return output.join("\n");
+}
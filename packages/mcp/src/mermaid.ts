@@ -0,0 +1,660 @@
+/**
+ * Offline Mermaid syntax validation for diagrams embedded in design.md.
+ *
+ * This is not a full Mermaid grammar: each supported diagram type gets a
+ * line-oriented checker that recognizes the statements Mermaid accepts and
+ * reports the ones it would reject (unknown statements, unbalanced blocks,
+ * malformed arrows, unquoted special characters in labels, ...). It runs
+ * without a browser or network access.
+ */
+import { createDiagnostic, type Diagnostic } from "./diagnostics.js";
+import type { CodeBlock } from "./spec-model.js";
+
+export type MermaidDiagramType =
+  | "flowchart"
+  | "sequenceDiagram"
+  | "classDiagram"
+  | "stateDiagram"
+  | "erDiagram";
+
+export interface MermaidSyntaxError {
+  /** 1-based line number inside the diagram source */
+  line: number;
+  message: string;
+}
+
+export interface MermaidValidation {
+  /** Diagram keyword found on the first statement line, e.g. "graph" or "stateDiagram-v2" */
+  declaredType?: string;
+  /** Normalized type when the diagram type is supported by the checker */
+  type?: MermaidDiagramType;
+  supported: boolean;
+  errors: MermaidSyntaxError[];
+}
+
+export interface MermaidBlockReport {
+  /** Line of the opening fence in the Markdown document */
+  line: number;
+  type?: string;
+  checked: boolean;
+  valid: boolean;
+  errors: { line: number; message: string }[];
+}
+
+/** Diagram types Mermaid knows about but this checker does not validate */
+const UNCHECKED_TYPES = [
+  "gantt", "pie", "journey", "gitGraph", "mindmap", "timeline", "quadrantChart",
+  "requirementDiagram", "C4Context", "C4Container", "C4Component", "C4Dynamic", "C4Deployment",
+  "sankey-beta", "xychart-beta", "block-beta", "packet-beta", "architecture-beta", "kanban",
+  "zenuml", "radar-beta", "treemap-beta"
+];
+
+interface SourceLine {
+  line: number;
+  text: string;
+}
+
+type LineChecker = (lines: SourceLine[], errors: MermaidSyntaxError[]) => void;
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+const COMMON_STATEMENT = /^(accTitle\s*:|accDescr\s*[:{]|title\s|classDef\s|class\s|style\s|linkStyle\s|click\s|direction\s+(TB|TD|BT|RL|LR)\s*$)/;
+
+function unbalancedQuote(text: string): boolean {
+  return (text.match(/"/g) || []).length % 2 === 1;
+}
+
+/**
+ * Tracks `{ ... }` blocks opened by a line ending with "{" and closed by "}".
+ */
+function checkBraceBlock(text: string, stack: SourceLine[], current: SourceLine, errors: MermaidSyntaxError[], what: string): boolean {
+  if (text === "}") {
+    if (stack.length === 0) {
+      errors.push({ line: current.line, message: `Unexpected "}" without an open ${what} block` });
+    } else {
+      stack.pop();
+    }
+    return true;
+  }
+  return false;
+}
+
+// ---------------------------------------------------------------------------
+// flowchart / graph
+// ---------------------------------------------------------------------------
+
+const NODE_ID = /^[\p{L}\p{N}_](?:[\p{L}\p{N}_.$]|-(?=[\p{L}\p{N}_]))*/u;
+
+/** Node shapes, longest opener first */
+const NODE_SHAPES: [string, string[]][] = [
+  ["(((", [")))"]],
+  ["((", ["))"]],
+  ["([", ["])"]],
+  ["[[", ["]]"]],
+  ["[(", [")]"]],
+  ["{{", ["}}"]],
+  ["[/", ["/]", "\\]"]],
+  ["[\\", ["\\]", "/]"]],
+  ["@{", ["}"]],
+  ["(", [")"]],
+  ["[", ["]"]],
+  ["{", ["}"]],
+  [">", ["]"]]
+];
+
+const FLOW_ARROW = /^(?:<|x|o)?(?:-{2,}[->xo]|={2,}[=>xo]|-\.+-[>xo]?|~{3,})/;
+const FLOW_TEXT_ARROW = /^(?:<|x|o)?(?:--|==|-\.)\s*(?:"[^"]*"|[^"|>]+?)\s*(?:-{2,}[->xo]|={2,}[=>xo]|\.-+[>xo]?)/;
+const FLOW_SPECIAL_CHARS = /[[\](){}"]/;
+
+/**
+ * Parses one flowchart statement: `node (& node)* (edge node (& node)*)*`.
+ * Returns an error message, or null when the statement is valid.
+ */
+function parseFlowStatement(text: string): string | null {
+  let pos = 0;
+
+  const rest = () => text.slice(pos);
+  const near = () => rest().slice(0, 20);
+  const skipSpaces = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const parseShape = (opener: string, closers: string[]): string | null => {
+    const start = pos;
+    pos += opener.length;
+
+    if (opener === "@{") {
+      const close = text.indexOf("}", pos);
+      if (close < 0) return `Unclosed node shape "${opener}" near "${text.slice(start, start + 20)}"`;
+      pos = close + 1;
+      return null;
+    }
+
+    // Quoted labels may contain any character
+    const quoted = rest().match(/^\s*"[^"]*"\s*/);
+    if (quoted) {
+      pos += quoted[0].length;
+      const closer = closers.find(c => rest().startsWith(c));
+      if (!closer) return `Expected "${closers[0]}" after quoted label near "${text.slice(start, start + 30)}"`;
+      pos += closer.length;
+      return null;
+    }
+
+    let end = -1;
+    let closerLength = 0;
+    for (const closer of closers) {
+      const index = text.indexOf(closer, pos);
+      if (index >= 0 && (end < 0 || index < end)) {
+        end = index;
+        closerLength = closer.length;
+      }
+    }
+    if (end < 0) {
+      return `Unclosed node shape "${opener}" near "${text.slice(start, start + 30)}"`;
+    }
+
+    const label = text.slice(pos, end);
+    const special = label.match(FLOW_SPECIAL_CHARS);
+    if (special) {
+      return `Unquoted label "${label}" contains "${special[0]}"; wrap the label in double quotes`;
+    }
+    pos = end + closerLength;
+    return null;
+  };
+
+  const parseNode = (): string | null => {
+    const id = rest().match(NODE_ID);
+    if (!id) {
+      return `Expected a node id near "${near()}"`;
+    }
+    pos += id[0].length;
+
+    const shape = NODE_SHAPES.find(([opener]) => rest().startsWith(opener));
+    if (shape) {
+      const error = parseShape(shape[0], shape[1]);
+      if (error) return error;
+    }
+
+    const styleClass = rest().match(/^:::[\w-]+/);
+    if (styleClass) pos += styleClass[0].length;
+    return null;
+  };
+
+  const parseNodeGroup = (): string | null => {
+    while (true) {
+      skipSpaces();
+      const error = parseNode();
+      if (error) return error;
+      skipSpaces();
+      if (text[pos] !== "&") return null;
+      pos++;
+    }
+  };
+
+  const parseEdge = (): string | null => {
+    const arrow = rest().match(FLOW_ARROW) || rest().match(FLOW_TEXT_ARROW);
+    if (!arrow) {
+      return `Expected an arrow (-->, ---, -.->, ==>) near "${near()}"`;
+    }
+    pos += arrow[0].length;
+
+    const label = rest().match(/^\s*\|([^|]*)\|/);
+    if (label) {
+      pos += label[0].length;
+    } else if (/^\s*\|/.test(rest())) {
+      return `Unclosed edge label near "${near()}"`;
+    }
+    return null;
+  };
+
+  const first = parseNodeGroup();
+  if (first) return first;
+
+  while (true) {
+    skipSpaces();
+    if (pos >= text.length) return null;
+
+    const edgeError = parseEdge();
+    if (edgeError) return edgeError;
+
+    skipSpaces();
+    if (pos >= text.length) return "Edge is missing a target node";
+
+    const nodeError = parseNodeGroup();
+    if (nodeError) return nodeError;
+  }
+}
+
+function splitStatements(text: string): string[] {
+  const statements: string[] = [];
+  let current = "";
+  let inQuote = false;
+  for (const char of text) {
+    if (char === "\"") inQuote = !inQuote;
+    if (char === ";" && !inQuote) {
+      statements.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  statements.push(current);
+  return statements.map(statement => statement.trim()).filter(Boolean);
+}
+
+const checkFlowchart: LineChecker = (lines, errors) => {
+  const subgraphs: SourceLine[] = [];
+
+  for (const current of lines) {
+    for (const statement of splitStatements(current.text)) {
+      if (/^subgraph\b/.test(statement)) {
+        subgraphs.push(current);
+        continue;
+      }
+      if (statement === "end") {
+        if (subgraphs.length === 0) {
+          errors.push({ line: current.line, message: "\"end\" without an open subgraph" });
+        } else {
+          subgraphs.pop();
+        }
+        continue;
+      }
+      if (COMMON_STATEMENT.test(`${statement} `) || /^direction\s/.test(statement)) {
+        if (/^direction\s/.test(statement) && !/^direction\s+(TB|TD|BT|RL|LR)$/.test(statement)) {
+          errors.push({ line: current.line, message: `Invalid direction "${statement}"; use TB, TD, BT, RL or LR` });
+        }
+        continue;
+      }
+      if (unbalancedQuote(statement)) {
+        errors.push({ line: current.line, message: "Unbalanced double quote" });
+        continue;
+      }
+
+      const error = parseFlowStatement(statement);
+      if (error) {
+        errors.push({ line: current.line, message: error });
+      }
+    }
+  }
+
+  for (const open of subgraphs) {
+    errors.push({ line: open.line, message: "subgraph is never closed with \"end\"" });
+  }
+};
+
+// ---------------------------------------------------------------------------
+// sequenceDiagram
+// ---------------------------------------------------------------------------
+
+const SEQUENCE_ARROWS = "<<-->>|<<->>|-->>|->>|--x|-x|--\\)|-\\)|-->|->";
+const SEQUENCE_MESSAGE = new RegExp(`^([^:]+?)\\s*(${SEQUENCE_ARROWS})\\s*([+-]?)([^:+\\-][^:]*?)\\s*:(.*)$`);
+const SEQUENCE_ARROW_ANYWHERE = new RegExp(`(${SEQUENCE_ARROWS})`);
+const SEQUENCE_BLOCKS = /^(loop|alt|opt|par|par_over|critical|break|rect|box)\b/;
+const SEQUENCE_BRANCHES: Record<string, string[]> = {
+  else: ["alt"],
+  and: ["par", "par_over"],
+  option: ["critical"]
+};
+
+const checkSequence: LineChecker = (lines, errors) => {
+  const blocks: { keyword: string; line: number }[] = [];
+
+  for (const current of lines) {
+    const text = current.text;
+    const blockMatch = text.match(SEQUENCE_BLOCKS);
+    if (blockMatch) {
+      blocks.push({ keyword: blockMatch[1], line: current.line });
+      continue;
+    }
+
+    const branch = text.match(/^(else|and|option)\b/);
+    if (branch) {
+      const open = blocks[blocks.length - 1];
+      if (!open || !SEQUENCE_BRANCHES[branch[1]].includes(open.keyword)) {
+        errors.push({ line: current.line, message: `"${branch[1]}" is only valid inside ${SEQUENCE_BRANCHES[branch[1]].join("/")} blocks` });
+      }
+      continue;
+    }
+
+    if (text === "end") {
+      if (blocks.length === 0) {
+        errors.push({ line: current.line, message: "\"end\" without an open block" });
+      } else {
+        blocks.pop();
+      }
+      continue;
+    }
+
+    if (
+      /^(create\s+)?(participant|actor)\s+\S/.test(text) ||
+      /^destroy\s+\S/.test(text) ||
+      /^(activate|deactivate)\s+\S+$/.test(text) ||
+      /^autonumber\b/.test(text) ||
+      /^links?\s+[^:]+:/.test(text) ||
+      /^properties\s+[^:]+:/.test(text) ||
+      /^(title|accTitle|accDescr)\b/.test(text)
+    ) {
+      continue;
+    }
+
+    if (/^note\b/i.test(text)) {
+      if (!/^note\s+(left of|right of|over)\s+[^:]+:.*$/i.test(text)) {
+        errors.push({ line: current.line, message: "Invalid note; use 'Note left of|right of|over <participant>: text'" });
+      }
+      continue;
+    }
+
+    if (SEQUENCE_MESSAGE.test(text)) {
+      continue;
+    }
+
+    if (SEQUENCE_ARROW_ANYWHERE.test(text)) {
+      errors.push({
+        line: current.line,
+        message: text.includes(":")
+          ? `Invalid message "${text}"; use '<from><arrow><to>: text'`
+          : `Message "${text}" is missing ': <text>'`
+      });
+    } else {
+      errors.push({ line: current.line, message: `Unknown sequenceDiagram statement "${text}"` });
+    }
+  }
+
+  for (const open of blocks) {
+    errors.push({ line: open.line, message: `"${open.keyword}" block is never closed with "end"` });
+  }
+};
+
+// ---------------------------------------------------------------------------
+// classDiagram
+// ---------------------------------------------------------------------------
+
+const CLASS_NAME = "[\\w.`-]+(?:~[^~]+~)?";
+const CLASS_RELATION = new RegExp(
+  `^(${CLASS_NAME})\\s*(?:"[^"]*"\\s*)?((?:<\\||\\*|o|<)?(?:--|\\.\\.)(?:\\|>|\\*|o|>)?)\\s*(?:"[^"]*"\\s*)?(${CLASS_NAME})\\s*(?::.*)?$`
+);
+const CLASS_DECLARATION = new RegExp(`^class\\s+${CLASS_NAME}(?:\\["[^"]*"\\])?(?::::[\\w-]+)?\\s*(\\{\\s*\\}?)?$`);
+
+const checkClass: LineChecker = (lines, errors) => {
+  const blocks: SourceLine[] = [];
+
+  for (const current of lines) {
+    const text = current.text;
+    if (checkBraceBlock(text, blocks, current, errors, "class")) continue;
+
+    // Members inside a class body are free-form
+    if (blocks.length > 0 && !/^(class|namespace)\s/.test(text)) continue;
+
+    const declaration = text.match(CLASS_DECLARATION);
+    if (declaration) {
+      if (declaration[1] && !declaration[1].includes("}")) blocks.push(current);
+      continue;
+    }
+    if (/^namespace\s+[\w.-]+\s*\{$/.test(text)) {
+      blocks.push(current);
+      continue;
+    }
+    if (
+      CLASS_RELATION.test(text) ||
+      new RegExp(`^${CLASS_NAME}\\s*:\\s*\\S`).test(text) ||
+      /^<<[^>]+>>\s*\S+$/.test(text) ||
+      /^note\s+(for\s+\S+\s+)?"[^"]*"$/.test(text) ||
+      /^(cssClass|callback|link)\s/.test(text) ||
+      COMMON_STATEMENT.test(`${text} `)
+    ) {
+      continue;
+    }
+
+    errors.push({
+      line: current.line,
+      message: /(--|\.\.)/.test(text)
+        ? `Invalid relationship "${text}"; use e.g. 'ClassA <|-- ClassB' or 'ClassA --> ClassB : label'`
+        : `Unknown classDiagram statement "${text}"`
+    });
+  }
+
+  for (const open of blocks) {
+    errors.push({ line: open.line, message: "Block opened with \"{\" is never closed" });
+  }
+};
+
+// ---------------------------------------------------------------------------
+// stateDiagram
+// ---------------------------------------------------------------------------
+
+const STATE_ID = "(?:\\[\\*\\]|[\\w.-]+)(?::::[\\w-]+)?";
+const STATE_TRANSITION = new RegExp(`^${STATE_ID}\\s*-->\\s*${STATE_ID}\\s*(?::.*)?$`);
+
+const checkState: LineChecker = (lines, errors) => {
+  const blocks: SourceLine[] = [];
+  let openNote: SourceLine | null = null;
+
+  for (const current of lines) {
+    const text = current.text;
+
+    if (openNote) {
+      if (/^end\s+note$/i.test(text)) openNote = null;
+      continue;
+    }
+    if (checkBraceBlock(text, blocks, current, errors, "state")) continue;
+
+    const stateDeclaration = text.match(/^state\s+("[^"]*"\s+as\s+[\w.-]+|[\w.-]+)(\s*<<(fork|join|choice)>>)?\s*(\{)?$/);
+    if (stateDeclaration) {
+      if (stateDeclaration[4]) blocks.push(current);
+      continue;
+    }
+    if (/^state\s/.test(text)) {
+      errors.push({ line: current.line, message: `Invalid state declaration "${text}"` });
+      continue;
+    }
+
+    const note = text.match(/^note\s+(left|right)\s+of\s+[\w.-]+(\s*:.*)?$/i);
+    if (note) {
+      if (!note[2]) openNote = current;
+      continue;
+    }
+
+    if (
+      STATE_TRANSITION.test(text) ||
+      /^[\w.-]+\s*:\s*\S/.test(text) ||
+      /^[\w.-]+(:::[\w-]+)?$/.test(text) ||
+      text === "--" ||
+      /^(scale\s+\d+|hide\s+empty\s+description)/.test(text) ||
+      COMMON_STATEMENT.test(`${text} `)
+    ) {
+      continue;
+    }
+
+    errors.push({
+      line: current.line,
+      message: text.includes("->")
+        ? `Invalid transition "${text}"; use 'StateA --> StateB' or 'StateA --> StateB : label'`
+        : `Unknown stateDiagram statement "${text}"`
+    });
+  }
+
+  if (openNote) {
+    errors.push({ line: openNote.line, message: "Note is never closed with \"end note\"" });
+  }
+  for (const open of blocks) {
+    errors.push({ line: open.line, message: "Composite state opened with \"{\" is never closed" });
+  }
+};
+
+// ---------------------------------------------------------------------------
+// erDiagram
+// ---------------------------------------------------------------------------
+
+const ER_ENTITY = "(?:\"[^\"]+\"|[\\w-]+)(?:\\[[^\\]]*\\])?";
+const ER_CARDINALITY_WORDS = "(?:only one|zero or one|one or zero|one or more|one or many|zero or more|zero or many|many\\(\\d+\\)|\\d+\\+|one|many|1)";
+const ER_RELATION = new RegExp(`^(${ER_ENTITY})\\s*(\\|o|\\|\\||\\}o|\\}\\|)(--|\\.\\.)(o\\||\\|\\||o\\{|\\|\\{)\\s*(${ER_ENTITY})\\s*:\\s*\\S.*$`);
+const ER_WORD_RELATION = new RegExp(`^(${ER_ENTITY})\\s+${ER_CARDINALITY_WORDS}\\s+(?:optionally\\s+)?to\\s+${ER_CARDINALITY_WORDS}\\s+(${ER_ENTITY})\\s*:\\s*\\S.*$`);
+const ER_ATTRIBUTE = /^[\w()[\],-]+\s+[\w*-]+(\s+(PK|FK|UK)(\s*,\s*(PK|FK|UK))*)?(\s+"[^"]*")?$/;
+
+const checkEr: LineChecker = (lines, errors) => {
+  const blocks: SourceLine[] = [];
+
+  for (const current of lines) {
+    const text = current.text;
+    if (checkBraceBlock(text, blocks, current, errors, "entity")) continue;
+
+    if (blocks.length > 0) {
+      if (!ER_ATTRIBUTE.test(text)) {
+        errors.push({ line: current.line, message: `Invalid attribute "${text}"; use '<type> <name> [PK|FK|UK] ["comment"]'` });
+      }
+      continue;
+    }
+
+    const entityBlock = text.match(new RegExp(`^${ER_ENTITY}\\s*\\{\\s*(\\})?$`));
+    if (entityBlock) {
+      if (!entityBlock[1]) blocks.push(current);
+      continue;
+    }
+
+    if (
+      ER_RELATION.test(text) ||
+      ER_WORD_RELATION.test(text) ||
+      new RegExp(`^${ER_ENTITY}$`).test(text) ||
+      COMMON_STATEMENT.test(`${text} `)
+    ) {
+      continue;
+    }
+
+    errors.push({
+      line: current.line,
+      message: /(--|\.\.)/.test(text)
+        ? `Invalid relationship "${text}"; use e.g. 'CUSTOMER ||--o{ ORDER : places'`
+        : `Unknown erDiagram statement "${text}"`
+    });
+  }
+
+  for (const open of blocks) {
+    errors.push({ line: open.line, message: "Entity block opened with \"{\" is never closed" });
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Entry points
+// ---------------------------------------------------------------------------
+
+const DIAGRAM_TYPES: { keywords: string[]; type: MermaidDiagramType; check: LineChecker }[] = [
+  { keywords: ["flowchart", "graph"], type: "flowchart", check: checkFlowchart },
+  { keywords: ["sequenceDiagram"], type: "sequenceDiagram", check: checkSequence },
+  { keywords: ["classDiagram", "classDiagram-v2"], type: "classDiagram", check: checkClass },
+  { keywords: ["stateDiagram", "stateDiagram-v2"], type: "stateDiagram", check: checkState },
+  { keywords: ["erDiagram"], type: "erDiagram", check: checkEr }
+];
+
+/**
+ * Validates the source of a single Mermaid diagram.
+ */
+export function validateMermaid(source: string): MermaidValidation {
+  const rawLines = source.split("\n");
+  const lines: SourceLine[] = [];
+  let inFrontmatter = false;
+
+  rawLines.forEach((text, index) => {
+    const trimmed = text.trim();
+    if (index === 0 && trimmed === "---") {
+      inFrontmatter = true;
+      return;
+    }
+    if (inFrontmatter) {
+      if (trimmed === "---") inFrontmatter = false;
+      return;
+    }
+    // Comments and %%{init}%% directives
+    if (trimmed === "" || trimmed.startsWith("%%")) return;
+    lines.push({ line: index + 1, text: trimmed });
+  });
+
+  if (lines.length === 0) {
+    return { supported: false, errors: [{ line: 1, message: "Diagram is empty" }] };
+  }
+
+  const [header, ...body] = lines;
+  const [declaredType, ...headerArgs] = header.text.replace(/;$/, "").split(/\s+/);
+  const known = DIAGRAM_TYPES.find(candidate => candidate.keywords.includes(declaredType));
+
+  if (!known) {
+    if (UNCHECKED_TYPES.includes(declaredType)) {
+      return { declaredType, supported: false, errors: [] };
+    }
+    return {
+      declaredType,
+      supported: false,
+      errors: [{ line: header.line, message: `Unknown diagram type "${declaredType}"` }]
+    };
+  }
+
+  const errors: MermaidSyntaxError[] = [];
+  if (known.type === "flowchart") {
+    const direction = headerArgs[0];
+    if (headerArgs.length > 1 || (direction && !["TB", "TD", "BT", "RL", "LR"].includes(direction))) {
+      errors.push({ line: header.line, message: `Invalid direction "${headerArgs.join(" ")}"; use TB, TD, BT, RL or LR` });
+    }
+  } else if (headerArgs.length > 0) {
+    errors.push({ line: header.line, message: `Unexpected content after "${declaredType}"` });
+  }
+
+  if (body.length === 0) {
+    errors.push({ line: header.line, message: "Diagram has no statements" });
+  }
+  known.check(body, errors);
+
+  return { declaredType, type: known.type, supported: true, errors };
+}
+
+/**
+ * Validates every Mermaid block of a document and reports errors at their
+ * position in the Markdown file.
+ */
+export function checkMermaidBlocks(blocks: CodeBlock[]): { report: MermaidBlockReport[]; diagnostics: Diagnostic[] } {
+  const report: MermaidBlockReport[] = [];
+  const diagnostics: Diagnostic[] = [];
+
+  for (const block of blocks) {
+    const validation = validateMermaid(block.content);
+    const type = validation.declaredType;
+    const errors = validation.errors.map(error => ({
+      line: block.contentLine + error.line - 1,
+      message: error.message
+    }));
+
+    report.push({
+      line: block.line,
+      type,
+      checked: validation.supported,
+      valid: errors.length === 0,
+      errors
+    });
+
+    for (const error of errors) {
+      if (validation.supported) {
+        diagnostics.push(createDiagnostic("MER001", {
+          message: `Mermaid ${type} syntax error: ${error.message}`,
+          suggestedFix: `Fix the ${type} statement so the diagram renders`,
+          line: error.line
+        }));
+      } else {
+        diagnostics.push(createDiagnostic("MER002", {
+          message: `Mermaid diagram: ${error.message}`,
+          suggestedFix: "Start the diagram with flowchart, graph, sequenceDiagram, classDiagram, stateDiagram or erDiagram",
+          line: error.line
+        }));
+      }
+    }
+
+    if (!validation.supported && errors.length === 0) {
+      diagnostics.push(createDiagnostic("MER003", {
+        message: `Mermaid ${type} diagram was not syntax-checked`,
+        suggestedFix: "Preview the diagram to confirm it renders",
+        line: block.line
+      }));
+    }
+  }
+
+  return { report, diagnostics };
+}
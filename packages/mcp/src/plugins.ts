@@ -0,0 +1,228 @@
+/**
+ * Custom validation rules loaded from the target repository.
+ *
+ * A plugin is a JavaScript module listed under `plugins` in `.spec-driven.json`;
+ * TypeScript modules are rejected there, as Node cannot import them without a loader.
+ * It exports one rule, an array of rules, or `{ rules }` (as default or named
+ * export). Each rule receives the parsed spec models and returns findings that
+ * are reported as diagnostics next to the built-in checks:
+ *
+ * ```js
+ * export default {
+ *   code: "HOUSE001",
+ *   description: "Task titles start with a verb",
+ *   documents: ["tasks"],
+ *   check: ({ tasks }) => tasks.tasks
+ *     .filter(task => !/^[A-Z][a-z]+s?\b/.test(task.title))
+ *     .map(task => ({ message: `Task ${task.id} does not start with a verb`, range: task.range }))
+ * };
+ * ```
+ *
+ * Rules that name a single document run in the tool of that document and in
+ * verify_complete_spec; rules that name several documents run in verify_complete_spec.
+ */
+import fs from "fs/promises";
+import path from "path";
+import { pathToFileURL } from "url";
+import type { SpecDocument, SpecDrivenConfig } from "./config.js";
+import { createDiagnostic, RULES, type Diagnostic, type Severity } from "./diagnostics.js";
+import type { DesignModel, RequirementsModel, SourceRange, TasksModel } from "./spec-model.js";
+
+export interface RuleContext {
+  requirements?: RequirementsModel;
+  design?: DesignModel;
+  tasks?: TasksModel;
+  config: SpecDrivenConfig;
+}
+
+export interface RuleFinding {
+  message: string;
+  suggestedFix?: string;
+  /** Overrides the severity of the rule for this finding */
+  severity?: Severity;
+  /** Document the finding belongs to, when the rule reads several documents */
+  document?: SpecDocument;
+  range?: SourceRange;
+  line?: number;
+}
+
+export interface CustomRule {
+  /** Rule code, e.g. HOUSE001; must not collide with a built-in rule */
+  code: string;
+  name?: string;
+  description?: string;
+  /** Default severity of the findings (warning when omitted) */
+  severity?: Severity;
+  /** Documents the rule reads (all three when omitted) */
+  documents?: SpecDocument[];
+  /** Link shown with every finding */
+  docLink?: string;
+  check(context: RuleContext): RuleFinding[];
+}
+
+export const CUSTOM_RULE_CATEGORY = "Custom Rule";
+
+const DOCUMENTS: SpecDocument[] = ["requirements", "design", "tasks"];
+const SEVERITIES: Severity[] = ["error", "warning", "info"];
+const RULE_CODE_PATTERN = /^[A-Za-z][A-Za-z0-9_-]*$/;
+
+function documentsOf(rule: CustomRule): SpecDocument[] {
+  return rule.documents && rule.documents.length > 0 ? rule.documents : DOCUMENTS;
+}
+
+/**
+ * Returns the rules that run in the tool of a single document, or the rules that
+ * read several documents when no document is given.
+ */
+export function customRulesFor(config: SpecDrivenConfig, document?: SpecDocument): CustomRule[] {
+  return config.customRules.filter(rule => {
+    const documents = documentsOf(rule);
+    return document ? documents.length === 1 && documents[0] === document : documents.length > 1;
+  });
+}
+
+/**
+ * Runs custom rules against the available models. Rules whose documents are not
+ * all available are skipped; a rule that throws is reported as PLG003.
+ */
+export function runCustomRules(
+  rules: CustomRule[],
+  context: RuleContext,
+  files: Partial<Record<SpecDocument, string>> = {}
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (const rule of rules) {
+    const documents = documentsOf(rule);
+    if (documents.some(document => context[document] === undefined)) continue;
+
+    let findings: unknown;
+    try {
+      findings = rule.check(context);
+    } catch (error) {
+      diagnostics.push(createDiagnostic("PLG003", {
+        message: `Custom rule ${rule.code} failed: ${(error as Error).message}`,
+        suggestedFix: "Fix the rule module or disable the rule in .spec-driven.json",
+        file: documents.length === 1 ? files[documents[0]] : undefined
+      }));
+      continue;
+    }
+    if (!Array.isArray(findings)) {
+      diagnostics.push(createDiagnostic("PLG003", {
+        message: `Custom rule ${rule.code} did not return an array of findings`,
+        suggestedFix: "Return an array (possibly empty) of { message, suggestedFix, range } objects synchronously",
+        file: documents.length === 1 ? files[documents[0]] : undefined
+      }));
+      continue;
+    }
+
+    for (const finding of findings as RuleFinding[]) {
+      const document = finding.document ?? (documents.length === 1 ? documents[0] : undefined);
+      const range = finding.range ?? (finding.line && finding.line > 0
+        ? { start: { line: finding.line, column: 1 }, end: { line: finding.line, column: 1 } }
+        : undefined);
+      diagnostics.push({
+        code: rule.code,
+        severity: finding.severity && SEVERITIES.includes(finding.severity) ? finding.severity : rule.severity ?? "warning",
+        category: CUSTOM_RULE_CATEGORY,
+        file: document ? files[document] : undefined,
+        range,
+        message: String(finding.message),
+        suggestedFix: finding.suggestedFix ?? rule.description ?? `See custom rule ${rule.code}`,
+        skillDocLink: rule.docLink
+      });
+    }
+  }
+  return diagnostics;
+}
+
+function validateRule(candidate: unknown, known: Set<string>): string | undefined {
+  if (typeof candidate !== "object" || candidate === null) return "a rule must be an object";
+  const rule = candidate as Partial<CustomRule>;
+  if (typeof rule.code !== "string" || !RULE_CODE_PATTERN.test(rule.code)) return `invalid rule code ${JSON.stringify(rule.code)}`;
+  if (RULES[rule.code]) return `rule code ${rule.code} is used by a built-in rule`;
+  if (known.has(rule.code)) return `rule code ${rule.code} is registered twice`;
+  if (typeof rule.check !== "function") return `rule ${rule.code} has no check function`;
+  if (rule.severity !== undefined && !SEVERITIES.includes(rule.severity)) return `rule ${rule.code} has invalid severity ${JSON.stringify(rule.severity)}`;
+  if (rule.documents !== undefined && (!Array.isArray(rule.documents) || !rule.documents.every(document => DOCUMENTS.includes(document)))) {
+    return `rule ${rule.code} has invalid documents; use ${DOCUMENTS.join(", ")}`;
+  }
+  return undefined;
+}
+
+/**
+ * Modules imported so far, by absolute path and modification time. The ESM loader
+ * caches a module by URL, so an edited plugin is imported again under a URL that
+ * carries its new modification time.
+ */
+const loadedModules = new Map<string, Promise<Record<string, unknown>>>();
+
+function importPlugin(absolutePath: string, mtimeMs: number): Promise<Record<string, unknown>> {
+  const key = `${absolutePath}?mtime=${mtimeMs}`;
+  let loaded = loadedModules.get(key);
+  if (!loaded) {
+    const url = pathToFileURL(absolutePath);
+    url.searchParams.set("mtime", String(mtimeMs));
+    loaded = import(url.href) as Promise<Record<string, unknown>>;
+    // A failed import is retried on the next call, e.g. once the file is fixed
+    loaded.catch(() => loadedModules.delete(key));
+    loadedModules.set(key, loaded);
+  }
+  return loaded;
+}
+
+/**
+ * Imports the plugin modules relative to the target directory and collects their rules.
+ * A module is imported again once its file has changed.
+ */
+export async function loadPlugins(
+  modulePaths: string[],
+  targetDir: string = process.cwd(),
+  file: string = ".spec-driven.json"
+): Promise<{ rules: CustomRule[]; diagnostics: Diagnostic[] }> {
+  const rules: CustomRule[] = [];
+  const diagnostics: Diagnostic[] = [];
+  const known = new Set<string>();
+
+  for (const modulePath of modulePaths) {
+    const absolutePath = path.resolve(targetDir, modulePath);
+    let exports: Record<string, unknown>;
+    try {
+      const { mtimeMs } = await fs.stat(absolutePath);
+      exports = await importPlugin(absolutePath, mtimeMs);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      diagnostics.push(createDiagnostic("PLG001", {
+        message: `Cannot load plugin ${modulePath}: ${(error as Error).message}`,
+        suggestedFix: code === "ERR_UNKNOWN_FILE_EXTENSION"
+          ? "Compile the plugin to a JavaScript module (.js, .mjs or .cjs)"
+          : "Check the path in plugins and that the module exports its rules",
+        file
+      }));
+      continue;
+    }
+
+    const exported = exports.default ?? exports.rules ?? exports;
+    const candidates: unknown[] = Array.isArray(exported)
+      ? exported
+      : typeof exported === "object" && exported !== null && Array.isArray((exported as { rules?: unknown }).rules)
+        ? (exported as { rules: unknown[] }).rules
+        : [exported];
+
+    for (const candidate of candidates) {
+      const problem = validateRule(candidate, known);
+      if (problem) {
+        diagnostics.push(createDiagnostic("PLG002", {
+          message: `Invalid rule in plugin ${modulePath}: ${problem}`,
+          suggestedFix: "Export rules as { code, description, severity, documents, check(context) }",
+          file
+        }));
+        continue;
+      }
+      const rule = candidate as CustomRule;
+      known.add(rule.code);
+      rules.push(rule);
+    }
+  }
+
+  return { rules, diagnostics };
+}
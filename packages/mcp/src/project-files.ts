@@ -0,0 +1,109 @@
+/**
+ * Listing of the files of the target repository, honoring .gitignore.
+ *
+ * Ignore files are read while walking the tree: `.git/info/exclude` and the root
+ * `.gitignore` apply everywhere, nested `.gitignore` files below their folder.
+ * The last matching pattern wins, and files below an ignored folder stay ignored,
+ * as in git. Symbolic links are not followed.
+ */
+import fs from "fs/promises";
+import path from "path";
+import { globToRegExp, matchesGlob } from "./glob.js";
+
+interface IgnoreRule {
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+  /** "/"-separated folder of the ignore file, "" for the root */
+  base: string;
+}
+
+/**
+ * Parses the patterns of an ignore file. Character classes are not supported.
+ */
+function parseIgnoreFile(content: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    let pattern = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (!pattern || pattern.startsWith("#")) continue;
+
+    const negated = pattern.startsWith("!");
+    if (negated) pattern = pattern.slice(1);
+    pattern = pattern.replace(/^\\([#!])/, "$1");
+
+    const directoryOnly = pattern.endsWith("/");
+    pattern = pattern.replace(/\/+$/, "");
+    if (!pattern) continue;
+
+    // A pattern with a slash is relative to its ignore file, otherwise it matches at any depth
+    const anchored = pattern.includes("/");
+    pattern = pattern.replace(/^\//, "");
+    rules.push({
+      regex: globToRegExp(anchored ? pattern : `**/${pattern}`),
+      negated,
+      directoryOnly,
+      base
+    });
+  }
+  return rules;
+}
+
+function isIgnored(relativePath: string, isDirectory: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    if (rule.base && !relativePath.startsWith(`${rule.base}/`)) continue;
+    const localPath = rule.base ? relativePath.slice(rule.base.length + 1) : relativePath;
+    if (rule.regex.test(localPath)) ignored = !rule.negated;
+  }
+  return ignored;
+}
+
+async function readIgnoreFile(file: string, base: string): Promise<IgnoreRule[]> {
+  try {
+    return parseIgnoreFile(await fs.readFile(file, "utf-8"), base);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Returns the "/"-separated paths of the files below the target directory that
+ * are not ignored by git, match one of the include patterns and none of the
+ * exclude patterns, in sorted order.
+ */
+export async function listProjectFiles(
+  targetDir: string = process.cwd(),
+  include: string[] = ["**/*"],
+  exclude: string[] = []
+): Promise<string[]> {
+  const files: string[] = [];
+
+  async function walk(relativeDir: string, inherited: IgnoreRule[]): Promise<void> {
+    const absoluteDir = path.join(targetDir, relativeDir);
+    const rules = [...inherited, ...await readIgnoreFile(path.join(absoluteDir, ".gitignore"), relativeDir)];
+
+    let entries;
+    try {
+      entries = await fs.readdir(absoluteDir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name === ".git") continue;
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        // Folders whose whole content is excluded (e.g. "**/node_modules/**") are not walked
+        if (!isIgnored(relativePath, true, rules) && !matchesGlob(`${relativePath}/`, exclude)) await walk(relativePath, rules);
+      } else if (entry.isFile()) {
+        if (!isIgnored(relativePath, false, rules) && matchesGlob(relativePath, include) && !matchesGlob(relativePath, exclude)) {
+          files.push(relativePath);
+        }
+      }
+    }
+  }
+
+  await walk("", await readIgnoreFile(path.join(targetDir, ".git", "info", "exclude"), ""));
+  return files;
+}
@@ -0,0 +1,115 @@
+/**
+ * Skills of the standards package served as MCP prompts.
+ *
+ * Each `SKILL.md` under packages/standards/src/templates/universal/skills becomes a
+ * prompt named after the skill, so MCP clients get the spec-driven workflow without
+ * running the CLI injector. The build copies the skills to dist/skills; running
+ * from the sources reads them from the standards package.
+ */
+import { existsSync } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import { DEFAULT_SPEC_ROOT, specDirectory } from "./spec-files.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const BUNDLED_SKILLS_DIR = path.resolve(__dirname, "skills");
+
+export const SKILLS_DIR = existsSync(BUNDLED_SKILLS_DIR)
+  ? BUNDLED_SKILLS_DIR
+  : path.resolve(__dirname, "../../standards/src/templates/universal/skills");
+
+export interface SkillPrompt {
+  name: string;
+  description: string;
+  arguments: { name: string; description: string; required: boolean }[];
+}
+
+const PROMPT_ARGUMENTS: SkillPrompt["arguments"] = [
+  {
+    name: "slug",
+    description: "Short identifier of the spec, used for the specs/changes/<slug>/ folder (e.g., 'rate-limiter').",
+    required: false
+  },
+  {
+    name: "featureDescription",
+    description: "Description of the feature or change to work on.",
+    required: false
+  }
+];
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+function parseSkill(content: string): { name?: string; description?: string; body: string } {
+  const match = content.match(FRONTMATTER_PATTERN);
+  if (!match) return { body: content };
+  const field = (key: string) => match[1].match(new RegExp(`^${key}:\\s*(.*)$`, "m"))?.[1].trim();
+  return { name: field("name"), description: field("description"), body: content.slice(match[0].length) };
+}
+
+async function readSkills(skillsDir: string): Promise<{ name: string; description: string; body: string }[]> {
+  let entries: string[];
+  try {
+    entries = (await fs.readdir(skillsDir)).sort();
+  } catch {
+    throw new Error(`Skills directory not found: ${skillsDir}; rebuild the package to bundle the skills`);
+  }
+
+  const skills: { name: string; description: string; body: string }[] = [];
+  for (const entry of entries) {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(skillsDir, entry, "SKILL.md"), "utf-8");
+    } catch {
+      continue;
+    }
+    const skill = parseSkill(content);
+    skills.push({ name: skill.name || entry, description: skill.description || `${entry} skill`, body: skill.body.trim() });
+  }
+  return skills;
+}
+
+/**
+ * Lists one prompt per skill.
+ */
+export async function listSkillPrompts(skillsDir: string = SKILLS_DIR): Promise<SkillPrompt[]> {
+  return (await readSkills(skillsDir)).map(skill => ({
+    name: skill.name,
+    description: skill.description,
+    arguments: PROMPT_ARGUMENTS
+  }));
+}
+
+/**
+ * Renders a skill prompt as a single user message: the skill instructions followed
+ * by the spec slug and feature description, when given.
+ */
+export async function getSkillPrompt(
+  name: string,
+  args: Record<string, string | undefined> = {},
+  skillsDir: string = SKILLS_DIR,
+  specRoot: string = DEFAULT_SPEC_ROOT
+): Promise<{ description: string; messages: { role: "user"; content: { type: "text"; text: string } }[] }> {
+  const skill = (await readSkills(skillsDir)).find(candidate => candidate.name === name);
+  if (!skill) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+
+  const context: string[] = [];
+  if (args.slug) {
+    context.push(`Spec slug: \`${args.slug}\` (files in \`${specDirectory(args.slug, specRoot).split(path.sep).join("/")}/\`)`);
+  }
+  if (args.featureDescription) {
+    context.push(`Feature description: ${args.featureDescription}`);
+  }
+
+  const text = context.length > 0
+    ? `${skill.body}\n\n---\n\n## Task Context\n\n${context.map(line => `- ${line}`).join("\n")}\n`
+    : skill.body;
+
+  return {
+    description: skill.description,
+    messages: [{ role: "user", content: { type: "text", text } }]
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * Quality checks of the acceptance criteria and user stories of requirements.md.
+ *
+ * Every finding is a warning with a suggested rewrite. Vague terms, performance
+ * terms and placeholders come from the `quality` settings of the project and are
+ * matched case-insensitively as whole words, ignoring inline code. Placeholders
+ * are also found in HTML comments such as `<!-- TBD -->`, and the `<role>` style
+ * placeholders of the spec templates are always reported.
+ */
+import { DEFAULT_CONFIG, type QualitySettings } from "./config.js";
+import { createDiagnostic, type Diagnostic } from "./diagnostics.js";
+import type { AcceptanceCriterion, RequirementsModel } from "./spec-model.js";
+
+/** Placeholders of the rewrite suggested for the default vague terms */
+const VAGUE_REPLACEMENTS: Record<string, string> = {
+  "fast": "within <N> ms",
+  "quick": "within <N> ms",
+  "quickly": "within <N> ms",
+  "slow": "after more than <N> ms",
+  "user-friendly": "<measurable usability criterion>",
+  "easy": "<measurable usability criterion>",
+  "easily": "in at most <N> steps",
+  "simple": "<measurable usability criterion>",
+  "intuitive": "<measurable usability criterion>",
+  "etc.": "<complete list of cases>",
+  "and/or": "<and | or>",
+  "as needed": "WHEN <condition>",
+  "if possible": "WHEN <condition>"
+};
+
+const USER_STORY_PARTS: [RegExp, string][] = [
+  [/\bAs an?\b/i, "As a"],
+  [/\bI want\b/i, "I want"],
+  [/\bso that\b/i, "so that"]
+];
+
+const PASSIVE_PATTERN = /\b(SHALL|MUST|WILL)\s+(?:not\s+)?be\s+(\w+(?:ed|en|wn)|built|done|held|kept|lost|made|put|read|run|sent|set|shown|sold|told)\b(?!\s+by\b)/i;
+const NEGATIVE_PATTERN = /\bSHALL\s+(?:NOT|NEVER)\b|\bnever\b/i;
+const TRIGGER_PATTERN = /^\s*(?:WHEN|IF|WHILE|WHERE)\b/i;
+const TEMPLATE_PLACEHOLDER_PATTERN = /<(?![\s!/])([^<>\n]*[^\s<>])>/g;
+
+/** Inline HTML that Markdown documents use and that is not a template placeholder */
+const HTML_TAGS = new Set([
+  "a", "abbr", "b", "br", "code", "del", "details", "div", "em", "hr", "i", "img", "ins",
+  "kbd", "mark", "p", "pre", "s", "small", "span", "strong", "sub", "summary", "sup", "u"
+]);
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function termPattern(term: string): RegExp {
+  return new RegExp(`(?<![\\w-])${escapeRegExp(term)}(?![\\w-])`, "gi");
+}
+
+function withoutCode(text: string): string {
+  return text.replace(/`[^`]*`/g, "").replace(/<!--.*?-->/g, "").trim();
+}
+
+/** Names the system of a criterion, e.g. "THE gateway" from "THE gateway SHALL ..." */
+function systemOf(criterion: AcceptanceCriterion): string {
+  const match = criterion.text.match(/\b(THE\s+[\w\s-]+?)\s+SHALL\b/);
+  return match ? match[1] : "THE <system>";
+}
+
+function checkVagueTerms(criterion: AcceptanceCriterion, terms: string[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const text = withoutCode(criterion.text);
+  for (const term of terms) {
+    const matches = [...text.matchAll(termPattern(term))];
+    if (matches.length === 0) continue;
+    const replacement = VAGUE_REPLACEMENTS[term.toLowerCase()] || `<precise value for "${term}">`;
+    const rewrite = text.replace(termPattern(term), replacement);
+    diagnostics.push(createDiagnostic("QLT001", {
+      message: `${criterion.id} uses the vague term "${matches[0][0]}"`,
+      suggestedFix: `Replace it with a testable statement: "${rewrite}"`,
+      range: criterion.range
+    }));
+  }
+  return diagnostics;
+}
+
+function checkPassiveVoice(criterion: AcceptanceCriterion): Diagnostic[] {
+  const match = withoutCode(criterion.text).match(PASSIVE_PATTERN);
+  if (!match) return [];
+  return [createDiagnostic("QLT002", {
+    message: `${criterion.id} uses the passive voice "${match[0]}" without naming the acting system`,
+    suggestedFix: `Name the system that acts: "${systemOf(criterion)} ${match[1].toUpperCase()} <verb> <object>" instead of "${match[0]}"`,
+    range: criterion.range
+  })];
+}
+
+function checkPerformance(criterion: AcceptanceCriterion, terms: string[]): Diagnostic[] {
+  const text = withoutCode(criterion.text);
+  if (/\d/.test(text)) return [];
+  const term = terms.find(term => termPattern(term).test(text));
+  if (!term) return [];
+  return [createDiagnostic("QLT004", {
+    message: `${criterion.id} claims "${term}" without a measurable bound`,
+    suggestedFix: `Add a number and a unit: "${text.replace(/\.?\s*$/, "")} within <N> ms at <M> requests per second"`,
+    range: criterion.range
+  })];
+}
+
+function checkNegative(criterion: AcceptanceCriterion): Diagnostic[] {
+  const text = withoutCode(criterion.text);
+  if (!NEGATIVE_PATTERN.test(text) || TRIGGER_PATTERN.test(text)) return [];
+  return [createDiagnostic("QLT005", {
+    message: `${criterion.id} forbids a behavior without a trigger, so it cannot be verified`,
+    suggestedFix: `State the condition and the observable response: "WHEN <trigger>, ${systemOf(criterion)} SHALL <observable response>"`,
+    range: criterion.range
+  })];
+}
+
+/** Template placeholders such as `<role>`, leaving out HTML tags and autolinks */
+function templatePlaceholders(text: string): string[] {
+  return [...text.matchAll(TEMPLATE_PLACEHOLDER_PATTERN)]
+    .filter(match => !HTML_TAGS.has(match[1].split(/[\s/]/)[0].toLowerCase()) && !/:\/\/|@/.test(match[1]))
+    .map(match => match[0]);
+}
+
+function checkPlaceholders(model: RequirementsModel, placeholders: string[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (const textLine of model.document.textLines) {
+    const text = textLine.text.replace(/`[^`]*`/g, "");
+    const found = [
+      ...placeholders.filter(placeholder => termPattern(placeholder).test(text)),
+      ...new Set(templatePlaceholders(text))
+    ];
+    if (found.length === 0) continue;
+    diagnostics.push(createDiagnostic("QLT003", {
+      message: `Placeholder ${found.map(placeholder => `"${placeholder}"`).join(", ")} left in requirements.md`,
+      suggestedFix: "Resolve the open point and replace the placeholder with the agreed behavior",
+      line: textLine.line
+    }));
+  }
+  return diagnostics;
+}
+
+function checkUserStories(model: RequirementsModel): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const template = "**User Story:** As a <role>, I want <goal>, so that <benefit>";
+  for (const req of model.requirements.filter(req => req.delta !== "removed")) {
+    if (req.userStory === undefined) {
+      diagnostics.push(createDiagnostic("QLT006", {
+        message: `${req.id} has no user story`,
+        suggestedFix: `Add ${template}`,
+        range: req.range
+      }));
+      continue;
+    }
+    const story = req.userStory;
+    const missing = USER_STORY_PARTS.filter(([pattern]) => !pattern.test(story)).map(([, part]) => `"${part}"`);
+    if (missing.length > 0) {
+      diagnostics.push(createDiagnostic("QLT006", {
+        message: `User story of ${req.id} is missing ${missing.join(", ")}`,
+        suggestedFix: `Rewrite it as ${template}`,
+        range: req.range
+      }));
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Checks the wording of the acceptance criteria and user stories of a
+ * requirements model.
+ */
+export function checkRequirementsQuality(
+  model: RequirementsModel,
+  settings: QualitySettings = DEFAULT_CONFIG.quality
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (const criterion of model.requirements.filter(req => req.delta !== "removed").flatMap(req => req.criteria)) {
+    diagnostics.push(...checkVagueTerms(criterion, settings.vagueTerms));
+    diagnostics.push(...checkPassiveVoice(criterion));
+    diagnostics.push(...checkPerformance(criterion, settings.performanceTerms));
+    diagnostics.push(...checkNegative(criterion));
+  }
+  diagnostics.push(...checkPlaceholders(model, settings.placeholders));
+  diagnostics.push(...checkUserStories(model));
+  return diagnostics;
+}
@@ -0,0 +1,310 @@
+/**
+ * Renaming and splitting of requirement, criterion and design IDs across a spec.
+ *
+ * The definition of the ID (a requirement heading, a criterion or a design element
+ * heading) gets the new ID, and every reference in requirements.md, design.md and
+ * tasks.md follows it. Splitting an ID into several copies its definition once per
+ * new ID, and each reference lists all of them. References inside code blocks are
+ * left alone. Nothing is written unless every check passes.
+ */
+import fs from "fs/promises";
+import path from "path";
+import { DEFAULT_CONFIG, type SpecDrivenConfig } from "./config.js";
+import { createDiagnostic, hasErrors, type Diagnostic } from "./diagnostics.js";
+import { readSpecFiles, SPEC_FILES, specDirectory, type SpecFileName } from "./spec-files.js";
+import { parseDesign, parseMarkdown, parseRequirements, type IdPrefixes } from "./spec-model.js";
+import { checkSlug } from "./workspace.js";
+
+export type SpecIdKind = "requirement" | "criterion" | "design";
+
+export interface SpecIdChange {
+  file: string;
+  /** Line in the renamed file */
+  line: number;
+  /** Line before the rename, absent for lines of a copied definition */
+  before?: string;
+  after: string;
+}
+
+interface ParsedId {
+  kind: SpecIdKind;
+  id: string;
+  requirement?: number;
+  criterion?: number;
+}
+
+/** Lines of the definition of the renamed ID */
+interface DefinitionBlock {
+  file: SpecFileName;
+  line: number;
+  /** Last line copied when the ID is split */
+  endLine: number;
+  /** Lines inserted between the original definition and each copy */
+  separator: string[];
+}
+
+const BLANK_OR_RULE = /^\s*(?:---+)?\s*$/;
+/** List item starting with a criterion label without the requirement prefix, e.g. `- 3.1 WHEN ...` */
+const UNPREFIXED_LABEL_PATTERN = /^(\s*(?:[-*+]|\d+[.)])\s+(?:\*\*)?)(\d+)\.(\d+)(?=(?:\*\*)?[.:)]?(?:\*\*)?\s)/;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function parseId(value: string, prefixes: IdPrefixes): ParsedId | undefined {
+  const id = value.trim();
+  const requirement = id.match(new RegExp(`^${escapeRegExp(prefixes.requirement)}-(\\d+)(?:\\.(\\d+))?$`));
+  if (requirement) {
+    return requirement[2] !== undefined
+      ? { kind: "criterion", id, requirement: parseInt(requirement[1], 10), criterion: parseInt(requirement[2], 10) }
+      : { kind: "requirement", id, requirement: parseInt(requirement[1], 10) };
+  }
+  if (new RegExp(`^${escapeRegExp(prefixes.design)}-\\d+$`).test(id)) return { kind: "design", id };
+  return undefined;
+}
+
+/**
+ * Returns the last line of a section that is not blank or a horizontal rule.
+ */
+function contentEnd(lines: string[], line: number, endLine: number): number {
+  let end = endLine;
+  while (end > line && BLANK_OR_RULE.test(lines[end - 1])) end--;
+  return end;
+}
+
+/**
+ * Rewrites the references to the renamed ID in a line. Every new ID is listed
+ * where the old one stood; references to the criteria of a renamed requirement
+ * follow it.
+ */
+function rewriteLine(line: string, from: ParsedId, to: ParsedId[], prefixes: IdPrefixes): string {
+  const pattern = new RegExp(`\\b(${escapeRegExp(prefixes.requirement)}|${escapeRegExp(prefixes.design)})-(\\d+)(?:\\.(\\d+))?(?!\\d)`, "g");
+  return line.replace(pattern, (match, prefix: string, major: string, minor?: string) => {
+    if (from.kind === "design") {
+      return prefix === prefixes.design && match === from.id ? to.map(id => id.id).join(", ") : match;
+    }
+    if (prefix !== prefixes.requirement) return match;
+    if (from.kind === "criterion") return match === from.id ? to.map(id => id.id).join(", ") : match;
+    if (`${prefix}-${major}` !== from.id) return match;
+    return to.map(id => minor === undefined ? id.id : `${id.id}.${minor}`).join(", ");
+  });
+}
+
+/**
+ * Gives a criterion label without the requirement prefix the number of the
+ * renamed requirement or criterion.
+ */
+function relabelCriterion(line: string, from: ParsedId, to: ParsedId): string {
+  return line.replace(UNPREFIXED_LABEL_PATTERN, (match, start: string, major: string, minor: string) => {
+    if (parseInt(major, 10) !== from.requirement) return match;
+    if (from.kind === "requirement") return `${start}${to.requirement}.${minor}`;
+    return parseInt(minor, 10) === from.criterion ? `${start}${to.requirement}.${to.criterion}` : match;
+  });
+}
+
+/**
+ * Gives the first line of a definition its new number where the ID is not
+ * written out: a `Requirement N` heading or the marker of an ordered criterion.
+ */
+function renumberDefinition(line: string, from: ParsedId, to: ParsedId, prefixes: IdPrefixes): string {
+  if (from.kind === "requirement") {
+    return line.replace(/^(#+\s+Requirement\s+)\d+/i, (_match, start: string) => `${start}${to.requirement}`);
+  }
+  const labeled = new RegExp(`\\b${escapeRegExp(prefixes.requirement)}-\\d+\\.\\d+`).test(line) || UNPREFIXED_LABEL_PATTERN.test(line);
+  if (from.kind === "criterion" && !labeled) {
+    return line.replace(/^(\s*)\d+([.)])/, (_match, indent: string, delimiter: string) => `${indent}${to.criterion}${delimiter}`);
+  }
+  return line;
+}
+
+/**
+ * Tool: rename_spec_id
+ * Renames or splits a requirement, criterion or design ID across the three spec files
+ */
+export async function renameSpecId(
+  slug: string,
+  from: string,
+  to: string[],
+  dryRun: boolean = false,
+  targetDir: string = process.cwd(),
+  config: SpecDrivenConfig = DEFAULT_CONFIG
+): Promise<{
+  valid: boolean;
+  renamed: boolean;
+  changes: SpecIdChange[];
+  diagnostics: Diagnostic[];
+}> {
+  const diagnostics = checkSlug(slug);
+  const { idPrefixes, specRoot } = config;
+  const relativeDir = specDirectory(slug, specRoot);
+  const fileOf = (name: SpecFileName) => path.join(relativeDir, name);
+  const refused = () => ({ valid: false, renamed: false, changes: [], diagnostics });
+  if (diagnostics.length > 0) return refused();
+  const invalid = (message: string, suggestedFix: string) => {
+    diagnostics.push(createDiagnostic("RNM001", { message, suggestedFix }));
+    return refused();
+  };
+
+  // Arguments
+  const source = parseId(from, idPrefixes);
+  const targets = to.map(id => parseId(id, idPrefixes));
+  const example = `${idPrefixes.requirement}-3, ${idPrefixes.requirement}-3.2 or ${idPrefixes.design}-4`;
+  if (!source) return invalid(`"${from}" is not a requirement, criterion or design ID`, `Use an ID such as ${example}`);
+  if (targets.length === 0) return invalid(`No new ID given for ${source.id}`, "Give one new ID to rename, or several to split");
+  const unknownTarget = to.find((_id, index) => !targets[index]);
+  if (unknownTarget !== undefined) return invalid(`"${unknownTarget}" is not a requirement, criterion or design ID`, `Use an ID such as ${example}`);
+  const parsedTargets = targets.filter((id): id is ParsedId => id !== undefined);
+  const otherKind = parsedTargets.find(id => id.kind !== source.kind);
+  if (otherKind) return invalid(`Cannot rename the ${source.kind} ${source.id} to the ${otherKind.kind} ${otherKind.id}`, `Give new IDs of the same kind as ${source.id}`);
+  const repeated = parsedTargets.find((id, index) => parsedTargets.findIndex(other => other.id === id.id) !== index);
+  if (repeated) return invalid(`${repeated.id} is given twice`, "List each new ID once");
+  const moved = parsedTargets.find(id => id.requirement !== source.requirement);
+  if (source.kind === "criterion" && moved) {
+    return invalid(
+      `Cannot move ${source.id} to another requirement as ${moved.id}`,
+      `Rename criteria within ${idPrefixes.requirement}-${source.requirement}, or rename the whole requirement`
+    );
+  }
+
+  const contents = await readSpecFiles(slug, targetDir, specRoot);
+  const missing = SPEC_FILES.filter(name => contents[name] === undefined);
+  for (const name of missing) {
+    diagnostics.push(createDiagnostic("STR004", {
+      message: `Cannot read ${name}`,
+      suggestedFix: `Ensure file exists in ${relativeDir}/ directory`,
+      file: fileOf(name)
+    }));
+  }
+  if (missing.length === SPEC_FILES.length) return refused();
+
+  // Definition of the renamed ID, and collisions with existing IDs
+  const requirements = contents["requirements.md"] !== undefined ? parseRequirements(contents["requirements.md"], idPrefixes) : undefined;
+  const design = contents["design.md"] !== undefined ? parseDesign(contents["design.md"], idPrefixes) : undefined;
+  const defined = new Map<string, { file: SpecFileName; line: number }>();
+  const criterionLines = new Set(requirements?.requirements.flatMap(req => req.criteria.map(criterion => criterion.line)));
+  for (const req of requirements?.requirements || []) {
+    if (!defined.has(req.id)) defined.set(req.id, { file: "requirements.md", line: req.line });
+    for (const criterion of req.criteria.filter(criterion => criterion.numbered)) {
+      if (!defined.has(criterion.id)) defined.set(criterion.id, { file: "requirements.md", line: criterion.line });
+    }
+  }
+  for (const element of design?.elements || []) {
+    if (!defined.has(element.id)) defined.set(element.id, { file: "design.md", line: element.line });
+  }
+
+  let block: DefinitionBlock | undefined;
+  if (source.kind === "requirement") {
+    const req = requirements?.requirements.find(candidate => candidate.id === source.id);
+    if (req && requirements) {
+      block = { file: "requirements.md", line: req.line, endLine: contentEnd(requirements.document.lines, req.line, req.section.endLine), separator: [""] };
+    }
+  } else if (source.kind === "criterion") {
+    const criterion = requirements?.requirements.flatMap(req => req.criteria).find(candidate => candidate.numbered && candidate.id === source.id);
+    if (criterion) block = { file: "requirements.md", line: criterion.line, endLine: criterion.range.end.line, separator: [] };
+  } else {
+    const element = design?.elements.find(candidate => candidate.id === source.id);
+    if (element && design) {
+      block = { file: "design.md", line: element.line, endLine: contentEnd(design.document.lines, element.line, element.section.endLine), separator: ["", "---", ""] };
+    }
+  }
+  if (!block) {
+    diagnostics.push(createDiagnostic("RNM002", {
+      message: `${source.id} is not defined in ${source.kind === "design" ? "design.md" : "requirements.md"}`,
+      suggestedFix: `Rename an existing ${source.kind}, or check the ID for typos`,
+      file: fileOf(source.kind === "design" ? "design.md" : "requirements.md")
+    }));
+    return refused();
+  }
+
+  for (const target of parsedTargets.filter(id => id.id !== source.id)) {
+    // A renamed requirement takes its criteria along
+    const collision = defined.get(target.id)
+      ?? (source.kind === "requirement" ? [...defined].find(([id]) => id.startsWith(`${target.id}.`))?.[1] : undefined);
+    if (collision) {
+      diagnostics.push(createDiagnostic("RNM003", {
+        message: `Cannot rename ${source.id} to ${target.id}: ${target.id} already exists`,
+        suggestedFix: `Pick an unused ID, or rename ${target.id} first`,
+        line: collision.line,
+        file: fileOf(collision.file)
+      }));
+    }
+  }
+  if (hasErrors(diagnostics)) return refused();
+  if (parsedTargets.length === 1 && parsedTargets[0].id === source.id) {
+    return { valid: true, renamed: false, changes: [], diagnostics };
+  }
+
+  // Rewrite the references; the definition and its copies each get a single new ID
+  const changes: SpecIdChange[] = [];
+  const renamed: Partial<Record<SpecFileName, string>> = {};
+  for (const name of SPEC_FILES) {
+    const content = contents[name];
+    if (content === undefined) continue;
+    const lines = content.split("\n");
+    const textLines = new Set(parseMarkdown(content).textLines.map(textLine => textLine.line));
+    const rewrite = (line: string, lineNo: number, targets: ParsedId[]) =>
+      textLines.has(lineNo) ? rewriteLine(line, source, targets, idPrefixes) : line;
+    const definitionLines = (target: ParsedId) => block && block.file === name
+      ? lines.slice(block.line - 1, block.endLine).map((line, index) => {
+        const lineNo = block.line + index;
+        let rewritten = rewrite(line, lineNo, [target]);
+        if (name === "requirements.md" && criterionLines.has(lineNo)) rewritten = relabelCriterion(rewritten, source, target);
+        return index === 0 ? renumberDefinition(rewritten, source, target, idPrefixes) : rewritten;
+      })
+      : [];
+
+    const result: string[] = [];
+    lines.forEach((line, index) => {
+      const lineNo = index + 1;
+      if (block && block.file === name && lineNo >= block.line && lineNo <= block.endLine) {
+        if (lineNo === block.line) {
+          for (const [offset, after] of definitionLines(parsedTargets[0]).entries()) {
+            const before = lines[index + offset];
+            result.push(after);
+            if (after !== before) changes.push({ file: fileOf(name), line: result.length, before, after });
+          }
+          for (const target of parsedTargets.slice(1)) {
+            for (const after of [...block.separator, ...definitionLines(target)]) {
+              result.push(after);
+              changes.push({ file: fileOf(name), line: result.length, after });
+            }
+          }
+        }
+        return;
+      }
+      // A matrix row of a split design element becomes one row per new ID
+      const rows = source.kind === "design" && textLines.has(lineNo) && new RegExp(`^\\s*\\|\\s*${escapeRegExp(source.id)}\\s*\\|`).test(line)
+        ? parsedTargets.map(target => rewrite(line, lineNo, [target]))
+        : [rewrite(line, lineNo, parsedTargets)];
+      for (const [offset, after] of rows.entries()) {
+        result.push(after);
+        if (offset > 0) changes.push({ file: fileOf(name), line: result.length, after });
+        else if (after !== line) changes.push({ file: fileOf(name), line: result.length, before: line, after });
+      }
+    });
+    if (result.join("\n") !== content) renamed[name] = result.join("\n");
+  }
+
+  if (!dryRun) {
+    const written: SpecFileName[] = [];
+    try {
+      for (const name of SPEC_FILES.filter(name => renamed[name] !== undefined)) {
+        await fs.writeFile(path.join(targetDir, fileOf(name)), renamed[name] ?? "", "utf-8");
+        written.push(name);
+      }
+    } catch (error) {
+      // Leave the spec as it was when one of the files cannot be written
+      for (const name of written) {
+        await fs.writeFile(path.join(targetDir, fileOf(name)), contents[name] ?? "", "utf-8").catch(() => undefined);
+      }
+      diagnostics.push(createDiagnostic("STR004", {
+        message: `Cannot rename ${source.id} in ${relativeDir}: ${(error as Error).message}`,
+        suggestedFix: "Check the permissions of the spec files",
+        file: relativeDir
+      }));
+      return refused();
+    }
+  }
+
+  return { valid: !hasErrors(diagnostics), renamed: !dryRun && changes.length > 0, changes, diagnostics };
+}
@@ -0,0 +1,147 @@
+/**
+ * Spec files exposed as MCP resources under `spec://<slug>/<file>` URIs.
+ */
+import { watch, type FSWatcher } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import { DEFAULT_SPEC_ROOT, SLUG_PATTERN, SPEC_FILES, specDirectory, type SpecFileName } from "./spec-files.js";
+
+export const SPEC_RESOURCE_TEMPLATE = {
+  uriTemplate: "spec://{slug}/{file}",
+  name: "Spec file",
+  description: `A spec file of specs/changes/<slug>/ (${SPEC_FILES.join(", ")})`,
+  mimeType: "text/markdown"
+} as const;
+
+export interface SpecResource {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+const SPEC_URI_PATTERN = /^spec:\/\/([^/]+)\/([^/]+)$/;
+
+export function specResourceUri(slug: string, file: SpecFileName): string {
+  return `spec://${slug}/${file}`;
+}
+
+/**
+ * Resolves a `spec://<slug>/<file>` URI to the path of the file relative to the
+ * target directory, or undefined when the URI does not name a spec file.
+ */
+export function resolveSpecUri(
+  uri: string,
+  specRoot: string = DEFAULT_SPEC_ROOT
+): { slug: string; file: SpecFileName; relativePath: string } | undefined {
+  const match = uri.match(SPEC_URI_PATTERN);
+  if (!match) return undefined;
+  const [, slug, file] = match;
+  if (!SLUG_PATTERN.test(slug) || !(SPEC_FILES as readonly string[]).includes(file)) return undefined;
+  return { slug, file: file as SpecFileName, relativePath: path.join(specDirectory(slug, specRoot), file) };
+}
+
+/**
+ * Lists the spec files of every spec folder under specs/changes/.
+ */
+export async function listSpecResources(
+  targetDir: string = process.cwd(),
+  specRoot: string = DEFAULT_SPEC_ROOT
+): Promise<SpecResource[]> {
+  const changesDir = path.join(targetDir, specRoot);
+  let slugs: string[];
+  try {
+    const entries = await fs.readdir(changesDir, { withFileTypes: true });
+    slugs = entries.filter(entry => entry.isDirectory()).map(entry => entry.name).sort();
+  } catch {
+    return [];
+  }
+
+  const resources: SpecResource[] = [];
+  for (const slug of slugs) {
+    for (const file of SPEC_FILES) {
+      try {
+        await fs.access(path.join(changesDir, slug, file));
+      } catch {
+        continue;
+      }
+      resources.push({
+        uri: specResourceUri(slug, file),
+        name: `${slug}/${file}`,
+        description: `${file} of spec '${slug}'`,
+        mimeType: "text/markdown"
+      });
+    }
+  }
+  return resources;
+}
+
+/**
+ * Reads the spec file named by a `spec://` URI.
+ */
+export async function readSpecResource(
+  uri: string,
+  targetDir: string = process.cwd(),
+  specRoot: string = DEFAULT_SPEC_ROOT
+): Promise<{ uri: string; mimeType: string; text: string }> {
+  const resolved = resolveSpecUri(uri, specRoot);
+  if (!resolved) {
+    throw new Error(`Invalid spec resource URI: ${uri} (expected ${SPEC_RESOURCE_TEMPLATE.uriTemplate})`);
+  }
+  try {
+    const text = await fs.readFile(path.join(targetDir, resolved.relativePath), "utf-8");
+    return { uri, mimeType: "text/markdown", text };
+  } catch {
+    throw new Error(`Spec resource not found: ${uri}`);
+  }
+}
+
+/** Spec resources whose files changed since the last notification */
+export interface SpecResourceChange {
+  uris: string[];
+  /** Set when a spec file may have been created or removed */
+  listChanged: boolean;
+}
+
+/**
+ * Watches specs/changes/ and reports which spec resources changed. `listChanged`
+ * is set when a spec file may have been created or removed. Returns undefined
+ * when the directory does not exist or cannot be watched.
+ */
+export function watchSpecResources(
+  targetDir: string,
+  onChange: (change: SpecResourceChange) => void,
+  debounceMs: number = 100,
+  specRoot: string = DEFAULT_SPEC_ROOT
+): FSWatcher | undefined {
+  const changesDir = path.join(targetDir, specRoot);
+  const pending = new Set<string>();
+  let listChanged = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const flush = () => {
+    timer = undefined;
+    const change: SpecResourceChange = { uris: [...pending], listChanged };
+    pending.clear();
+    listChanged = false;
+    onChange(change);
+  };
+
+  try {
+    const watcher = watch(changesDir, { recursive: true }, (eventType, filename) => {
+      if (!filename) return;
+      const [slug, file, ...rest] = filename.toString().split(path.sep);
+      const isSpecFile = rest.length === 0 && file !== undefined && (SPEC_FILES as readonly string[]).includes(file);
+      // A renamed spec folder adds or removes all of its files
+      if (eventType === "rename" && (isSpecFile || file === undefined)) listChanged = true;
+      if (isSpecFile) pending.add(specResourceUri(slug, file as SpecFileName));
+      if ((pending.size > 0 || listChanged) && !timer) timer = setTimeout(flush, debounceMs);
+    });
+    watcher.on("error", () => watcher.close());
+    // Watching must not keep the server alive once its transport has closed
+    watcher.unref();
+    return watcher;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Skeleton spec documents, following the output formats of the standards skills.
+ *
+ * The skeletons pass the structural and per-file validators, so the first
+ * validation round of a new spec only reports content problems.
+ */
+import fs from "fs/promises";
+import path from "path";
+import { DEFAULT_CONFIG, type SpecDrivenConfig } from "./config.js";
+import { createDiagnostic, hasErrors, type Diagnostic } from "./diagnostics.js";
+import { SPEC_FILES, specDirectory, type SpecFileName } from "./spec-files.js";
+import { DEFAULT_ID_PREFIXES, type IdPrefixes } from "./spec-model.js";
+import { verifyCompleteSpec } from "./validators.js";
+import { checkSlug } from "./workspace.js";
+
+function requirementsSkeleton(title: string): string {
+  return `# Requirements Document
+
+## Introduction
+
+${title}: describe the context and background, the target users and stakeholders,
+the scope and boundaries, and the dependencies and constraints of this change.
+
+## Glossary
+
+| Term | Definition |
+|------|------------|
+| Term_Name | Definition using snake_case for identifiers |
+
+## Requirements
+
+### Requirement 1: ${title}
+
+**User Story:** As a <role>, I want <goal>, so that <benefit>.
+
+#### Acceptance Criteria
+
+1. THE system SHALL <behavior>. _(Ubiquitous)_
+2. WHEN <trigger>, THE system SHALL <action> on the Term_Name. _(Event-driven)_
+`;
+}
+
+function designSkeleton(slug: string, title: string, { requirement: req, design: des }: IdPrefixes): string {
+  return `# Design Document
+
+## Overview
+
+Design goals, constraints and approach for ${title}.
+
+### References
+
+- **${req}-1**: ${title}
+
+---
+
+## System Architecture
+
+### ${des}-1: ${title} Component
+
+Description of the component and its purpose.
+
+\`\`\`mermaid
+flowchart TD
+    A[Input] --> B["${title.replace(/"/g, "'")}"]
+    B --> C[Output]
+\`\`\`
+
+_Implements: ${req}-1.1, ${req}-1.2_
+
+---
+
+## Code Anatomy
+
+| File Path | Purpose | Implements |
+|-----------|---------|------------|
+| src/${slug}/index.ts (new) | Description of responsibility | ${des}-1 |
+
+---
+
+## Traceability Matrix
+
+| Design Element | Requirements |
+|----------------|--------------|
+| ${des}-1 | ${req}-1.1, ${req}-1.2 |
+`;
+}
+
+function tasksSkeleton(title: string, { requirement: req, design: des }: IdPrefixes): string {
+  return `# Implementation Tasks
+
+## Overview
+
+This task breakdown implements ${title} with 2 phases:
+
+1. **Implementation** - Build ${des}-1
+2. **Final Checkpoint** - Validation
+
+**Estimated Effort**: <Low/Medium/High> (<N sessions>)
+
+---
+
+## Phase 1: Implementation
+
+- [ ] 1.1 Implement ${title} component
+  - Description of what to do
+  - _Implements: ${des}-1, ${req}-1.1, ${req}-1.2_
+
+---
+
+## Phase 2: Final Checkpoint
+
+- [ ] 2.1 Verify all acceptance criteria
+  - ${req}-1: Confirm <specific verification>
+  - Run tests, validate requirements
+  - _Depends: 1.1_
+  - _Implements: All requirements_
+`;
+}
+
+/**
+ * Renders the skeleton documents of a new spec.
+ */
+export function renderSpecSkeleton(
+  slug: string,
+  title: string,
+  prefixes: IdPrefixes = DEFAULT_ID_PREFIXES
+): Record<SpecFileName, string> {
+  return {
+    "requirements.md": requirementsSkeleton(title),
+    "design.md": designSkeleton(slug, title, prefixes),
+    "tasks.md": tasksSkeleton(title, prefixes)
+  };
+}
+
+/**
+ * Tool: create_spec
+ * Creates specs/changes/<slug>/ with skeleton requirements.md, design.md and tasks.md
+ */
+export async function createSpec(
+  slug: string,
+  title: string,
+  targetDir: string = process.cwd(),
+  config: SpecDrivenConfig = DEFAULT_CONFIG
+): Promise<{
+  valid: boolean;
+  created: boolean;
+  files: string[];
+  diagnostics: Diagnostic[];
+}> {
+  const diagnostics: Diagnostic[] = [];
+  const relativeDir = specDirectory(slug, config.specRoot);
+
+  diagnostics.push(...checkSlug(slug));
+  if (!title.trim()) {
+    diagnostics.push(createDiagnostic("STR005", {
+      message: "Spec title is empty",
+      suggestedFix: "Provide a short title for the feature, e.g. Rate Limiter"
+    }));
+  }
+  if (diagnostics.length > 0) {
+    return { valid: false, created: false, files: [], diagnostics };
+  }
+
+  const specDir = path.join(targetDir, relativeDir);
+  try {
+    await fs.mkdir(path.dirname(specDir), { recursive: true });
+    await fs.mkdir(specDir);
+  } catch (error) {
+    const exists = (error as NodeJS.ErrnoException).code === "EEXIST";
+    diagnostics.push(createDiagnostic(exists ? "STR006" : "STR004", {
+      message: exists ? `Spec '${slug}' already exists` : `Cannot create ${relativeDir}: ${(error as Error).message}`,
+      suggestedFix: exists ? "Choose another slug or edit the existing spec" : "Check the permissions of the target directory",
+      file: relativeDir
+    }));
+    return { valid: false, created: false, files: [], diagnostics };
+  }
+
+  const skeleton = renderSpecSkeleton(slug, title.trim().replace(/\s+/g, " "), config.idPrefixes);
+  for (const name of SPEC_FILES) {
+    await fs.writeFile(path.join(specDir, name), skeleton[name], "utf-8");
+  }
+
+  diagnostics.push(...(await verifyCompleteSpec(slug, targetDir, config)).diagnostics);
+  return {
+    valid: !hasErrors(diagnostics),
+    created: true,
+    files: SPEC_FILES.map(name => path.join(relativeDir, name)),
+    diagnostics
+  };
+}
@@ -0,0 +1,921 @@
+/**
+ * MCP server of Spec Driven Asteroids: the validation tools, the spec files as
+ * resources and the skills as prompts. Once the client asks for resources, each
+ * server watches the spec files of the workspace roots of its client and notifies
+ * it of changes.
+ */
+import type { FSWatcher } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  RootsListChangedNotificationSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type RequestId,
+} from "@modelcontextprotocol/sdk/types.js";
+import { renderSpecSummary, verifyAllSpecs } from "./all-specs.js";
+import { archiveSpec } from "./archive.js";
+import { applyConfig, CONFIG_FILE, loadConfig } from "./config.js";
+import { verifyImplementationCoverage } from "./coverage.js";
+import { toSarif, type Diagnostic } from "./diagnostics.js";
+import { formatSpec, type FormatOutput } from "./format.js";
+import { getSpecHistory } from "./git-history.js";
+import { getProjectGlossary, renderProjectGlossary } from "./glossary.js";
+import { getSkillPrompt, listSkillPrompts } from "./prompts.js";
+import {
+  listSpecResources,
+  readSpecResource,
+  SPEC_RESOURCE_TEMPLATE,
+  watchSpecResources,
+  type SpecResource,
+  type SpecResourceChange
+} from "./resources.js";
+import { renameSpecId } from "./rename.js";
+import { createSpec } from "./scaffold.js";
+import { SLUG_PATTERN, specDirectory } from "./spec-files.js";
+import { diffSpec, renderSpecDiff } from "./spec-diff.js";
+import { getNextTask } from "./task-graph.js";
+import { getSpecStatus, TASK_STATUSES, updateTaskStatus, type TaskStatus } from "./task-status.js";
+import { verifyTestResults } from "./test-results.js";
+import { getTraceabilityMatrix, renderTraceabilityMatrix } from "./traceability.js";
+import {
+  verifyCompleteSpec,
+  verifyDesignFile,
+  verifyRequirementsFile,
+  verifySpecStructure,
+  verifyTasksFile
+} from "./validators.js";
+import { checkSlug, confineRoots, resolveInWorkspace, workspaceRootsFromUris } from "./workspace.js";
+
+export interface ServerOptions {
+  /** Workspace of clients that do not send roots (default: the working directory) */
+  root?: string;
+  /** Confines the roots of the client to `root`, e.g. for clients connecting over HTTP */
+  confineToRoot?: boolean;
+}
+
+export interface SpecDrivenServer {
+  server: Server;
+  /** Notifies the client of changed spec files it subscribed to */
+  notifyResourceChange(change: SpecResourceChange): void;
+}
+
+const FORMAT_PROPERTY = {
+  type: "string",
+  enum: ["json", "sarif"],
+  description: "Output format: 'json' (default) for the tool result, 'sarif' for a SARIF 2.1.0 log of the diagnostics."
+} as const;
+
+type LoadedConfig = Awaited<ReturnType<typeof loadConfig>>;
+
+/** Settings of each target directory, shared by the sessions of the process */
+const configCache = new Map<string, { mtimeMs: number; loaded: Promise<LoadedConfig> }>();
+
+/**
+ * Loads the settings of a target directory once, and again whenever its
+ * `.spec-driven.json` changes. Settings whose plugins failed to load are not
+ * kept, so that a plugin created later is picked up.
+ */
+async function cachedConfig(targetDir: string): Promise<LoadedConfig> {
+  const stats = await fs.stat(path.join(targetDir, CONFIG_FILE)).catch(() => undefined);
+  const mtimeMs = stats?.mtimeMs ?? -1;
+  const cached = configCache.get(targetDir);
+  if (cached?.mtimeMs === mtimeMs) return cached.loaded;
+
+  const loaded = loadConfig(targetDir);
+  configCache.set(targetDir, { mtimeMs, loaded });
+  loaded.then(
+    ({ diagnostics }) => {
+      if (diagnostics.some(diagnostic => diagnostic.code === "PLG001")) configCache.delete(targetDir);
+    },
+    () => configCache.delete(targetDir)
+  );
+  return loaded;
+}
+
+/**
+ * Builds the tool response, rendering the diagnostics as SARIF when requested.
+ */
+function toolResult(result: { valid: boolean; diagnostics: Diagnostic[] }, format?: unknown) {
+  const payload = format === "sarif" ? toSarif(result.diagnostics) : result;
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(payload, null, 2)
+      }
+    ],
+    isError: !result.valid
+  };
+}
+
+/**
+ * Lists the file and directory arguments of a tool call, resolved against its
+ * target directory. Revisions of diff_spec resolve inside it and pass.
+ */
+function pathArguments(name: string, args: Record<string, unknown>): { label: string; value: string }[] {
+  const values = (key: string) => {
+    const value = args[key];
+    return (Array.isArray(value) ? value : [value]).filter((item): item is string => typeof item === "string");
+  };
+  if (name === "verify_test_results") return values("reports").map(value => ({ label: "report", value }));
+  if (name === "diff_spec") return ["base", "head"].flatMap(key => values(key).map(value => ({ label: key, value })));
+  return [];
+}
+
+/**
+ * Creates a server with every tool, resource and prompt handler. Each MCP
+ * connection needs its own server, e.g. one per HTTP session.
+ */
+export function createServer(options: ServerOptions = {}): SpecDrivenServer {
+  const server = new Server(
+    {
+      name: "spec-driven-asteroids-mcp",
+      version: "0.1.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {
+          subscribe: true,
+          listChanged: true,
+        },
+        prompts: {},
+      },
+    }
+  );
+
+  // Workspace roots of the client, asked once and again after each change notification.
+  // Asking within a request sends the question on the stream of that request.
+  const fallbackRoot = path.resolve(options.root ?? process.cwd());
+  let clientRoots: Promise<string[]> | undefined;
+  const workspaceRoots = async (relatedRequestId?: RequestId): Promise<string[]> => {
+    if (!server.getClientCapabilities()?.roots) return [fallbackRoot];
+    clientRoots ??= server.listRoots(undefined, relatedRequestId !== undefined ? { relatedRequestId } : undefined).then(result => {
+      const roots = workspaceRootsFromUris(result.roots);
+      return options.confineToRoot ? confineRoots(roots, fallbackRoot) : roots;
+    }, () => []);
+    const roots = await clientRoots;
+    return roots.length > 0 ? roots : [fallbackRoot];
+  };
+
+  // Spec files of the roots, watched from the first resource request of the client
+  // and again for the new roots after each change notification
+  let watchers: FSWatcher[] = [];
+  let watching: Promise<void> | undefined;
+  let watchedGeneration = 0;
+  const watchRoots = async (relatedRequestId?: RequestId) => {
+    const generation = ++watchedGeneration;
+    const next: FSWatcher[] = [];
+    for (const root of await workspaceRoots(relatedRequestId)) {
+      const { config } = await cachedConfig(root);
+      const watcher = watchSpecResources(root, change => instance.notifyResourceChange(change), undefined, config.specRoot);
+      if (watcher) next.push(watcher);
+    }
+    // The roots changed again, or the server closed, while the watchers were set up
+    if (generation !== watchedGeneration) {
+      for (const watcher of next) watcher.close();
+      return;
+    }
+    for (const watcher of watchers) watcher.close();
+    watchers = next;
+  };
+  const startWatching = (relatedRequestId: RequestId) => {
+    watching ??= watchRoots(relatedRequestId).catch(() => undefined);
+    return watching;
+  };
+  server.onclose = () => {
+    watchedGeneration++;
+    for (const watcher of watchers) watcher.close();
+    watchers = [];
+  };
+  server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+    clientRoots = undefined;
+    if (watching) watching = watchRoots().catch(() => undefined);
+  });
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: [
+        {
+          name: "verify_spec_structure",
+          description: "Validates spec folder structure and file existence (requires: requirements.md, design.md, tasks.md in specs/changes/<slug>/).",
+          inputSchema: {
+            type: "object",
+            properties: {
+              slug: {
+                type: "string",
+                description: "Short identifier for the spec (e.g., 'rate-limiter-impl')."
+              },
+              targetDir: {
+                type: "string",
+                description: "Base directory to check (default: the workspace root; must lie inside the workspace)."
+              },
+              format: FORMAT_PROPERTY
+            },
+            required: ["slug"]
+          }
+        },
+        {
+          name: "verify_requirements_file",
+          description: "Validates a requirements.md file has all required sections, EARS patterns, and proper numbering. Changes to an existing feature may use Added/Modified/Removed Requirements sections, checked against the baseline spec.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              content: {
+                type: "string",
+                description: "The Markdown content of requirements.md file."
+              },
+              baselineContent: {
+                type: "string",
+                description: "Optional: Content of the baseline requirements.md named by the **Baseline:** line, to check the IDs of modified and removed requirements."
+              },
+              format: FORMAT_PROPERTY
+            },
+            required: ["content"]
+          }
+        },
+        {
+          name: "verify_design_file",
+          description: "Validates a design.md file has all required sections, Mermaid diagrams, design element numbering, and traceability links.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              content: {
+                type: "string",
+                description: "The Markdown content of design.md file."
+              },
+              requirementsContent: {
+                type: "string",
+                description: "The content from requirements.md for traceability verification (optional but recommended)."
+              },
+              format: FORMAT_PROPERTY
+            },
+            required: ["content"]
+          }
+        },
+        {
+          name: "verify_tasks_file",
+          description: "Validates a tasks.md file has proper structure, numbering, traceability, and includes Final Checkpoint phase.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              content: {
+                type: "string",
+                description: "The Markdown content of tasks.md file."
+              },
+              designContent: {
+                type: "string",
+                description: "The content from design.md for traceability verification (optional but recommended)."
+              },
+              format: FORMAT_PROPERTY
+            },
+            required: ["content"]
+          }
+        },
+        {
+          name: "verify_complete_spec",
+          description: "Validates all three spec files (requirements.md, design.md, tasks.md) together for complete workflow validation and cross-file traceability.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              slug: {
+                type: "string",
+                description: "Short identifier for the spec (e.g., 'rate-limiter-impl')."
+              },
+              targetDir: {
+                type: "string",
+                description: "Base directory to check (default: the workspace root; must lie inside the workspace)."
+              },
+              format: FORMAT_PROPERTY
+            },
+            required: ["slug"]
+          }
+        },
+        {
+          name: "get_traceability_matrix",
+          description: "Builds the REQ → DES → task traceability graph across requirements.md, design.md and tasks.md. Reports acceptance criteria not covered by a design element or task, dangling references, and disagreements between the Traceability Matrix table and the inline _Implements:_ links.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              slug: {
+                type: "string",
+                description: "Short identifier for the spec (e.g., 'rate-limiter-impl')."
+              },
+              targetDir: {
+                type: "string",
+                description: "Base directory to check (default: the workspace root; must lie inside the workspace)."
+              },
+              format: {
+                type: "string",
+                enum: ["markdown", "csv", "json", "sarif"],
+                description: "Output format: 'markdown' (default) or 'csv' for the coverage matrix followed by the findings, 'json' for the full report, 'sarif' for a SARIF 2.1.0 log of the diagnostics."
+              }
+            },
+            required: ["slug"]
+          }
+        },
+        {
+          name: "verify_implementation_coverage",
+          description: "Scans the code comments and test titles of the project (honoring .gitignore) for the REQ-x.y and DES-x IDs of a spec. Reports which acceptance criteria have implementing code, which have tests, and which completed tasks have no code reference at all.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              slug: {
+                type: "string",
+                description: "Short identifier for the spec (e.g., 'rate-limiter-impl')."
+              },
+              include: {
+                type: "array",
+                items: { type: "string" },
+                description: "Glob patterns of the files to scan, relative to the target directory (default: coverage.include of .spec-driven.json, or all files)."
+              },
+              exclude: {
+                type: "array",
+                items: { type: "string" },
+                description: "Glob patterns of files to skip (default: coverage.exclude of .spec-driven.json)."
+              },
+              targetDir: {
+                type: "string",
+                description: "Base directory to check (default: the workspace root; must lie inside the workspace)."
+              },
+              format: FORMAT_PROPERTY
+            },
+            required: ["slug"]
+          }
+        },
+        {
+          name: "verify_test_results",
+          description: "Reads local JUnit XML or TAP test reports and maps their test cases to acceptance criteria by the REQ-x.y IDs in the test names. Reports each requirement and criterion as passed, failed or untested, and optionally annotates the Final Checkpoint tasks of tasks.md with the results.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              slug: {
+                type: "string",
+                description: "Short identifier for the spec (e.g., 'rate-limiter-impl')."
+              },
+              reports: {
+                type: "array",
+                items: { type: "string" },
+                description: "Paths of JUnit XML (.xml) or TAP (.tap) report files, relative to the target directory."
+              },
+              annotate: {
+                type: "boolean",
+                description: "Write the results into the Final Checkpoint tasks of tasks.md (default: false)."
+              },
+              targetDir: {
+                type: "string",
+                description: "Base directory to check (default: the workspace root; must lie inside the workspace)."
+              },
+              format: FORMAT_PROPERTY
+            },
+            required: ["slug", "reports"]
+          }
+        },
+        {
+          name: "get_spec_history",
+          description: "Reads the local git log for a revision range and reports which commits cite which requirements and design elements of a spec, completed tasks whose IDs no commit cites, and commits that change the Code Anatomy paths of design.md without citing any ID.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              slug: {
+                type: "string",
+                description: "Short identifier for the spec (e.g., 'rate-limiter-impl')."
+              },
+              range: {
+                type: "string",
+                description: "Git revision range, e.g. 'main..HEAD' (default: HEAD, the whole history)."
+              },
+              targetDir: {
+                type: "string",
+                description: "Base directory of the spec inside the git repository (default: the workspace root; must lie inside the workspace)."
+              },
+              format: FORMAT_PROPERTY
+            },
+            required: ["slug"]
+          }
+        },
+        {
+          name: "format_spec",
+          description: "Fixes the numbering of a spec: renumbers requirements, acceptance criteria, design elements, phases and tasks in document order, normalizes their headings, rewrites every REQ/DES reference and Depends marker in the three files, rebuilds the Traceability Matrix table from the inline links and adds a missing Final Checkpoint phase. Returns a unified diff or the rewritten files; the files are only changed when write is true.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              slug: {
+                type: "string",
+                description: "Short identifier for the spec (e.g., 'rate-limiter-impl')."
+              },
+              write: {
+                type: "boolean",
+                description: "Write the formatted files (default: false, only report the changes)."
+              },
+              output: {
+                type: "string",
+                enum: ["diff", "files"],
+                description: "Return a unified diff (default) or the full contents of the changed files."
+              },
+              targetDir: {
+                type: "string",
+                description: "Base directory containing specs/ (default: the workspace root; must lie inside the workspace)."
+              },
+              format: FORMAT_PROPERTY
+            },
+            required: ["slug"]
+          }
+        },
+        {
+          name: "rename_spec_id",
+          description: "Renames a requirement (REQ-x), acceptance criterion (REQ-x.y) or design element (DES-x) across requirements.md, design.md and tasks.md, like a symbol rename: the definition gets the new ID and every reference, _Implements:_ marker and Traceability Matrix row follows it. Several new IDs split the definition into copies, and every reference lists all of them. Refuses to rename to an ID that already exists and reports every changed line.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              slug: {
+                type: "string",
+                description: "Short identifier for the spec (e.g., 'rate-limiter-impl')."
+              },
+              from: {
+                type: "string",
+                description: "ID to rename (e.g., 'REQ-3', 'REQ-3.2' or 'DES-4')."
+              },
+              to: {
+                type: "array",
+                items: { type: "string" },
+                description: "New ID, or several new IDs to split the definition (e.g., ['REQ-3.2', 'REQ-3.4'])."
+              },
+              dryRun: {
+                type: "boolean",
+                description: "Report the changes without writing the files (default: false)."
+              },
+              targetDir: {
+                type: "string",
+                description: "Base directory containing specs/ (default: the workspace root; must lie inside the workspace)."
+              },
+              format: FORMAT_PROPERTY
+            },
+            required: ["slug", "from", "to"]
+          }
+        },
+        {
+          name: "diff_spec",
+          description: "Compares a spec between two git revisions or two spec folders and lists what really changed: requirements and acceptance criteria added, removed, reworded or only renumbered, design elements and their requirement links, tasks added or removed, and trace links the change broke. Returns Markdown for pull request comments, or JSON.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              slug: {
+                type: "string",
+                description: "Short identifier for the spec (e.g., 'rate-limiter-impl')."
+              },
+              base: {
+                type: "string",
+                description: "Old version: a git revision (default: HEAD) or a spec folder relative to targetDir."
+              },
+              head: {
+                type: "string",
+                description: "New version: a git revision or a spec folder (default: the working tree)."
+              },
+              targetDir: {
+                type: "string",
+                description: "Base directory containing specs/ (default: the workspace root; must lie inside the workspace)."
+              },
+              format: {
+                type: "string",
+                enum: ["markdown", "json", "sarif"],
+                description: "Output format: 'markdown' (default) for a pull request comment, 'json' for the diff report, 'sarif' for the broken trace links."
+              }
+            },
+            required: ["slug"]
+          }
+        },
+        {
+          name: "get_project_glossary",
+          description: "Builds the project-wide glossary from the Glossary tables of every spec under specs/changes/ and every capability under specs/capabilities/, so that new requirements can reuse existing terms. Each term lists the specs defining it; terms defined differently by several specs are reported with all their definitions.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              targetDir: {
+                type: "string",
+                description: "Base directory containing specs/ (default: the workspace root; must lie inside the workspace)."
+              },
+              format: {
+                type: "string",
+                enum: ["markdown", "json", "sarif"],
+                description: "Output format: 'json' (default) for the glossary, 'markdown' for a glossary table, 'sarif' for the conflicting definitions."
+              }
+            }
+          }
+        },
+        {
+          name: "verify_all_specs",
+          description: "Validates every active change under specs/changes/ and compares them with each other: changes with the same or nearly the same slug or title, and files listed in the Code Anatomy of more than one change (a merge conflict risk). Returns a summary of the status and task completion of every change.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              targetDir: {
+                type: "string",
+                description: "Base directory containing specs/ (default: the workspace root; must lie inside the workspace)."
+              },
+              format: {
+                type: "string",
+                enum: ["markdown", "json", "sarif"],
+                description: "Output format: 'json' (default) for the tool result, 'markdown' for a summary table of the changes, 'sarif' for a SARIF 2.1.0 log of the diagnostics."
+              }
+            }
+          }
+        },
+        {
+          name: "get_next_task",
+          description: "Returns the next actionable tasks of a spec in dependency order: pending tasks whose _Depends:_ tasks are all completed. Final Checkpoint tasks become actionable once every other task is completed.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              slug: {
+                type: "string",
+                description: "Short identifier for the spec (e.g., 'rate-limiter-impl')."
+              },
+              targetDir: {
+                type: "string",
+                description: "Base directory to check (default: the workspace root; must lie inside the workspace)."
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of actionable tasks to return (default: 1)."
+              },
+              format: FORMAT_PROPERTY
+            },
+            required: ["slug"]
+          }
+        },
+        {
+          name: "get_spec_status",
+          description: "Reports per-phase and overall task completion of a spec, the tasks in progress, and parent tasks whose subtasks are all completed.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              slug: {
+                type: "string",
+                description: "Short identifier for the spec (e.g., 'rate-limiter-impl')."
+              },
+              targetDir: {
+                type: "string",
+                description: "Base directory to check (default: the workspace root; must lie inside the workspace)."
+              },
+              format: FORMAT_PROPERTY
+            },
+            required: ["slug"]
+          }
+        },
+        {
+          name: "update_task_status",
+          description: "Changes the checkbox of a single task in tasks.md ([ ] pending, [~] in-progress, [x] done) and re-validates the file. Refuses illegal transitions, such as completing a task whose dependencies or subtasks are not completed.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              slug: {
+                type: "string",
+                description: "Short identifier for the spec (e.g., 'rate-limiter-impl')."
+              },
+              taskId: {
+                type: "string",
+                description: "Task ID as written in tasks.md (e.g., '1.2')."
+              },
+              status: {
+                type: "string",
+                enum: Object.keys(TASK_STATUSES),
+                description: "New task status."
+              },
+              targetDir: {
+                type: "string",
+                description: "Base directory of the spec (default: the workspace root; must lie inside the workspace)."
+              },
+              format: FORMAT_PROPERTY
+            },
+            required: ["slug", "taskId", "status"]
+          }
+        },
+        {
+          name: "create_spec",
+          description: "Creates specs/changes/<slug>/ with skeleton requirements.md, design.md and tasks.md that follow the skill output formats and pass the structural validators. The slug must be kebab-case and not used by another spec.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              slug: {
+                type: "string",
+                description: "Kebab-case identifier for the new spec (e.g., 'rate-limiter')."
+              },
+              title: {
+                type: "string",
+                description: "Feature title used in the skeleton documents (e.g., 'Rate Limiter')."
+              },
+              targetDir: {
+                type: "string",
+                description: "Base directory to create the spec in (default: the workspace root; must lie inside the workspace)."
+              },
+              format: FORMAT_PROPERTY
+            },
+            required: ["slug", "title"]
+          }
+        },
+        {
+          name: "archive_spec",
+          description: "Archives a completed change: checks that the spec is valid, fully traced and has every task done, moves specs/changes/<slug>/ to specs/archive/<date>-<slug>/ and merges its requirements into specs/capabilities/<capability>/requirements.md, renumbering them after the existing requirements.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              slug: {
+                type: "string",
+                description: "The spec identifier (e.g., 'rate-limiter')."
+              },
+              capability: {
+                type: "string",
+                description: "Kebab-case name of the living capability spec to merge into (default: the capability named by the **Baseline:** line of requirements.md, or else the slug). A baseline outside specs/capabilities/ is refused."
+              },
+              date: {
+                type: "string",
+                description: "Archive date in YYYY-MM-DD format (default: today)."
+              },
+              targetDir: {
+                type: "string",
+                description: "Base directory of the spec (default: the workspace root; must lie inside the workspace)."
+              },
+              format: FORMAT_PROPERTY
+            },
+            required: ["slug"]
+          }
+        }
+      ]
+    };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+
+    if (!args) {
+      throw new Error(`No arguments provided for tool: ${name}`);
+    }
+
+    // Directories, files and slugs of the client are confined to the workspace
+    const roots = await workspaceRoots(extra.requestId);
+    const workspace = await resolveInWorkspace(args.targetDir as string | undefined, roots);
+    if (workspace.path === undefined) {
+      return toolResult({ valid: false, diagnostics: workspace.diagnostics }, args.format);
+    }
+    const targetDir = workspace.path;
+    const rejected = [
+      ...("slug" in args ? checkSlug(args.slug) : []),
+      ...(await Promise.all(pathArguments(name, args).map(async ({ label, value }) =>
+        (await resolveInWorkspace(value, roots, targetDir, label)).diagnostics))).flat()
+    ];
+    if (rejected.length > 0) {
+      return toolResult({ valid: false, diagnostics: rejected }, args.format);
+    }
+
+    // Settings of .spec-driven.json in the target directory
+    const { config, diagnostics: configDiagnostics } = await cachedConfig(targetDir);
+    const configured = <T extends { valid: boolean; diagnostics: Diagnostic[] }>(result: T) =>
+      applyConfig(result, config, configDiagnostics);
+
+    switch (name) {
+      case "verify_spec_structure": {
+        const result = configured(await verifySpecStructure(args.slug as string, targetDir, config));
+        return toolResult(result, args.format);
+      }
+      case "verify_requirements_file": {
+        const result = configured(verifyRequirementsFile(args.content as string, undefined, config, args.baselineContent as string | undefined));
+        return toolResult(result, args.format);
+      }
+      case "verify_design_file": {
+        const result = configured(verifyDesignFile(args.content as string, args.requirementsContent as string | undefined, undefined, config));
+        return toolResult(result, args.format);
+      }
+      case "verify_tasks_file": {
+        const result = configured(verifyTasksFile(args.content as string, args.designContent as string | undefined, undefined, config));
+        return toolResult(result, args.format);
+      }
+      case "verify_complete_spec": {
+        const result = configured(await verifyCompleteSpec(args.slug as string, targetDir, config));
+        return toolResult(result, args.format);
+      }
+      case "get_traceability_matrix": {
+        const result = configured(await getTraceabilityMatrix(args.slug as string, targetDir, config));
+        const format = args.format ?? "markdown";
+        if (format !== "markdown" && format !== "csv") {
+          return toolResult(result, format);
+        }
+        const { matrix, edges: _edges, ...gaps } = result.report;
+        const findings = { valid: result.valid, diagnostics: result.diagnostics, ...gaps };
+        return {
+          content: [
+            { type: "text", text: renderTraceabilityMatrix(matrix, format) },
+            { type: "text", text: JSON.stringify(findings, null, 2) }
+          ],
+          isError: !result.valid
+        };
+      }
+      case "verify_implementation_coverage": {
+        const result = configured(await verifyImplementationCoverage(
+          args.slug as string,
+          targetDir,
+          config,
+          args.include as string[] | undefined,
+          args.exclude as string[] | undefined
+        ));
+        return toolResult(result, args.format);
+      }
+      case "verify_test_results": {
+        const result = configured(await verifyTestResults(
+          args.slug as string,
+          args.reports as string[],
+          args.annotate as boolean | undefined,
+          targetDir,
+          config
+        ));
+        return toolResult(result, args.format);
+      }
+      case "get_spec_history": {
+        const result = configured(await getSpecHistory(args.slug as string, args.range as string | undefined, targetDir, config));
+        return toolResult(result, args.format);
+      }
+      case "format_spec": {
+        const result = configured(await formatSpec(
+          args.slug as string,
+          args.write as boolean | undefined,
+          args.output as FormatOutput | undefined,
+          targetDir,
+          config
+        ));
+        return toolResult(result, args.format);
+      }
+      case "rename_spec_id": {
+        const to = Array.isArray(args.to) ? args.to as string[] : typeof args.to === "string" ? [args.to] : [];
+        const result = configured(await renameSpecId(
+          args.slug as string,
+          args.from as string,
+          to,
+          args.dryRun as boolean | undefined,
+          targetDir,
+          config
+        ));
+        return toolResult(result, args.format);
+      }
+      case "diff_spec": {
+        const result = configured(await diffSpec(args.slug as string, args.base as string | undefined, args.head as string | undefined, targetDir, config));
+        const format = args.format ?? "markdown";
+        if (format !== "markdown") {
+          return toolResult(result, format);
+        }
+        return {
+          content: [{ type: "text", text: renderSpecDiff(args.slug as string, result.report, result.diagnostics) }],
+          isError: !result.valid
+        };
+      }
+      case "get_project_glossary": {
+        const result = configured(await getProjectGlossary(targetDir, config));
+        if (args.format !== "markdown") {
+          return toolResult(result, args.format);
+        }
+        return {
+          content: [
+            { type: "text", text: renderProjectGlossary(result.glossary) },
+            { type: "text", text: JSON.stringify({ valid: result.valid, diagnostics: result.diagnostics }, null, 2) }
+          ],
+          isError: !result.valid
+        };
+      }
+      case "verify_all_specs": {
+        const result = configured(await verifyAllSpecs(targetDir, config));
+        if (args.format !== "markdown") {
+          return toolResult(result, args.format);
+        }
+        return {
+          content: [
+            { type: "text", text: renderSpecSummary(result.specs, result.sharedFiles) },
+            { type: "text", text: JSON.stringify({ valid: result.valid, diagnostics: result.diagnostics }, null, 2) }
+          ],
+          isError: !result.valid
+        };
+      }
+      case "get_next_task": {
+        const result = configured(await getNextTask(args.slug as string, targetDir, args.limit as number | undefined, config));
+        return toolResult(result, args.format);
+      }
+      case "get_spec_status": {
+        const result = configured(await getSpecStatus(args.slug as string, targetDir, config));
+        return toolResult(result, args.format);
+      }
+      case "update_task_status": {
+        const result = configured(await updateTaskStatus(
+          args.slug as string,
+          args.taskId as string,
+          args.status as TaskStatus,
+          targetDir,
+          config
+        ));
+        return toolResult(result, args.format);
+      }
+      case "create_spec": {
+        const result = configured(await createSpec(args.slug as string, args.title as string, targetDir, config));
+        return toolResult(result, args.format);
+      }
+      case "archive_spec": {
+        const result = configured(await archiveSpec(
+          args.slug as string,
+          args.capability as string | undefined,
+          targetDir,
+          config,
+          args.date as string | undefined
+        ));
+        return toolResult(result, args.format);
+      }
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  });
+
+  // Resources: spec files under spec://<slug>/<file>
+  const subscriptions = new Set<string>();
+
+  // A spec of an earlier root hides the spec with the same slug in later roots
+  server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => {
+    await startWatching(extra.requestId);
+    const resources = new Map<string, SpecResource>();
+    for (const root of await workspaceRoots(extra.requestId)) {
+      const { config } = await cachedConfig(root);
+      for (const resource of await listSpecResources(root, config.specRoot)) {
+        if (!resources.has(resource.uri)) resources.set(resource.uri, resource);
+      }
+    }
+    return { resources: [...resources.values()] };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: [SPEC_RESOURCE_TEMPLATE] };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    const roots = await workspaceRoots(extra.requestId);
+    for (const root of roots.slice(0, -1)) {
+      const { config } = await cachedConfig(root);
+      const contents = await readSpecResource(request.params.uri, root, config.specRoot).catch(() => undefined);
+      if (contents) return { contents: [contents] };
+    }
+    // The last root reports why the resource cannot be read
+    const root = roots[roots.length - 1];
+    const { config } = await cachedConfig(root);
+    return { contents: [await readSpecResource(request.params.uri, root, config.specRoot)] };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    await startWatching(extra.requestId);
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // Prompts: one per skill of the standards package
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: await listSkillPrompts() };
+  });
+
+  // The prompt names the spec folder of the first root that has the slug
+  server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+    const roots = await workspaceRoots(extra.requestId);
+    const slug = request.params.arguments?.slug;
+    let root = roots[0];
+    if (slug && SLUG_PATTERN.test(slug)) {
+      for (const candidate of roots) {
+        const { config } = await cachedConfig(candidate);
+        if (await fs.stat(path.join(candidate, specDirectory(slug, config.specRoot))).then(() => true, () => false)) {
+          root = candidate;
+          break;
+        }
+      }
+    }
+    const { config } = await cachedConfig(root);
+    return getSkillPrompt(request.params.name, request.params.arguments, undefined, config.specRoot);
+  });
+
+  const instance: SpecDrivenServer = {
+    server,
+    notifyResourceChange({ uris, listChanged }) {
+      if (listChanged) {
+        server.sendResourceListChanged().catch(() => undefined);
+      }
+      for (const uri of uris.filter(uri => subscriptions.has(uri))) {
+        server.sendResourceUpdated({ uri }).catch(() => undefined);
+      }
+    }
+  };
+  return instance;
+}
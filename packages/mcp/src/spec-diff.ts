@@ -0,0 +1,312 @@
+/**
+ * Semantic diff of two versions of a spec, from git revisions or directories.
+ *
+ * Requirements, criteria, design elements and tasks are matched by their text
+ * first and by their ID second, so renumbering alone is reported as such and does
+ * not hide what was added, removed or reworded. Design links are compared after
+ * mapping the old requirement IDs to the new ones.
+ */
+import { execFile } from "child_process";
+import fs from "fs/promises";
+import path from "path";
+import { promisify } from "util";
+import { DEFAULT_CONFIG, type SpecDrivenConfig } from "./config.js";
+import { createDiagnostic, formatDiagnostic, hasErrors, type Diagnostic } from "./diagnostics.js";
+import { SPEC_FILES, specDirectory, type SpecFileName } from "./spec-files.js";
+import { parseDesign, parseRequirements, parseTasks, type IdPrefixes } from "./spec-model.js";
+import { checkTraceability } from "./traceability.js";
+import { checkSlug } from "./workspace.js";
+
+const execFileAsync = promisify(execFile);
+
+export type SpecChangeKind = "added" | "removed" | "renumbered" | "reworded";
+
+export interface SpecItemChange {
+  change: SpecChangeKind;
+  /** ID in the new version, or the removed ID */
+  id: string;
+  /** ID in the old version, when it differs */
+  previousId?: string;
+  text: string;
+  /** Text in the old version of a reworded item */
+  previousText?: string;
+}
+
+export interface DesignLinkChange {
+  id: string;
+  previousId?: string;
+  /** Requirement IDs linked in the new version only */
+  added: string[];
+  /** Requirement IDs (as numbered in the new version) that lost their link */
+  removed: string[];
+}
+
+export interface SpecDiffReport {
+  base: string;
+  head: string;
+  requirements: SpecItemChange[];
+  criteria: SpecItemChange[];
+  designElements: SpecItemChange[];
+  designLinks: DesignLinkChange[];
+  tasks: SpecItemChange[];
+}
+
+interface DiffItem {
+  id: string;
+  /** Text compared between the versions */
+  key: string;
+  /** Text shown in the report */
+  text: string;
+}
+
+interface SpecVersion {
+  label: string;
+  contents: Partial<Record<SpecFileName, string>>;
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Pairs the items of two versions: equal texts first (preferring equal IDs),
+ * then equal IDs. Unpaired items are added or removed.
+ */
+function diffItems(base: DiffItem[], head: DiffItem[]): { changes: SpecItemChange[]; ids: Map<string, string> } {
+  const pairs = new Map<DiffItem, DiffItem>();
+  const paired = new Set<DiffItem>();
+  const pair = (match: (before: DiffItem, after: DiffItem) => boolean) => {
+    for (const before of base.filter(item => !pairs.has(item))) {
+      const after = head.find(item => !paired.has(item) && match(before, item));
+      if (after) {
+        pairs.set(before, after);
+        paired.add(after);
+      }
+    }
+  };
+  pair((before, after) => before.key === after.key && before.id === after.id);
+  pair((before, after) => before.key === after.key);
+  pair((before, after) => before.id === after.id);
+
+  const changes: SpecItemChange[] = [];
+  const ids = new Map<string, string>();
+  for (const [before, after] of pairs) {
+    if (!ids.has(before.id)) ids.set(before.id, after.id);
+    const previousId = before.id !== after.id ? before.id : undefined;
+    if (before.key !== after.key) {
+      changes.push({ change: "reworded", id: after.id, previousId, text: after.text, previousText: before.text });
+    } else if (previousId) {
+      changes.push({ change: "renumbered", id: after.id, previousId, text: after.text });
+    }
+  }
+  changes.push(...base.filter(item => !pairs.has(item)).map(item => ({ change: "removed" as const, id: item.id, text: item.text })));
+  changes.push(...head.filter(item => !paired.has(item)).map(item => ({ change: "added" as const, id: item.id, text: item.text })));
+  return { changes, ids };
+}
+
+/**
+ * Reads a spec version: the working tree when no source is given, a spec folder
+ * when the source is a directory, and a git revision otherwise.
+ */
+async function readSpecVersion(
+  source: string | undefined,
+  slug: string,
+  targetDir: string,
+  specRoot: string
+): Promise<SpecVersion | undefined> {
+  const relativeDir = specDirectory(slug, specRoot);
+  const readFrom = async (dir: string) => Object.fromEntries(await Promise.all(SPEC_FILES.map(async name => {
+    try {
+      return [name, await fs.readFile(path.join(dir, name), "utf-8")] as const;
+    } catch {
+      return [name, undefined] as const;
+    }
+  }))) as Partial<Record<SpecFileName, string>>;
+
+  if (source === undefined) {
+    return { label: "working tree", contents: await readFrom(path.join(targetDir, relativeDir)) };
+  }
+  const directory = path.resolve(targetDir, source);
+  if (await fs.stat(directory).then(stats => stats.isDirectory(), () => false)) {
+    return { label: source, contents: await readFrom(directory) };
+  }
+
+  // A revision starting with "-" would be read by git as an option
+  if (!source.trim() || source.startsWith("-")) return undefined;
+  try {
+    await execFileAsync("git", ["rev-parse", "--verify", "--quiet", `${source}^{commit}`], { cwd: targetDir, timeout: 60_000 });
+  } catch {
+    return undefined;
+  }
+  const contents: Partial<Record<SpecFileName, string>> = {};
+  for (const name of SPEC_FILES) {
+    const file = `./${path.join(relativeDir, name).split(path.sep).join("/")}`;
+    try {
+      const { stdout } = await execFileAsync("git", ["show", `${source}:${file}`], { cwd: targetDir, maxBuffer: 64 * 1024 * 1024, timeout: 60_000 });
+      contents[name] = stdout;
+    } catch {
+      // The file does not exist in this revision
+    }
+  }
+  return { label: source, contents };
+}
+
+/**
+ * Compares two versions of the documents of a spec.
+ */
+export function diffSpecVersions(base: SpecVersion, head: SpecVersion, prefixes: IdPrefixes = DEFAULT_CONFIG.idPrefixes): SpecDiffReport {
+  const parse = (contents: Partial<Record<SpecFileName, string>>) => ({
+    requirements: contents["requirements.md"] !== undefined ? parseRequirements(contents["requirements.md"], prefixes) : undefined,
+    design: contents["design.md"] !== undefined ? parseDesign(contents["design.md"], prefixes) : undefined,
+    tasks: contents["tasks.md"] !== undefined ? parseTasks(contents["tasks.md"], prefixes) : undefined
+  });
+  const before = parse(base.contents);
+  const after = parse(head.contents);
+
+  const requirementItems = (model: typeof before) => (model.requirements?.requirements || []).map(req => ({
+    id: req.id,
+    key: normalize(`${req.title}\n${req.userStory ?? ""}`),
+    text: req.title
+  }));
+  const criterionItems = (model: typeof before) => (model.requirements?.requirements || [])
+    .flatMap(req => req.criteria.filter(criterion => criterion.numbered))
+    .map(criterion => ({ id: criterion.id, key: normalize(criterion.text), text: criterion.text }));
+  const designItems = (model: typeof before) => (model.design?.elements || [])
+    .map(element => ({ id: element.id, key: normalize(element.title), text: element.title }));
+  const taskItems = (model: typeof before) => (model.tasks?.tasks || [])
+    .map(task => ({ id: task.id, key: normalize(task.title), text: task.title }));
+
+  const requirements = diffItems(requirementItems(before), requirementItems(after));
+  const criteria = diffItems(criterionItems(before), criterionItems(after));
+  const designElements = diffItems(designItems(before), designItems(after));
+  const tasks = diffItems(taskItems(before), taskItems(after));
+
+  // Links of design elements present in both versions, in the IDs of the new version
+  const renamed = (id: string) => criteria.ids.get(id) ?? requirements.ids.get(id) ?? id;
+  const designLinks: DesignLinkChange[] = [];
+  for (const element of after.design?.elements || []) {
+    const previousId = [...designElements.ids].find(([, id]) => id === element.id)?.[0];
+    const previous = before.design?.elements.find(candidate => candidate.id === previousId);
+    if (!previous) continue;
+    const linked = new Set(element.implements.map(link => link.to));
+    const wasLinked = new Set(previous.implements.map(link => renamed(link.to)));
+    const added = [...linked].filter(id => !wasLinked.has(id));
+    const removed = [...wasLinked].filter(id => !linked.has(id));
+    if (added.length > 0 || removed.length > 0) {
+      designLinks.push({ id: element.id, previousId: previous.id !== element.id ? previous.id : undefined, added, removed });
+    }
+  }
+
+  return {
+    base: base.label,
+    head: head.label,
+    requirements: requirements.changes,
+    criteria: criteria.changes,
+    designElements: designElements.changes,
+    designLinks,
+    tasks: tasks.changes
+  };
+}
+
+/**
+ * Renders a spec diff as Markdown, e.g. for a pull request comment. Traceability
+ * diagnostics are listed as the trace links the change broke.
+ */
+export function renderSpecDiff(slug: string, report: SpecDiffReport, diagnostics: Diagnostic[] = []): string {
+  const label: Record<SpecChangeKind, string> = { added: "Added", removed: "Removed", renumbered: "Renumbered", reworded: "Reworded" };
+  const itemLine = (change: SpecItemChange) => {
+    const id = change.previousId ? `${change.previousId} → ${change.id}` : change.id;
+    return change.change === "reworded"
+      ? `- **${label[change.change]}** ${id}: ~~${change.previousText}~~ ${change.text}`
+      : `- **${label[change.change]}** ${id}: ${change.text}`;
+  };
+  const sections: [string, string[]][] = [
+    ["Requirements", report.requirements.map(itemLine)],
+    ["Acceptance Criteria", report.criteria.map(itemLine)],
+    ["Design Elements", [
+      ...report.designElements.map(itemLine),
+      ...report.designLinks.map(change => {
+        const id = change.previousId ? `${change.previousId} → ${change.id}` : change.id;
+        const links = [...change.added.map(link => `+${link}`), ...change.removed.map(link => `−${link}`)];
+        return `- **Links changed** ${id}: ${links.join(", ")}`;
+      })
+    ]],
+    ["Tasks", report.tasks.map(itemLine)],
+    ["Broken Trace Links", diagnostics.filter(diagnostic => diagnostic.code.startsWith("TRC")).map(diagnostic => `- ${formatDiagnostic(diagnostic)}`)],
+    ["Problems", diagnostics.filter(diagnostic => !diagnostic.code.startsWith("TRC")).map(diagnostic => `- ${formatDiagnostic(diagnostic)}`)]
+  ];
+
+  const lines = [`## Spec changes: ${slug} (${report.base} → ${report.head})`];
+  for (const [title, items] of sections.filter(([, items]) => items.length > 0)) {
+    lines.push("", `### ${title}`, "", ...items);
+  }
+  if (lines.length === 1) lines.push("", "_No semantic changes._");
+  return lines.join("\n");
+}
+
+/**
+ * Tool: diff_spec
+ * Compares a spec between two git revisions or directories
+ */
+export async function diffSpec(
+  slug: string,
+  base: string = "HEAD",
+  head?: string,
+  targetDir: string = process.cwd(),
+  config: SpecDrivenConfig = DEFAULT_CONFIG
+): Promise<{
+  valid: boolean;
+  diagnostics: Diagnostic[];
+  report: SpecDiffReport;
+}> {
+  const diagnostics = checkSlug(slug);
+  const empty = { base, head: head ?? "working tree", requirements: [], criteria: [], designElements: [], designLinks: [], tasks: [] };
+  if (diagnostics.length > 0) return { valid: false, diagnostics, report: empty };
+  const { idPrefixes, specRoot } = config;
+  const relativeDir = specDirectory(slug, specRoot);
+  const versions: SpecVersion[] = [];
+  for (const source of [base, head]) {
+    const version = await readSpecVersion(source, slug, targetDir, specRoot);
+    if (!version) {
+      diagnostics.push(createDiagnostic("DIF001", {
+        message: `"${source}" is neither a directory nor a git revision`,
+        suggestedFix: "Give a git revision such as HEAD or main, or a spec folder such as specs/archive/<date>-<slug>"
+      }));
+    } else {
+      versions.push(version);
+    }
+  }
+  const [before, after] = versions;
+  if (!before || !after) {
+    return { valid: false, diagnostics, report: empty };
+  }
+
+  if (SPEC_FILES.every(name => after.contents[name] === undefined)) {
+    diagnostics.push(createDiagnostic("STR004", {
+      message: `No spec files of ${slug} in ${after.label}`,
+      suggestedFix: `Ensure the spec exists in ${relativeDir}/ at ${after.label}`,
+      file: relativeDir
+    }));
+  }
+  const report = diffSpecVersions(before, after, idPrefixes);
+
+  // Trace links broken by the change: problems of the new version that the old one does not have
+  const files = {
+    requirements: path.join(relativeDir, "requirements.md"),
+    design: path.join(relativeDir, "design.md"),
+    tasks: path.join(relativeDir, "tasks.md")
+  };
+  const traceability = (version: SpecVersion) => checkTraceability(
+    {
+      requirements: version.contents["requirements.md"] !== undefined ? parseRequirements(version.contents["requirements.md"], idPrefixes) : undefined,
+      design: version.contents["design.md"] !== undefined ? parseDesign(version.contents["design.md"], idPrefixes) : undefined,
+      tasks: version.contents["tasks.md"] !== undefined ? parseTasks(version.contents["tasks.md"], idPrefixes) : undefined
+    },
+    files,
+    idPrefixes
+  ).diagnostics;
+  const existing = new Set(traceability(before).map(diagnostic => `${diagnostic.code} ${diagnostic.message}`));
+  diagnostics.push(...traceability(after).filter(diagnostic => !existing.has(`${diagnostic.code} ${diagnostic.message}`)));
+
+  return { valid: !hasErrors(diagnostics), diagnostics, report };
+}
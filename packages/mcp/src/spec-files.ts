@@ -0,0 +1,50 @@
+/**
+ * Locating and reading the files of a spec folder.
+ */
+import fs from "fs/promises";
+import path from "path";
+
+export const SPEC_FILES = ["requirements.md", "design.md", "tasks.md"] as const;
+
+export type SpecFileName = typeof SPEC_FILES[number];
+
+export const DEFAULT_SPEC_ROOT = path.join("specs", "changes");
+
+/** Kebab-case spec slug, e.g. rate-limiter; it cannot name a parent or nested folder */
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Returns the spec folder path relative to the target directory, e.g. `specs/changes/<slug>`.
+ */
+export function specDirectory(slug: string, specRoot: string = DEFAULT_SPEC_ROOT): string {
+  return path.join(specRoot, slug);
+}
+
+/**
+ * Returns the archive and capabilities folders, siblings of the spec root
+ * (`specs/archive` and `specs/capabilities` by default).
+ */
+export function lifecycleDirectories(specRoot: string = DEFAULT_SPEC_ROOT): { archive: string; capabilities: string } {
+  const parent = path.dirname(specRoot);
+  return { archive: path.join(parent, "archive"), capabilities: path.join(parent, "capabilities") };
+}
+
+/**
+ * Reads the three spec files of a spec folder. Missing or unreadable files are
+ * returned as undefined.
+ */
+export async function readSpecFiles(
+  slug: string,
+  targetDir: string = process.cwd(),
+  specRoot: string = DEFAULT_SPEC_ROOT
+): Promise<Record<SpecFileName, string | undefined>> {
+  const specDir = path.join(targetDir, specDirectory(slug, specRoot));
+  const entries = await Promise.all(SPEC_FILES.map(async name => {
+    try {
+      return [name, await fs.readFile(path.join(specDir, name), "utf-8")] as const;
+    } catch {
+      return [name, undefined] as const;
+    }
+  }));
+  return Object.fromEntries(entries) as Record<SpecFileName, string | undefined>;
+}
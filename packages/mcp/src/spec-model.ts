@@ -0,0 +1,939 @@
+/**
+ * Parsed model of spec documents (requirements.md, design.md, tasks.md).
+ *
+ * The parser is line based and only understands the Markdown subset used by the
+ * spec-driven templates: ATX headings, fenced code blocks, lists (with checkbox
+ * markers) and pipe tables. Everything inside a fenced code block is treated as
+ * opaque content, so headings or IDs in examples never count as real structure.
+ */
+
+export interface SourcePosition {
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export interface MarkdownSection {
+  level: number;
+  title: string;
+  /** Line of the heading itself */
+  line: number;
+  /** Last line that belongs to the section (before the next heading of the same or higher level) */
+  endLine: number;
+  range: SourceRange;
+}
+
+export interface CodeBlock {
+  lang: string;
+  content: string;
+  /** Line of the opening fence */
+  line: number;
+  /** Line of the first content line */
+  contentLine: number;
+  range: SourceRange;
+}
+
+export interface ListItem {
+  /** "-", "*", "+" for bullets, the number for ordered items ("1", "2", ...) */
+  marker: string;
+  ordered: boolean;
+  /** Checkbox marker character (" ", "x", "~", ...) when the item starts with [.] */
+  checkbox?: string;
+  /** Item text without marker and checkbox, continuation lines joined with a space */
+  text: string;
+  indent: number;
+  line: number;
+  range: SourceRange;
+  /** Column (1-based) where the item text starts */
+  textColumn: number;
+  children: ListItem[];
+}
+
+export interface TableRow {
+  cells: string[];
+  line: number;
+}
+
+export interface MarkdownTable {
+  header: string[];
+  rows: TableRow[];
+  line: number;
+  range: SourceRange;
+}
+
+export interface MarkdownDocument {
+  lines: string[];
+  sections: MarkdownSection[];
+  codeBlocks: CodeBlock[];
+  /** Top-level list items; nested items are available through `children` */
+  lists: ListItem[];
+  tables: MarkdownTable[];
+  /** Non-blank lines outside of code blocks */
+  textLines: { line: number; text: string }[];
+}
+
+const FENCE_PATTERN = /^( {0,3})(`{3,}|~{3,})\s*([^\s`]*)/;
+const HEADING_PATTERN = /^( {0,3})(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const CHECKBOX_PATTERN = /^\[([^\]]?)\]\s*/;
+const TABLE_DELIMITER_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+function lineRange(line: number, startColumn: number, text: string): SourceRange {
+  return {
+    start: { line, column: startColumn },
+    end: { line, column: text.length + 1 }
+  };
+}
+
+function splitTableRow(text: string): string[] {
+  let row = text.trim();
+  if (row.startsWith("|")) row = row.slice(1);
+  if (row.endsWith("|") && !row.endsWith("\\|")) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, "|"));
+}
+
+/**
+ * Parses Markdown content into sections, code blocks, lists and tables with
+ * source positions.
+ */
+export function parseMarkdown(content: string): MarkdownDocument {
+  const lines = content.replace(/\r\n?/g, "\n").split("\n");
+  const sections: MarkdownSection[] = [];
+  const codeBlocks: CodeBlock[] = [];
+  const lists: ListItem[] = [];
+  const tables: MarkdownTable[] = [];
+  const textLines: { line: number; text: string }[] = [];
+
+  let fence: { marker: string; lang: string; line: number; body: string[]; indent: number } | null = null;
+  let listStack: ListItem[] = [];
+  let lastItem: ListItem | null = null;
+  let previousBlank = true;
+  let table: MarkdownTable | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const text = lines[i];
+    const lineNo = i + 1;
+
+    if (fence) {
+      const closing = text.match(/^ {0,3}(`{3,}|~{3,})\s*$/);
+      if (closing && closing[1][0] === fence.marker[0] && closing[1].length >= fence.marker.length) {
+        codeBlocks.push({
+          lang: fence.lang,
+          content: fence.body.join("\n"),
+          line: fence.line,
+          contentLine: fence.line + 1,
+          range: { start: { line: fence.line, column: fence.indent + 1 }, end: { line: lineNo, column: text.length + 1 } }
+        });
+        fence = null;
+      } else {
+        fence.body.push(text);
+      }
+      continue;
+    }
+
+    const fenceMatch = text.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      fence = { marker: fenceMatch[2], lang: fenceMatch[3].toLowerCase(), line: lineNo, body: [], indent: fenceMatch[1].length };
+      table = null;
+      lastItem = null;
+      previousBlank = false;
+      continue;
+    }
+
+    if (text.trim() === "") {
+      previousBlank = true;
+      table = null;
+      continue;
+    }
+
+    textLines.push({ line: lineNo, text });
+
+    const headingMatch = text.match(HEADING_PATTERN);
+    if (headingMatch) {
+      sections.push({
+        level: headingMatch[2].length,
+        title: headingMatch[3].trim(),
+        line: lineNo,
+        endLine: lineNo,
+        range: lineRange(lineNo, headingMatch[1].length + 1, text)
+      });
+      listStack = [];
+      lastItem = null;
+      table = null;
+      previousBlank = false;
+      continue;
+    }
+
+    if (text.trimStart().startsWith("|")) {
+      if (table) {
+        table.rows.push({ cells: splitTableRow(text), line: lineNo });
+        table.range.end = { line: lineNo, column: text.length + 1 };
+      } else if (i + 1 < lines.length && TABLE_DELIMITER_PATTERN.test(lines[i + 1]) && lines[i + 1].includes("-")) {
+        table = {
+          header: splitTableRow(text),
+          rows: [],
+          line: lineNo,
+          range: lineRange(lineNo, text.indexOf("|") + 1, text)
+        };
+        tables.push(table);
+        i++;
+        textLines.push({ line: lineNo + 1, text: lines[i] });
+      }
+      listStack = [];
+      lastItem = null;
+      previousBlank = false;
+      continue;
+    }
+
+    const itemMatch = text.match(LIST_ITEM_PATTERN);
+    if (itemMatch) {
+      const indent = itemMatch[1].length;
+      const rawMarker = itemMatch[2];
+      const ordered = /^\d/.test(rawMarker);
+      let itemText = itemMatch[3];
+      let textColumn = indent + rawMarker.length + (text.length - indent - rawMarker.length - itemMatch[3].length) + 1;
+      let checkbox: string | undefined;
+
+      const checkboxMatch = !ordered ? itemText.match(CHECKBOX_PATTERN) : null;
+      if (checkboxMatch) {
+        checkbox = checkboxMatch[1];
+        textColumn += checkboxMatch[0].length;
+        itemText = itemText.slice(checkboxMatch[0].length);
+      }
+
+      const item: ListItem = {
+        marker: ordered ? rawMarker.slice(0, -1) : rawMarker,
+        ordered,
+        checkbox,
+        text: itemText.trim(),
+        indent,
+        line: lineNo,
+        range: lineRange(lineNo, indent + 1, text),
+        textColumn,
+        children: []
+      };
+
+      while (listStack.length > 0 && listStack[listStack.length - 1].indent >= indent) {
+        listStack.pop();
+      }
+      if (listStack.length > 0) {
+        listStack[listStack.length - 1].children.push(item);
+      } else {
+        lists.push(item);
+      }
+      listStack.push(item);
+      lastItem = item;
+      previousBlank = false;
+      continue;
+    }
+
+    // Continuation line of a list item (lazy or indented)
+    const indent = text.length - text.trimStart().length;
+    if (lastItem && (!previousBlank || indent > lastItem.indent)) {
+      lastItem.text = `${lastItem.text} ${text.trim()}`.trim();
+      lastItem.range.end = { line: lineNo, column: text.length + 1 };
+    } else if (indent === 0) {
+      listStack = [];
+      lastItem = null;
+    }
+    previousBlank = false;
+  }
+
+  if (fence) {
+    // Unterminated fence: Markdown treats the rest of the document as code
+    codeBlocks.push({
+      lang: fence.lang,
+      content: fence.body.join("\n"),
+      line: fence.line,
+      contentLine: fence.line + 1,
+      range: { start: { line: fence.line, column: fence.indent + 1 }, end: { line: lines.length, column: lines[lines.length - 1].length + 1 } }
+    });
+  }
+
+  // Resolve section end lines
+  for (let s = 0; s < sections.length; s++) {
+    const next = sections.slice(s + 1).find(other => other.level <= sections[s].level);
+    sections[s].endLine = next ? next.line - 1 : lines.length;
+  }
+
+  return { lines, sections, codeBlocks, lists, tables, textLines };
+}
+
+/**
+ * Finds the first section whose title matches (case-insensitive, exact text or pattern).
+ */
+export function findSection(
+  doc: MarkdownDocument,
+  title: string | RegExp,
+  level?: number
+): MarkdownSection | undefined {
+  return doc.sections.find(section => {
+    if (level !== undefined && section.level !== level) return false;
+    return typeof title === "string"
+      ? section.title.toLowerCase() === title.toLowerCase()
+      : title.test(section.title);
+  });
+}
+
+/**
+ * Returns every list item (at any depth) located inside a line range.
+ */
+export function listItemsInRange(doc: MarkdownDocument, startLine: number, endLine: number): ListItem[] {
+  const result: ListItem[] = [];
+  const visit = (items: ListItem[]) => {
+    for (const item of items) {
+      if (item.line >= startLine && item.line <= endLine) {
+        result.push(item);
+      }
+      visit(item.children);
+    }
+  };
+  visit(doc.lists);
+  return result;
+}
+
+/**
+ * Returns the top-level list items (relative to the range) located inside a line range.
+ */
+export function topLevelItemsInRange(doc: MarkdownDocument, startLine: number, endLine: number): ListItem[] {
+  const result: ListItem[] = [];
+  const visit = (items: ListItem[]) => {
+    for (const item of items) {
+      if (item.line >= startLine && item.line <= endLine) {
+        result.push(item);
+      } else {
+        visit(item.children);
+      }
+    }
+  };
+  visit(doc.lists);
+  return result;
+}
+
+/** Prefixes of requirement (REQ-1.2) and design element (DES-1) IDs */
+export interface IdPrefixes {
+  requirement: string;
+  design: string;
+}
+
+export const DEFAULT_ID_PREFIXES: IdPrefixes = { requirement: "REQ", design: "DES" };
+
+interface IdPatterns {
+  requirementRef: RegExp;
+  wholeRequirementRef: RegExp;
+  designRef: RegExp;
+  requirementHeading: RegExp;
+  criterionLabel: RegExp;
+  designHeading: RegExp;
+  arrow: RegExp;
+}
+
+const idPatternCache = new Map<string, IdPatterns>();
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function idPatterns(prefixes: IdPrefixes): IdPatterns {
+  const key = `${prefixes.requirement} ${prefixes.design}`;
+  let patterns = idPatternCache.get(key);
+  if (!patterns) {
+    const req = escapeRegExp(prefixes.requirement);
+    const des = escapeRegExp(prefixes.design);
+    patterns = {
+      // IDs are often wrapped in emphasis (`_Implements: REQ-1.1_`), so "_" must not block a match
+      requirementRef: new RegExp(`\\b${req}-\\d+\\.\\d+(?![\\d.]*\\d)`, "g"),
+      wholeRequirementRef: new RegExp(`\\b${req}-\\d+(?![\\d.]*\\d)`, "g"),
+      designRef: new RegExp(`\\b${des}-\\d+(?![\\d.]*\\d)`, "g"),
+      requirementHeading: new RegExp(`^(?:Requirement\\s+|${req}-)(\\d+)\\b\\s*[:.\\-–—]?\\s*(.*)$`, "i"),
+      criterionLabel: new RegExp(`^(?:\\*\\*)?(?:${req}-)?(\\d+)\\.(\\d+)(?:\\*\\*)?[.:)]?(?:\\*\\*)?\\s+`),
+      designHeading: new RegExp(`^(?:\\*\\*)?${des}-(\\d+)\\b(?:\\*\\*)?\\s*[:.\\-–—]?\\s*(.*)$`),
+      arrow: new RegExp(`\\b(${des}-\\d+)\\b.*?(?:→|->)(.*)$`)
+    };
+    idPatternCache.set(key, patterns);
+  }
+  return patterns;
+}
+
+export function extractRequirementRefs(text: string, prefixes: IdPrefixes = DEFAULT_ID_PREFIXES): string[] {
+  return [...new Set(text.match(idPatterns(prefixes).requirementRef) || [])];
+}
+
+/** Returns references to whole requirements (REQ-1), not to their criteria */
+export function extractWholeRequirementRefs(text: string, prefixes: IdPrefixes = DEFAULT_ID_PREFIXES): string[] {
+  return [...new Set(text.match(idPatterns(prefixes).wholeRequirementRef) || [])];
+}
+
+export function extractDesignRefs(text: string, prefixes: IdPrefixes = DEFAULT_ID_PREFIXES): string[] {
+  return [...new Set(text.match(idPatterns(prefixes).designRef) || [])];
+}
+
+// ---------------------------------------------------------------------------
+// requirements.md
+// ---------------------------------------------------------------------------
+
+export interface AcceptanceCriterion {
+  /** Full ID, e.g. REQ-1.2 */
+  id: string;
+  /** Criterion number within the spec, e.g. "1.2" */
+  number: string;
+  requirementId: string;
+  /** Criterion text without numbering and pattern annotation */
+  text: string;
+  /** EARS pattern annotation, e.g. "Event-driven" from `_(Event-driven)_` */
+  annotation?: string;
+  /** Whether the criterion carries a number (ordered list marker or explicit 1.1 label) */
+  numbered: boolean;
+  line: number;
+  range: SourceRange;
+}
+
+export type RequirementDelta = "added" | "modified" | "removed";
+
+/** Level-2 sections of a change to an existing feature, relative to its baseline spec */
+export const DELTA_SECTIONS: Record<RequirementDelta, string> = {
+  added: "Added Requirements",
+  modified: "Modified Requirements",
+  removed: "Removed Requirements"
+};
+
+export interface Requirement {
+  /** e.g. REQ-1 */
+  id: string;
+  number: number;
+  title: string;
+  userStory?: string;
+  criteria: AcceptanceCriterion[];
+  /** Set when the requirement is listed in a delta section */
+  delta?: RequirementDelta;
+  line: number;
+  range: SourceRange;
+  section: MarkdownSection;
+}
+
+/** Row of the Glossary table */
+export interface GlossaryTerm {
+  term: string;
+  definition: string;
+  line: number;
+}
+
+export interface RequirementsModel {
+  document: MarkdownDocument;
+  requirements: Requirement[];
+  /** Rows of the first table of the Glossary section; undefined when the section is missing */
+  glossary?: GlossaryTerm[];
+  /** Baseline spec named by a `**Baseline:**` line: a capability name or a requirements.md path */
+  baseline?: { value: string; line: number };
+}
+
+const BASELINE_PATTERN = /^(?:\*\*Baseline:\*\*|\*\*Baseline\*\*:|_Baseline:|Baseline:)\s*`?([^`_*\s][^`]*?)`?_?\s*$/i;
+
+const ANNOTATION_PATTERN = /\s*[_*]\(\s*([A-Za-z][A-Za-z \-]*)\s*\)[_*]\s*\.?\s*$/;
+
+function parseCriterion(
+  item: ListItem,
+  requirementNumber: number,
+  requirementId: string,
+  prefixes: IdPrefixes
+): AcceptanceCriterion {
+  let text = item.text;
+  let number: string | undefined;
+
+  const label = text.match(idPatterns(prefixes).criterionLabel);
+  if (label) {
+    number = `${label[1]}.${label[2]}`;
+    text = text.slice(label[0].length);
+  } else if (item.ordered) {
+    number = `${requirementNumber}.${item.marker}`;
+  }
+
+  let annotation: string | undefined;
+  const annotationMatch = text.match(ANNOTATION_PATTERN);
+  if (annotationMatch) {
+    annotation = annotationMatch[1].trim();
+    text = text.slice(0, annotationMatch.index).trim();
+  }
+
+  return {
+    id: number ? `${prefixes.requirement}-${number}` : `${requirementId}.?`,
+    number: number || "",
+    requirementId,
+    text: text.trim(),
+    annotation,
+    numbered: number !== undefined,
+    line: item.line,
+    range: item.range
+  };
+}
+
+/**
+ * Parses requirements.md into requirements and their acceptance criteria.
+ */
+export function parseRequirements(content: string, prefixes: IdPrefixes = DEFAULT_ID_PREFIXES): RequirementsModel {
+  const document = parseMarkdown(content);
+  const requirements: Requirement[] = [];
+  const deltaSections = (Object.entries(DELTA_SECTIONS) as [RequirementDelta, string][])
+    .flatMap(([delta, title]) => {
+      const section = findSection(document, title, 2);
+      return section ? [{ delta, section }] : [];
+    });
+
+  for (const section of document.sections) {
+    if (section.level < 3) continue;
+    const headingMatch = section.title.match(idPatterns(prefixes).requirementHeading);
+    if (!headingMatch) continue;
+
+    const number = parseInt(headingMatch[1], 10);
+    const id = `${prefixes.requirement}-${number}`;
+
+    // Prefer the "Acceptance Criteria" subsection, fall back to ordered items of the whole section
+    const criteriaSection = document.sections.find(s =>
+      s.line > section.line && s.line <= section.endLine && /^acceptance criteria$/i.test(s.title)
+    );
+    const items = criteriaSection
+      ? topLevelItemsInRange(document, criteriaSection.line, criteriaSection.endLine)
+      : topLevelItemsInRange(document, section.line, section.endLine).filter(item => item.ordered);
+
+    const storyLine = document.textLines.find(l =>
+      l.line > section.line && l.line <= section.endLine && /\*\*User Story:?\*\*:?/i.test(l.text)
+    );
+
+    requirements.push({
+      id,
+      number,
+      title: headingMatch[2].trim(),
+      userStory: storyLine ? storyLine.text.replace(/^.*?\*\*User Story:?\*\*:?\s*/i, "").trim() : undefined,
+      criteria: items.map(item => parseCriterion(item, number, id, prefixes)),
+      delta: deltaSections.find(delta => section.line > delta.section.line && section.line <= delta.section.endLine)?.delta,
+      line: section.line,
+      range: section.range,
+      section
+    });
+  }
+
+  let baseline: RequirementsModel["baseline"];
+  for (const textLine of document.textLines) {
+    const match = textLine.text.trim().match(BASELINE_PATTERN);
+    if (match) {
+      baseline = { value: match[1].trim(), line: textLine.line };
+      break;
+    }
+  }
+
+  let glossary: GlossaryTerm[] | undefined;
+  const glossarySection = findSection(document, "Glossary", 2);
+  if (glossarySection) {
+    const table = document.tables.find(candidate => candidate.line > glossarySection.line && candidate.line <= glossarySection.endLine);
+    glossary = (table?.rows || [])
+      .map(row => ({ term: (row.cells[0] ?? "").replace(/[`*]/g, "").trim(), definition: (row.cells[1] ?? "").trim(), line: row.line }))
+      .filter(entry => entry.term);
+  }
+
+  return { document, requirements, glossary, baseline };
+}
+
+/**
+ * Returns all acceptance criteria IDs defined in a requirements model.
+ */
+export function criterionIds(model: RequirementsModel): string[] {
+  return model.requirements.flatMap(req => req.criteria.filter(c => c.numbered).map(c => c.id));
+}
+
+// ---------------------------------------------------------------------------
+// design.md
+// ---------------------------------------------------------------------------
+
+export interface DesignLink {
+  /** e.g. DES-1 */
+  from: string;
+  /** e.g. REQ-1.2 */
+  to: string;
+  line: number;
+}
+
+export interface DesignElement {
+  /** e.g. DES-1 */
+  id: string;
+  number: number;
+  title: string;
+  /** Requirement criteria referenced by `_Implements:_` lines or DES → REQ arrows */
+  implements: DesignLink[];
+  line: number;
+  range: SourceRange;
+  section: MarkdownSection;
+}
+
+/** Row of the Code Anatomy table */
+export interface CodeAnatomyEntry {
+  /** File or folder path as written, without backticks */
+  path: string;
+  purpose: string;
+  /** DES IDs of the Implements column */
+  implements: string[];
+  /** Marked as a file to create: `(new)`, `[new]`, `**new**` or a Status column saying "New" */
+  isNew: boolean;
+  line: number;
+}
+
+/** Row of the affected-area table of the Impact Analysis section */
+export interface ImpactEntry {
+  area: string;
+  level: string;
+  notes: string;
+  line: number;
+}
+
+export interface ImpactAnalysis {
+  line: number;
+  /** Rows of the tables directly below the section heading */
+  affected: ImpactEntry[];
+  /** Titles of the subsections that contain a table, e.g. "Risk Assessment" */
+  tables: string[];
+}
+
+export interface DesignModel {
+  document: MarkdownDocument;
+  elements: DesignElement[];
+  /** Every DES → REQ link found outside code blocks */
+  links: DesignLink[];
+  /** DES → REQ pairs listed in the Traceability Matrix table; undefined when the section is missing */
+  matrix?: DesignLink[];
+  mermaidBlocks: CodeBlock[];
+  /** Rows of the Code Anatomy tables; undefined when the section is missing */
+  codeAnatomy?: CodeAnatomyEntry[];
+  /** Undefined when the section is missing */
+  impactAnalysis?: ImpactAnalysis;
+  /** Every REQ-x.y mention outside code blocks */
+  requirementRefs: { id: string; line: number }[];
+}
+
+const NEW_MARKER_PATTERN = /\s*(?:\(\s*new\s*\)|\[\s*new\s*\]|\*\*new\*\*|_new_)\s*/i;
+const NEW_STATUS_PATTERN = /^\s*(?:new|create[sd]?|add(?:ed|s)?)\s*$/i;
+
+const IMPLEMENTS_PATTERN = /^\s*(?:[-*+]\s+)?[_*]{0,2}Implements:?[_*]{0,2}:?\s*(.*)$/i;
+
+/**
+ * Parses design.md into design elements, their requirement links and Mermaid blocks.
+ */
+export function parseDesign(content: string, prefixes: IdPrefixes = DEFAULT_ID_PREFIXES): DesignModel {
+  const document = parseMarkdown(content);
+  const elements: DesignElement[] = [];
+  const links: DesignLink[] = [];
+  const requirementRefs: { id: string; line: number }[] = [];
+
+  for (const section of document.sections) {
+    const headingMatch = section.title.match(idPatterns(prefixes).designHeading);
+    if (!headingMatch) continue;
+    elements.push({
+      id: `${prefixes.design}-${headingMatch[1]}`,
+      number: parseInt(headingMatch[1], 10),
+      title: headingMatch[2].trim(),
+      implements: [],
+      line: section.line,
+      range: section.range,
+      section
+    });
+  }
+
+  const elementAt = (line: number): DesignElement | undefined =>
+    elements.find(el => line > el.section.line && line <= el.section.endLine);
+
+  for (const { line, text } of document.textLines) {
+    for (const id of extractRequirementRefs(text, prefixes)) {
+      requirementRefs.push({ id, line });
+    }
+
+    const arrow = text.match(idPatterns(prefixes).arrow);
+    if (arrow) {
+      for (const to of extractRequirementRefs(arrow[2], prefixes)) {
+        links.push({ from: arrow[1], to, line });
+      }
+      continue;
+    }
+
+    const implementsMatch = text.match(IMPLEMENTS_PATTERN);
+    const owner = elementAt(line);
+    if (implementsMatch && owner) {
+      for (const to of extractRequirementRefs(implementsMatch[1], prefixes)) {
+        links.push({ from: owner.id, to, line });
+      }
+    }
+  }
+
+  for (const element of elements) {
+    element.implements = links.filter(link => link.from === element.id);
+  }
+
+  // Matrix rows may list either DES → REQ or REQ → DES, so pair every ID in a row
+  let matrix: DesignLink[] | undefined;
+  const matrixSection = findSection(document, "Traceability Matrix");
+  if (matrixSection) {
+    matrix = [];
+    const tables = document.tables.filter(table =>
+      table.line > matrixSection.line && table.line <= matrixSection.endLine
+    );
+    for (const row of tables.flatMap(table => table.rows)) {
+      const text = row.cells.join(" ");
+      for (const from of extractDesignRefs(text, prefixes)) {
+        for (const to of extractRequirementRefs(text, prefixes)) {
+          matrix.push({ from, to, line: row.line });
+        }
+      }
+    }
+  }
+
+  // The path column is the one titled File/Path, or the first one
+  let codeAnatomy: CodeAnatomyEntry[] | undefined;
+  const anatomySection = findSection(document, "Code Anatomy");
+  if (anatomySection) {
+    codeAnatomy = [];
+    const tables = document.tables.filter(table =>
+      table.line > anatomySection.line && table.line <= anatomySection.endLine
+    );
+    for (const table of tables) {
+      const column = (pattern: RegExp) => table.header.findIndex(title => pattern.test(title));
+      const pathColumn = Math.max(column(/file|path/i), 0);
+      const purposeColumn = column(/purpose|description|responsibilit/i);
+      const implementsColumn = column(/implements/i);
+      const statusColumn = column(/status|change|action/i);
+      for (const row of table.rows) {
+        const filePath = (row.cells[pathColumn] ?? "").replace(NEW_MARKER_PATTERN, "").replace(/`/g, "").trim();
+        if (!filePath) continue;
+        codeAnatomy.push({
+          path: filePath,
+          purpose: purposeColumn >= 0 ? row.cells[purposeColumn] ?? "" : "",
+          implements: extractDesignRefs(implementsColumn >= 0 ? row.cells[implementsColumn] ?? "" : row.cells.join(" "), prefixes),
+          isNew: row.cells.some(cell => NEW_MARKER_PATTERN.test(cell))
+            || (statusColumn >= 0 && NEW_STATUS_PATTERN.test(row.cells[statusColumn] ?? "")),
+          line: row.line
+        });
+      }
+    }
+  }
+
+  // Tables of the subsections (Breaking Changes, Risk Assessment, ...) are listed by title
+  let impactAnalysis: ImpactAnalysis | undefined;
+  const impactSection = findSection(document, "Impact Analysis");
+  if (impactSection) {
+    const subsections = document.sections.filter(section =>
+      section.line > impactSection.line && section.line <= impactSection.endLine && section.level > impactSection.level
+    );
+    const tables = document.tables.filter(table => table.line > impactSection.line && table.line <= impactSection.endLine);
+    const direct = tables.filter(table => !subsections.some(section => table.line > section.line && table.line <= section.endLine));
+    impactAnalysis = {
+      line: impactSection.line,
+      affected: direct.flatMap(table => {
+        const column = (pattern: RegExp) => table.header.findIndex(title => pattern.test(title));
+        const areaColumn = Math.max(column(/area|file|path|component/i), 0);
+        const levelColumn = column(/impact|level/i);
+        const notesColumn = column(/notes|description/i);
+        return table.rows.map(row => ({
+          area: (row.cells[areaColumn] ?? "").replace(/`/g, "").trim(),
+          level: levelColumn >= 0 ? row.cells[levelColumn] ?? "" : "",
+          notes: notesColumn >= 0 ? row.cells[notesColumn] ?? "" : "",
+          line: row.line
+        }));
+      }).filter(entry => entry.area),
+      tables: subsections
+        .filter(section => tables.some(table => table.line > section.line && table.line <= section.endLine))
+        .map(section => section.title)
+    };
+  }
+
+  return {
+    document,
+    elements,
+    links,
+    matrix,
+    codeAnatomy,
+    impactAnalysis,
+    mermaidBlocks: document.codeBlocks.filter(block => block.lang === "mermaid"),
+    requirementRefs
+  };
+}
+
+// ---------------------------------------------------------------------------
+// tasks.md
+// ---------------------------------------------------------------------------
+
+export interface Task {
+  /** Hierarchical ID, e.g. "1.2" */
+  id: string;
+  /** Raw checkbox marker: " " pending, "~" in progress, "x" done */
+  status: string;
+  title: string;
+  /** Sub-bullet texts that are not subtasks */
+  details: string[];
+  /** REQ/DES IDs from `_Implements:_` markers */
+  implements: string[];
+  /** Whether the task has an `_Implements:_` marker referring to all requirements */
+  implementsAll: boolean;
+  hasImplementsMarker: boolean;
+  /** Task IDs from `_Depends:_` markers */
+  depends: string[];
+  subtasks: Task[];
+  parentId?: string;
+  phase?: number;
+  line: number;
+  range: SourceRange;
+}
+
+export interface Phase {
+  number: number;
+  title: string;
+  isFinalCheckpoint: boolean;
+  /** Top-level tasks of the phase (subtasks are nested) */
+  tasks: Task[];
+  line: number;
+  range: SourceRange;
+  section: MarkdownSection;
+}
+
+/** Checkbox item that does not follow the `- [ ] N.M Title` format */
+export interface MalformedTaskItem {
+  checkbox: string;
+  text: string;
+  line: number;
+  range: SourceRange;
+}
+
+export interface TasksModel {
+  document: MarkdownDocument;
+  phases: Phase[];
+  /** All tasks (including subtasks) in document order */
+  tasks: Task[];
+  malformed: MalformedTaskItem[];
+}
+
+const PHASE_HEADING_PATTERN = /^Phase\s+(\d+)\s*[:.\-–—]\s*(.*)$/i;
+const TASK_TEXT_PATTERN = /^(?:\*\*)?(\d+(?:\.\d+)+)\.?(?:\*\*)?\s+(.*)$/;
+const DEPENDS_PATTERN = /^[_*]{0,2}Depends(?:\s+on)?:?[_*]{0,2}:?\s*(.*)$/i;
+
+function parseTaskItem(
+  item: ListItem,
+  malformed: MalformedTaskItem[],
+  prefixes: IdPrefixes,
+  phase?: number,
+  parentId?: string
+): Task | null {
+  const match = item.text.match(TASK_TEXT_PATTERN);
+  if (!match) {
+    malformed.push({ checkbox: item.checkbox ?? "", text: item.text, line: item.line, range: item.range });
+    return null;
+  }
+
+  const task: Task = {
+    id: match[1],
+    status: item.checkbox ?? "",
+    title: match[2].trim(),
+    details: [],
+    implements: [],
+    implementsAll: false,
+    hasImplementsMarker: false,
+    depends: [],
+    subtasks: [],
+    parentId,
+    phase,
+    line: item.line,
+    range: item.range
+  };
+
+  const inspect = (text: string) => {
+    const implementsMatch = text.match(IMPLEMENTS_PATTERN);
+    if (implementsMatch) {
+      task.hasImplementsMarker = true;
+      task.implements.push(
+        ...extractDesignRefs(implementsMatch[1], prefixes),
+        ...extractRequirementRefs(implementsMatch[1], prefixes)
+      );
+      if (/\ball\b/i.test(implementsMatch[1])) task.implementsAll = true;
+      return true;
+    }
+    const dependsMatch = text.match(DEPENDS_PATTERN);
+    if (dependsMatch) {
+      task.depends.push(...(dependsMatch[1].match(/\d+(?:\.\d+)+/g) || []));
+      return true;
+    }
+    return false;
+  };
+
+  // Inline markers on the task line itself
+  const inlineImplements = task.title.match(/_Implements:[^_]*_/i);
+  if (inlineImplements) {
+    inspect(inlineImplements[0]);
+    task.title = task.title.replace(inlineImplements[0], "").trim();
+  }
+
+  for (const child of item.children) {
+    if (child.checkbox !== undefined) {
+      const subtask = parseTaskItem(child, malformed, prefixes, phase, task.id);
+      if (subtask) task.subtasks.push(subtask);
+      continue;
+    }
+    if (!inspect(child.text)) {
+      task.details.push(child.text);
+    }
+  }
+
+  task.implements = [...new Set(task.implements)];
+  return task;
+}
+
+function flattenTasks(tasks: Task[]): Task[] {
+  return tasks.flatMap(task => [task, ...flattenTasks(task.subtasks)]);
+}
+
+/**
+ * Parses tasks.md into phases, tasks (with sub-bullets and subtasks) and markers.
+ */
+export function parseTasks(content: string, prefixes: IdPrefixes = DEFAULT_ID_PREFIXES): TasksModel {
+  const document = parseMarkdown(content);
+  const phases: Phase[] = [];
+  const malformed: MalformedTaskItem[] = [];
+  const topLevel: Task[] = [];
+
+  for (const section of document.sections) {
+    const match = section.title.match(PHASE_HEADING_PATTERN);
+    if (!match || section.level > 3) continue;
+    phases.push({
+      number: parseInt(match[1], 10),
+      title: match[2].trim(),
+      isFinalCheckpoint: /final checkpoint/i.test(match[2]),
+      tasks: [],
+      line: section.line,
+      range: section.range,
+      section
+    });
+  }
+
+  const phaseAt = (line: number): Phase | undefined =>
+    phases.find(phase => line > phase.section.line && line <= phase.section.endLine);
+
+  const visit = (items: ListItem[]) => {
+    for (const item of items) {
+      if (item.checkbox === undefined) {
+        visit(item.children);
+        continue;
+      }
+      const phase = phaseAt(item.line);
+      const task = parseTaskItem(item, malformed, prefixes, phase?.number);
+      if (task) {
+        topLevel.push(task);
+        phase?.tasks.push(task);
+      }
+    }
+  };
+  visit(document.lists);
+
+  return { document, phases, tasks: flattenTasks(topLevel), malformed };
+}
+
+/** Checkbox markers allowed in tasks.md */
+export const TASK_STATUS_MARKERS = [" ", "~", "x", "X"];
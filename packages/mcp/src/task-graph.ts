@@ -0,0 +1,222 @@
+/**
+ * Task dependency graph built from the `_Depends:_` markers of tasks.md.
+ *
+ * Subtasks inherit the dependencies of their parent tasks, and the tasks of the
+ * Final Checkpoint phase wait for every other task.
+ */
+import path from "path";
+import { DEFAULT_CONFIG, type SpecDrivenConfig } from "./config.js";
+import { createDiagnostic, hasErrors, withFile, type Diagnostic } from "./diagnostics.js";
+import { readSpecFiles, specDirectory } from "./spec-files.js";
+import { parseTasks, type Task, type TasksModel } from "./spec-model.js";
+
+export interface TaskSummary {
+  id: string;
+  title: string;
+  status: string;
+  phase?: number;
+  implements: string[];
+  depends: string[];
+  line: number;
+}
+
+export interface TaskGraph {
+  /** First task declared with each ID */
+  tasks: Map<string, Task>;
+  /** Task ID → IDs of the known tasks it depends on (explicit and inherited) */
+  dependencies: Map<string, string[]>;
+  /** Every dependency cycle, as the task IDs along the cycle with the first ID repeated at the end */
+  cycles: string[][];
+}
+
+export function isTaskDone(task: Task): boolean {
+  return task.status.toLowerCase() === "x";
+}
+
+export function summarizeTask(task: Task): TaskSummary {
+  return {
+    id: task.id,
+    title: task.title,
+    status: task.status,
+    phase: task.phase,
+    implements: task.implements,
+    depends: task.depends,
+    line: task.line
+  };
+}
+
+function findCycles(ids: string[], dependencies: Map<string, string[]>): string[][] {
+  const cycles: string[][] = [];
+  const reported = new Set<string>();
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+
+  const visit = (id: string) => {
+    state.set(id, "visiting");
+    stack.push(id);
+    for (const dependency of dependencies.get(id) || []) {
+      if (state.get(dependency) === "visiting") {
+        const cycle = stack.slice(stack.indexOf(dependency));
+        const key = [...cycle].sort().join(" ");
+        if (!reported.has(key)) {
+          reported.add(key);
+          cycles.push([...cycle, dependency]);
+        }
+      } else if (!state.has(dependency)) {
+        visit(dependency);
+      }
+    }
+    stack.pop();
+    state.set(id, "done");
+  };
+
+  for (const id of ids) {
+    if (!state.has(id)) visit(id);
+  }
+  return cycles;
+}
+
+/**
+ * Builds the dependency graph of a tasks model. Dependencies on unknown task IDs are left out.
+ */
+export function buildTaskGraph(model: TasksModel): TaskGraph {
+  const tasks = new Map<string, Task>();
+  for (const task of model.tasks) {
+    if (!tasks.has(task.id)) tasks.set(task.id, task);
+  }
+
+  const dependencies = new Map<string, string[]>();
+  const ownDependencies = (task: Task): string[] => {
+    const parent = task.parentId ? tasks.get(task.parentId) : undefined;
+    return [...task.depends, ...(parent ? ownDependencies(parent) : [])];
+  };
+  for (const [id, task] of tasks) {
+    dependencies.set(id, [...new Set(ownDependencies(task))].filter(dependency => tasks.has(dependency)));
+  }
+
+  return { tasks, dependencies, cycles: findCycles([...tasks.keys()], dependencies) };
+}
+
+/**
+ * Validates the `_Depends:_` markers: unknown task IDs, cycles, dependencies on
+ * later phases and completed tasks whose dependencies are not completed.
+ */
+export function checkTaskDependencies(model: TasksModel): { graph: TaskGraph; diagnostics: Diagnostic[] } {
+  const diagnostics: Diagnostic[] = [];
+  const graph = buildTaskGraph(model);
+
+  for (const task of model.tasks) {
+    for (const dependencyId of task.depends) {
+      const dependency = graph.tasks.get(dependencyId);
+      if (!dependency) {
+        diagnostics.push(createDiagnostic("TSK011", {
+          message: `Task ${task.id} depends on non-existent task ${dependencyId}`,
+          suggestedFix: "Fix the _Depends:_ marker to reference an existing task ID",
+          range: task.range
+        }));
+        continue;
+      }
+      if (task.phase !== undefined && dependency.phase !== undefined && dependency.phase > task.phase) {
+        diagnostics.push(createDiagnostic("TSK013", {
+          message: `Task ${task.id} (Phase ${task.phase}) depends on task ${dependencyId} in later Phase ${dependency.phase}`,
+          suggestedFix: `Move task ${task.id} to Phase ${dependency.phase} or later, or reorder the phases`,
+          range: task.range
+        }));
+      }
+      if (isTaskDone(task) && !isTaskDone(dependency)) {
+        diagnostics.push(createDiagnostic("TSK014", {
+          message: `Task ${task.id} is completed but its dependency ${dependencyId} is not`,
+          suggestedFix: `Complete task ${dependencyId} or reset task ${task.id} to [ ]`,
+          range: task.range
+        }));
+      }
+    }
+  }
+
+  for (const cycle of graph.cycles) {
+    const first = graph.tasks.get(cycle[0]);
+    diagnostics.push(createDiagnostic("TSK012", {
+      message: `Circular task dependency: ${cycle.join(" → ")}`,
+      suggestedFix: "Remove one of the _Depends:_ markers so the tasks can be ordered",
+      range: first?.range
+    }));
+  }
+
+  return { graph, diagnostics };
+}
+
+/**
+ * Orders tasks so that every task comes after its dependencies, keeping document
+ * order between independent tasks. Tasks on a dependency cycle are left out.
+ */
+export function orderTasks(graph: TaskGraph): Task[] {
+  const ordered: Task[] = [];
+  const placed = new Set<string>();
+  let remaining = [...graph.tasks.values()];
+
+  while (remaining.length > 0) {
+    const ready = remaining.find(task => (graph.dependencies.get(task.id) || []).every(id => placed.has(id)));
+    if (!ready) break;
+    ordered.push(ready);
+    placed.add(ready.id);
+    remaining = remaining.filter(task => task !== ready);
+  }
+
+  return ordered;
+}
+
+/**
+ * Tool: get_next_task
+ * Returns the tasks that can be worked on next, in dependency order
+ */
+export async function getNextTask(
+  slug: string,
+  targetDir: string = process.cwd(),
+  limit: number = 1,
+  config: SpecDrivenConfig = DEFAULT_CONFIG
+): Promise<{
+  valid: boolean;
+  diagnostics: Diagnostic[];
+  inProgress: TaskSummary[];
+  nextTasks: TaskSummary[];
+  remaining: number;
+}> {
+  const file = path.join(specDirectory(slug, config.specRoot), "tasks.md");
+  const content = (await readSpecFiles(slug, targetDir, config.specRoot))["tasks.md"];
+  if (content === undefined) {
+    const diagnostics = [createDiagnostic("STR004", {
+      message: "Cannot read tasks.md",
+      suggestedFix: `Ensure file exists in ${path.dirname(file)}/ directory`,
+      file
+    })];
+    return { valid: false, diagnostics, inProgress: [], nextTasks: [], remaining: 0 };
+  }
+
+  const model = parseTasks(content, config.idPrefixes);
+  const { graph, diagnostics } = checkTaskDependencies(model);
+
+  // Parent tasks are completed through their subtasks, so only leaf tasks are actionable
+  const isPending = (task: Task) => task.subtasks.length === 0 && !isTaskDone(task);
+  const pending = [...graph.tasks.values()].filter(isPending);
+  const finalPhases = new Set(model.phases.filter(phase => phase.isFinalCheckpoint).map(phase => phase.number));
+  const isFinal = (task: Task) => task.phase !== undefined && finalPhases.has(task.phase);
+
+  const isDone = (id: string) => {
+    const task = graph.tasks.get(id);
+    return task !== undefined && isTaskDone(task);
+  };
+  const isReady = (task: Task) =>
+    (graph.dependencies.get(task.id) || []).every(isDone) &&
+    (!isFinal(task) || pending.every(other => other === task || isFinal(other)));
+
+  return {
+    valid: !hasErrors(diagnostics),
+    diagnostics: withFile(diagnostics, file),
+    inProgress: pending.filter(task => task.status === "~").map(summarizeTask),
+    nextTasks: orderTasks(graph)
+      .filter(task => isPending(task) && task.status !== "~" && isReady(task))
+      .slice(0, Math.max(limit, 1))
+      .map(summarizeTask),
+    remaining: pending.length
+  };
+}
@@ -0,0 +1,236 @@
+/**
+ * Task progress of a spec: completion roll-up and checkbox status updates in tasks.md.
+ */
+import fs from "fs/promises";
+import path from "path";
+import { DEFAULT_CONFIG, type SpecDrivenConfig } from "./config.js";
+import { createDiagnostic, hasErrors, type Diagnostic } from "./diagnostics.js";
+import { specDirectory } from "./spec-files.js";
+import { parseTasks, type Task } from "./spec-model.js";
+import { buildTaskGraph, isTaskDone, summarizeTask, type TaskSummary } from "./task-graph.js";
+import { verifyTasksFile } from "./validators.js";
+import { checkSlug } from "./workspace.js";
+
+/** Checkbox marker of each task status */
+export const TASK_STATUSES = {
+  pending: " ",
+  "in-progress": "~",
+  done: "x"
+} as const;
+
+export type TaskStatus = keyof typeof TASK_STATUSES;
+
+export interface ProgressCounts {
+  total: number;
+  done: number;
+  inProgress: number;
+  pending: number;
+  /** Completed share of the tasks, 0-100 */
+  percent: number;
+}
+
+export interface PhaseProgress extends ProgressCounts {
+  number: number;
+  title: string;
+  isFinalCheckpoint: boolean;
+}
+
+const CHECKBOX_LINE_PATTERN = /^(\s*(?:[-*+]|\d+[.)])\s+\[)([^\]]?)(\])/;
+
+export function taskStatusOf(task: Task): TaskStatus | undefined {
+  if (isTaskDone(task)) return "done";
+  if (task.status === "~") return "in-progress";
+  if (task.status === " ") return "pending";
+  return undefined;
+}
+
+// Parent tasks are completed through their subtasks, so only leaf tasks are counted
+function countProgress(tasks: Task[]): ProgressCounts {
+  const leaves = tasks.filter(task => task.subtasks.length === 0);
+  const done = leaves.filter(isTaskDone).length;
+  const inProgress = leaves.filter(task => task.status === "~").length;
+  return {
+    total: leaves.length,
+    done,
+    inProgress,
+    pending: leaves.length - done - inProgress,
+    percent: leaves.length > 0 ? Math.round((done / leaves.length) * 100) : 0
+  };
+}
+
+async function readTasks(
+  slug: string,
+  targetDir: string,
+  specRoot: string
+): Promise<{ file: string; content?: string; diagnostics: Diagnostic[] }> {
+  const file = path.join(specDirectory(slug, specRoot), "tasks.md");
+  const diagnostics = checkSlug(slug);
+  if (diagnostics.length > 0) return { file, diagnostics };
+  try {
+    return { file, content: await fs.readFile(path.join(targetDir, file), "utf-8"), diagnostics: [] };
+  } catch {
+    return {
+      file,
+      diagnostics: [createDiagnostic("STR004", {
+        message: "Cannot read tasks.md",
+        suggestedFix: `Ensure file exists in ${path.dirname(file)}/ directory`,
+        file
+      })]
+    };
+  }
+}
+
+/**
+ * Tool: get_spec_status
+ * Reports per-phase and overall task completion of a spec
+ */
+export async function getSpecStatus(
+  slug: string,
+  targetDir: string = process.cwd(),
+  config: SpecDrivenConfig = DEFAULT_CONFIG
+): Promise<{
+  valid: boolean;
+  diagnostics: Diagnostic[];
+  overall: ProgressCounts;
+  phases: PhaseProgress[];
+  inProgress: TaskSummary[];
+  readyToComplete: TaskSummary[];
+}> {
+  const { file, content, diagnostics } = await readTasks(slug, targetDir, config.specRoot);
+  if (content === undefined) {
+    return { valid: false, diagnostics, overall: countProgress([]), phases: [], inProgress: [], readyToComplete: [] };
+  }
+
+  const model = parseTasks(content, config.idPrefixes);
+  diagnostics.push(...verifyTasksFile(content, undefined, file, config).diagnostics);
+
+  return {
+    valid: !hasErrors(diagnostics),
+    diagnostics,
+    overall: countProgress(model.tasks),
+    phases: model.phases.map(phase => ({
+      number: phase.number,
+      title: phase.title,
+      isFinalCheckpoint: phase.isFinalCheckpoint,
+      ...countProgress(model.tasks.filter(task => task.phase === phase.number))
+    })),
+    inProgress: model.tasks.filter(task => task.status === "~").map(summarizeTask),
+    readyToComplete: model.tasks
+      .filter(task => task.subtasks.length > 0 && !isTaskDone(task) && task.subtasks.every(isTaskDone))
+      .map(summarizeTask)
+  };
+}
+
+/**
+ * Returns why a status change is not allowed, or undefined when it is.
+ */
+function transitionProblem(task: Task, from: TaskStatus, to: TaskStatus, dependents: Task[], dependencies: Task[]): string | undefined {
+  const incomplete = dependencies.filter(dependency => !isTaskDone(dependency)).map(dependency => dependency.id);
+
+  if (to !== "pending" && incomplete.length > 0) {
+    return `dependencies ${incomplete.join(", ")} are not completed`;
+  }
+  if (to === "done" && task.subtasks.length > 0) {
+    const open = task.subtasks.filter(subtask => !isTaskDone(subtask)).map(subtask => subtask.id);
+    if (open.length > 0) return `subtasks ${open.join(", ")} are not completed`;
+  }
+  if (to === "done" && from === "pending" && task.subtasks.length === 0) {
+    return "it has not been started; mark it in-progress first";
+  }
+  if (from === "done" && to !== "done") {
+    const completedDependents = dependents.filter(isTaskDone).map(dependent => dependent.id);
+    if (completedDependents.length > 0) {
+      return `completed tasks ${completedDependents.join(", ")} depend on it`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Tool: update_task_status
+ * Changes the checkbox of a single task in tasks.md and re-validates the file
+ */
+export async function updateTaskStatus(
+  slug: string,
+  taskId: string,
+  status: TaskStatus,
+  targetDir: string = process.cwd(),
+  config: SpecDrivenConfig = DEFAULT_CONFIG
+): Promise<{
+  valid: boolean;
+  updated: boolean;
+  taskId: string;
+  previousStatus?: TaskStatus;
+  status?: TaskStatus;
+  diagnostics: Diagnostic[];
+}> {
+  const { file, content, diagnostics } = await readTasks(slug, targetDir, config.specRoot);
+  if (content === undefined) {
+    return { valid: false, updated: false, taskId, diagnostics };
+  }
+
+  const model = parseTasks(content, config.idPrefixes);
+  const graph = buildTaskGraph(model);
+  const task = graph.tasks.get(taskId);
+  if (!task) {
+    diagnostics.push(createDiagnostic("TSK016", {
+      message: `Task ${taskId} not found`,
+      suggestedFix: "Use a task ID from tasks.md, e.g. 1.1",
+      file
+    }));
+    return { valid: false, updated: false, taskId, diagnostics };
+  }
+
+  const previousStatus = taskStatusOf(task);
+  if (!(status in TASK_STATUSES) || previousStatus === undefined) {
+    diagnostics.push(createDiagnostic("TSK015", {
+      message: previousStatus === undefined
+        ? `Task ${taskId} has invalid status marker [${task.status}]`
+        : `Unknown task status "${status}"`,
+      suggestedFix: `Use one of: ${Object.keys(TASK_STATUSES).join(", ")}`,
+      range: task.range,
+      file
+    }));
+    return { valid: false, updated: false, taskId, previousStatus, diagnostics };
+  }
+
+  if (previousStatus === status) {
+    return { valid: true, updated: false, taskId, previousStatus, status, diagnostics };
+  }
+
+  // Final Checkpoint tasks wait for every other task, as in get_next_task
+  const finalPhases = new Set(model.phases.filter(phase => phase.isFinalCheckpoint).map(phase => phase.number));
+  const isFinal = (other: Task) => other.phase !== undefined && finalPhases.has(other.phase);
+  // A task can be both an explicit dependency and a leaf task before the checkpoint
+  const dependencies = [...new Map([
+    ...(graph.dependencies.get(taskId) || []).flatMap(id => graph.tasks.get(id) ?? []),
+    ...(isFinal(task) ? model.tasks.filter(other => !isFinal(other) && other.subtasks.length === 0) : [])
+  ].map(other => [other.id, other])).values()];
+  const dependents = [...graph.tasks.values()].filter(other => (graph.dependencies.get(other.id) || []).includes(taskId));
+  const problem = transitionProblem(task, previousStatus, status, dependents, dependencies);
+  if (problem) {
+    diagnostics.push(createDiagnostic("TSK015", {
+      message: `Cannot change task ${taskId} from ${previousStatus} to ${status}: ${problem}`,
+      suggestedFix: "Update the blocking tasks first",
+      range: task.range,
+      file
+    }));
+    return { valid: false, updated: false, taskId, previousStatus, status, diagnostics };
+  }
+
+  // Rewrite only the checkbox marker of the task line
+  const lines = content.split("\n");
+  lines[task.line - 1] = lines[task.line - 1].replace(CHECKBOX_LINE_PATTERN, `$1${TASK_STATUSES[status]}$3`);
+  const updatedContent = lines.join("\n");
+  await fs.writeFile(path.join(targetDir, file), updatedContent, "utf-8");
+
+  diagnostics.push(...verifyTasksFile(updatedContent, undefined, file, config).diagnostics);
+  return {
+    valid: !hasErrors(diagnostics),
+    updated: true,
+    taskId,
+    previousStatus,
+    status,
+    diagnostics
+  };
+}
@@ -0,0 +1,390 @@
+/**
+ * Test results of the Final Checkpoint: JUnit XML and TAP reports mapped to
+ * acceptance criteria.
+ *
+ * A test case verifies the REQ-x.y criteria named in its title, its class name or
+ * the titles of its enclosing suites. A criterion fails when one of its tests fails,
+ * passes when at least one test passes, and is untested otherwise (skipped tests do
+ * not count). With `annotate`, the requirement lines of the Final Checkpoint tasks in
+ * tasks.md get a `_Verified:_` marker and each task a `_Test results:_` line.
+ */
+import fs from "fs/promises";
+import path from "path";
+import { DEFAULT_CONFIG, type SpecDrivenConfig } from "./config.js";
+import { createDiagnostic, hasErrors, type Diagnostic } from "./diagnostics.js";
+import { readSpecFiles, specDirectory } from "./spec-files.js";
+import {
+  extractRequirementRefs,
+  listItemsInRange,
+  parseRequirements,
+  parseTasks,
+  type IdPrefixes,
+  type TasksModel
+} from "./spec-model.js";
+import { verifyTasksFile } from "./validators.js";
+
+export type TestReportFormat = "junit" | "tap";
+
+export type TestCaseStatus = "passed" | "failed" | "skipped";
+
+export type VerificationStatus = "passed" | "failed" | "untested";
+
+export interface TestCaseResult {
+  /** Test title, prefixed with its suites and class name */
+  name: string;
+  status: TestCaseStatus;
+  /** Report file the test case comes from */
+  report: string;
+  /** Criteria of the spec named by the test */
+  criteria: string[];
+}
+
+export interface CriterionVerification {
+  criterion: string;
+  requirement: string;
+  status: VerificationStatus;
+  tests: string[];
+}
+
+export interface RequirementVerification {
+  requirement: string;
+  title: string;
+  /** Failed when a criterion failed, passed when every criterion passed, untested otherwise */
+  status: VerificationStatus;
+  passed: string[];
+  failed: string[];
+  untested: string[];
+}
+
+export interface TestVerificationReport {
+  requirements: RequirementVerification[];
+  criteria: CriterionVerification[];
+  testCases: TestCaseResult[];
+  totals: Record<VerificationStatus, number>;
+}
+
+const XML_ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: "\"", apos: "'" };
+const XML_TAG_PATTERN = /<(\/?)([A-Za-z_][\w:.-]*)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+const XML_ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const TAP_RESULT_PATTERN = /^(\s*)(not\s+)?ok\b\s*(?:\d+)?\s*(?:-\s*)?(.*?)(?:\s+#\s*(skip|todo)\b.*)?$/i;
+const TAP_SUBTEST_PATTERN = /^(\s*)#\s*Subtest:\s*(.*)$/i;
+const VERIFIED_SUFFIX_PATTERN = /\s+—\s+_Verified:[^_]*_\s*$/;
+const TEST_RESULTS_PATTERN = /^\s*[-*+]\s+_Test results:/i;
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name.startsWith("#x") || name.startsWith("#X")) return String.fromCodePoint(parseInt(name.slice(2), 16));
+    if (name.startsWith("#")) return String.fromCodePoint(parseInt(name.slice(1), 10));
+    return XML_ENTITIES[name] ?? entity;
+  });
+}
+
+function xmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(XML_ATTRIBUTE_PATTERN)) {
+    attributes[match[1]] = decodeXml(match[2] ?? match[3] ?? "");
+  }
+  return attributes;
+}
+
+/**
+ * Parses the `<testcase>` elements of a JUnit XML report, including nested suites.
+ */
+export function parseJUnitXml(content: string): { name: string; status: TestCaseStatus }[] {
+  const xml = content.replace(/<!--[\s\S]*?-->/g, "").replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, "");
+  const cases: { name: string; status: TestCaseStatus }[] = [];
+  const suites: string[] = [];
+  let current: { name: string; status: TestCaseStatus } | undefined;
+
+  for (const match of xml.matchAll(XML_TAG_PATTERN)) {
+    const [, closing, tag, attributeSource, selfClosing] = match;
+    if (tag === "testsuite") {
+      if (closing) suites.pop();
+      else if (!selfClosing) suites.push(xmlAttributes(attributeSource).name ?? "");
+    } else if (tag === "testcase") {
+      if (closing) {
+        if (current) cases.push(current);
+        current = undefined;
+        continue;
+      }
+      const attributes = xmlAttributes(attributeSource);
+      const testCase = {
+        name: [...suites, attributes.classname ?? "", attributes.name ?? ""].filter(Boolean).join(" › "),
+        status: "passed" as TestCaseStatus
+      };
+      if (selfClosing) cases.push(testCase);
+      else current = testCase;
+    } else if (current && !closing && (tag === "failure" || tag === "error")) {
+      current.status = "failed";
+    } else if (current && !closing && tag === "skipped" && current.status !== "failed") {
+      current.status = "skipped";
+    }
+  }
+  return cases;
+}
+
+/**
+ * Parses the test points of a TAP report. Indented subtests get the titles of the
+ * `# Subtest:` lines that enclose them; TODO tests that fail count as skipped.
+ */
+export function parseTap(content: string): { name: string; status: TestCaseStatus }[] {
+  const cases: { name: string; status: TestCaseStatus }[] = [];
+  const subtests: { indent: number; name: string }[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    const subtest = line.match(TAP_SUBTEST_PATTERN);
+    if (subtest) {
+      const indent = subtest[1].length;
+      while (subtests.length > 0 && subtests[subtests.length - 1].indent >= indent) subtests.pop();
+      subtests.push({ indent, name: subtest[2].trim() });
+      continue;
+    }
+    const result = line.match(TAP_RESULT_PATTERN);
+    if (!result) continue;
+
+    const indent = result[1].length;
+    while (subtests.length > 0 && subtests[subtests.length - 1].indent > indent) subtests.pop();
+    const enclosing = subtests.filter(entry => entry.indent < indent).map(entry => entry.name);
+    const directive = result[4]?.toLowerCase();
+    const failed = result[2] !== undefined;
+    cases.push({
+      name: [...enclosing, result[3].trim()].filter(Boolean).join(" › "),
+      status: directive === "skip" || (directive === "todo" && failed) ? "skipped" : failed ? "failed" : "passed"
+    });
+    if (subtests.length > 0 && subtests[subtests.length - 1].indent === indent) subtests.pop();
+  }
+  return cases;
+}
+
+/**
+ * Detects the format of a report from its extension, or from its content.
+ */
+export function detectReportFormat(file: string, content: string): TestReportFormat | undefined {
+  const extension = path.extname(file).toLowerCase();
+  if (extension === ".xml") return "junit";
+  if (extension === ".tap") return "tap";
+  if (/^\s*</.test(content)) return "junit";
+  if (/^TAP version \d+/m.test(content) || /^\s*(?:not\s+)?ok\b/m.test(content)) return "tap";
+  return undefined;
+}
+
+function rollUp(statuses: VerificationStatus[]): VerificationStatus {
+  if (statuses.includes("failed")) return "failed";
+  return statuses.length > 0 && statuses.every(status => status === "passed") ? "passed" : "untested";
+}
+
+/**
+ * Writes `_Verified:_` markers on the requirement lines of the Final Checkpoint
+ * tasks and a `_Test results:_` line into each of them, replacing earlier ones.
+ */
+function annotateFinalCheckpoint(
+  content: string,
+  model: TasksModel,
+  requirements: RequirementVerification[],
+  summary: string,
+  prefixes: IdPrefixes
+): { content: string; annotated: string[] } {
+  const finalPhases = new Set(model.phases.filter(phase => phase.isFinalCheckpoint).map(phase => phase.number));
+  const tasks = model.tasks.filter(task => task.subtasks.length === 0 && task.phase !== undefined && finalPhases.has(task.phase));
+  const lines = content.split("\n");
+  const byId = new Map(requirements.map(requirement => [requirement.requirement, requirement]));
+  const requirementLine = new RegExp(`^\\s*[-*+]\\s+(?:\\*\\*)?(${prefixes.requirement}-\\d+)\\b(?![.\\d])`);
+  const inserts: { line: number; text: string }[] = [];
+  const annotated: string[] = [];
+
+  for (const task of tasks) {
+    const item = listItemsInRange(model.document, task.line, task.line)[0];
+    if (!item) continue;
+    const children = item.children.filter(child => child.checkbox === undefined);
+
+    for (const child of children) {
+      const match = lines[child.line - 1].match(requirementLine);
+      const verification = match ? byId.get(match[1]) : undefined;
+      if (!verification) continue;
+      const open = verification.status === "failed" ? verification.failed : verification.untested;
+      const marker = verification.status === "passed" ? "passed" : `${verification.status} (${open.join(", ")})`;
+      lines[child.line - 1] = `${lines[child.line - 1].replace(VERIFIED_SUFFIX_PATTERN, "")} — _Verified: ${marker}_`;
+    }
+
+    const indent = " ".repeat(children[0]?.indent ?? item.indent + 2);
+    const existing = children.find(child => TEST_RESULTS_PATTERN.test(lines[child.line - 1]));
+    if (existing) {
+      lines[existing.line - 1] = `${indent}- _Test results: ${summary}_`;
+    } else {
+      // Before the _Implements:_ marker, or after the last sub-bullet and its continuation lines
+      const implementsChild = children.find(child => /^_Implements:/i.test(child.text));
+      let line = implementsChild ? implementsChild.line - 1 : (children[children.length - 1]?.line ?? item.line);
+      if (!implementsChild) {
+        while (line < lines.length && lines[line].trim() && !/^\s*(?:[-*+]|\d+[.)])\s/.test(lines[line]) &&
+          lines[line].search(/\S/) > item.indent) line++;
+      }
+      inserts.push({ line, text: `${indent}- _Test results: ${summary}_` });
+    }
+    annotated.push(task.id);
+  }
+
+  for (const insert of inserts.sort((a, b) => b.line - a.line)) {
+    lines.splice(insert.line, 0, insert.text);
+  }
+  return { content: lines.join("\n"), annotated };
+}
+
+/**
+ * Tool: verify_test_results
+ * Maps JUnit XML / TAP test results to the acceptance criteria of a spec
+ */
+export async function verifyTestResults(
+  slug: string,
+  reports: string[],
+  annotate: boolean = false,
+  targetDir: string = process.cwd(),
+  config: SpecDrivenConfig = DEFAULT_CONFIG
+): Promise<{
+  valid: boolean;
+  annotated: string[];
+  diagnostics: Diagnostic[];
+  report: TestVerificationReport;
+}> {
+  const diagnostics: Diagnostic[] = [];
+  const { idPrefixes, specRoot } = config;
+  const relativeDir = specDirectory(slug, specRoot);
+  const requirementsFile = path.join(relativeDir, "requirements.md");
+  const tasksFile = path.join(relativeDir, "tasks.md");
+  const contents = await readSpecFiles(slug, targetDir, specRoot);
+  const emptyReport: TestVerificationReport = {
+    requirements: [],
+    criteria: [],
+    testCases: [],
+    totals: { passed: 0, failed: 0, untested: 0 }
+  };
+
+  const requirementsContent = contents["requirements.md"];
+  if (requirementsContent === undefined) {
+    diagnostics.push(createDiagnostic("STR004", {
+      message: "Cannot read requirements.md",
+      suggestedFix: `Ensure file exists in ${relativeDir}/ directory`,
+      file: requirementsFile
+    }));
+    return { valid: false, annotated: [], diagnostics, report: emptyReport };
+  }
+
+  // Removed delta requirements are not verified
+  const requirements = parseRequirements(requirementsContent, idPrefixes).requirements.filter(req => req.delta !== "removed");
+  const criteria = requirements.flatMap(req => req.criteria.filter(criterion => criterion.numbered));
+  const criterionIds = new Set(criteria.map(criterion => criterion.id));
+
+  const testCases: TestCaseResult[] = [];
+  const readReports: string[] = [];
+  const unknownReferences = new Map<string, { report: string; names: string[] }>();
+  for (const report of reports) {
+    let content: string;
+    try {
+      content = await fs.readFile(path.resolve(targetDir, report), "utf-8");
+    } catch {
+      diagnostics.push(createDiagnostic("TST001", {
+        message: `Cannot read test report ${report}`,
+        suggestedFix: "Run the tests with a JUnit XML or TAP reporter and pass the path of the report, relative to the target directory",
+        file: report
+      }));
+      continue;
+    }
+
+    const format = detectReportFormat(report, content);
+    const cases = format === "junit" ? parseJUnitXml(content) : format === "tap" ? parseTap(content) : [];
+    if (cases.length === 0) {
+      diagnostics.push(createDiagnostic("TST001", {
+        message: format ? `Test report ${report} contains no test cases` : `Test report ${report} is neither JUnit XML nor TAP`,
+        suggestedFix: "Use a JUnit XML (.xml) or TAP (.tap) reporter, e.g. jest-junit, mocha --reporter tap or node --test --test-reporter=tap",
+        file: report
+      }));
+      continue;
+    }
+
+    readReports.push(report);
+    for (const testCase of cases) {
+      const refs = extractRequirementRefs(testCase.name, idPrefixes);
+      for (const id of refs.filter(id => !criterionIds.has(id))) {
+        const unknown = unknownReferences.get(id) ?? { report, names: [] };
+        unknown.names.push(testCase.name);
+        unknownReferences.set(id, unknown);
+      }
+      testCases.push({ ...testCase, report, criteria: refs.filter(id => criterionIds.has(id)) });
+    }
+  }
+
+  for (const [id, { report, names }] of unknownReferences) {
+    diagnostics.push(createDiagnostic("TST004", {
+      message: `${names.length} test(s) refer to ${id}, which is not a criterion of ${slug}: ${names.slice(0, 3).join("; ")}`,
+      suggestedFix: "Fix the ID in the test title, or ignore this if the test belongs to another spec",
+      file: report
+    }));
+  }
+
+  const criterionResults: CriterionVerification[] = criteria.map(criterion => {
+    const tests = testCases.filter(testCase => testCase.criteria.includes(criterion.id));
+    const status: VerificationStatus = tests.some(test => test.status === "failed")
+      ? "failed"
+      : tests.some(test => test.status === "passed") ? "passed" : "untested";
+
+    if (status === "failed") {
+      diagnostics.push(createDiagnostic("TST002", {
+        message: `${criterion.id} failed: ${tests.filter(test => test.status === "failed").map(test => test.name).join("; ")}`,
+        suggestedFix: "Fix the implementation or the failing tests and run them again",
+        range: criterion.range,
+        file: requirementsFile
+      }));
+    } else if (status === "untested") {
+      diagnostics.push(createDiagnostic("TST003", {
+        message: `${criterion.id} is not verified by any test that ran`,
+        suggestedFix: `Name ${criterion.id} in the title of a test that verifies it, e.g. it("${criterion.id} ...")`,
+        range: criterion.range,
+        file: requirementsFile
+      }));
+    }
+    return { criterion: criterion.id, requirement: criterion.requirementId, status, tests: tests.map(test => test.name) };
+  });
+
+  const requirementResults: RequirementVerification[] = requirements.map(req => {
+    const results = criterionResults.filter(result => result.requirement === req.id);
+    const ids = (status: VerificationStatus) => results.filter(result => result.status === status).map(result => result.criterion);
+    return {
+      requirement: req.id,
+      title: req.title,
+      status: rollUp(results.map(result => result.status)),
+      passed: ids("passed"),
+      failed: ids("failed"),
+      untested: ids("untested")
+    };
+  });
+
+  const totals = {
+    passed: criterionResults.filter(result => result.status === "passed").length,
+    failed: criterionResults.filter(result => result.status === "failed").length,
+    untested: criterionResults.filter(result => result.status === "untested").length
+  };
+
+  let annotated: string[] = [];
+  const tasksContent = contents["tasks.md"];
+  if (annotate && tasksContent === undefined) {
+    diagnostics.push(createDiagnostic("STR004", {
+      message: "Cannot read tasks.md",
+      suggestedFix: `Ensure file exists in ${relativeDir}/ directory`,
+      file: tasksFile
+    }));
+  } else if (annotate && tasksContent !== undefined && testCases.length > 0) {
+    const summary = `${totals.passed} passed, ${totals.failed} failed, ${totals.untested} untested criteria (${readReports.join(", ")})`;
+    const result = annotateFinalCheckpoint(tasksContent, parseTasks(tasksContent, idPrefixes), requirementResults, summary, idPrefixes);
+    if (result.annotated.length > 0) {
+      await fs.writeFile(path.join(targetDir, tasksFile), result.content, "utf-8");
+      diagnostics.push(...verifyTasksFile(result.content, undefined, tasksFile, config).diagnostics);
+    }
+    annotated = result.annotated;
+  }
+
+  return {
+    valid: !hasErrors(diagnostics),
+    annotated,
+    diagnostics,
+    report: { requirements: requirementResults, criteria: criterionResults, testCases, totals }
+  };
+}
@@ -0,0 +1,292 @@
+/**
+ * REQ → DES → task traceability graph.
+ *
+ * Acceptance criteria (REQ-x.y) are linked to design elements through the
+ * `_Implements:_` lines and arrows of design.md, and to tasks either directly or
+ * through the design elements a task implements. The Traceability Matrix table
+ * of design.md is compared against the inline links.
+ */
+import path from "path";
+import { DEFAULT_CONFIG, type SpecDrivenConfig } from "./config.js";
+import { createDiagnostic, hasErrors, type Diagnostic } from "./diagnostics.js";
+import { readSpecFiles, SPEC_FILES, specDirectory } from "./spec-files.js";
+import {
+  DEFAULT_ID_PREFIXES,
+  parseDesign,
+  parseRequirements,
+  parseTasks,
+  type DesignModel,
+  type IdPrefixes,
+  type RequirementsModel,
+  type TasksModel
+} from "./spec-model.js";
+
+export type TraceabilityEdgeSource = "design" | "matrix" | "tasks";
+
+export interface TraceabilityEdge {
+  /** DES-x or task ID */
+  from: string;
+  /** REQ-x.y or DES-x */
+  to: string;
+  source: TraceabilityEdgeSource;
+  line: number;
+}
+
+export type CoverageStatus = "covered" | "missing design" | "missing tasks" | "uncovered";
+
+export interface TraceabilityRow {
+  criterion: string;
+  requirement: string;
+  designElements: string[];
+  tasks: string[];
+  status: CoverageStatus;
+}
+
+export interface MatrixMismatch {
+  designElement: string;
+  requirement: string;
+  /** Where the link is written: only in the matrix table, or only inline */
+  foundIn: "matrix" | "inline";
+  line: number;
+}
+
+export interface TraceabilityReport {
+  matrix: TraceabilityRow[];
+  edges: TraceabilityEdge[];
+  uncoveredCriteria: string[];
+  designElementsWithoutTasks: string[];
+  danglingReferences: TraceabilityEdge[];
+  matrixMismatches: MatrixMismatch[];
+}
+
+export type MatrixFormat = "markdown" | "csv" | "json";
+
+export interface SpecModels {
+  requirements?: RequirementsModel;
+  design?: DesignModel;
+  tasks?: TasksModel;
+}
+
+/**
+ * Builds the traceability graph of a spec and reports coverage gaps, dangling
+ * references and disagreements between the matrix table and the inline links.
+ * Checks that need a missing file are skipped.
+ */
+export function checkTraceability(
+  models: SpecModels,
+  files: { requirements?: string; design?: string; tasks?: string } = {},
+  prefixes: IdPrefixes = DEFAULT_ID_PREFIXES
+): { report: TraceabilityReport; diagnostics: Diagnostic[] } {
+  const { requirements, design, tasks } = models;
+  const diagnostics: Diagnostic[] = [];
+
+  const edges: TraceabilityEdge[] = [
+    ...(design?.links || []).map(link => ({ from: link.from, to: link.to, source: "design" as const, line: link.line })),
+    ...(design?.matrix || []).map(link => ({ from: link.from, to: link.to, source: "matrix" as const, line: link.line })),
+    ...(tasks?.tasks || []).flatMap(task =>
+      task.implements.map(to => ({ from: task.id, to, source: "tasks" as const, line: task.line }))
+    )
+  ];
+
+  // Dangling references
+  // Removed delta requirements only name what goes away, so they need no coverage
+  const criteria = requirements
+    ? requirements.requirements.filter(req => req.delta !== "removed").flatMap(req => req.criteria.filter(c => c.numbered))
+    : [];
+  const criterionIds = new Set(criteria.map(criterion => criterion.id));
+  const elementIds = new Set(design?.elements.map(element => element.id));
+  const isRequirementRef = (id: string) => id.startsWith(`${prefixes.requirement}-`);
+  const isDangling = (id: string) =>
+    (isRequirementRef(id) && requirements !== undefined && !criterionIds.has(id)) ||
+    (id.startsWith(`${prefixes.design}-`) && design !== undefined && !elementIds.has(id));
+
+  const danglingReferences = edges.filter(edge => isDangling(edge.to) || (edge.source === "matrix" && isDangling(edge.from)));
+  for (const edge of danglingReferences) {
+    const target = isDangling(edge.to) ? edge.to : edge.from;
+    const definedIn = isRequirementRef(target) ? "requirements.md" : "design.md";
+    diagnostics.push(createDiagnostic("TRC004", {
+      message: edge.source === "matrix"
+        ? `Traceability Matrix row refers to non-existent ${target}`
+        : `${edge.source === "tasks" ? "Task " : ""}${edge.from} → ${edge.to} refers to non-existent ${target}`,
+      suggestedFix: `Fix the reference or add ${target} to ${definedIn}`,
+      line: edge.line,
+      file: edge.source === "tasks" ? files.tasks : files.design
+    }));
+  }
+
+  // Coverage of every acceptance criterion
+  const designLinks = design?.links || [];
+  const matrix: TraceabilityRow[] = criteria.map(criterion => {
+    const designElements = [...new Set(designLinks.filter(link => link.to === criterion.id).map(link => link.from))]
+      .filter(id => elementIds.has(id));
+    const coveringTasks = (tasks?.tasks || [])
+      .filter(task => task.implements.some(id => id === criterion.id || designElements.includes(id)))
+      .map(task => task.id);
+    const status: CoverageStatus = designElements.length > 0
+      ? coveringTasks.length > 0 ? "covered" : "missing tasks"
+      : coveringTasks.length > 0 ? "missing design" : "uncovered";
+    return { criterion: criterion.id, requirement: criterion.requirementId, designElements, tasks: coveringTasks, status };
+  });
+
+  criteria.forEach((criterion, index) => {
+    const row = matrix[index];
+    if (design && row.designElements.length === 0) {
+      diagnostics.push(createDiagnostic("TRC002", {
+        message: `${row.criterion} is not covered by any design element`,
+        suggestedFix: `Add ${row.criterion} to the _Implements:_ line of the design element that addresses it`,
+        range: criterion.range,
+        file: files.requirements
+      }));
+    }
+    if (tasks && row.tasks.length === 0) {
+      diagnostics.push(createDiagnostic("TRC003", {
+        message: `${row.criterion} is not covered by any task`,
+        suggestedFix: `Add a task with _Implements: ${row.designElements[0] ?? `${prefixes.design}-X`}, ${row.criterion}_`,
+        range: criterion.range,
+        file: files.requirements
+      }));
+    }
+  });
+
+  // Design elements without implementing tasks
+  const taskRefs = new Set((tasks?.tasks || []).flatMap(task => task.implements));
+  const designElementsWithoutTasks: string[] = [];
+  for (const element of tasks ? design?.elements || [] : []) {
+    if (!taskRefs.has(element.id)) {
+      designElementsWithoutTasks.push(element.id);
+      diagnostics.push(createDiagnostic("TRC001", {
+        message: `${element.id} has no implementing tasks`,
+        suggestedFix: `Add tasks with _Implements: ${element.id}_ tag`,
+        range: element.range,
+        file: files.design
+      }));
+    }
+  }
+
+  // Matrix table against inline links
+  const matrixMismatches: MatrixMismatch[] = [];
+  if (design?.matrix) {
+    const key = (link: { from: string; to: string }) => `${link.from} ${link.to}`;
+    const inMatrix = new Set(design.matrix.map(key));
+    const inline = new Set(design.links.map(key));
+    const seen = new Set<string>();
+
+    for (const link of design.matrix.filter(link => !inline.has(key(link)))) {
+      if (seen.has(key(link))) continue;
+      seen.add(key(link));
+      matrixMismatches.push({ designElement: link.from, requirement: link.to, foundIn: "matrix", line: link.line });
+      diagnostics.push(createDiagnostic("TRC005", {
+        message: `Traceability Matrix links ${link.from} → ${link.to}, but ${link.from} does not implement ${link.to}`,
+        suggestedFix: `Add ${link.to} to the _Implements:_ line of ${link.from} or remove it from the matrix`,
+        line: link.line,
+        file: files.design
+      }));
+    }
+    for (const link of design.links.filter(link => !inMatrix.has(key(link)))) {
+      if (seen.has(key(link))) continue;
+      seen.add(key(link));
+      matrixMismatches.push({ designElement: link.from, requirement: link.to, foundIn: "inline", line: link.line });
+      diagnostics.push(createDiagnostic("TRC005", {
+        message: `${link.from} implements ${link.to}, but the Traceability Matrix does not list it`,
+        suggestedFix: `Add ${link.to} to the ${link.from} row of the Traceability Matrix`,
+        line: link.line,
+        file: files.design
+      }));
+    }
+  }
+
+  return {
+    report: {
+      matrix,
+      edges,
+      uncoveredCriteria: matrix.filter(row => row.status !== "covered").map(row => row.criterion),
+      designElementsWithoutTasks,
+      danglingReferences,
+      matrixMismatches
+    },
+    diagnostics
+  };
+}
+
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, "\"\"")}"` : value;
+}
+
+/**
+ * Renders the coverage matrix as a Markdown table, CSV or JSON.
+ */
+export function renderTraceabilityMatrix(rows: TraceabilityRow[], format: MatrixFormat): string {
+  if (format === "json") {
+    return JSON.stringify(rows, null, 2);
+  }
+
+  const header = ["Criterion", "Requirement", "Design Elements", "Tasks", "Status"];
+  const cells = rows.map(row => [
+    row.criterion,
+    row.requirement,
+    row.designElements.join(", "),
+    row.tasks.join(", "),
+    row.status
+  ]);
+
+  if (format === "csv") {
+    return [header, ...cells].map(line => line.map(csvCell).join(",")).join("\n");
+  }
+
+  return [
+    `| ${header.join(" | ")} |`,
+    `|${header.map(() => "---").join("|")}|`,
+    ...cells.map(line => `| ${line.map(cell => cell || "—").join(" | ")} |`)
+  ].join("\n");
+}
+
+/**
+ * Tool: get_traceability_matrix
+ * Builds the REQ → DES → task graph of a spec and reports its coverage
+ */
+export async function getTraceabilityMatrix(
+  slug: string,
+  targetDir: string = process.cwd(),
+  config: SpecDrivenConfig = DEFAULT_CONFIG
+): Promise<{
+  valid: boolean;
+  diagnostics: Diagnostic[];
+  report: TraceabilityReport;
+}> {
+  const diagnostics: Diagnostic[] = [];
+  const { idPrefixes, specRoot } = config;
+  const relativeDir = specDirectory(slug, specRoot);
+  const contents = await readSpecFiles(slug, targetDir, specRoot);
+
+  for (const name of SPEC_FILES.filter(name => contents[name] === undefined)) {
+    diagnostics.push(createDiagnostic("STR004", {
+      message: `Cannot read ${name}`,
+      suggestedFix: `Ensure file exists in ${relativeDir}/ directory`,
+      file: path.join(relativeDir, name)
+    }));
+  }
+
+  const requirementsContent = contents["requirements.md"];
+  const designContent = contents["design.md"];
+  const tasksContent = contents["tasks.md"];
+  const traceability = checkTraceability(
+    {
+      requirements: requirementsContent !== undefined ? parseRequirements(requirementsContent, idPrefixes) : undefined,
+      design: designContent !== undefined ? parseDesign(designContent, idPrefixes) : undefined,
+      tasks: tasksContent !== undefined ? parseTasks(tasksContent, idPrefixes) : undefined
+    },
+    {
+      requirements: path.join(relativeDir, "requirements.md"),
+      design: path.join(relativeDir, "design.md"),
+      tasks: path.join(relativeDir, "tasks.md")
+    },
+    idPrefixes
+  );
+  diagnostics.push(...traceability.diagnostics);
+
+  return {
+    valid: !hasErrors(diagnostics),
+    diagnostics,
+    report: traceability.report
+  };
+}
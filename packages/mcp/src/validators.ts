@@ -0,0 +1,630 @@
+/**
+ * Spec validators shared by the MCP tools and the CLI.
+ */
+import fs from "fs/promises";
+import path from "path";
+import { checkCodeAnatomyPaths, checkCodeAnatomyReferences } from "./code-anatomy.js";
+import { CONFIG_FILE, DEFAULT_CONFIG, type DocumentSections, type SpecDocument, type SpecDrivenConfig } from "./config.js";
+import { checkDeltas, hasDeltaSections, readBaseline } from "./delta.js";
+import { checkEars, type EarsAnalysis } from "./ears.js";
+import {
+  createDiagnostic,
+  hasErrors,
+  SKILL_DOCS,
+  withFile,
+  type Diagnostic
+} from "./diagnostics.js";
+import { matchesGlob } from "./glob.js";
+import { checkGlossary, checkGlossaryConflicts } from "./glossary.js";
+import { checkMermaidBlocks, type MermaidBlockReport } from "./mermaid.js";
+import { customRulesFor, runCustomRules } from "./plugins.js";
+import { checkRequirementsQuality } from "./quality.js";
+import { readSpecFiles, SPEC_FILES, specDirectory } from "./spec-files.js";
+import {
+  criterionIds,
+  findSection,
+  parseDesign,
+  parseRequirements,
+  DELTA_SECTIONS,
+  parseTasks,
+  TASK_STATUS_MARKERS,
+  type MarkdownDocument
+} from "./spec-model.js";
+import { checkTaskDependencies } from "./task-graph.js";
+import { checkTraceability } from "./traceability.js";
+import { checkSlug } from "./workspace.js";
+
+export { SPEC_FILES };
+
+const SECTION_FIXES: Record<SpecDocument, Record<string, string>> = {
+  requirements: {
+    Introduction: "Add ## Introduction section at top with project background and objectives",
+    Glossary: "Add ## Glossary section defining key terms",
+    Requirements: "Add ## Requirements section with REQ-X numbering"
+  },
+  design: {
+    Overview: "Add ## Overview section describing high-level design approach",
+    "System Architecture": "Add ## System Architecture section with Mermaid diagrams",
+    "Code Anatomy": "Add ## Code Anatomy section with file paths and details",
+    "Traceability Matrix": "Add ## Traceability Matrix section linking DES to REQ"
+  },
+  tasks: {
+    Overview: "Add ## Overview section with phases list"
+  }
+};
+
+/**
+ * Reports the required level-2 sections that are missing and the level-2 sections
+ * that are neither required nor optional in the configuration.
+ */
+function checkSections(
+  document: MarkdownDocument,
+  name: SpecDocument,
+  sections: DocumentSections,
+  missingCode: string,
+  isExempt: (title: string) => boolean = () => false
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (const title of sections.required) {
+    if (!findSection(document, title, 2)) {
+      diagnostics.push(createDiagnostic(missingCode, {
+        message: `${title} section not found`,
+        suggestedFix: SECTION_FIXES[name][title] ?? `Add ## ${title} section`
+      }));
+    }
+  }
+
+  const known = [...sections.required, ...sections.optional].map(title => title.toLowerCase());
+  for (const section of document.sections.filter(section => section.level === 2)) {
+    if (!known.includes(section.title.toLowerCase()) && !isExempt(section.title)) {
+      diagnostics.push(createDiagnostic("STR007", {
+        message: `Unknown section "## ${section.title}"`,
+        suggestedFix: `Use one of the ${name}.md sections (${[...sections.required, ...sections.optional].join(", ")}) or list it in sections.${name}.optional of ${CONFIG_FILE}`,
+        range: section.range
+      }));
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Tool: verify_spec_structure
+ * Validates spec folder structure and file existence
+ */
+export async function verifySpecStructure(
+  slug: string,
+  targetDir: string = process.cwd(),
+  config: SpecDrivenConfig = DEFAULT_CONFIG
+): Promise<{
+  valid: boolean;
+  diagnostics: Diagnostic[];
+}> {
+  // The slug names one folder under the spec root and must not reach outside it
+  const diagnostics = checkSlug(slug);
+  if (diagnostics.length > 0) {
+    return { valid: false, diagnostics };
+  }
+  const relativeDir = specDirectory(slug, config.specRoot);
+  const specDir = path.join(targetDir, relativeDir);
+
+  // Check if directory exists
+  try {
+    const stats = await fs.stat(specDir);
+    if (!stats.isDirectory()) {
+      diagnostics.push(createDiagnostic("STR001", {
+        message: `Path is not a directory: ${specDir}`,
+        suggestedFix: `Create spec directory with: mkdir -p ${relativeDir}`,
+        file: relativeDir
+      }));
+      return { valid: false, diagnostics };
+    }
+  } catch {
+    diagnostics.push(createDiagnostic("STR001", {
+      message: `Spec directory does not exist: ${specDir}`,
+      suggestedFix: `Create spec directory with: mkdir -p ${relativeDir}`,
+      file: relativeDir
+    }));
+    return { valid: false, diagnostics };
+  }
+
+  // Check for required files
+  const requiredFiles: string[] = [...SPEC_FILES];
+  const files = await fs.readdir(specDir);
+  const skillMap: Record<string, string> = {
+    "requirements.md": SKILL_DOCS.requirements,
+    "design.md": SKILL_DOCS.design,
+    "tasks.md": SKILL_DOCS.tasks
+  };
+
+  for (const requiredFile of requiredFiles) {
+    if (!files.includes(requiredFile)) {
+      diagnostics.push(createDiagnostic("STR002", {
+        message: `Missing required file: ${requiredFile}`,
+        suggestedFix: `Create ${requiredFile} with proper structure`,
+        file: path.join(relativeDir, requiredFile),
+        skillDocLink: skillMap[requiredFile]
+      }));
+    }
+  }
+
+  // Check for unexpected files; folders are allowed when a pattern reaches into them
+  const allowedFiles = [...requiredFiles];
+  const { allowedExtraFiles } = config;
+  const isAllowedExtra = (entry: string) =>
+    matchesGlob(entry, allowedExtraFiles) || allowedExtraFiles.some(pattern => pattern.startsWith(`${entry}/`));
+  const unexpectedFiles = files.filter(f => !allowedFiles.includes(f) && !isAllowedExtra(f));
+  for (const unexpectedFile of unexpectedFiles) {
+    diagnostics.push(createDiagnostic("STR003", {
+      message: `Unexpected file found: ${unexpectedFile}`,
+      suggestedFix: `Only requirements.md, design.md, and tasks.md are allowed. Remove or rename extra files, or list them in allowedExtraFiles of ${CONFIG_FILE}`,
+      file: path.join(relativeDir, unexpectedFile)
+    }));
+  }
+
+  return {
+    valid: !hasErrors(diagnostics),
+    diagnostics
+  };
+}
+
+/**
+ * Tool: verify_requirements_file
+ * Validates a requirements.md file has all required content
+ */
+export function verifyRequirementsFile(
+  content: string,
+  file: string = "requirements.md",
+  config: SpecDrivenConfig = DEFAULT_CONFIG,
+  baselineContent?: string
+): {
+  valid: boolean;
+  diagnostics: Diagnostic[];
+  requirementsFound: string[];
+  earsPatterns: string[];
+  earsReport: EarsAnalysis[];
+} {
+  const diagnostics: Diagnostic[] = [];
+  const earsPatterns: string[] = [];
+  const prefix = config.idPrefixes.requirement;
+  const model = parseRequirements(content, config.idPrefixes);
+
+  // Check for required sections; delta sections take the place of Requirements
+  const isDelta = hasDeltaSections(model);
+  const deltaTitles = Object.values(DELTA_SECTIONS).map(title => title.toLowerCase());
+  const sections = isDelta
+    ? { ...config.sections.requirements, required: config.sections.requirements.required.filter(title => title.toLowerCase() !== "requirements") }
+    : config.sections.requirements;
+  diagnostics.push(...checkSections(model.document, "requirements", sections, "REQ001", title => deltaTitles.includes(title.toLowerCase())));
+
+  // Requirement IDs come from the requirement headings
+  const requirementsFound = model.requirements.map(req => req.id);
+  if (requirementsFound.length === 0) {
+    diagnostics.push(createDiagnostic("REQ002", {
+      message: `No ${prefix}-X IDs found`,
+      suggestedFix: `Number each requirement with ${prefix}-1, ${prefix}-2, etc.`
+    }));
+  }
+
+  const seen = new Set<string>();
+  for (const req of model.requirements) {
+    if (seen.has(req.id)) {
+      diagnostics.push(createDiagnostic("REQ003", {
+        message: `Duplicate requirement ID ${req.id}`,
+        suggestedFix: "Give each requirement a unique sequential number",
+        range: req.range
+      }));
+    }
+    seen.add(req.id);
+  }
+
+  // Extract EARS patterns from acceptance criteria only
+  const earsKeywords = ["WHEN", "IF", "THEN", "SHALL", "WHILE", "WHERE"];
+  const criteria = model.requirements.flatMap(req => req.criteria);
+  for (const keyword of earsKeywords) {
+    const keywordPattern = new RegExp(`\\b${keyword}\\b`);
+    if (criteria.some(criterion => keywordPattern.test(criterion.text))) {
+      earsPatterns.push(keyword);
+    }
+  }
+
+  if (earsPatterns.length === 0) {
+    diagnostics.push(createDiagnostic("REQ004", {
+      message: "No EARS patterns detected",
+      suggestedFix: "Use EARS keywords (WHEN, IF, THEN, SHALL, WHILE, WHERE) to structure requirements"
+    }));
+  }
+
+  // Check for acceptance criteria numbering
+  if (criteria.length === 0) {
+    diagnostics.push(createDiagnostic("REQ005", {
+      message: "No 1.1, 1.2, etc. numbering found",
+      suggestedFix: "Add numbered acceptance criteria for each requirement"
+    }));
+  }
+
+  for (const req of model.requirements) {
+    if (req.criteria.length === 0 && req.delta !== "removed") {
+      diagnostics.push(createDiagnostic("REQ006", {
+        message: `${req.id} has no acceptance criteria`,
+        suggestedFix: "Add a #### Acceptance Criteria list with numbered EARS statements",
+        range: req.range
+      }));
+    }
+    for (const criterion of req.criteria) {
+      if (!criterion.numbered) {
+        diagnostics.push(createDiagnostic("REQ007", {
+          message: `Unnumbered acceptance criterion in ${req.id}`,
+          suggestedFix: `Number acceptance criteria as ${req.number}.1, ${req.number}.2, etc.`,
+          range: criterion.range
+        }));
+      } else if (!criterion.number.startsWith(`${req.number}.`)) {
+        diagnostics.push(createDiagnostic("REQ008", {
+          message: `Acceptance criterion ${criterion.number} is listed under ${req.id}`,
+          suggestedFix: `Renumber the criterion as ${req.number}.N`,
+          range: criterion.range
+        }));
+      }
+    }
+  }
+
+  // Check each acceptance criterion against the EARS templates
+  const ears = checkEars(model);
+  diagnostics.push(...ears.diagnostics);
+
+  // Check delta sections against the baseline spec
+  diagnostics.push(...checkDeltas(model, baselineContent !== undefined ? parseRequirements(baselineContent, config.idPrefixes) : undefined));
+
+  // Check the glossary table
+  diagnostics.push(...checkGlossary(model));
+
+  // Check the wording of the criteria and user stories
+  diagnostics.push(...checkRequirementsQuality(model, config.quality));
+
+  // Custom rules of the project
+  diagnostics.push(...runCustomRules(customRulesFor(config, "requirements"), { requirements: model, config }));
+
+  return {
+    valid: !hasErrors(diagnostics),
+    diagnostics: withFile(diagnostics, file),
+    requirementsFound,
+    earsPatterns,
+    earsReport: ears.report
+  };
+}
+
+/**
+ * Tool: verify_design_file
+ * Validates a design.md file has all required content and proper structure
+ */
+export function verifyDesignFile(
+  content: string,
+  requirementsContent?: string,
+  file: string = "design.md",
+  config: SpecDrivenConfig = DEFAULT_CONFIG
+): {
+  valid: boolean;
+  diagnostics: Diagnostic[];
+  traceabilityReport: {
+    linked: string[];
+    orphaned: string[];
+    invalidReqRefs: string[];
+  };
+  mermaidReport: MermaidBlockReport[];
+} {
+  const diagnostics: Diagnostic[] = [];
+  const linked: string[] = [];
+  const orphaned: string[] = [];
+  const invalidReqRefs: string[] = [];
+  const { idPrefixes } = config;
+  const model = parseDesign(content, idPrefixes);
+  const { document } = model;
+
+  // Check for required sections
+  const requiredSections = config.sections.design.required;
+  diagnostics.push(...checkSections(document, "design", config.sections.design, "DES001"));
+
+  // Check for Mermaid diagrams
+  if (model.mermaidBlocks.length === 0) {
+    diagnostics.push(createDiagnostic("DES002", {
+      message: "No Mermaid diagram code blocks found",
+      suggestedFix: "Add Mermaid diagram in ```mermaid ... ``` code blocks"
+    }));
+  }
+
+  // Check Mermaid syntax offline
+  const mermaid = checkMermaidBlocks(model.mermaidBlocks);
+  diagnostics.push(...mermaid.diagnostics);
+
+  // Design element IDs come from the DES-X headings
+  if (model.elements.length === 0) {
+    diagnostics.push(createDiagnostic("DES003", {
+      message: `No ${idPrefixes.design}-X design element IDs found`,
+      suggestedFix: `Number design elements with ${idPrefixes.design}-1, ${idPrefixes.design}-2, etc.`
+    }));
+  } else {
+    // Check traceability
+    for (const element of model.elements) {
+      if (element.implements.length > 0) {
+        linked.push(`${element.id} → ${element.implements.map(link => link.to).join(", ")}`);
+      } else {
+        orphaned.push(element.id);
+        diagnostics.push(createDiagnostic("DES004", {
+          message: `${element.id} does not reference any requirement`,
+          suggestedFix: `Add _Implements: ${idPrefixes.requirement}-X.Y_ below ${element.id}`,
+          range: element.range
+        }));
+      }
+    }
+
+    // Check for invalid requirement references
+    const reqIds = requirementsContent ? criterionIds(parseRequirements(requirementsContent, idPrefixes)) : [];
+    const elementIds = new Set(model.elements.map(element => element.id));
+    for (const link of model.links) {
+      if (reqIds.length > 0 && !reqIds.includes(link.to)) {
+        invalidReqRefs.push(`${link.from} → ${link.to}`);
+        diagnostics.push(createDiagnostic("DES005", {
+          message: `${link.from} → ${link.to} refers to non-existent requirement ${link.to}`,
+          suggestedFix: `Fix requirement reference or create missing ${link.to} in requirements.md`,
+          line: link.line
+        }));
+      }
+      if (!elementIds.has(link.from)) {
+        diagnostics.push(createDiagnostic("DES006", {
+          message: `${link.from} → ${link.to} refers to undefined design element ${link.from}`,
+          suggestedFix: `Add a ### ${link.from}: <Component Name> section or fix the reference`,
+          line: link.line
+        }));
+      }
+    }
+  }
+
+  // Design elements named by the Code Anatomy table
+  diagnostics.push(...checkCodeAnatomyReferences(model, idPrefixes));
+
+  // Check for Traceability Matrix, unless it is already a required section
+  const matrixRequired = requiredSections.some(title => title.toLowerCase() === "traceability matrix");
+  if (!matrixRequired && !findSection(document, "Traceability Matrix", 2)) {
+    diagnostics.push(createDiagnostic("DES007", {
+      message: "Traceability Matrix section not found",
+      suggestedFix: `Add ## Traceability Matrix section linking ${idPrefixes.design} to ${idPrefixes.requirement}`
+    }));
+  }
+
+  // Custom rules of the project
+  diagnostics.push(...runCustomRules(customRulesFor(config, "design"), { design: model, config }));
+
+  return {
+    valid: !hasErrors(diagnostics),
+    diagnostics: withFile(diagnostics, file),
+    traceabilityReport: {
+      linked,
+      orphaned,
+      invalidReqRefs
+    },
+    mermaidReport: mermaid.report
+  };
+}
+
+/**
+ * Tool: verify_tasks_file
+ * Validates a tasks.md file has all required content and proper structure
+ */
+export function verifyTasksFile(
+  content: string,
+  designContent?: string,
+  file: string = "tasks.md",
+  config: SpecDrivenConfig = DEFAULT_CONFIG
+): {
+  valid: boolean;
+  diagnostics: Diagnostic[];
+  tasksFound: number;
+  phases: string[];
+  traceabilityReport: {
+    linked: string[];
+    missingTraces: string[];
+  };
+} {
+  const diagnostics: Diagnostic[] = [];
+  const linked: string[] = [];
+  const missingTraces: string[] = [];
+  const { idPrefixes } = config;
+  const model = parseTasks(content, idPrefixes);
+
+  // Check for required sections; phase sections are checked below
+  const phaseTitles = new Set(model.phases.map(phase => phase.section.title));
+  diagnostics.push(...checkSections(model.document, "tasks", config.sections.tasks, "TSK001", title => phaseTitles.has(title)));
+
+  // Extract phases
+  const phases = model.phases.map(phase => `Phase ${phase.number}: ${phase.title}`);
+  if (model.phases.length === 0) {
+    diagnostics.push(createDiagnostic("TSK002", {
+      message: "No phase headers found",
+      suggestedFix: "Add phase sections using ## Phase 1:, ## Phase 2:, etc."
+    }));
+  }
+
+  // Check for Final Checkpoint phase
+  const finalPhase = model.phases.find(phase => phase.isFinalCheckpoint);
+  if (!finalPhase) {
+    diagnostics.push(createDiagnostic("TSK003", {
+      message: "Final Checkpoint phase not found",
+      suggestedFix: "Add ## Phase X: Final Checkpoint section at end"
+    }));
+  } else if (finalPhase !== model.phases[model.phases.length - 1]) {
+    diagnostics.push(createDiagnostic("TSK004", {
+      message: "Final Checkpoint is not the last phase",
+      suggestedFix: "Move the Final Checkpoint phase to the end of tasks.md",
+      range: finalPhase.range
+    }));
+  }
+
+  // Check tasks in checkbox format
+  if (model.tasks.length === 0) {
+    diagnostics.push(createDiagnostic("TSK005", {
+      message: "No tasks in checkbox format found",
+      suggestedFix: "Add tasks with format - [ ] 1.1, - [ ] 1.2, etc."
+    }));
+  } else {
+    // Check traceability
+    const designIds = designContent ? new Set(parseDesign(designContent, idPrefixes).elements.map(element => element.id)) : undefined;
+    for (const task of model.tasks) {
+      if (task.implements.length > 0 || task.implementsAll) {
+        linked.push(`${task.id} → ${task.implementsAll && task.implements.length === 0 ? "All requirements" : task.implements.join(", ")}`);
+      } else if (task.subtasks.length === 0) {
+        missingTraces.push(task.id);
+        diagnostics.push(createDiagnostic("TSK006", {
+          message: `Task ${task.id} has no _Implements:_ reference`,
+          suggestedFix: `Add a sub-bullet _Implements: ${idPrefixes.design}-X, ${idPrefixes.requirement}-Y.Z_`,
+          range: task.range
+        }));
+      }
+
+      if (designIds) {
+        for (const ref of task.implements.filter(id => id.startsWith(`${idPrefixes.design}-`) && !designIds.has(id))) {
+          diagnostics.push(createDiagnostic("TSK007", {
+            message: `Task ${task.id} implements non-existent design element ${ref}`,
+            suggestedFix: `Fix the design reference or add ${ref} to design.md`,
+            range: task.range
+          }));
+        }
+      }
+    }
+
+    const seen = new Set<string>();
+    for (const task of model.tasks) {
+      if (seen.has(task.id)) {
+        diagnostics.push(createDiagnostic("TSK008", {
+          message: `Duplicate task ID ${task.id}`,
+          suggestedFix: "Give each task a unique hierarchical ID (1.1, 1.2, 2.1, ...)",
+          range: task.range
+        }));
+      }
+      seen.add(task.id);
+    }
+  }
+
+  // Check for valid status markers
+  for (const task of model.tasks.filter(task => !TASK_STATUS_MARKERS.includes(task.status))) {
+    diagnostics.push(createDiagnostic("TSK009", {
+      message: `Invalid status marker [${task.status}] on task ${task.id}`,
+      suggestedFix: "Use only: [ ] (pending), [~] (in progress), [x] (completed)",
+      range: task.range
+    }));
+  }
+
+  for (const item of model.malformed) {
+    diagnostics.push(createDiagnostic("TSK010", {
+      message: `Checkbox item without task ID: "${item.text}"`,
+      suggestedFix: "Start every task with its hierarchical ID, e.g. - [ ] 1.1 <Task title>",
+      range: item.range
+    }));
+  }
+
+  // Check _Depends:_ markers
+  diagnostics.push(...checkTaskDependencies(model).diagnostics);
+
+  // Custom rules of the project
+  diagnostics.push(...runCustomRules(customRulesFor(config, "tasks"), { tasks: model, config }));
+
+  return {
+    valid: !hasErrors(diagnostics),
+    diagnostics: withFile(diagnostics, file),
+    tasksFound: model.tasks.length,
+    phases,
+    traceabilityReport: {
+      linked,
+      missingTraces
+    }
+  };
+}
+
+/**
+ * Tool: verify_complete_spec
+ * Validates all three spec files together for complete workflow validation
+ */
+export async function verifyCompleteSpec(
+  slug: string,
+  targetDir: string = process.cwd(),
+  config: SpecDrivenConfig = DEFAULT_CONFIG
+): Promise<{
+  valid: boolean;
+  diagnostics: Diagnostic[];
+  traceabilityReport: {
+    complete: boolean;
+    orphans: string[];
+    circular: string[];
+  };
+}> {
+  const diagnostics: Diagnostic[] = [];
+  const { idPrefixes, specRoot } = config;
+  const relativeDir = specDirectory(slug, specRoot);
+  const fileOf = (name: string) => path.join(relativeDir, name);
+
+  // Check folder structure
+  const structureResult = await verifySpecStructure(slug, targetDir, config);
+  diagnostics.push(...structureResult.diagnostics);
+  if (structureResult.diagnostics.some(d => d.code === "STR005")) {
+    return { valid: false, diagnostics, traceabilityReport: { complete: false, orphans: [], circular: [] } };
+  }
+
+  // Read files
+  const contents = await readSpecFiles(slug, targetDir, specRoot);
+  for (const name of SPEC_FILES.filter(name => contents[name] === undefined)) {
+    const alreadyReported = structureResult.diagnostics.some(d => d.file === fileOf(name) || d.code === "STR001");
+    if (!alreadyReported) {
+      diagnostics.push(createDiagnostic("STR004", {
+        message: `Cannot read ${name}`,
+        suggestedFix: `Ensure file exists in ${specRoot}/{slug}/ directory`,
+        file: fileOf(name)
+      }));
+    }
+  }
+
+  const requirementsContent = contents["requirements.md"];
+  const designContent = contents["design.md"];
+  const tasksContent = contents["tasks.md"];
+  const requirementsModel = requirementsContent ? parseRequirements(requirementsContent, idPrefixes) : undefined;
+  const designModel = designContent ? parseDesign(designContent, idPrefixes) : undefined;
+  const tasksModel = tasksContent ? parseTasks(tasksContent, idPrefixes) : undefined;
+  const files = { requirements: fileOf("requirements.md"), design: fileOf("design.md"), tasks: fileOf("tasks.md") };
+
+  // Validate individual files; cross-file references are checked by the traceability graph
+  if (requirementsModel && requirementsContent) {
+    const baseline = await readBaseline(requirementsModel, targetDir, config, fileOf("requirements.md"));
+    diagnostics.push(...baseline.diagnostics);
+    diagnostics.push(...verifyRequirementsFile(requirementsContent, fileOf("requirements.md"), config, baseline.content).diagnostics);
+    diagnostics.push(...withFile(await checkGlossaryConflicts(slug, requirementsModel, targetDir, config), fileOf("requirements.md")));
+  }
+
+  if (designContent && designModel) {
+    diagnostics.push(...verifyDesignFile(designContent, undefined, fileOf("design.md"), config).diagnostics);
+    diagnostics.push(...withFile((await checkCodeAnatomyPaths(designModel, targetDir)).diagnostics, fileOf("design.md")));
+  }
+
+  if (tasksContent) {
+    diagnostics.push(...verifyTasksFile(tasksContent, undefined, fileOf("tasks.md"), config).diagnostics);
+  }
+
+  // Cross-validate traceability
+  const models = { requirements: requirementsModel, design: designModel, tasks: tasksModel };
+  const traceability = checkTraceability(models, files, idPrefixes);
+  diagnostics.push(...traceability.diagnostics);
+
+  // Custom rules that read several documents
+  diagnostics.push(...runCustomRules(customRulesFor(config), { ...models, config }, files));
+
+  const orphans = traceability.report.designElementsWithoutTasks;
+  const circular = tasksModel
+    ? checkTaskDependencies(tasksModel).graph.cycles.map(cycle => cycle.join(" → "))
+    : [];
+
+  return {
+    valid: !hasErrors(diagnostics),
+    diagnostics,
+    traceabilityReport: {
+      complete: orphans.length === 0 && traceability.report.uncoveredCriteria.length === 0,
+      orphans,
+      circular
+    }
+  };
+}
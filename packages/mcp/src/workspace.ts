@@ -0,0 +1,89 @@
+/**
+ * Confinement of the directories, files and slugs that MCP clients send.
+ *
+ * The workspace is the list of roots of the client (`roots/list`), or else the
+ * directory given with `--root` or the working directory of the server. Over
+ * HTTP, that directory also bounds the roots of the clients. Every requested
+ * path must resolve inside one of its roots, following symbolic links.
+ */
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import { createDiagnostic, type Diagnostic } from "./diagnostics.js";
+import { SLUG_PATTERN } from "./spec-files.js";
+
+/**
+ * Returns the directories of the `file://` roots of an MCP client; roots with
+ * other schemes cannot be read by the server and are ignored.
+ */
+export function workspaceRootsFromUris(roots: { uri: string }[]): string[] {
+  return roots.filter(root => root.uri.startsWith("file://")).map(root => path.resolve(fileURLToPath(root.uri)));
+}
+
+// Follows symbolic links of the longest existing part of the path
+async function realPath(target: string): Promise<string> {
+  try {
+    return await fs.realpath(target);
+  } catch {
+    const parent = path.dirname(target);
+    return parent === target ? target : path.join(await realPath(parent), path.basename(target));
+  }
+}
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  // A child named like "..cache" is inside; only ".." segments leave the root
+  return relative === "" || (relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+}
+
+/**
+ * Confines the roots of a client to a directory: roots inside it are kept,
+ * roots containing it are narrowed to it and other roots are dropped.
+ */
+export async function confineRoots(roots: string[], bound: string): Promise<string[]> {
+  const realBound = await realPath(bound);
+  const confined: string[] = [];
+  for (const root of roots) {
+    const realRoot = await realPath(root);
+    const kept = isInside(realBound, realRoot) ? root : isInside(realRoot, realBound) ? bound : undefined;
+    if (kept !== undefined && !confined.includes(kept)) confined.push(kept);
+  }
+  return confined;
+}
+
+/**
+ * Resolves a requested directory or file against `base` (the first root by
+ * default) and checks that it lies inside one of the workspace roots. Returns
+ * the resolved path, or a WSP001 diagnostic when it is out of bounds.
+ */
+export async function resolveInWorkspace(
+  requested: string | undefined,
+  roots: string[],
+  base: string = roots[0],
+  label: string = "targetDir"
+): Promise<{ path?: string; diagnostics: Diagnostic[] }> {
+  const resolved = path.resolve(base, requested ?? ".");
+  const target = await realPath(resolved);
+  for (const root of roots) {
+    if (isInside(await realPath(root), target)) {
+      return { path: resolved, diagnostics: [] };
+    }
+  }
+  return {
+    diagnostics: [createDiagnostic("WSP001", {
+      message: `${label} "${requested}" resolves to ${target}, outside the workspace (${roots.join(", ")})`,
+      suggestedFix: "Use a path inside the workspace, or add the directory as a root of the MCP client or with --root"
+    })]
+  };
+}
+
+/**
+ * Checks that a slug names a single spec folder, e.g. rate-limiter.
+ */
+export function checkSlug(slug: unknown, label: string = "slug"): Diagnostic[] {
+  if (typeof slug === "string" && SLUG_PATTERN.test(slug)) return [];
+  return [createDiagnostic("STR005", {
+    message: `Invalid spec ${label}: ${JSON.stringify(slug)}`,
+    suggestedFix: "Use a kebab-case slug of lowercase letters and digits, e.g. rate-limiter"
+  })];
+}
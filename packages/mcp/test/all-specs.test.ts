@@ -0,0 +1,85 @@
+import fs from "fs/promises";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { renderSpecSummary, verifyAllSpecs } from "../src/all-specs.js";
+import { validateConfig } from "../src/config.js";
+import { createSpec } from "../src/scaffold.js";
+import { createProject } from "./fixtures.js";
+
+async function projectWithSpecs(specs: Record<string, string>): Promise<string> {
+  const dir = await createProject();
+  for (const [slug, title] of Object.entries(specs)) {
+    await createSpec(slug, title, dir);
+  }
+  return dir;
+}
+
+describe("verifyAllSpecs", () => {
+  it("summarizes every active change", async () => {
+    const dir = await projectWithSpecs({ "audit-log": "Audit Log", "rate-limiter": "Rate Limiter" });
+    const { specs, sharedFiles } = await verifyAllSpecs(dir);
+
+    expect(specs.map(spec => [spec.slug, spec.title, spec.progress.total])).toEqual([
+      ["audit-log", "Audit Log", 2],
+      ["rate-limiter", "Rate Limiter", 2]
+    ]);
+    expect(sharedFiles).toEqual([]);
+  });
+
+  it("reports duplicate and near-duplicate slugs and titles once per pair (XSP001)", async () => {
+    const dir = await projectWithSpecs({ "rate-limiter": "Rate Limiter", "rate-limiting": "Rate Limiting" });
+    const { diagnostics } = await verifyAllSpecs(dir);
+
+    expect(diagnostics.filter(diagnostic => diagnostic.code === "XSP001").map(diagnostic => [diagnostic.message, diagnostic.file])).toEqual([
+      ["Change rate-limiting has a near-duplicate slug of rate-limiter", "specs/changes/rate-limiting"],
+      [
+        "Change rate-limiting has a near-duplicate title of rate-limiter: \"Rate Limiting\" and \"Rate Limiter\"",
+        "specs/changes/rate-limiting/requirements.md"
+      ]
+    ]);
+  });
+
+  it("reports files listed in the Code Anatomy of several changes (XSP002)", async () => {
+    const dir = await projectWithSpecs({ "audit-log": "Audit Log", "rate-limiter": "Rate Limiter" });
+    for (const slug of ["audit-log", "rate-limiter"]) {
+      const file = path.join(dir, "specs/changes", slug, "design.md");
+      await fs.writeFile(file, (await fs.readFile(file, "utf-8")).replace(`src/${slug}/index.ts`, "src/./gateway.ts"), "utf-8");
+    }
+    const { sharedFiles, diagnostics } = await verifyAllSpecs(dir);
+
+    expect(sharedFiles).toEqual([{ path: "src/gateway.ts", specs: ["audit-log", "rate-limiter"] }]);
+    expect(diagnostics.filter(diagnostic => diagnostic.code === "XSP002").map(diagnostic => diagnostic.file)).toEqual([
+      "specs/changes/audit-log/design.md",
+      "specs/changes/rate-limiter/design.md"
+    ]);
+  });
+
+  it("counts errors and warnings after the rule settings", async () => {
+    const dir = await projectWithSpecs({ "rate-limiter": "Rate Limiter" });
+    await fs.rm(path.join(dir, "specs/changes/rate-limiter/tasks.md"));
+    const { config } = validateConfig({ rules: { STR002: "warning", STR004: "off" } });
+    const { specs } = await verifyAllSpecs(dir, config);
+
+    expect(specs[0]).toMatchObject({ valid: true, errors: 0 });
+    expect(specs[0].warnings).toBeGreaterThan(0);
+  });
+});
+
+describe("renderSpecSummary", () => {
+  it("renders the changes and the shared files as Markdown tables", () => {
+    const progress = { total: 4, done: 1, inProgress: 1, pending: 2, percent: 25 };
+
+    expect(renderSpecSummary(
+      [{ slug: "rate-limiter", title: "Rate | Limiter", valid: false, errors: 2, warnings: 1, progress }],
+      [{ path: "src/gateway.ts", specs: ["audit-log", "rate-limiter"] }]
+    ).split("\n")).toEqual([
+      "| Change | Title | Status | Errors | Warnings | Completion |",
+      "|--------|-------|--------|--------|----------|------------|",
+      "| rate-limiter | Rate \\| Limiter | invalid | 2 | 1 | 1/4 (25%) |",
+      "",
+      "| Shared File | Changes |",
+      "|-------------|---------|",
+      "| src/gateway.ts | audit-log, rate-limiter |"
+    ]);
+  });
+});
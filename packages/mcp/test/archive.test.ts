@@ -0,0 +1,167 @@
+import fs from "fs/promises";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { archiveSpec, mergeRequirements } from "../src/archive.js";
+import { createSpec } from "../src/scaffold.js";
+import { parseRequirements } from "../src/spec-model.js";
+import { createProject, readProjectFile } from "./fixtures.js";
+
+const CAPABILITY = `# Requirements Document
+
+## Glossary
+
+| Term | Definition |
+|------|------------|
+| Client | Caller of the gateway |
+
+## Requirements
+
+### Requirement 1: Route requests
+
+#### Acceptance Criteria
+
+1. THE gateway SHALL route every request. _(Ubiquitous)_
+
+### Requirement 2: Log requests
+
+#### Acceptance Criteria
+
+1. THE gateway SHALL log every request. _(Ubiquitous)_
+`;
+
+describe("mergeRequirements", () => {
+  it("appends new requirements after the highest existing number, with their source", () => {
+    const change = parseRequirements(`# Requirements Document
+
+## Glossary
+
+| Term | Definition |
+|------|------------|
+| Client | Another definition |
+| Rate_Limit | Requests allowed per minute |
+
+## Requirements
+
+### Requirement 1: Limit requests
+
+#### Acceptance Criteria
+
+1. THE gateway SHALL apply the Rate_Limit. _(Ubiquitous)_
+2. THE gateway SHALL reject requests over the limit, see REQ-1.1. _(Ubiquitous)_
+`);
+    const merged = mergeRequirements(CAPABILITY, change, "specs/archive/2025-01-31-rate-limiter");
+
+    expect(merged.renumbered).toEqual([{ from: "REQ-1", to: "REQ-3" }]);
+    expect(merged.content).toContain(`### Requirement 3: Limit requests
+
+_Source: specs/archive/2025-01-31-rate-limiter (REQ-1)_`);
+    expect(merged.content).toContain("see REQ-3.1");
+    expect(merged.content).toContain("| Client | Caller of the gateway |\n| Rate_Limit | Requests allowed per minute |\n");
+    expect(merged.content).not.toContain("Another definition");
+  });
+
+  it("replaces modified and drops removed requirements of the baseline", () => {
+    const change = parseRequirements(`# Requirements Document
+
+**Baseline:** api-gateway
+
+## Modified Requirements
+
+### Requirement 2: Log requests
+
+#### Acceptance Criteria
+
+1. THE gateway SHALL log every request with its client. _(Ubiquitous)_
+
+## Removed Requirements
+
+### Requirement 1: Route requests
+`);
+    const merged = mergeRequirements(CAPABILITY, change, "specs/archive/2025-01-31-log-clients");
+
+    expect(merged).toMatchObject({ renumbered: [], modified: ["REQ-2"], removed: ["REQ-1"] });
+    expect(merged.content).not.toContain("Route requests");
+    expect(merged.content).toContain("log every request with its client");
+    expect(merged.content).not.toContain("SHALL log every request. _(Ubiquitous)_");
+  });
+
+  it("never appends removed requirements that the capability does not have", () => {
+    const change = parseRequirements(`# Requirements Document
+
+**Baseline:** api-gateway
+
+## Removed Requirements
+
+### Requirement 9: Cache responses
+`);
+    const merged = mergeRequirements(CAPABILITY, change, "specs/archive/2025-01-31-drop-cache");
+
+    expect(merged).toMatchObject({ renumbered: [], removed: [] });
+    expect(merged.unknownRemoved.map(req => req.id)).toEqual(["REQ-9"]);
+    expect(merged.content).toBe(CAPABILITY);
+  });
+});
+
+describe("archive_spec", () => {
+  async function completedChange(slug: string): Promise<string> {
+    const dir = await createProject();
+    await createSpec(slug, "Rate Limiter", dir);
+    const tasksFile = path.join(dir, "specs/changes", slug, "tasks.md");
+    await fs.writeFile(tasksFile, (await fs.readFile(tasksFile, "utf-8")).replace(/- \[ \]/g, "- [x]"), "utf-8");
+    return dir;
+  }
+
+  it("moves a completed change to the archive and creates its capability spec", async () => {
+    const dir = await completedChange("rate-limiter");
+    const result = await archiveSpec("rate-limiter", undefined, dir, undefined, "2025-01-31");
+
+    expect(result).toMatchObject({
+      archived: true,
+      archivePath: "specs/archive/2025-01-31-rate-limiter",
+      capabilityFile: "specs/capabilities/rate-limiter/requirements.md"
+    });
+    await expect(fs.access(path.join(dir, "specs/changes/rate-limiter"))).rejects.toThrow();
+    expect(await readProjectFile(dir, "specs/capabilities/rate-limiter/requirements.md")).toContain("_Source: specs/archive/2025-01-31-rate-limiter (REQ-1)_");
+  });
+
+  it("refuses a change with open tasks", async () => {
+    const dir = await createProject();
+    await createSpec("rate-limiter", "Rate Limiter", dir);
+    const result = await archiveSpec("rate-limiter", undefined, dir, undefined, "2025-01-31");
+
+    expect(result.archived).toBe(false);
+    expect(result.diagnostics.map(diagnostic => diagnostic.code)).toContain("ARC001");
+  });
+
+  it("refuses to merge into a baseline outside the capabilities folder", async () => {
+    const dir = await completedChange("rate-limiter");
+    const requirementsFile = path.join(dir, "specs/changes/rate-limiter/requirements.md");
+    const requirements = await fs.readFile(requirementsFile, "utf-8");
+    await fs.writeFile(requirementsFile, requirements.replace("## Introduction\n", "## Introduction\n\n**Baseline:** README.md\n"), "utf-8");
+    await fs.writeFile(path.join(dir, "README.md"), "# Project\n", "utf-8");
+    const result = await archiveSpec("rate-limiter", undefined, dir, undefined, "2025-01-31");
+
+    expect(result.archived).toBe(false);
+    expect(result.diagnostics.map(diagnostic => diagnostic.code)).toContain("ARC003");
+    expect(await readProjectFile(dir, "README.md")).toBe("# Project\n");
+  });
+
+  it("refuses to remove a requirement that the target capability does not have", async () => {
+    const dir = await completedChange("rate-limiter");
+    await fs.mkdir(path.join(dir, "specs/capabilities/api-gateway"), { recursive: true });
+    await fs.writeFile(path.join(dir, "specs/capabilities/api-gateway/requirements.md"), CAPABILITY.replace(/### Requirement 1:[\s\S]*?(?=### Requirement 2)/, ""), "utf-8");
+    const requirementsFile = path.join(dir, "specs/changes/rate-limiter/requirements.md");
+    const requirements = await fs.readFile(requirementsFile, "utf-8");
+    await fs.writeFile(
+      requirementsFile,
+      requirements.replace("## Introduction\n", "## Introduction\n\n**Baseline:** api-gateway\n") + "\n## Removed Requirements\n\n### Requirement 2: Log requests\n",
+      "utf-8"
+    );
+    const result = await archiveSpec("rate-limiter", "billing", dir, undefined, "2025-01-31");
+
+    expect(result.archived).toBe(false);
+    expect(result.diagnostics).toMatchObject([{ code: "DLT001", file: "specs/changes/rate-limiter/requirements.md" }]);
+    await expect(fs.access(path.join(dir, "specs/capabilities/billing"))).rejects.toThrow();
+    await expect(fs.access(path.join(dir, "specs/changes/rate-limiter"))).resolves.toBeUndefined();
+  });
+});
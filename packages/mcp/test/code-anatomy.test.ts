@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { checkCodeAnatomyPaths, checkCodeAnatomyReferences } from "../src/code-anatomy.js";
+import { parseDesign } from "../src/spec-model.js";
+import { createProject } from "./fixtures.js";
+
+const IMPACT_ANALYSIS = `## Impact Analysis
+
+| Affected Area | Impact Level | Notes |
+|---------------|--------------|-------|
+| src/gateway.ts | High | Registers the limiter |
+| POST /orders | Medium | Rate limited |
+
+### Breaking Changes
+
+| Change | Mitigation |
+|--------|------------|
+
+### Dependencies
+
+| Dependency | Notes |
+|------------|-------|
+
+### Risk Assessment
+
+| Risk | Mitigation |
+|------|------------|
+
+### Testing Requirements
+
+| Test | Notes |
+|------|-------|
+
+### Rollback Plan
+
+| Step | Notes |
+|------|-------|
+`;
+
+function design(anatomyRows: string, impactAnalysis: string = IMPACT_ANALYSIS): string {
+  return `# Design Document
+
+### DES-1: Limiter
+
+_Implements: REQ-1.1_
+
+## Code Anatomy
+
+| File Path | Purpose | Implements |
+|-----------|---------|------------|
+${anatomyRows}
+
+${impactAnalysis}`;
+}
+
+describe("checkCodeAnatomyReferences", () => {
+  it("reports entries without design elements or with undefined ones", () => {
+    const model = parseDesign(design("| src/limiter.ts (new) | Token bucket | DES-1 |\n| src/store.ts (new) | Counters | |\n| src/clock.ts (new) | Time | DES-9 |"));
+
+    expect(checkCodeAnatomyReferences(model).map(diagnostic => [diagnostic.code, diagnostic.message])).toEqual([
+      ["ANA002", "Code Anatomy entry src/store.ts does not name a design element"],
+      ["ANA002", "Code Anatomy entry src/clock.ts implements undefined design element DES-9"]
+    ]);
+  });
+});
+
+describe("checkCodeAnatomyPaths", () => {
+  it("sorts the paths into existing, new and missing ones", async () => {
+    const dir = await createProject({ "src/gateway.ts": "" });
+    const { report, diagnostics } = await checkCodeAnatomyPaths(parseDesign(design(
+      "| src/gateway.ts | Registration | DES-1 |\n| src/limiter.ts (new) | Token bucket | DES-1 |\n| src/store.ts | Counters | DES-1 |\n| src/**/*.test.ts | Tests | DES-1 |"
+    )), dir);
+
+    expect(report).toEqual({ existing: ["src/gateway.ts"], created: ["src/limiter.ts"], missing: ["src/store.ts"] });
+    expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.message])).toEqual([
+      ["ANA001", "Code Anatomy path src/store.ts does not exist"]
+    ]);
+  });
+
+  it("warns when a path marked as new already exists", async () => {
+    const dir = await createProject({ "src/gateway.ts": "", "src/limiter.ts": "" });
+    const { report, diagnostics } = await checkCodeAnatomyPaths(parseDesign(design(
+      "| src/gateway.ts | Registration | DES-1 |\n| src/limiter.ts (new) | Token bucket | DES-1 |"
+    )), dir);
+
+    expect(report).toEqual({ existing: ["src/gateway.ts", "src/limiter.ts"], created: [], missing: [] });
+    expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.severity, diagnostic.message])).toEqual([
+      ["ANA005", "warning", "Code Anatomy path src/limiter.ts is marked as new but already exists"]
+    ]);
+  });
+
+  it("reports paths outside the project without checking them", async () => {
+    const dir = await createProject({ "src/gateway.ts": "" });
+    const { report, diagnostics } = await checkCodeAnatomyPaths(parseDesign(design(
+      "| src/gateway.ts | Registration | DES-1 |\n| ../secret.ts | Probe | DES-1 |\n| /etc/passwd | Probe | DES-1 |"
+    )), dir);
+
+    expect(report).toEqual({ existing: ["src/gateway.ts"], created: [], missing: [] });
+    expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.message])).toEqual([
+      ["ANA006", "Code Anatomy path ../secret.ts is outside the project"],
+      ["ANA006", "Code Anatomy path /etc/passwd is outside the project"]
+    ]);
+  });
+
+  it("checks the file paths of the affected areas", async () => {
+    const dir = await createProject();
+    const { diagnostics } = await checkCodeAnatomyPaths(parseDesign(design("| src/limiter.ts (new) | Token bucket | DES-1 |")), dir);
+
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual(["Impact Analysis path src/gateway.ts does not exist"]);
+  });
+
+  it("requires an Impact Analysis when existing files are modified", async () => {
+    const dir = await createProject({ "src/gateway.ts": "" });
+    const { diagnostics } = await checkCodeAnatomyPaths(parseDesign(design("| src/gateway.ts | Registration | DES-1 |", "")), dir);
+
+    expect(diagnostics.map(diagnostic => diagnostic.code)).toEqual(["ANA003"]);
+  });
+
+  it("warns about missing sub-tables of the Impact Analysis", async () => {
+    const dir = await createProject({ "src/gateway.ts": "" });
+    const impactAnalysis = IMPACT_ANALYSIS.slice(0, IMPACT_ANALYSIS.indexOf("### Rollback Plan"));
+    const { diagnostics } = await checkCodeAnatomyPaths(parseDesign(design("| src/gateway.ts | Registration | DES-1 |", impactAnalysis)), dir);
+
+    expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.severity, diagnostic.message])).toEqual([
+      ["ANA004", "warning", "Impact Analysis has no Rollback Plan table"]
+    ]);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { applyConfig, DEFAULT_CONFIG, loadConfig, validateConfig } from "../src/config.js";
+import { createDiagnostic } from "../src/diagnostics.js";
+import { verifySpecStructure } from "../src/validators.js";
+import { createProject } from "./fixtures.js";
+
+describe("validateConfig", () => {
+  it("merges valid settings with the defaults", () => {
+    const { config, diagnostics } = validateConfig({
+      $schema: "./spec-driven.schema.json",
+      specRoot: "docs/specs/",
+      idPrefixes: { requirement: "FR" },
+      sections: { design: { optional: ["Security"] } },
+      rules: { DES007: "off", TSK006: { severity: "error" } }
+    });
+
+    expect(diagnostics).toEqual([]);
+    expect(config.specRoot).toBe("docs/specs");
+    expect(config.idPrefixes).toEqual({ requirement: "FR", design: "DES" });
+    expect(config.sections.design).toEqual({ required: DEFAULT_CONFIG.sections.design.required, optional: ["Security"] });
+    expect(config.sections.requirements).toEqual(DEFAULT_CONFIG.sections.requirements);
+    expect(config.rules).toEqual({ DES007: "off", TSK006: { severity: "error" } });
+  });
+
+  it("reports unknown keys at every level", () => {
+    const { diagnostics } = validateConfig({
+      specroot: "specs",
+      idPrefixes: { task: "T" },
+      sections: { glossary: {}, design: { recommended: [] } }
+    });
+
+    expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.message])).toEqual([
+      ["CFG002", "Unknown setting specroot"],
+      ["CFG002", "Unknown setting idPrefixes.task"],
+      ["CFG002", "Unknown setting sections.glossary"],
+      ["CFG002", "Unknown setting sections.design.recommended"]
+    ]);
+  });
+
+  it("keeps the spec root inside the project", () => {
+    for (const specRoot of ["../specs", "specs/../../other", "/abs/specs"]) {
+      const { config, diagnostics } = validateConfig({ specRoot });
+
+      expect(config.specRoot).toBe(DEFAULT_CONFIG.specRoot);
+      expect(diagnostics.map(diagnostic => diagnostic.code)).toEqual(["CFG001"]);
+    }
+  });
+
+  it("rejects invalid values and falls back to the defaults", () => {
+    const { config, diagnostics } = validateConfig({
+      idPrefixes: { requirement: "DES" },
+      allowedExtraFiles: "notes.md",
+      rules: { XYZ001: "off", CFG001: "off", DES007: "loud" }
+    });
+
+    expect(config.idPrefixes).toEqual(DEFAULT_CONFIG.idPrefixes);
+    expect(config.allowedExtraFiles).toEqual([]);
+    expect(config.rules).toEqual({});
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual([
+      "idPrefixes: requirement and design prefixes must differ",
+      "allowedExtraFiles: expected an array of glob patterns",
+      "rules.XYZ001: unknown rule code",
+      "rules.CFG001: unknown rule code",
+      "rules.DES007: invalid setting \"loud\""
+    ]);
+  });
+});
+
+describe("loadConfig", () => {
+  it("uses the defaults without a config file", async () => {
+    expect(await loadConfig(await createProject())).toEqual({ config: DEFAULT_CONFIG, diagnostics: [] });
+  });
+
+  it("reports invalid JSON", async () => {
+    const { config, diagnostics } = await loadConfig(await createProject({ ".spec-driven.json": "{ specRoot: }" }));
+
+    expect(config).toBe(DEFAULT_CONFIG);
+    expect(diagnostics[0]).toMatchObject({ code: "CFG001", file: ".spec-driven.json" });
+  });
+});
+
+describe("applyConfig", () => {
+  it("drops disabled rules and applies severity overrides", () => {
+    const { config } = validateConfig({ rules: { DES007: "off", STR003: "warning" } });
+    const result = applyConfig({
+      valid: false,
+      diagnostics: [
+        createDiagnostic("DES007", { message: "a", suggestedFix: "b" }),
+        createDiagnostic("STR003", { message: "c", suggestedFix: "d" })
+      ]
+    }, config);
+
+    expect(result.valid).toBe(true);
+    expect(result.diagnostics.map(diagnostic => [diagnostic.code, diagnostic.severity])).toEqual([["STR003", "warning"]]);
+  });
+});
+
+describe("verifySpecStructure", () => {
+  it("looks for specs under the configured root and allows the configured extra files", async () => {
+    const dir = await createProject({
+      "docs/specs/rate-limiter/requirements.md": "",
+      "docs/specs/rate-limiter/design.md": "",
+      "docs/specs/rate-limiter/tasks.md": "",
+      "docs/specs/rate-limiter/notes.md": "",
+      "docs/specs/rate-limiter/diagrams/flow.mmd": "",
+      "docs/specs/rate-limiter/draft.md": ""
+    });
+    const { config } = validateConfig({ specRoot: "docs/specs", allowedExtraFiles: ["notes.md", "diagrams/**"] });
+    const result = await verifySpecStructure("rate-limiter", dir, config);
+
+    expect(result.diagnostics.map(diagnostic => [diagnostic.code, diagnostic.file])).toEqual([
+      ["STR003", "docs/specs/rate-limiter/draft.md"]
+    ]);
+  });
+
+  it("suggests creating the spec folder under the configured root", async () => {
+    const { config } = validateConfig({ specRoot: "docs/specs" });
+    const result = await verifySpecStructure("rate-limiter", await createProject(), config);
+
+    expect(result.diagnostics[0]).toMatchObject({
+      code: "STR001",
+      file: "docs/specs/rate-limiter",
+      suggestedFix: "Create spec directory with: mkdir -p docs/specs/rate-limiter"
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { verifyImplementationCoverage } from "../src/coverage.js";
+import { createProject } from "./fixtures.js";
+
+const SPEC = "specs/changes/rate-limiter";
+
+const FILES = {
+  [`${SPEC}/requirements.md`]: `# Requirements Document
+
+## Requirements
+
+### Requirement 1: Limit requests
+
+#### Acceptance Criteria
+
+1. THE gateway SHALL reject requests over the limit.
+2. THE gateway SHALL log every rejection.
+`,
+  [`${SPEC}/design.md`]: `# Design Document
+
+### DES-1: Limiter
+
+_Implements: REQ-1.1_
+`,
+  [`${SPEC}/tasks.md`]: `# Implementation Tasks
+
+## Phase 1: Core
+
+- [x] 1.1 Add the limiter
+  - _Implements: DES-1_
+- [x] 1.2 Log rejections
+  - _Implements: REQ-1.2_
+`,
+  "src/limiter.ts": "// DES-1: token bucket\nexport const limit = 10; // not REQ-9.9\nconst text = \"REQ-1.2 in a string\";\n",
+  "test/limiter.test.ts": "it(\"REQ-1.1 rejects requests over the limit\", () => {});\n"
+};
+
+describe("verifyImplementationCoverage", () => {
+  it("counts references in code comments, test titles and design elements", async () => {
+    const dir = await createProject(FILES);
+    const { report } = await verifyImplementationCoverage("rate-limiter", dir);
+
+    expect(report.criteria.map(coverage => [coverage.criterion, coverage.code.map(ref => `${ref.file}:${ref.line}`), coverage.tests.map(ref => ref.id)])).toEqual([
+      ["REQ-1.1", ["src/limiter.ts:1"], ["REQ-1.1"]],
+      ["REQ-1.2", [], []]
+    ]);
+    expect(report.notImplemented).toEqual(["REQ-1.2"]);
+    expect(report.notTested).toEqual(["REQ-1.2"]);
+    expect(report.completedTasksWithoutCode.map(task => task.id)).toEqual(["1.2"]);
+    expect(report.filesScanned).toBe(2);
+  });
+
+  it("reports uncovered criteria and completed tasks without code", async () => {
+    const dir = await createProject(FILES);
+    const { diagnostics } = await verifyImplementationCoverage("rate-limiter", dir);
+
+    expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.file])).toEqual([
+      ["IMP001", `${SPEC}/requirements.md`],
+      ["IMP002", `${SPEC}/requirements.md`],
+      ["IMP003", `${SPEC}/tasks.md`]
+    ]);
+  });
+
+  it("skips ignored files", async () => {
+    const dir = await createProject({ ...FILES, ".gitignore": "src/\n" });
+    const { report } = await verifyImplementationCoverage("rate-limiter", dir);
+
+    expect(report.notImplemented).toEqual(["REQ-1.1", "REQ-1.2"]);
+  });
+});
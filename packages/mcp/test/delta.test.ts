@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { baselineFile, checkDeltas, readBaseline } from "../src/delta.js";
+import { parseRequirements } from "../src/spec-model.js";
+import { createProject } from "./fixtures.js";
+
+const BASELINE = `# Requirements Document
+
+## Requirements
+
+### Requirement 1: Route requests
+
+**User Story:** As a client, I want routing, so that requests reach the service.
+
+#### Acceptance Criteria
+
+1. THE gateway SHALL route every request.
+
+### Requirement 2: Log requests
+
+**User Story:** As an operator, I want logs, so that I can audit traffic.
+
+#### Acceptance Criteria
+
+1. THE gateway SHALL log every request.
+`;
+
+function delta(sections: string): string {
+  return `# Requirements Document
+
+## Introduction
+
+**Baseline:** api-gateway
+
+${sections}`;
+}
+
+describe("parseRequirements", () => {
+  it("reads the baseline and the delta section of each requirement", () => {
+    const model = parseRequirements(delta(`## Added Requirements
+
+### Requirement 3: Limit requests
+
+## Removed Requirements
+
+### Requirement 1: Route requests
+`));
+
+    expect(model.baseline).toEqual({ value: "api-gateway", line: 5 });
+    expect(model.requirements.map(req => [req.id, req.delta])).toEqual([["REQ-3", "added"], ["REQ-1", "removed"]]);
+  });
+});
+
+describe("checkDeltas", () => {
+  const baseline = parseRequirements(BASELINE);
+  const codes = (content: string, withBaseline = true) =>
+    checkDeltas(parseRequirements(content), withBaseline ? baseline : undefined).map(diagnostic => diagnostic.code);
+
+  it("accepts a change that adds, modifies and removes baseline requirements", () => {
+    expect(codes(delta(`## Added Requirements
+
+### Requirement 3: Limit requests
+
+**User Story:** As an operator, I want limits, so that the gateway stays up.
+
+#### Acceptance Criteria
+
+1. THE gateway SHALL limit requests.
+
+## Modified Requirements
+
+### Requirement 2: Log requests
+
+**User Story:** As an operator, I want logs, so that I can audit traffic.
+
+#### Acceptance Criteria
+
+1. THE gateway SHALL log every request with its client.
+
+## Removed Requirements
+
+### Requirement 1: Route requests
+`))).toEqual([]);
+  });
+
+  it("reports delta sections without a baseline (DLT004)", () => {
+    expect(codes("## Removed Requirements\n\n### Requirement 1: Route requests\n", false)).toEqual(["DLT004"]);
+  });
+
+  it("reports modified and removed requirements missing from the baseline (DLT001)", () => {
+    expect(codes(delta("## Removed Requirements\n\n### Requirement 7: Cache responses\n"))).toEqual(["DLT001"]);
+  });
+
+  it("reports modified requirements that do not restate their text (DLT002)", () => {
+    expect(codes(delta(`## Modified Requirements
+
+### Requirement 2: Log requests
+
+**User Story:** Same as before.
+
+#### Acceptance Criteria
+
+1. THE gateway SHALL log every request, ...
+`))).toEqual(["DLT002"]);
+    expect(codes(delta("## Modified Requirements\n\n### Requirement 2: Log requests\n"))).toEqual(["DLT002"]);
+  });
+
+  it("reports added requirements that reuse a baseline ID (DLT003)", () => {
+    expect(codes(delta(`## Added Requirements
+
+### Requirement 2: Limit requests
+
+**User Story:** As an operator, I want limits, so that the gateway stays up.
+
+#### Acceptance Criteria
+
+1. THE gateway SHALL limit requests.
+`))).toEqual(["DLT003"]);
+  });
+
+  it("warns about modified requirements identical to the baseline (DLT005)", () => {
+    const unchanged = BASELINE.slice(BASELINE.indexOf("### Requirement 2"));
+
+    expect(codes(delta(`## Modified Requirements\n\n${unchanged}`))).toEqual(["DLT005"]);
+  });
+});
+
+describe("readBaseline", () => {
+  it("resolves a capability name next to the spec root", async () => {
+    const dir = await createProject({ "specs/capabilities/api-gateway/requirements.md": BASELINE });
+    const result = await readBaseline(parseRequirements(delta("")), dir);
+
+    expect(baselineFile("api-gateway")).toBe("specs/capabilities/api-gateway/requirements.md");
+    expect(result).toEqual({ file: "specs/capabilities/api-gateway/requirements.md", content: BASELINE, diagnostics: [] });
+  });
+
+  it("reports baselines that are missing or outside the project", async () => {
+    const dir = await createProject();
+    const missing = await readBaseline(parseRequirements(delta("")), dir);
+    const outside = await readBaseline(parseRequirements(delta("").replace("api-gateway", "../other/requirements.md")), dir);
+
+    expect(missing.diagnostics.map(diagnostic => diagnostic.message)).toEqual(["Baseline spec specs/capabilities/api-gateway/requirements.md not found"]);
+    expect(outside.diagnostics.map(diagnostic => diagnostic.message)).toEqual(["Baseline ../other/requirements.md is outside the project"]);
+  });
+});
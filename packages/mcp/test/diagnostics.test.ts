@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { createDiagnostic, formatDiagnostic, RULES, toSarif, withFile } from "../src/diagnostics.js";
+import { verifyRequirementsFile } from "../src/validators.js";
+
+describe("createDiagnostic", () => {
+  it("takes the severity, category and skill doc from the rule", () => {
+    const diagnostic = createDiagnostic("REQ006", { message: "REQ-3 has no acceptance criteria", suggestedFix: "Add criteria", line: 42 });
+
+    expect(diagnostic).toEqual({
+      code: "REQ006",
+      severity: RULES.REQ006.severity,
+      category: RULES.REQ006.category,
+      file: undefined,
+      range: { start: { line: 42, column: 1 }, end: { line: 42, column: 1 } },
+      message: "REQ-3 has no acceptance criteria",
+      suggestedFix: "Add criteria",
+      skillDocLink: RULES.REQ006.skillDocLink
+    });
+  });
+
+  it("rejects unknown rule codes", () => {
+    expect(() => createDiagnostic("XXX999", { message: "", suggestedFix: "" })).toThrow("Unknown rule code: XXX999");
+  });
+
+  it("files the rules of each tool family under its own category", () => {
+    expect(["QLT001", "TSK015", "DIF001", "WSP001"].map(code => RULES[code].category)).toEqual([
+      "Quality Error",
+      "Task Status Error",
+      "Comparison Error",
+      "Workspace Error"
+    ]);
+  });
+
+  it("renders file, position, code and fix", () => {
+    const diagnostic = withFile([createDiagnostic("STR002", { message: "Missing tasks.md", suggestedFix: "Create it", line: 3 })], "specs/x/tasks.md")[0];
+
+    expect(formatDiagnostic(diagnostic)).toBe("specs/x/tasks.md:3:1 - error STR002: Missing tasks.md → Create it");
+  });
+});
+
+describe("toSarif", () => {
+  const diagnostics = [
+    createDiagnostic("REQ006", {
+      message: "REQ-3 has no acceptance criteria",
+      suggestedFix: "Add a #### Acceptance Criteria list",
+      range: { start: { line: 42, column: 1 }, end: { line: 42, column: 31 } },
+      file: "specs\\changes\\rate-limiter\\requirements.md"
+    }),
+    createDiagnostic("STR001", { message: "Spec directory not found", suggestedFix: "Create it" })
+  ];
+  const log = toSarif(diagnostics) as {
+    version: string;
+    $schema: string;
+    runs: { tool: { driver: { name: string; rules: { id: string }[] } }; results: Record<string, unknown>[] }[];
+  };
+
+  it("is a SARIF 2.1.0 log with a single run describing every rule", () => {
+    expect(log.version).toBe("2.1.0");
+    expect(log.$schema).toContain("sarif-2.1.0");
+    expect(log.runs).toHaveLength(1);
+    expect(log.runs[0].tool.driver.name).toBe("spec-driven-asteroids");
+    expect(log.runs[0].tool.driver.rules.map(rule => rule.id)).toEqual(Object.keys(RULES));
+  });
+
+  it("links each result to its rule and reports its location with forward slashes", () => {
+    const [result] = log.runs[0].results;
+    const rules = log.runs[0].tool.driver.rules;
+
+    expect(rules[result.ruleIndex as number].id).toBe("REQ006");
+    expect(result).toMatchObject({
+      ruleId: "REQ006",
+      level: "error",
+      message: { text: "REQ-3 has no acceptance criteria. Add a #### Acceptance Criteria list" },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: "specs/changes/rate-limiter/requirements.md" },
+          region: { startLine: 42, startColumn: 1, endLine: 42, endColumn: 31 }
+        }
+      }],
+      properties: { category: RULES.REQ006.category, suggestedFix: "Add a #### Acceptance Criteria list" }
+    });
+  });
+
+  it("leaves out the location of findings without a file", () => {
+    expect(log.runs[0].results[1]).not.toHaveProperty("locations");
+  });
+});
+
+describe("validator diagnostics", () => {
+  it("report each finding with its rule code, file and line", () => {
+    const result = verifyRequirementsFile(`# Requirements Document
+
+## Introduction
+
+Rate limiting.
+
+## Glossary
+
+| Term | Definition |
+|------|------------|
+
+## Requirements
+
+### Requirement 1: Limit requests
+
+**User Story:** As an operator, I want limits, so that the gateway stays up.
+`, "specs/changes/rate-limiter/requirements.md");
+    const missingCriteria = result.diagnostics.find(diagnostic => diagnostic.code === "REQ006");
+
+    expect(result.valid).toBe(false);
+    expect(missingCriteria).toMatchObject({ file: "specs/changes/rate-limiter/requirements.md", range: { start: { line: 14 } } });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { analyzeCriterion, checkEars } from "../src/ears.js";
+import { parseRequirements, type AcceptanceCriterion } from "../src/spec-model.js";
+
+function criterion(text: string, annotation?: string): AcceptanceCriterion {
+  const range = { start: { line: 1, column: 1 }, end: { line: 1, column: text.length + 1 } };
+  return { id: "REQ-1.1", number: "1.1", requirementId: "REQ-1", text, annotation, numbered: true, line: 1, range };
+}
+
+describe("analyzeCriterion", () => {
+  it.each([
+    ["THE gateway SHALL log every request.", "Ubiquitous"],
+    ["WHEN a request arrives, THE gateway SHALL count it.", "Event-driven"],
+    ["WHILE the limit is exceeded, THE gateway SHALL reject requests.", "State-driven"],
+    ["WHERE quotas are enabled, THE gateway SHALL apply them.", "Optional"],
+    ["IF the store is unreachable, THEN THE gateway SHALL allow the request.", "Unwanted behavior"],
+    ["WHILE the gateway is degraded, WHEN a request arrives, THE gateway SHALL queue it.", "Complex"]
+  ])("classifies %s as %s", (text, pattern) => {
+    const analysis = analyzeCriterion(criterion(text, pattern));
+
+    expect(analysis.pattern).toBe(pattern);
+    expect(analysis.systemName).toBe("gateway");
+    expect(analysis.valid).toBe(true);
+  });
+
+  it("splits the preconditions, the system name and the response", () => {
+    const analysis = analyzeCriterion(criterion("WHEN a, b or c happen, THE gateway SHALL reject the request."));
+
+    expect(analysis.clauses).toEqual([{ keyword: "WHEN", text: "a, b or c happen" }]);
+    expect(analysis.response).toBe("reject the request");
+  });
+
+  it("reports a criterion without SHALL", () => {
+    const analysis = analyzeCriterion(criterion("The gateway rejects requests."));
+
+    expect(analysis.pattern).toBeUndefined();
+    expect(analysis.valid).toBe(false);
+  });
+
+  it("reports IF without THEN", () => {
+    const analysis = analyzeCriterion(criterion("IF the store is unreachable, THE gateway SHALL allow the request.", "Unwanted behavior"));
+
+    expect(analysis.problems).toContain("IF clause without THEN");
+  });
+});
+
+describe("checkEars", () => {
+  it("reports missing and mismatched pattern annotations at the criterion", () => {
+    const model = parseRequirements(`## Requirements
+
+### Requirement 1: Limit requests
+
+#### Acceptance Criteria
+
+1. WHEN a request arrives, THE gateway SHALL count it. _(Ubiquitous)_
+2. THE gateway SHALL log every request.
+`);
+    const { report, diagnostics } = checkEars(model);
+
+    expect(report.map(analysis => analysis.pattern)).toEqual(["Event-driven", "Ubiquitous"]);
+    expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.range?.start.line])).toEqual([
+      ["EARS005", 7],
+      ["EARS006", 8]
+    ]);
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Temporary projects for the tests that read and write spec files.
+ */
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach } from "vitest";
+
+const projects: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(projects.splice(0).map(dir => fs.rm(dir, { recursive: true, force: true })));
+});
+
+/**
+ * Creates a project directory with the given files, keyed by their path relative
+ * to the project. The directory is removed after the test.
+ */
+export async function createProject(files: Record<string, string> = {}): Promise<string> {
+  const dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), "spec-driven-test-")));
+  projects.push(dir);
+  for (const [file, content] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(dir, file)), { recursive: true });
+    await fs.writeFile(path.join(dir, file), content, "utf-8");
+  }
+  return dir;
+}
+
+export async function readProjectFile(dir: string, file: string): Promise<string> {
+  return fs.readFile(path.join(dir, file), "utf-8");
+}
@@ -0,0 +1,149 @@
+import fs from "fs/promises";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { formatSpec, formatSpecDocuments } from "../src/format.js";
+import { unifiedDiff } from "../src/line-diff.js";
+import { createProject, readProjectFile } from "./fixtures.js";
+
+const DIR = "specs/changes/rate-limiter";
+
+const REQUIREMENTS = `# Requirements Document
+
+## Requirements
+
+### Requirement 1: Limit requests
+
+#### Acceptance Criteria
+
+1. WHEN a request arrives, THE gateway SHALL count it. _(Event-driven)_
+2. THE gateway SHALL reject requests over the limit. _(Ubiquitous)_
+`;
+
+const DESIGN = `# Design Document
+
+## Components
+
+### DES-1: Limiter
+
+_Implements: REQ-1.1, REQ-1.2_
+
+## Traceability Matrix
+
+| Design Element | Requirements |
+|----------------|--------------|
+| DES-1 | REQ-1.1, REQ-1.2 |
+`;
+
+const TASKS = `# Implementation Tasks
+
+## Phase 1: Core
+
+- [ ] 1.1 Add the limiter
+  - _Implements: DES-1, REQ-1.2_
+`;
+
+async function createSpecProject(): Promise<string> {
+  return createProject({
+    [`${DIR}/requirements.md`]: REQUIREMENTS,
+    [`${DIR}/design.md`]: DESIGN,
+    [`${DIR}/tasks.md`]: TASKS
+  });
+}
+
+describe("formatSpecDocuments", () => {
+  it("renumbers requirements, criteria and design elements and rewrites the references once", () => {
+    const { contents, renumbered } = formatSpecDocuments({
+      "requirements.md": REQUIREMENTS.replace("Requirement 1", "Requirement 3").replace("2. THE", "5. THE"),
+      "design.md": DESIGN.replace(/DES-1/g, "DES-2").replace(/REQ-1\.2/g, "REQ-3.5").replace(/REQ-1\.1/g, "REQ-3.1"),
+      "tasks.md": TASKS.replace("DES-1, REQ-1.2", "DES-2, REQ-3.5").replace("1.1 Add", "1.4 Add")
+    });
+
+    expect(renumbered).toEqual([
+      { kind: "requirement", from: "REQ-3", to: "REQ-1" },
+      { kind: "criterion", from: "REQ-3.1", to: "REQ-1.1" },
+      { kind: "criterion", from: "REQ-3.5", to: "REQ-1.2" },
+      { kind: "design", from: "DES-2", to: "DES-1" },
+      { kind: "task", from: "1.4", to: "1.1" }
+    ]);
+    expect(contents["requirements.md"]).toBe(REQUIREMENTS);
+    expect(contents["design.md"]).toBe(DESIGN);
+    expect(contents["tasks.md"]).toContain(TASKS);
+  });
+
+  it("adds a missing Final Checkpoint phase", () => {
+    const { contents, addedFinalCheckpoint } = formatSpecDocuments({ "tasks.md": TASKS });
+
+    expect(addedFinalCheckpoint).toBe(true);
+    expect(contents["tasks.md"]).toMatch(/## Phase 2: Final Checkpoint/);
+  });
+
+  it("leaves references inside code blocks alone", () => {
+    const example = "\n```markdown\n_Implements: REQ-3.1, DES-2_\n```\n";
+    const { contents } = formatSpecDocuments({
+      "requirements.md": REQUIREMENTS.replace("Requirement 1", "Requirement 3"),
+      "design.md": DESIGN.replace(/DES-1/g, "DES-2").replace(/REQ-1\./g, "REQ-3.") + example
+    });
+
+    expect(contents["requirements.md"]).toBe(REQUIREMENTS);
+    expect(contents["design.md"]).toBe(DESIGN + example);
+  });
+
+  it("keeps the CRLF line endings of a file", () => {
+    const crlf = (text: string) => text.replace(/\n/g, "\r\n");
+    const { contents } = formatSpecDocuments({
+      "requirements.md": crlf(REQUIREMENTS),
+      "design.md": crlf(DESIGN),
+      "tasks.md": crlf(TASKS.replace("1.1 Add", "1.3 Add"))
+    });
+
+    expect(contents["requirements.md"]).toBe(crlf(REQUIREMENTS));
+    expect(contents["design.md"]).toBe(crlf(DESIGN));
+    expect(contents["tasks.md"]).toContain(crlf(TASKS));
+    expect(contents["tasks.md"]).not.toMatch(/[^\r]\n/);
+  });
+
+  it("leaves well-formed documents unchanged", () => {
+    const { renumbered, rebuiltMatrix, contents } = formatSpecDocuments({ "requirements.md": REQUIREMENTS, "design.md": DESIGN });
+
+    expect(renumbered).toEqual([]);
+    expect(rebuiltMatrix).toBe(false);
+    expect(contents["design.md"]).toBe(DESIGN);
+  });
+});
+
+describe("formatSpec", () => {
+  it("returns a diff of the changed files without writing them", async () => {
+    const dir = await createSpecProject();
+    const tasks = TASKS.replace("1.1 Add", "1.3 Add");
+    await fs.writeFile(path.join(dir, DIR, "tasks.md"), tasks, "utf-8");
+    const result = await formatSpec("rate-limiter", false, "diff", dir);
+
+    expect(result).toMatchObject({ written: false, changedFiles: [`${DIR}/tasks.md`], addedFinalCheckpoint: true });
+    expect(result.diff).toContain("-- [ ] 1.3 Add the limiter\n+- [ ] 1.1 Add the limiter");
+    expect(await readProjectFile(dir, `${DIR}/tasks.md`)).toBe(tasks);
+  });
+
+  it("writes the formatted files", async () => {
+    const dir = await createSpecProject();
+    const result = await formatSpec("rate-limiter", true, "files", dir);
+
+    expect(result.written).toBe(true);
+    expect(await readProjectFile(dir, `${DIR}/tasks.md`)).toBe(result.files?.[`${DIR}/tasks.md`]);
+  });
+
+  it("rejects slugs that are not a single spec folder", async () => {
+    const dir = await createSpecProject();
+    const result = await formatSpec("../changes/rate-limiter", true, "files", dir);
+
+    expect(result).toMatchObject({ valid: false, written: false, diagnostics: [{ code: "STR005" }] });
+  });
+});
+
+describe("unifiedDiff", () => {
+  it("renders the changed lines with their context", () => {
+    expect(unifiedDiff("a.md", "1\n2\n3\n4\n5\n6\n7\n8\n9", "1\n2\n3\n4\nfive\n6\n7\n8\n9", 1)).toBe(
+      "--- a/a.md\n+++ b/a.md\n@@ -4,3 +4,3 @@\n 4\n-5\n+five\n 6"
+    );
+    expect(unifiedDiff("a.md", "same", "same")).toBe("");
+  });
+});
@@ -0,0 +1,122 @@
+import { execFileSync } from "child_process";
+import fs from "fs/promises";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { getSpecHistory, readGitLog } from "../src/git-history.js";
+import { createProject } from "./fixtures.js";
+
+const SPEC = "specs/changes/rate-limiter";
+
+function git(dir: string, ...args: string[]): string {
+  return execFileSync("git", ["-c", "user.name=Dev", "-c", "user.email=dev@example.com", "-c", "commit.gpgsign=false", ...args], {
+    cwd: dir,
+    encoding: "utf-8"
+  });
+}
+
+async function commit(dir: string, file: string, message: string): Promise<void> {
+  await fs.mkdir(path.dirname(path.join(dir, file)), { recursive: true });
+  await fs.appendFile(path.join(dir, file), `${message}\n`, "utf-8");
+  git(dir, "add", "-A");
+  git(dir, "commit", "-q", "-m", message);
+}
+
+async function repository(): Promise<string> {
+  const dir = await createProject({
+    [`${SPEC}/requirements.md`]: `# Requirements Document
+
+## Requirements
+
+### Requirement 1: Limit requests
+
+#### Acceptance Criteria
+
+1. THE gateway SHALL reject requests over the limit.
+2. THE gateway SHALL log every rejection.
+`,
+    [`${SPEC}/design.md`]: `# Design Document
+
+### DES-1: Limiter
+
+_Implements: REQ-1.1_
+
+## Code Anatomy
+
+| File Path | Purpose | Implements |
+|-----------|---------|------------|
+| src/limiter/ | Token bucket | DES-1 |
+`,
+    [`${SPEC}/tasks.md`]: `# Implementation Tasks
+
+## Phase 1: Core
+
+- [x] 1.1 Add the limiter
+  - _Implements: DES-1_
+- [x] 1.2 Log rejections
+  - _Implements: REQ-1.2_
+`
+  });
+  git(dir, "init", "-q");
+  git(dir, "add", "-A");
+  git(dir, "commit", "-q", "-m", "Add the rate limiter spec");
+  await commit(dir, "src/limiter/bucket.ts", "Add the token bucket\n\nImplements DES-1 and REQ-1.1.");
+  await commit(dir, "src/limiter/bucket.ts", "Tweak the bucket size");
+  await commit(dir, "src/other.ts", "Unrelated change for REQ-7.1");
+  return dir;
+}
+
+describe("readGitLog", () => {
+  it("reads the cited IDs and the changed files of each commit, newest first", async () => {
+    const dir = await repository();
+    const log = await readGitLog(dir);
+
+    expect(log.map(entry => [entry.subject, entry.ids, entry.files])).toEqual([
+      ["Unrelated change for REQ-7.1", ["REQ-7.1"], ["src/other.ts"]],
+      ["Tweak the bucket size", [], ["src/limiter/bucket.ts"]],
+      ["Add the token bucket", ["REQ-1.1", "DES-1"], ["src/limiter/bucket.ts"]],
+      ["Add the rate limiter spec", [], [`${SPEC}/design.md`, `${SPEC}/requirements.md`, `${SPEC}/tasks.md`]]
+    ]);
+    expect(log[0]).toMatchObject({ author: "Dev", hash: expect.stringMatching(/^[0-9a-f]{40}$/) });
+  });
+});
+
+describe("getSpecHistory", () => {
+  it("reports commits per ID, completed tasks without commits and commits without IDs", async () => {
+    const dir = await repository();
+    const { report, diagnostics } = await getSpecHistory("rate-limiter", "HEAD", dir);
+
+    expect(report.commitsScanned).toBe(4);
+    expect(report.commits.map(entry => entry.subject)).toEqual(["Add the token bucket"]);
+    expect(Object.keys(report.commitsById)).toEqual(["REQ-1.1", "DES-1"]);
+    expect(report.completedTasksWithoutCommit.map(task => task.id)).toEqual(["1.2"]);
+    expect(report.commitsWithoutIds.map(entry => entry.subject)).toEqual(["Tweak the bucket size"]);
+    expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.file])).toEqual([
+      ["GIT002", `${SPEC}/tasks.md`],
+      ["GIT003", `${SPEC}/design.md`]
+    ]);
+  });
+
+  it("limits the history to the revision range", async () => {
+    const dir = await repository();
+    const { report } = await getSpecHistory("rate-limiter", "HEAD~2..HEAD", dir);
+
+    expect(report.commitsScanned).toBe(2);
+    expect(report.commits).toEqual([]);
+  });
+
+  it("rejects ranges that git would read as options and reports git failures", async () => {
+    const dir = await repository();
+    const option = await getSpecHistory("rate-limiter", "--output=/tmp/x", dir);
+    const unknown = await getSpecHistory("rate-limiter", "no-such-branch", dir);
+
+    expect(option.diagnostics.map(diagnostic => diagnostic.message)).toEqual(["Invalid revision range \"--output=/tmp/x\""]);
+    expect(unknown).toMatchObject({ valid: false, diagnostics: [{ code: "GIT001" }] });
+  });
+
+  it("rejects slugs that are not a single spec folder", async () => {
+    const dir = await repository();
+    const result = await getSpecHistory("../changes/rate-limiter", "HEAD", dir);
+
+    expect(result).toMatchObject({ valid: false, diagnostics: [{ code: "STR005" }], report: { commitsScanned: 0 } });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { checkGlossary, checkGlossaryConflicts, getProjectGlossary, renderProjectGlossary } from "../src/glossary.js";
+import { parseRequirements } from "../src/spec-model.js";
+import { createProject } from "./fixtures.js";
+
+function requirements(glossaryRows: string, criteria: string): string {
+  return `# Requirements Document
+
+## Glossary
+
+| Term | Definition |
+|------|------------|
+${glossaryRows}
+
+## Requirements
+
+### Requirement 1: Limit requests
+
+#### Acceptance Criteria
+
+${criteria}
+`;
+}
+
+describe("checkGlossary", () => {
+  it("accepts terms that are defined and used, in any case", () => {
+    const model = parseRequirements(requirements(
+      "| Rate_Limit | Requests allowed per minute |",
+      "1. WHEN a client exceeds the rate_limit, THE gateway SHALL reject the request with MAX_RETRIES set."
+    ));
+
+    expect(checkGlossary(model)).toEqual([]);
+  });
+
+  it("reports unused terms (GLO001)", () => {
+    const model = parseRequirements(requirements(
+      "| Rate_Limit | Requests allowed per minute |\n| Burst_Size | Extra requests |",
+      "1. THE gateway SHALL enforce the Rate_Limit, see `Burst_Size`."
+    ));
+
+    expect(checkGlossary(model).map(diagnostic => [diagnostic.code, diagnostic.message])).toEqual([
+      ["GLO001", "Glossary term Burst_Size is never used"]
+    ]);
+  });
+
+  it("reports Capitalized_Snake_Case terms of the criteria that are not defined, once (GLO002)", () => {
+    const model = parseRequirements(requirements(
+      "| Rate_Limit | Requests allowed per minute |",
+      "1. THE gateway SHALL enforce the Rate_Limit per Client_Id.\n2. THE gateway SHALL log the Client_Id."
+    ));
+
+    expect(checkGlossary(model).map(diagnostic => [diagnostic.code, diagnostic.message, diagnostic.range?.start.line])).toEqual([
+      ["GLO002", "Client_Id is used in REQ-1.1 but not defined in the glossary", 15]
+    ]);
+  });
+
+  it("reports terms defined twice (GLO003)", () => {
+    const model = parseRequirements(requirements(
+      "| Rate_Limit | Requests allowed per minute |\n| rate_limit | Another definition |",
+      "1. THE gateway SHALL enforce the Rate_Limit."
+    ));
+
+    expect(checkGlossary(model).map(diagnostic => [diagnostic.code, diagnostic.message])).toEqual([
+      ["GLO003", "Glossary term rate_limit is defined twice (first on line 7)"]
+    ]);
+  });
+});
+
+describe("project glossary", () => {
+  const FILES = {
+    "specs/changes/rate-limiter/requirements.md": requirements("| Rate_Limit | Requests allowed per minute. |", "1. THE gateway SHALL enforce the Rate_Limit."),
+    "specs/changes/quotas/requirements.md": requirements("| Rate_Limit | Requests allowed per day |", "1. THE gateway SHALL enforce the Rate_Limit."),
+    "specs/capabilities/api-gateway/requirements.md": requirements("| rate_limit | requests allowed per minute |\n| Client | Caller |", "1. THE gateway SHALL route the Client.")
+  };
+
+  it("reports terms that other specs define differently (GLO004)", async () => {
+    const dir = await createProject(FILES);
+    const model = parseRequirements(FILES["specs/changes/rate-limiter/requirements.md"]);
+    const diagnostics = await checkGlossaryConflicts("rate-limiter", model, dir);
+
+    expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.message])).toEqual([
+      ["GLO004", "Glossary term Rate_Limit is defined differently in specs/changes/quotas (\"Requests allowed per day\")"]
+    ]);
+  });
+
+  it("merges the glossaries of all specs and capabilities", async () => {
+    const dir = await createProject(FILES);
+    const { glossary, diagnostics } = await getProjectGlossary(dir);
+
+    expect(glossary.map(entry => [entry.term, entry.specs])).toEqual([
+      ["Client", ["specs/capabilities/api-gateway"]],
+      ["Rate_Limit", ["specs/changes/quotas", "specs/changes/rate-limiter", "specs/capabilities/api-gateway"]]
+    ]);
+    expect(glossary[1].definitions).toEqual([
+      { definition: "Requests allowed per day", specs: ["specs/changes/quotas"] },
+      { definition: "Requests allowed per minute.", specs: ["specs/changes/rate-limiter", "specs/capabilities/api-gateway"] }
+    ]);
+    expect(diagnostics.map(diagnostic => diagnostic.code)).toEqual(["GLO004"]);
+    expect(renderProjectGlossary(glossary).split("\n")[2]).toBe("| Client | Caller | specs/capabilities/api-gateway |");
+  });
+});
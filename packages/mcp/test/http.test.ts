@@ -0,0 +1,204 @@
+import fs from "fs/promises";
+import net from "net";
+import path from "path";
+import { pathToFileURL } from "url";
+import { afterEach, describe, expect, it } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { ListRootsRequestSchema, ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { MAX_BODY_BYTES, mcpHttpUrl, startHttpServer, type HttpServerOptions } from "../src/http.js";
+import { createServer } from "../src/server.js";
+import { createProject } from "./fixtures.js";
+
+const running: { close: () => Promise<void> }[] = [];
+
+afterEach(async () => {
+  await Promise.all(running.splice(0).map(server => server.close()));
+});
+
+async function freePort(): Promise<number> {
+  const probe = net.createServer();
+  await new Promise<void>(resolve => probe.listen(0, "127.0.0.1", resolve));
+  const { port } = probe.address() as net.AddressInfo;
+  await new Promise<void>(resolve => probe.close(() => resolve()));
+  return port;
+}
+
+async function start(root?: string, options: Partial<HttpServerOptions> = {}, createSession = () => createServer({ root })) {
+  const server = await startHttpServer(createSession, { host: "127.0.0.1", port: await freePort(), ...options });
+  running.push(server);
+  return server;
+}
+
+async function connect(url: string, roots?: string[]): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+  const client = new Client({ name: "test", version: "1.0.0" }, roots ? { capabilities: { roots: { listChanged: true } } } : {});
+  if (roots) {
+    client.setRequestHandler(ListRootsRequestSchema, async () => ({ roots: roots.map(root => ({ uri: pathToFileURL(root).href })) }));
+  }
+  const transport = new StreamableHTTPClientTransport(new URL(url));
+  await client.connect(transport);
+  running.push(client);
+  return { client, transport };
+}
+
+async function post(url: string, body: string, headers: Record<string, string> = {}): Promise<{ status: number; body: unknown }> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream", ...headers },
+    body
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+/** Sends a POST request with the given headers over a plain socket and returns its status */
+function rawPost(url: string, headers: string[], body: string = ""): Promise<number> {
+  const { hostname, pathname, port } = new URL(url);
+  return new Promise<number>((resolve, reject) => {
+    const request = net.connect(Number(port), hostname, () => {
+      request.end([
+        `POST ${pathname} HTTP/1.1`,
+        ...headers,
+        "Content-Type: application/json",
+        "Accept: application/json, text/event-stream",
+        "Connection: close",
+        "",
+        body
+      ].join("\r\n"));
+    });
+    let data = "";
+    request.on("data", chunk => (data += chunk));
+    request.on("end", () => resolve(Number(data.split(" ")[1])));
+    request.on("error", reject);
+  });
+}
+
+describe("mcpHttpUrl", () => {
+  it("brackets IPv6 hosts", () => {
+    expect(mcpHttpUrl("127.0.0.1", 3737)).toBe("http://127.0.0.1:3737/mcp");
+    expect(mcpHttpUrl("::1", 3737)).toBe("http://[::1]:3737/mcp");
+  });
+});
+
+describe("startHttpServer", () => {
+  it("gives each client its own session and ends it on DELETE", async () => {
+    const server = await start();
+    const first = await connect(server.url);
+    const second = await connect(server.url);
+
+    expect(first.transport.sessionId).toBeDefined();
+    expect(second.transport.sessionId).not.toBe(first.transport.sessionId);
+    expect(server.sessions()).toHaveLength(2);
+    expect((await first.client.listTools()).tools.map(tool => tool.name)).toContain("verify_complete_spec");
+
+    await first.transport.terminateSession();
+    expect(server.sessions()).toHaveLength(1);
+  });
+
+  it("closes sessions that stay idle", async () => {
+    const server = await start(undefined, { sessionIdleMs: 50 });
+    const { client } = await connect(server.url);
+
+    expect(server.sessions()).toHaveLength(1);
+    await client.listTools();
+    await new Promise(resolve => setTimeout(resolve, 300));
+    expect(server.sessions()).toHaveLength(0);
+  });
+
+  it("returns the failures of the server as a JSON-RPC error", async () => {
+    const server = await start(undefined, {}, () => {
+      throw new Error("Cannot create the session");
+    });
+    const initialize = JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } }
+    });
+
+    expect(await post(server.url, initialize)).toEqual({
+      status: 500,
+      body: { jsonrpc: "2.0", error: { code: -32603, message: "Internal error: Cannot create the session" }, id: null }
+    });
+  });
+
+  it("watches the spec files of the roots of each session and follows root changes", async () => {
+    const tasks = "specs/changes/rate-limiter/tasks.md";
+    const [first, second] = [await createProject({ [tasks]: "" }), await createProject({ [tasks]: "" })];
+    const server = await start(await createProject());
+    const roots = [first];
+    const { client } = await connect(server.url, roots);
+    const updated: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, async notification => {
+      updated.push(notification.params.uri);
+    });
+    await client.subscribeResource({ uri: "spec://rate-limiter/tasks.md" });
+    const edit = async (dir: string) => {
+      updated.length = 0;
+      // Gives the watchers of changed roots time to start
+      await new Promise(resolve => setTimeout(resolve, 100));
+      await fs.writeFile(path.join(dir, tasks), "# Implementation Tasks\n");
+      await expect.poll(() => updated, { timeout: 2000 }).toEqual(["spec://rate-limiter/tasks.md"]);
+    };
+
+    await edit(first);
+    roots.splice(0, 1, second);
+    await client.sendRootsListChanged();
+    await edit(second);
+  });
+
+  it("reloads the shared project settings when .spec-driven.json changes", async () => {
+    const dir = await createProject({ ".spec-driven.json": JSON.stringify({ specRoot: "docs/specs" }) });
+    const server = await start(dir);
+    const createSpec = async (slug: string) => {
+      const { client } = await connect(server.url);
+      const result = await client.callTool({ name: "create_spec", arguments: { slug, title: "Rate Limiter" } });
+      return JSON.parse((result.content as { text: string }[])[0].text).files[0];
+    };
+
+    expect(await createSpec("first")).toBe("docs/specs/first/requirements.md");
+    expect(await createSpec("second")).toBe("docs/specs/second/requirements.md");
+
+    const configFile = path.join(dir, ".spec-driven.json");
+    await fs.writeFile(configFile, JSON.stringify({ specRoot: "specs/active" }));
+    await fs.utimes(configFile, new Date(), new Date(Date.now() + 10_000));
+    expect(await createSpec("third")).toBe("specs/active/third/requirements.md");
+  });
+
+  it("rejects unknown sessions and requests without a session", async () => {
+    const server = await start();
+    const ping = JSON.stringify({ jsonrpc: "2.0", id: 1, method: "ping" });
+
+    expect(await post(server.url, ping, { "Mcp-Session-Id": "unknown" })).toMatchObject({ status: 404, body: { error: { code: -32001 } } });
+    expect(await post(server.url, ping)).toMatchObject({ status: 400, body: { error: { code: -32000 } } });
+    expect(await post(server.url, "{")).toMatchObject({ status: 400, body: { error: { code: -32700 } } });
+  });
+
+  it("rejects bodies larger than 4 MB without reading them", async () => {
+    const server = await start();
+    const { host } = new URL(server.url);
+
+    expect(await rawPost(server.url, [`Host: ${host}`, `Content-Length: ${MAX_BODY_BYTES + 1}`])).toBe(413);
+    expect(await rawPost(server.url, [`Host: ${host}`, "Mcp-Session-Id: unknown", `Content-Length: ${MAX_BODY_BYTES}`])).toBe(404);
+    expect(server.sessions()).toHaveLength(0);
+  });
+
+  it("serves MCP only on its endpoint", async () => {
+    const server = await start();
+
+    expect((await post(server.url.replace("/mcp", "/other"), "{}")).status).toBe(404);
+  });
+
+  it("rejects Host headers of other hosts on a loopback address", async () => {
+    const server = await start();
+    const initialize = JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } }
+    });
+    const status = await rawPost(server.url, ["Host: attacker.example", `Content-Length: ${Buffer.byteLength(initialize)}`], initialize);
+
+    expect(status).toBe(403);
+    expect(server.sessions()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,12 @@
+import { describe, expect, it } from "vitest";
+
+describe("package entry point", () => {
+  it("exports the tools and the server without starting it", async () => {
+    const api = await import("../src/index.js");
+
+    expect(typeof api.createServer).toBe("function");
+    expect(typeof api.startHttpServer).toBe("function");
+    expect(typeof api.verifyCompleteSpec).toBe("function");
+    expect(process.listenerCount("SIGINT")).toBe(0);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { checkMermaidBlocks, validateMermaid } from "../src/mermaid.js";
+import { parseDesign } from "../src/spec-model.js";
+
+describe("validateMermaid", () => {
+  it("accepts well-formed diagrams of the checked types", () => {
+    for (const source of [
+      "flowchart LR\n  A[Client] --> B{Limiter}\n  B -->|allowed| C[Service]",
+      "sequenceDiagram\n  participant C as Client\n  C->>G: request\n  alt limited\n    G-->>C: 429\n  else allowed\n    G-->>C: 200\n  end",
+      "classDiagram\n  class Limiter {\n    +allow() bool\n  }\n  Limiter --> Store",
+      "stateDiagram-v2\n  [*] --> Open\n  Open --> Limited: quota exceeded\n  Limited --> [*]",
+      "erDiagram\n  CLIENT ||--o{ QUOTA : has\n  QUOTA {\n    string id PK\n  }"
+    ]) {
+      expect(validateMermaid(source)).toMatchObject({ supported: true, errors: [] });
+    }
+  });
+
+  it("reports an invalid flowchart direction", () => {
+    expect(validateMermaid("flowchart XY\n  A --> B").errors).toEqual([
+      { line: 1, message: "Invalid direction \"XY\"; use TB, TD, BT, RL or LR" }
+    ]);
+  });
+
+  it("reports blocks that are never closed", () => {
+    expect(validateMermaid("flowchart TD\n  subgraph Gateway\n    A --> B").errors).toEqual([
+      { line: 2, message: "subgraph is never closed with \"end\"" }
+    ]);
+    expect(validateMermaid("sequenceDiagram\n  A->>B: hi\n  loop every second\n    A->>B: ping").errors).toEqual([
+      { line: 3, message: "\"loop\" block is never closed with \"end\"" }
+    ]);
+  });
+
+  it("reports unknown diagram types and leaves known unchecked types alone", () => {
+    expect(validateMermaid("flowgraph TD\n  A --> B")).toMatchObject({ supported: false, errors: [{ line: 1 }] });
+    expect(validateMermaid("gantt\n  title Plan")).toEqual({ declaredType: "gantt", supported: false, errors: [] });
+  });
+
+  it("skips frontmatter and comments", () => {
+    expect(validateMermaid("---\ntitle: Limiter\n---\n%% comment\nflowchart TD\n  A --> B").errors).toEqual([]);
+  });
+});
+
+describe("checkMermaidBlocks", () => {
+  it("reports errors at their line in the Markdown file", () => {
+    const model = parseDesign(`# Design Document
+
+## Overview
+
+\`\`\`mermaid
+flowchart TD
+  subgraph Gateway
+    A --> B
+\`\`\`
+`);
+    const { diagnostics } = checkMermaidBlocks(model.mermaidBlocks);
+
+    expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.range?.start.line])).toEqual([["MER001", 7]]);
+  });
+});
@@ -0,0 +1,168 @@
+import fs from "fs/promises";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { loadConfig, validateConfig } from "../src/config.js";
+import { loadPlugins, runCustomRules, type CustomRule } from "../src/plugins.js";
+import { parseTasks } from "../src/spec-model.js";
+import { verifyTasksFile } from "../src/validators.js";
+import { createProject } from "./fixtures.js";
+
+const VERB_RULE = `export default {
+  code: "HOUSE001",
+  description: "Task titles start with a verb",
+  documents: ["tasks"],
+  check: ({ tasks }) => tasks.tasks
+    .filter(task => !/^[A-Z][a-z]+s?\\b/.test(task.title))
+    .map(task => ({ message: \`Task \${task.id} does not start with a verb\`, range: task.range }))
+};
+`;
+
+const TASKS = `# Implementation Tasks
+
+## Overview
+
+Limit requests.
+
+## Phase 1: Core
+
+- [ ] 1.1 Add the limiter
+- [ ] 1.2 123 wiring
+`;
+
+describe("loadPlugins", () => {
+  it("collects the rules of default, array and { rules } exports", async () => {
+    const dir = await createProject({
+      "rules/verb.mjs": VERB_RULE,
+      "rules/many.mjs": "export const rules = [{ code: \"HOUSE002\", check: () => [] }, { code: \"HOUSE003\", check: () => [] }];\n"
+    });
+    const { rules, diagnostics } = await loadPlugins(["rules/verb.mjs", "rules/many.mjs"], dir);
+
+    expect(diagnostics).toEqual([]);
+    expect(rules.map(rule => rule.code)).toEqual(["HOUSE001", "HOUSE002", "HOUSE003"]);
+  });
+
+  it("reports modules that cannot be loaded", async () => {
+    const { rules, diagnostics } = await loadPlugins(["rules/missing.mjs"], await createProject());
+
+    expect(rules).toEqual([]);
+    expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.file])).toEqual([["PLG001", ".spec-driven.json"]]);
+  });
+
+  it("reports invalid and duplicate rules and keeps the valid ones", async () => {
+    const dir = await createProject({
+      "rules/bad.mjs": `export default [
+  { code: "REQ001", check: () => [] },
+  { code: "HOUSE001" },
+  { code: "HOUSE002", check: () => [], severity: "fatal" },
+  { code: "HOUSE003", check: () => [] },
+  { code: "HOUSE003", check: () => [] }
+];
+`
+    });
+    const { rules, diagnostics } = await loadPlugins(["rules/bad.mjs"], dir);
+
+    expect(rules.map(rule => rule.code)).toEqual(["HOUSE003"]);
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual([
+      "Invalid rule in plugin rules/bad.mjs: rule code REQ001 is used by a built-in rule",
+      "Invalid rule in plugin rules/bad.mjs: rule HOUSE001 has no check function",
+      "Invalid rule in plugin rules/bad.mjs: rule HOUSE002 has invalid severity \"fatal\"",
+      "Invalid rule in plugin rules/bad.mjs: rule code HOUSE003 is registered twice"
+    ]);
+  });
+
+  it("imports a module once until its file changes", async () => {
+    const dir = await createProject({ "rules/verb.mjs": VERB_RULE });
+    const first = await loadPlugins(["rules/verb.mjs"], dir);
+    const second = await loadPlugins(["rules/verb.mjs"], dir);
+    expect(second.rules[0]).toBe(first.rules[0]);
+
+    const file = path.join(dir, "rules/verb.mjs");
+    await fs.writeFile(file, "export default [];\n");
+    await fs.utimes(file, new Date(), new Date(Date.now() + 1000));
+    const third = await loadPlugins(["rules/verb.mjs"], dir);
+
+    expect(third).toEqual({ rules: [], diagnostics: [] });
+  });
+});
+
+describe("runCustomRules", () => {
+  const context = { tasks: parseTasks(TASKS), config: validateConfig({}).config };
+  const files = { tasks: "specs/changes/rate-limiter/tasks.md" };
+
+  it("reports findings in the file of the rule's document with the rule's severity", () => {
+    const rule: CustomRule = {
+      code: "HOUSE001",
+      severity: "error",
+      documents: ["tasks"],
+      check: ({ tasks }) => tasks!.tasks.filter(task => /^\d/.test(task.title)).map(task => ({ message: `Task ${task.id}`, line: task.line }))
+    };
+
+    expect(runCustomRules([rule], context, files)).toEqual([{
+      code: "HOUSE001",
+      severity: "error",
+      category: "Custom Rule",
+      file: files.tasks,
+      range: { start: { line: 10, column: 1 }, end: { line: 10, column: 1 } },
+      message: "Task 1.2",
+      suggestedFix: "See custom rule HOUSE001",
+      skillDocLink: undefined
+    }]);
+  });
+
+  it("skips rules whose documents are missing", () => {
+    const rule: CustomRule = { code: "HOUSE001", documents: ["design"], check: () => [{ message: "never" }] };
+
+    expect(runCustomRules([rule], context, files)).toEqual([]);
+  });
+
+  it("reports rules that throw or do not return an array", () => {
+    const rules = [
+      { code: "HOUSE001", documents: ["tasks"], check: () => { throw new Error("boom"); } },
+      { code: "HOUSE002", documents: ["tasks"], check: () => Promise.resolve([]) }
+    ] as unknown as CustomRule[];
+
+    expect(runCustomRules(rules, context, files).map(diagnostic => [diagnostic.code, diagnostic.message, diagnostic.file])).toEqual([
+      ["PLG003", "Custom rule HOUSE001 failed: boom", files.tasks],
+      ["PLG003", "Custom rule HOUSE002 did not return an array of findings", files.tasks]
+    ]);
+  });
+});
+
+describe("plugins in .spec-driven.json", () => {
+  it("rejects module paths outside the project", () => {
+    const { config, diagnostics } = validateConfig({ plugins: ["rules/ok.mjs", "../shared/rules.mjs", "/abs/rules.mjs"] });
+
+    expect(config.plugins).toEqual([]);
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual([
+      "plugins: ../shared/rules.mjs, /abs/rules.mjs must stay inside the project"
+    ]);
+  });
+
+  it("rejects TypeScript modules", () => {
+    const { config, diagnostics } = validateConfig({ plugins: ["rules/ok.mjs", "rules/house-rules.ts"] });
+
+    expect(config.plugins).toEqual([]);
+    expect(diagnostics).toMatchObject([{
+      code: "CFG001",
+      message: "plugins: rules/house-rules.ts cannot be imported without a TypeScript loader",
+      suggestedFix: "Compile the plugins to JavaScript and list the .js files"
+    }]);
+  });
+
+  it("loads the plugins and accepts settings for their rule codes", async () => {
+    const dir = await createProject({
+      ".spec-driven.json": JSON.stringify({ plugins: ["rules/verb.mjs"], rules: { HOUSE001: "error" } }),
+      "rules/verb.mjs": VERB_RULE
+    });
+    const { config, diagnostics } = await loadConfig(dir);
+
+    expect(diagnostics).toEqual([]);
+    expect(config.customRules.map(rule => rule.code)).toEqual(["HOUSE001"]);
+    expect(config.rules).toEqual({ HOUSE001: "error" });
+
+    const result = verifyTasksFile(TASKS, undefined, "tasks.md", config);
+    expect(result.diagnostics.filter(diagnostic => diagnostic.code === "HOUSE001").map(diagnostic => diagnostic.message)).toEqual([
+      "Task 1.2 does not start with a verb"
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { listProjectFiles } from "../src/project-files.js";
+import { createProject } from "./fixtures.js";
+
+describe("listProjectFiles", () => {
+  it("honors the root and nested .gitignore files and .git/info/exclude", async () => {
+    const dir = await createProject({
+      ".gitignore": "# build output\ndist/\n*.log\n!keep.log\n/secrets.txt\n",
+      ".git/info/exclude": "scratch.ts\n",
+      ".git/HEAD": "ref: refs/heads/main\n",
+      "src/index.ts": "",
+      "src/debug.log": "",
+      "src/keep.log": "",
+      "src/scratch.ts": "",
+      "src/secrets.txt": "",
+      "secrets.txt": "",
+      "dist/index.js": "",
+      "packages/app/.gitignore": "generated/\n",
+      "packages/app/generated/api.ts": "",
+      "packages/app/main.ts": "",
+      "generated/schema.ts": ""
+    });
+
+    expect(await listProjectFiles(dir)).toEqual([
+      ".gitignore",
+      "generated/schema.ts",
+      "packages/app/.gitignore",
+      "packages/app/main.ts",
+      "src/index.ts",
+      "src/keep.log",
+      "src/secrets.txt"
+    ]);
+  });
+
+  it("keeps files below an ignored folder ignored, as git does", async () => {
+    const dir = await createProject({
+      ".gitignore": "build/\n!build/keep.ts\n",
+      "build/keep.ts": ""
+    });
+
+    expect(await listProjectFiles(dir)).toEqual([".gitignore"]);
+  });
+
+  it("applies the include and exclude patterns", async () => {
+    const dir = await createProject({
+      "src/index.ts": "",
+      "src/index.test.ts": "",
+      "README.md": "",
+      "node_modules/lib/index.ts": ""
+    });
+
+    expect(await listProjectFiles(dir, ["**/*.ts"], ["**/node_modules/**", "**/*.test.ts"])).toEqual(["src/index.ts"]);
+  });
+});
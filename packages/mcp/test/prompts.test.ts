@@ -0,0 +1,60 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { getSkillPrompt, listSkillPrompts, SKILLS_DIR } from "../src/prompts.js";
+import { createProject } from "./fixtures.js";
+
+const SKILL = `---
+name: spec-driven-requirements-writer
+description: Write EARS requirements
+---
+
+# Requirements Writer
+
+Write the requirements.
+`;
+
+describe("skill prompts", () => {
+  it("lists one prompt per skill, named by its frontmatter", async () => {
+    const dir = await createProject({
+      "requirements-writer/SKILL.md": SKILL,
+      "untitled/SKILL.md": "# Untitled\n"
+    });
+
+    expect((await listSkillPrompts(dir)).map(prompt => [prompt.name, prompt.description])).toEqual([
+      ["spec-driven-requirements-writer", "Write EARS requirements"],
+      ["untitled", "untitled skill"]
+    ]);
+  });
+
+  it("serves the skills of the standards package", async () => {
+    expect((await listSkillPrompts(SKILLS_DIR)).length).toBeGreaterThan(0);
+  });
+
+  it("reports a missing skills directory instead of serving no prompts", async () => {
+    const dir = path.join(await createProject(), "skills");
+
+    await expect(listSkillPrompts(dir)).rejects.toThrow(`Skills directory not found: ${dir}`);
+  });
+
+  it("appends the task context to the skill instructions", async () => {
+    const dir = await createProject({ "requirements-writer/SKILL.md": SKILL });
+    const prompt = await getSkillPrompt("spec-driven-requirements-writer", { slug: "rate-limiter", featureDescription: "Limit requests" }, dir);
+
+    expect(prompt.messages).toHaveLength(1);
+    expect(prompt.messages[0].content.text).toBe(`# Requirements Writer
+
+Write the requirements.
+
+---
+
+## Task Context
+
+- Spec slug: \`rate-limiter\` (files in \`specs/changes/rate-limiter/\`)
+- Feature description: Limit requests
+`);
+  });
+
+  it("rejects unknown prompts", async () => {
+    await expect(getSkillPrompt("nope", {}, await createProject())).rejects.toThrow("Unknown prompt: nope");
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { validateConfig } from "../src/config.js";
+import { checkRequirementsQuality } from "../src/quality.js";
+import { parseRequirements } from "../src/spec-model.js";
+
+const STORY = "**User Story:** As an operator, I want to limit requests, so that the gateway stays available.";
+
+function check(criteria: string, story: string = STORY, settings = validateConfig({}).config.quality) {
+  return checkRequirementsQuality(parseRequirements(`# Requirements Document
+
+## Requirements
+
+### Requirement 1: Limit requests
+
+${story}
+
+#### Acceptance Criteria
+
+${criteria}
+`), settings);
+}
+
+function codes(criteria: string, story?: string): string[] {
+  return check(criteria, story).map(diagnostic => diagnostic.code);
+}
+
+describe("checkRequirementsQuality", () => {
+  it("accepts precise, active and measurable criteria", () => {
+    expect(codes(`1. WHEN a client exceeds 100 requests per minute, THE gateway SHALL reject the request with status 429.
+2. WHEN a request is rejected, THE gateway SHALL respond within 50 ms.
+3. IF the store is unreachable, THEN THE gateway SHALL NOT reject requests.`)).toEqual([]);
+  });
+
+  it("reports vague terms with a rewrite (QLT001)", () => {
+    const [diagnostic] = check("1. THE gateway SHALL reject requests quickly.");
+
+    expect(diagnostic).toMatchObject({ code: "QLT001", message: "REQ-1.1 uses the vague term \"quickly\"" });
+    expect(diagnostic.suggestedFix).toContain("THE gateway SHALL reject requests");
+    expect(diagnostic.suggestedFix).not.toContain("quickly");
+  });
+
+  it("ignores terms inside inline code", () => {
+    expect(codes("1. THE gateway SHALL set the `fast` flag.")).toEqual([]);
+  });
+
+  it("reports the passive voice without an agent (QLT002)", () => {
+    expect(codes("1. WHEN a client exceeds the limit, the request SHALL be rejected.")).toEqual(["QLT002"]);
+    expect(codes("1. WHEN a client exceeds the limit, the request SHALL be rejected by THE gateway.")).toEqual([]);
+  });
+
+  it("reports performance claims without a number (QLT004)", () => {
+    expect(codes("1. THE gateway SHALL keep the latency low for every request.")).toEqual(["QLT004"]);
+  });
+
+  it("reports prohibitions without a trigger (QLT005)", () => {
+    expect(codes("1. THE gateway SHALL NOT drop requests.")).toEqual(["QLT005"]);
+  });
+
+  it("reports placeholders anywhere in the document (QLT003)", () => {
+    expect(check("1. THE gateway SHALL reject requests over TBD requests per minute.").map(diagnostic => [diagnostic.code, diagnostic.range?.start.line])).toEqual([
+      ["QLT003", 11]
+    ]);
+  });
+
+  it("reports the placeholders of the spec templates but not inline HTML (QLT003)", () => {
+    const diagnostics = check("1. WHEN <trigger>, THE gateway SHALL <action> within <N> ms.<br>See <https://example.com>.", "**User Story:** As a <role>, I want limits, so that the gateway stays available.");
+
+    expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.message])).toEqual([
+      ["QLT003", "Placeholder \"<role>\" left in requirements.md"],
+      ["QLT003", "Placeholder \"<trigger>\", \"<action>\", \"<N>\" left in requirements.md"]
+    ]);
+  });
+
+  it("reports incomplete user stories (QLT006)", () => {
+    const criteria = "1. THE gateway SHALL reject requests over 100 requests per minute.";
+
+    expect(check(criteria, "**User Story:** As an operator, I want limits.").map(diagnostic => diagnostic.message)).toEqual([
+      "User story of REQ-1 is missing \"so that\""
+    ]);
+    expect(codes(criteria, "")).toEqual(["QLT006"]);
+  });
+
+  it("uses the configured word lists", () => {
+    const { config } = validateConfig({ quality: { vagueTerms: ["snappy"], placeholders: ["XXX"] } });
+
+    expect(check("1. THE gateway SHALL respond in a snappy way, XXX, quickly.", STORY, config.quality).map(diagnostic => diagnostic.code)).toEqual([
+      "QLT001",
+      "QLT003"
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+import fs from "fs/promises";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { renameSpecId } from "../src/rename.js";
+import { createProject, readProjectFile } from "./fixtures.js";
+
+const DIR = "specs/changes/rate-limiter";
+
+const REQUIREMENTS = `# Requirements Document
+
+## Requirements
+
+### Requirement 1: Limit requests
+
+#### Acceptance Criteria
+
+1. WHEN a request arrives, THE gateway SHALL count it. _(Event-driven)_
+2. THE gateway SHALL reject requests over the limit. _(Ubiquitous)_
+`;
+
+const DESIGN = `# Design Document
+
+## Components
+
+### DES-1: Limiter
+
+_Implements: REQ-1.1, REQ-1.2_
+
+## Traceability Matrix
+
+| Design Element | Requirements |
+|----------------|--------------|
+| DES-1 | REQ-1.1, REQ-1.2 |
+`;
+
+const TASKS = `# Implementation Tasks
+
+## Phase 1: Core
+
+- [ ] 1.1 Add the limiter
+  - _Implements: DES-1, REQ-1.2_
+`;
+
+async function createSpecProject(): Promise<string> {
+  return createProject({
+    [`${DIR}/requirements.md`]: REQUIREMENTS,
+    [`${DIR}/design.md`]: DESIGN,
+    [`${DIR}/tasks.md`]: TASKS
+  });
+}
+
+describe("rename_spec_id", () => {
+  it("renames a requirement with its criteria and every reference", async () => {
+    const dir = await createSpecProject();
+    const result = await renameSpecId("rate-limiter", "REQ-1", ["REQ-4"], false, dir);
+
+    expect(result).toMatchObject({ valid: true, renamed: true });
+    expect(await readProjectFile(dir, `${DIR}/requirements.md`)).toContain("### Requirement 4: Limit requests");
+    expect(await readProjectFile(dir, `${DIR}/design.md`)).toContain("| DES-1 | REQ-4.1, REQ-4.2 |");
+    expect(await readProjectFile(dir, `${DIR}/tasks.md`)).toContain("_Implements: DES-1, REQ-4.2_");
+  });
+
+  it("renumbers criterion labels written without the requirement prefix", async () => {
+    const dir = await createSpecProject();
+    await fs.writeFile(path.join(dir, DIR, "requirements.md"), REQUIREMENTS.replace("1. WHEN", "- 1.1 WHEN").replace("2. THE", "- **1.2** THE"), "utf-8");
+    await renameSpecId("rate-limiter", "REQ-1", ["REQ-4"], false, dir);
+    await renameSpecId("rate-limiter", "REQ-4.2", ["REQ-4.5"], false, dir);
+    const requirements = await readProjectFile(dir, `${DIR}/requirements.md`);
+
+    expect(requirements).toContain("- 4.1 WHEN a request arrives");
+    expect(requirements).toContain("- **4.5** THE gateway SHALL reject");
+    expect(await readProjectFile(dir, `${DIR}/tasks.md`)).toContain("_Implements: DES-1, REQ-4.5_");
+  });
+
+  it("leaves references inside code blocks alone", async () => {
+    const dir = await createSpecProject();
+    const example = "\n```markdown\n_Implements: REQ-1.2_\n```\n";
+    await fs.writeFile(path.join(dir, DIR, "design.md"), DESIGN + example, "utf-8");
+    await renameSpecId("rate-limiter", "REQ-1.2", ["REQ-1.3"], false, dir);
+    const design = await readProjectFile(dir, `${DIR}/design.md`);
+
+    expect(design).toContain("| DES-1 | REQ-1.1, REQ-1.3 |");
+    expect(design).toContain(example);
+  });
+
+  it("splits a design element into copies and lists all of them in each reference", async () => {
+    const dir = await createSpecProject();
+    const result = await renameSpecId("rate-limiter", "DES-1", ["DES-1", "DES-2"], false, dir);
+    const design = await readProjectFile(dir, `${DIR}/design.md`);
+
+    expect(result.renamed).toBe(true);
+    expect(design).toContain("### DES-1: Limiter");
+    expect(design).toContain("### DES-2: Limiter");
+    expect(await readProjectFile(dir, `${DIR}/tasks.md`)).toContain("_Implements: DES-1, DES-2, REQ-1.2_");
+  });
+
+  it("writes nothing on a dry run", async () => {
+    const dir = await createSpecProject();
+    const result = await renameSpecId("rate-limiter", "REQ-1.2", ["REQ-1.3"], true, dir);
+
+    expect(result.renamed).toBe(false);
+    expect(result.changes.map(change => change.file)).toEqual([
+      `${DIR}/requirements.md`,
+      `${DIR}/design.md`,
+      `${DIR}/design.md`,
+      `${DIR}/tasks.md`
+    ]);
+    expect(await readProjectFile(dir, `${DIR}/tasks.md`)).toBe(TASKS);
+  });
+
+  it("refuses IDs that are undefined or already taken", async () => {
+    const dir = await createSpecProject();
+
+    expect((await renameSpecId("rate-limiter", "DES-7", ["DES-8"], false, dir)).diagnostics.map(d => d.code)).toEqual(["RNM002"]);
+    expect((await renameSpecId("rate-limiter", "REQ-1.1", ["REQ-1.2"], false, dir)).diagnostics.map(d => d.code)).toEqual(["RNM003"]);
+    expect((await renameSpecId("rate-limiter", "REQ-1.1", ["DES-2"], false, dir)).diagnostics.map(d => d.code)).toEqual(["RNM001"]);
+    expect(await readProjectFile(dir, `${DIR}/requirements.md`)).toBe(REQUIREMENTS);
+  });
+
+  it("rejects slugs that are not a single spec folder", async () => {
+    const dir = await createSpecProject();
+    const result = await renameSpecId("../changes/rate-limiter", "REQ-1", ["REQ-4"], false, dir);
+
+    expect(result).toMatchObject({ valid: false, renamed: false, diagnostics: [{ code: "STR005" }] });
+    expect(await readProjectFile(dir, `${DIR}/requirements.md`)).toBe(REQUIREMENTS);
+  });
+});
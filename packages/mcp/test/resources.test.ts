@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { listSpecResources, readSpecResource, resolveSpecUri } from "../src/resources.js";
+import { createProject } from "./fixtures.js";
+
+describe("resolveSpecUri", () => {
+  it("maps spec URIs to the spec files", () => {
+    expect(resolveSpecUri("spec://rate-limiter/design.md")).toMatchObject({ slug: "rate-limiter", file: "design.md" });
+  });
+
+  it("rejects other files and parent directories", () => {
+    expect(resolveSpecUri("spec://rate-limiter/notes.md")).toBeUndefined();
+    expect(resolveSpecUri("spec://../design.md")).toBeUndefined();
+    expect(resolveSpecUri("spec://a/b/design.md")).toBeUndefined();
+  });
+});
+
+describe("spec resources", () => {
+  it("lists the spec files that exist, sorted by spec", async () => {
+    const dir = await createProject({
+      "specs/changes/b-spec/tasks.md": "# Tasks",
+      "specs/changes/a-spec/requirements.md": "# Requirements",
+      "specs/changes/a-spec/notes.md": "# Notes"
+    });
+
+    expect((await listSpecResources(dir)).map(resource => resource.uri)).toEqual([
+      "spec://a-spec/requirements.md",
+      "spec://b-spec/tasks.md"
+    ]);
+  });
+
+  it("lists nothing without a specs/changes folder", async () => {
+    expect(await listSpecResources(await createProject())).toEqual([]);
+  });
+
+  it("reads a spec file and reports missing ones", async () => {
+    const dir = await createProject({ "specs/changes/a-spec/requirements.md": "# Requirements" });
+
+    expect(await readSpecResource("spec://a-spec/requirements.md", dir)).toEqual({
+      uri: "spec://a-spec/requirements.md",
+      mimeType: "text/markdown",
+      text: "# Requirements"
+    });
+    await expect(readSpecResource("spec://a-spec/design.md", dir)).rejects.toThrow("Spec resource not found");
+  });
+});
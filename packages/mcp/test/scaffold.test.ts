@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { createSpec } from "../src/scaffold.js";
+import { createProject, readProjectFile } from "./fixtures.js";
+
+describe("createSpec", () => {
+  it("creates the three spec files from a skeleton that passes validation", async () => {
+    const dir = await createProject();
+    const result = await createSpec("rate-limiter", "  Rate   Limiter ", dir);
+
+    expect(result).toMatchObject({ valid: true, created: true });
+    expect(result.files).toEqual([
+      "specs/changes/rate-limiter/requirements.md",
+      "specs/changes/rate-limiter/design.md",
+      "specs/changes/rate-limiter/tasks.md"
+    ]);
+    expect(result.diagnostics.filter(diagnostic => diagnostic.severity === "error")).toEqual([]);
+    expect(await readProjectFile(dir, "specs/changes/rate-limiter/requirements.md")).toContain("Rate Limiter");
+  });
+
+  it("uses the placeholder glossary term in the criteria", async () => {
+    const result = await createSpec("rate-limiter", "Rate Limiter", await createProject());
+
+    expect(result.diagnostics.filter(diagnostic => diagnostic.code.startsWith("GLO"))).toEqual([]);
+  });
+
+  it("reports the template placeholders left to fill in", async () => {
+    const result = await createSpec("rate-limiter", "Rate Limiter", await createProject());
+
+    expect(result.diagnostics.filter(diagnostic => diagnostic.code === "QLT003").map(diagnostic => diagnostic.message)).toEqual([
+      "Placeholder \"<role>\", \"<goal>\", \"<benefit>\" left in requirements.md",
+      "Placeholder \"<behavior>\" left in requirements.md",
+      "Placeholder \"<trigger>\", \"<action>\" left in requirements.md"
+    ]);
+  });
+
+  it("rejects slugs that are not kebab-case and empty titles", async () => {
+    const dir = await createProject();
+    const result = await createSpec("../Rate_Limiter", " ", dir);
+
+    expect(result).toMatchObject({ valid: false, created: false, files: [] });
+    expect(result.diagnostics.map(diagnostic => diagnostic.code)).toEqual(["STR005", "STR005"]);
+  });
+
+  it("leaves an existing spec untouched", async () => {
+    const dir = await createProject({ "specs/changes/rate-limiter/requirements.md": "# Mine\n" });
+    const result = await createSpec("rate-limiter", "Rate Limiter", dir);
+
+    expect(result.diagnostics.map(diagnostic => diagnostic.code)).toEqual(["STR006"]);
+    expect(await readProjectFile(dir, "specs/changes/rate-limiter/requirements.md")).toBe("# Mine\n");
+  });
+});
@@ -0,0 +1,128 @@
+import { execFileSync } from "child_process";
+import fs from "fs/promises";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { diffSpec, diffSpecVersions, renderSpecDiff } from "../src/spec-diff.js";
+import { createProject } from "./fixtures.js";
+
+const DIR = "specs/changes/rate-limiter";
+
+const REQUIREMENTS = `# Requirements Document
+
+## Requirements
+
+### Requirement 1: Limit requests
+
+#### Acceptance Criteria
+
+1. THE gateway SHALL reject requests over the limit.
+2. THE gateway SHALL log every rejection.
+3. THE gateway SHALL expose the remaining quota.
+`;
+
+const DESIGN = `# Design Document
+
+### DES-1: Limiter
+
+_Implements: REQ-1.1, REQ-1.2_
+`;
+
+// The first criterion is reworded, the second removed and the third moves up
+const CHANGED_REQUIREMENTS = REQUIREMENTS
+  .replace("reject requests over the limit", "reject requests over the per-client limit")
+  .replace("2. THE gateway SHALL log every rejection.\n", "")
+  .replace("3. THE gateway", "2. THE gateway");
+
+const CHANGED_DESIGN = DESIGN.replace("_Implements: REQ-1.1, REQ-1.2_", "_Implements: REQ-1.1_\n\n### DES-2: Quota header\n\n_Implements: REQ-1.1_");
+
+describe("diffSpecVersions", () => {
+  it("tells renumbered, reworded, added and removed items apart", () => {
+    const report = diffSpecVersions(
+      { label: "HEAD", contents: { "requirements.md": REQUIREMENTS, "design.md": DESIGN } },
+      { label: "working tree", contents: { "requirements.md": CHANGED_REQUIREMENTS, "design.md": CHANGED_DESIGN } }
+    );
+
+    expect(report.criteria).toEqual([
+      { change: "renumbered", id: "REQ-1.2", previousId: "REQ-1.3", text: "THE gateway SHALL expose the remaining quota." },
+      {
+        change: "reworded",
+        id: "REQ-1.1",
+        text: "THE gateway SHALL reject requests over the per-client limit.",
+        previousText: "THE gateway SHALL reject requests over the limit."
+      },
+      { change: "removed", id: "REQ-1.2", text: "THE gateway SHALL log every rejection." }
+    ]);
+    expect(report.requirements).toEqual([]);
+    expect(report.designElements).toEqual([{ change: "added", id: "DES-2", text: "Quota header" }]);
+    expect(report.designLinks).toEqual([{ id: "DES-1", added: [], removed: ["REQ-1.2"] }]);
+  });
+});
+
+describe("renderSpecDiff", () => {
+  it("renders the changes as Markdown", () => {
+    const report = diffSpecVersions(
+      { label: "main", contents: { "requirements.md": REQUIREMENTS } },
+      { label: "HEAD", contents: { "requirements.md": REQUIREMENTS.replace("log every rejection", "log every rejected request") } }
+    );
+
+    expect(renderSpecDiff("rate-limiter", report)).toBe(`## Spec changes: rate-limiter (main → HEAD)
+
+### Acceptance Criteria
+
+- **Reworded** REQ-1.2: ~~THE gateway SHALL log every rejection.~~ THE gateway SHALL log every rejected request.`);
+  });
+
+  it("says when nothing changed", () => {
+    const version = { label: "HEAD", contents: { "requirements.md": REQUIREMENTS } };
+
+    expect(renderSpecDiff("rate-limiter", diffSpecVersions(version, version))).toContain("_No semantic changes._");
+  });
+});
+
+describe("diffSpec", () => {
+  async function repository(): Promise<string> {
+    const dir = await createProject({ [`${DIR}/requirements.md`]: REQUIREMENTS, [`${DIR}/design.md`]: DESIGN });
+    const git = (...args: string[]) => execFileSync("git", args, { cwd: dir });
+    git("init", "-q");
+    git("add", "-A");
+    git("-c", "user.name=Dev", "-c", "user.email=dev@example.com", "-c", "commit.gpgsign=false", "commit", "-q", "-m", "Add spec");
+    await fs.writeFile(path.join(dir, DIR, "requirements.md"), CHANGED_REQUIREMENTS, "utf-8");
+    await fs.writeFile(path.join(dir, DIR, "design.md"), CHANGED_DESIGN, "utf-8");
+    return dir;
+  }
+
+  it("compares a git revision with the working tree and reports the trace links it breaks", async () => {
+    const dir = await repository();
+    const result = await diffSpec("rate-limiter", "HEAD", undefined, dir);
+
+    expect(result.report).toMatchObject({ base: "HEAD", head: "working tree" });
+    expect(result.report.criteria.map(change => change.change)).toEqual(["renumbered", "reworded", "removed"]);
+    expect(result.diagnostics.map(diagnostic => diagnostic.message)).toEqual(["REQ-1.2 is not covered by any design element"]);
+  });
+
+  it("compares spec folders", async () => {
+    const dir = await createProject({
+      [`${DIR}/requirements.md`]: CHANGED_REQUIREMENTS,
+      "specs/archive/2025-01-31-rate-limiter/requirements.md": REQUIREMENTS
+    });
+    const result = await diffSpec("rate-limiter", "specs/archive/2025-01-31-rate-limiter", undefined, dir);
+
+    expect(result.report.base).toBe("specs/archive/2025-01-31-rate-limiter");
+    expect(result.report.criteria).toHaveLength(3);
+  });
+
+  it("reports sources that are neither folders nor revisions", async () => {
+    const dir = await repository();
+    const result = await diffSpec("rate-limiter", "--no-index", "no-such-branch", dir);
+
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics.map(diagnostic => diagnostic.code)).toEqual(["DIF001", "DIF001"]);
+  });
+
+  it("rejects slugs that are not a single spec folder", async () => {
+    const dir = await repository();
+    const result = await diffSpec("../changes/rate-limiter", "HEAD", undefined, dir);
+
+    expect(result).toMatchObject({ valid: false, diagnostics: [{ code: "STR005" }] });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { criterionIds, parseDesign, parseMarkdown, parseRequirements, parseTasks } from "../src/spec-model.js";
+
+const REQUIREMENTS = `# Requirements Document
+
+## Introduction
+
+Version 1.2 of the gateway limits requests.
+
+## Glossary
+
+| Term | Definition |
+|------|------------|
+| Rate_Limit | Requests allowed per client and minute |
+
+## Requirements
+
+### Requirement 1: Limit requests
+
+**User Story:** As an operator, I want to limit requests, so that the gateway stays available.
+
+#### Acceptance Criteria
+
+1. WHEN a client exceeds the Rate_Limit, THE gateway SHALL reject the request. _(Event-driven)_
+2. THE gateway SHALL log every rejection. _(Ubiquitous)_
+
+\`\`\`markdown
+### Requirement 9: Example inside a code block
+\`\`\`
+`;
+
+describe("parseMarkdown", () => {
+  it("ignores headings inside fenced code blocks", () => {
+    const document = parseMarkdown(REQUIREMENTS);
+
+    expect(document.sections.map(section => section.title)).not.toContain("Requirement 9: Example inside a code block");
+    expect(document.codeBlocks).toHaveLength(1);
+    expect(document.codeBlocks[0].lang).toBe("markdown");
+  });
+
+  it("reports the lines of sections and tables", () => {
+    const document = parseMarkdown(REQUIREMENTS);
+    const glossary = document.sections.find(section => section.title === "Glossary");
+
+    expect(glossary?.line).toBe(7);
+    expect(document.tables[0].header).toEqual(["Term", "Definition"]);
+    expect(document.tables[0].rows[0]).toEqual({ cells: ["Rate_Limit", "Requests allowed per client and minute"], line: 11 });
+  });
+});
+
+describe("parseRequirements", () => {
+  it("parses requirements with their numbered criteria and annotations", () => {
+    const model = parseRequirements(REQUIREMENTS);
+
+    expect(model.requirements).toHaveLength(1);
+    const [req] = model.requirements;
+    expect(req).toMatchObject({ id: "REQ-1", number: 1, title: "Limit requests", line: 15 });
+    expect(req.userStory).toContain("I want to limit requests");
+    expect(req.criteria.map(criterion => [criterion.id, criterion.annotation, criterion.line])).toEqual([
+      ["REQ-1.1", "Event-driven", 21],
+      ["REQ-1.2", "Ubiquitous", 22]
+    ]);
+    expect(req.criteria[1].text).toBe("THE gateway SHALL log every rejection.");
+  });
+
+  it("does not count version numbers in prose as criteria", () => {
+    expect(criterionIds(parseRequirements(REQUIREMENTS))).toEqual(["REQ-1.1", "REQ-1.2"]);
+  });
+
+  it("reads the glossary and the baseline", () => {
+    const model = parseRequirements(`# Requirements Document\n\n**Baseline:** api-gateway\n\n${REQUIREMENTS.slice(REQUIREMENTS.indexOf("## Glossary"))}`);
+
+    expect(model.baseline).toEqual({ value: "api-gateway", line: 3 });
+    expect(model.glossary?.map(term => term.term)).toEqual(["Rate_Limit"]);
+  });
+
+  it("uses the configured ID prefixes", () => {
+    const model = parseRequirements(REQUIREMENTS, { requirement: "FR", design: "COMP" });
+
+    expect(criterionIds(model)).toEqual(["FR-1.1", "FR-1.2"]);
+  });
+});
+
+describe("parseDesign", () => {
+  it("parses design elements, their links and the Code Anatomy", () => {
+    const model = parseDesign(`# Design Document
+
+## Components
+
+### DES-1: Limiter
+
+_Implements: REQ-1.1, REQ-1.2_
+
+## Code Anatomy
+
+| File Path | Purpose | Implements |
+|-----------|---------|------------|
+| src/limiter.ts (new) | Token bucket | DES-1 |
+`);
+
+    expect(model.elements.map(element => [element.id, element.title])).toEqual([["DES-1", "Limiter"]]);
+    expect(model.links.map(link => `${link.from}→${link.to}`)).toEqual(["DES-1→REQ-1.1", "DES-1→REQ-1.2"]);
+    expect(model.codeAnatomy).toEqual([
+      expect.objectContaining({ path: "src/limiter.ts", isNew: true, implements: ["DES-1"] })
+    ]);
+  });
+});
+
+describe("parseTasks", () => {
+  const TASKS = `# Implementation Tasks
+
+## Phase 1: Core
+
+- [x] 1.1 Add the limiter
+  - Create src/limiter.ts
+  - _Implements: DES-1_
+- [ ] 1.2 Wire the limiter
+  - [~] 1.2.1 Add the middleware
+    - _Depends: 1.1_
+  - [ ] 1.2.2 Register it
+
+## Phase 2: Final Checkpoint
+
+- [ ] 2.1 Verify the change
+- [ ] Missing ID
+`;
+
+  it("parses phases, subtasks, markers and details", () => {
+    const model = parseTasks(TASKS);
+
+    expect(model.phases.map(phase => [phase.number, phase.title, phase.isFinalCheckpoint])).toEqual([
+      [1, "Core", false],
+      [2, "Final Checkpoint", true]
+    ]);
+    expect(model.tasks.map(task => [task.id, task.status, task.phase, task.parentId])).toEqual([
+      ["1.1", "x", 1, undefined],
+      ["1.2", " ", 1, undefined],
+      ["1.2.1", "~", 1, "1.2"],
+      ["1.2.2", " ", 1, "1.2"],
+      ["2.1", " ", 2, undefined]
+    ]);
+    expect(model.tasks[0]).toMatchObject({ implements: ["DES-1"], details: ["Create src/limiter.ts"] });
+    expect(model.tasks[2].depends).toEqual(["1.1"]);
+  });
+
+  it("collects checkbox items without a task ID as malformed", () => {
+    expect(parseTasks(TASKS).malformed.map(item => [item.text, item.line])).toEqual([["Missing ID", 16]]);
+  });
+});
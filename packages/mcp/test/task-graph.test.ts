@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { parseTasks } from "../src/spec-model.js";
+import { buildTaskGraph, checkTaskDependencies, getNextTask, orderTasks } from "../src/task-graph.js";
+import { createProject } from "./fixtures.js";
+
+const TASKS = `# Implementation Tasks
+
+## Phase 1: Core
+
+- [ ] 1.1 Add the limiter
+- [ ] 1.2 Wire the limiter
+  - _Depends: 1.1_
+  - [ ] 1.2.1 Add the middleware
+  - [ ] 1.2.2 Register it
+
+## Phase 2: Final Checkpoint
+
+- [ ] 2.1 Verify the change
+  - _Depends: 1.1_
+`;
+
+const TASKS_FILE = "specs/changes/rate-limiter/tasks.md";
+
+describe("task graph", () => {
+  it("inherits the dependencies of parent tasks and orders tasks after them", () => {
+    const graph = buildTaskGraph(parseTasks(TASKS));
+
+    expect(graph.dependencies.get("1.2.1")).toEqual(["1.1"]);
+    expect(orderTasks(graph).map(task => task.id)).toEqual(["1.1", "1.2", "1.2.1", "1.2.2", "2.1"]);
+  });
+
+  it("reports unknown dependencies, cycles and dependencies on later phases", () => {
+    const { diagnostics } = checkTaskDependencies(parseTasks(`## Phase 1: Core
+
+- [ ] 1.1 First
+  - _Depends: 1.2_
+- [ ] 1.2 Second
+  - _Depends: 1.1, 9.9_
+- [ ] 1.3 Third
+  - _Depends: 2.1_
+
+## Phase 2: Later
+
+- [ ] 2.1 Fourth
+`));
+
+    expect(diagnostics.map(diagnostic => diagnostic.code).sort()).toEqual(["TSK011", "TSK012", "TSK013"]);
+  });
+
+  it("returns the next actionable tasks, keeping the Final Checkpoint last", async () => {
+    const dir = await createProject({ [TASKS_FILE]: TASKS.replace("- [ ] 1.1", "- [x] 1.1") });
+    const result = await getNextTask("rate-limiter", dir, 5);
+
+    expect(result.nextTasks.map(task => task.id)).toEqual(["1.2.1", "1.2.2"]);
+  });
+});
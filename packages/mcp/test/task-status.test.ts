@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { getSpecStatus, updateTaskStatus } from "../src/task-status.js";
+import { createProject, readProjectFile } from "./fixtures.js";
+
+const TASKS = `# Implementation Tasks
+
+## Phase 1: Core
+
+- [ ] 1.1 Add the limiter
+- [ ] 1.2 Wire the limiter
+  - _Depends: 1.1_
+  - [ ] 1.2.1 Add the middleware
+  - [ ] 1.2.2 Register it
+
+## Phase 2: Final Checkpoint
+
+- [ ] 2.1 Verify the change
+  - _Depends: 1.1_
+`;
+
+const TASKS_FILE = "specs/changes/rate-limiter/tasks.md";
+
+describe("update_task_status", () => {
+  it("moves a task from pending through in-progress to done, rewriting only its checkbox", async () => {
+    const dir = await createProject({ [TASKS_FILE]: TASKS });
+
+    expect(await updateTaskStatus("rate-limiter", "1.1", "in-progress", dir)).toMatchObject({ updated: true, previousStatus: "pending" });
+    expect(await updateTaskStatus("rate-limiter", "1.1", "done", dir)).toMatchObject({ updated: true, previousStatus: "in-progress" });
+    expect(await readProjectFile(dir, TASKS_FILE)).toBe(TASKS.replace("- [ ] 1.1", "- [x] 1.1"));
+  });
+
+  it("refuses to complete a task that was never started", async () => {
+    const dir = await createProject({ [TASKS_FILE]: TASKS });
+    const result = await updateTaskStatus("rate-limiter", "1.1", "done", dir);
+
+    expect(result.updated).toBe(false);
+    expect(result.diagnostics.map(diagnostic => diagnostic.code)).toEqual(["TSK015"]);
+    expect(await readProjectFile(dir, TASKS_FILE)).toBe(TASKS);
+  });
+
+  it("refuses to start a task whose dependencies are open", async () => {
+    const dir = await createProject({ [TASKS_FILE]: TASKS });
+    const result = await updateTaskStatus("rate-limiter", "1.2.1", "in-progress", dir);
+
+    expect(result.diagnostics[0].message).toContain("dependencies 1.1 are not completed");
+  });
+
+  it("lists each open dependency of a Final Checkpoint task once", async () => {
+    const dir = await createProject({ [TASKS_FILE]: TASKS });
+    const result = await updateTaskStatus("rate-limiter", "2.1", "in-progress", dir);
+
+    expect(result.diagnostics[0].message).toContain("dependencies 1.1, 1.2.1, 1.2.2 are not completed");
+  });
+
+  it("refuses to complete a parent task with open subtasks", async () => {
+    const dir = await createProject({ [TASKS_FILE]: TASKS.replace("- [ ] 1.1", "- [x] 1.1").replace("- [ ] 1.2 ", "- [~] 1.2 ") });
+    const result = await updateTaskStatus("rate-limiter", "1.2", "done", dir);
+
+    expect(result.diagnostics[0].message).toContain("subtasks 1.2.1, 1.2.2 are not completed");
+  });
+
+  it("refuses to reopen a task that completed tasks depend on", async () => {
+    const dir = await createProject({
+      [TASKS_FILE]: TASKS.replace("- [ ] 1.1", "- [x] 1.1").replace("- [ ] 1.2.1", "- [x] 1.2.1")
+    });
+    const result = await updateTaskStatus("rate-limiter", "1.1", "pending", dir);
+
+    expect(result.diagnostics[0].message).toContain("completed tasks 1.2.1 depend on it");
+  });
+
+  it("reports unknown task IDs", async () => {
+    const dir = await createProject({ [TASKS_FILE]: TASKS });
+
+    expect((await updateTaskStatus("rate-limiter", "7.1", "done", dir)).diagnostics.map(diagnostic => diagnostic.code)).toEqual(["TSK016"]);
+  });
+
+  it("rejects slugs that are not a single spec folder", async () => {
+    const dir = await createProject({ [TASKS_FILE]: TASKS });
+
+    expect((await updateTaskStatus("../changes/rate-limiter", "1.1", "in-progress", dir)).diagnostics.map(diagnostic => diagnostic.code)).toEqual(["STR005"]);
+    expect((await getSpecStatus("Rate Limiter", dir)).diagnostics.map(diagnostic => diagnostic.code)).toEqual(["STR005"]);
+    expect(await readProjectFile(dir, TASKS_FILE)).toBe(TASKS);
+  });
+});
+
+describe("get_spec_status", () => {
+  it("counts leaf tasks per phase and overall", async () => {
+    const dir = await createProject({ [TASKS_FILE]: TASKS.replace("- [ ] 1.1", "- [x] 1.1").replace("- [ ] 1.2.1", "- [~] 1.2.1") });
+    const status = await getSpecStatus("rate-limiter", dir);
+
+    expect(status.overall).toEqual({ total: 4, done: 1, inProgress: 1, pending: 2, percent: 25 });
+    expect(status.phases.map(phase => [phase.number, phase.total, phase.done])).toEqual([[1, 3, 1], [2, 1, 0]]);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { detectReportFormat, parseJUnitXml, parseTap, verifyTestResults } from "../src/test-results.js";
+import { createProject, readProjectFile } from "./fixtures.js";
+
+describe("parseJUnitXml", () => {
+  it("names test cases after their nested suites and class", () => {
+    expect(parseJUnitXml(`<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="limiter">
+    <testsuite name="REQ-1 &amp; quotas">
+      <testcase classname="Limiter" name="REQ-1.1 rejects requests"/>
+    </testsuite>
+    <testcase name="logs rejections"></testcase>
+  </testsuite>
+</testsuites>
+`)).toEqual([
+      { name: "limiter › REQ-1 & quotas › Limiter › REQ-1.1 rejects requests", status: "passed" },
+      { name: "limiter › logs rejections", status: "passed" }
+    ]);
+  });
+
+  it("reads failures, errors and skipped tests", () => {
+    expect(parseJUnitXml(`<testsuite name="s">
+  <testcase name="a"><failure message="expected 429"/></testcase>
+  <testcase name="b"><error>TypeError</error></testcase>
+  <testcase name="c"><skipped/></testcase>
+  <testcase name="d"><skipped/><failure/></testcase>
+</testsuite>`).map(testCase => testCase.status)).toEqual(["failed", "failed", "skipped", "failed"]);
+  });
+
+  it("ignores markup inside CDATA sections and comments", () => {
+    expect(parseJUnitXml(`<testsuite name="s">
+  <testcase name="a">
+    <system-out><![CDATA[<testcase name="fake"><failure/></testcase>]]></system-out>
+  </testcase>
+  <!-- <testcase name="commented"/> -->
+</testsuite>`)).toEqual([{ name: "s › a", status: "passed" }]);
+  });
+});
+
+describe("parseTap", () => {
+  it("names subtests after the # Subtest lines that enclose them", () => {
+    expect(parseTap(`TAP version 13
+# Subtest: limiter
+    # Subtest: REQ-1 quotas
+        ok 1 - REQ-1.1 rejects requests
+        1..1
+    ok 1 - REQ-1 quotas
+    not ok 2 - REQ-1.2 logs rejections
+    1..2
+not ok 1 - limiter
+ok 2 - standalone
+1..2
+`)).toEqual([
+      { name: "limiter › REQ-1 quotas › REQ-1.1 rejects requests", status: "passed" },
+      { name: "limiter › REQ-1 quotas", status: "passed" },
+      { name: "limiter › REQ-1.2 logs rejections", status: "failed" },
+      { name: "limiter", status: "failed" },
+      { name: "standalone", status: "passed" }
+    ]);
+  });
+
+  it("counts SKIP and failing TODO tests as skipped", () => {
+    expect(parseTap(`ok 1 - a # SKIP no store
+not ok 2 - b # TODO not implemented
+ok 3 - c # todo done early
+`).map(testCase => testCase.status)).toEqual(["skipped", "skipped", "passed"]);
+  });
+});
+
+describe("detectReportFormat", () => {
+  it("uses the extension, then the content", () => {
+    expect(detectReportFormat("report.xml", "")).toBe("junit");
+    expect(detectReportFormat("report.tap", "")).toBe("tap");
+    expect(detectReportFormat("report.txt", "<testsuites/>")).toBe("junit");
+    expect(detectReportFormat("report.txt", "TAP version 14\nok 1")).toBe("tap");
+    expect(detectReportFormat("report.txt", "PASS src/limiter.test.ts")).toBeUndefined();
+  });
+});
+
+describe("verifyTestResults", () => {
+  const SPEC = "specs/changes/rate-limiter";
+  const TASKS = `# Implementation Tasks
+
+## Phase 1: Final Checkpoint
+
+- [ ] 1.1 Verify all acceptance criteria
+  - REQ-1: Confirm the limit
+  - _Implements: All requirements_
+`;
+
+  async function project(report: string): Promise<string> {
+    return createProject({
+      [`${SPEC}/requirements.md`]: `# Requirements Document
+
+## Requirements
+
+### Requirement 1: Limit requests
+
+#### Acceptance Criteria
+
+1. THE gateway SHALL reject requests over the limit.
+2. THE gateway SHALL log every rejection.
+3. THE gateway SHALL expose the remaining quota.
+`,
+      [`${SPEC}/tasks.md`]: TASKS,
+      "reports/results.tap": report
+    });
+  }
+
+  it("maps test results to criteria and requirements", async () => {
+    const dir = await project("ok 1 - REQ-1.1 rejects\nnot ok 2 - REQ-1.2 logs\nok 3 - REQ-1.3 quota # SKIP\nok 4 - REQ-7.1 elsewhere\n");
+    const result = await verifyTestResults("rate-limiter", ["reports/results.tap"], false, dir);
+
+    expect(result.report.criteria.map(criterion => [criterion.criterion, criterion.status])).toEqual([
+      ["REQ-1.1", "passed"],
+      ["REQ-1.2", "failed"],
+      ["REQ-1.3", "untested"]
+    ]);
+    expect(result.report.requirements[0]).toMatchObject({ status: "failed", passed: ["REQ-1.1"], failed: ["REQ-1.2"], untested: ["REQ-1.3"] });
+    expect(result.diagnostics.map(diagnostic => diagnostic.code)).toEqual(["TST004", "TST002", "TST003"]);
+  });
+
+  it("annotates the requirement lines of the Final Checkpoint", async () => {
+    const dir = await project("ok 1 - REQ-1.1 rejects\nok 2 - REQ-1.2 logs\nok 3 - REQ-1.3 quota\n");
+    const result = await verifyTestResults("rate-limiter", ["reports/results.tap"], true, dir);
+
+    expect(result.annotated).toEqual(["1.1"]);
+    expect(await readProjectFile(dir, `${SPEC}/tasks.md`)).toBe(TASKS.replace(
+      "  - REQ-1: Confirm the limit\n",
+      "  - REQ-1: Confirm the limit — _Verified: passed_\n  - _Test results: 3 passed, 0 failed, 0 untested criteria (reports/results.tap)_\n"
+    ));
+  });
+
+  it("reports reports that are missing or empty", async () => {
+    const dir = await project("TAP version 13\n1..0\n");
+    const result = await verifyTestResults("rate-limiter", ["reports/results.tap", "reports/missing.xml"], false, dir);
+
+    expect(result.diagnostics.filter(diagnostic => diagnostic.code === "TST001").map(diagnostic => diagnostic.file)).toEqual([
+      "reports/results.tap",
+      "reports/missing.xml"
+    ]);
+  });
+});
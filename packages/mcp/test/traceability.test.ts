@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { parseDesign, parseRequirements, parseTasks } from "../src/spec-model.js";
+import { checkTraceability, getTraceabilityMatrix, renderTraceabilityMatrix } from "../src/traceability.js";
+import { createProject } from "./fixtures.js";
+
+const REQUIREMENTS = `# Requirements Document
+
+## Requirements
+
+### Requirement 1: Limit requests
+
+#### Acceptance Criteria
+
+1. WHEN a client exceeds the limit, THE gateway SHALL reject the request.
+2. THE gateway SHALL log every rejection.
+3. THE gateway SHALL expose the remaining quota.
+`;
+
+const DESIGN = `# Design Document
+
+## Components
+
+### DES-1: Limiter
+
+_Implements: REQ-1.1, REQ-1.2_
+
+### DES-2: Quota header
+
+_Implements: REQ-1.3_
+
+## Traceability Matrix
+
+| Design | Requirements |
+|--------|--------------|
+| DES-1 | REQ-1.1, REQ-9.1 |
+`;
+
+const TASKS = `# Implementation Tasks
+
+## Phase 1: Core
+
+- [ ] 1.1 Add the limiter
+  - _Implements: DES-1_
+- [ ] 1.2 Log rejections
+  - _Implements: REQ-1.2_
+`;
+
+function check() {
+  return checkTraceability(
+    { requirements: parseRequirements(REQUIREMENTS), design: parseDesign(DESIGN), tasks: parseTasks(TASKS) },
+    { requirements: "requirements.md", design: "design.md", tasks: "tasks.md" }
+  );
+}
+
+describe("checkTraceability", () => {
+  it("covers criteria through design elements and direct task links", () => {
+    const { report } = check();
+
+    expect(report.matrix.map(row => [row.criterion, row.designElements, row.tasks, row.status])).toEqual([
+      ["REQ-1.1", ["DES-1"], ["1.1"], "covered"],
+      ["REQ-1.2", ["DES-1"], ["1.1", "1.2"], "covered"],
+      ["REQ-1.3", ["DES-2"], [], "missing tasks"]
+    ]);
+    expect(report.uncoveredCriteria).toEqual(["REQ-1.3"]);
+    expect(report.designElementsWithoutTasks).toEqual(["DES-2"]);
+  });
+
+  it("reports dangling references and disagreements with the matrix table", () => {
+    const { report, diagnostics } = check();
+
+    expect(report.danglingReferences.map(edge => `${edge.from}→${edge.to}`)).toEqual(["DES-1→REQ-9.1"]);
+    expect(report.matrixMismatches.map(mismatch => [mismatch.designElement, mismatch.requirement, mismatch.foundIn])).toEqual([
+      ["DES-1", "REQ-9.1", "matrix"],
+      ["DES-1", "REQ-1.2", "inline"],
+      ["DES-2", "REQ-1.3", "inline"]
+    ]);
+    expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.file])).toEqual(expect.arrayContaining([
+      ["TRC001", "design.md"],
+      ["TRC003", "requirements.md"],
+      ["TRC004", "design.md"],
+      ["TRC005", "design.md"]
+    ]));
+  });
+
+  it("skips the checks that need a missing file", () => {
+    const { report, diagnostics } = checkTraceability({ requirements: parseRequirements(REQUIREMENTS) });
+
+    expect(report.matrix.map(row => row.status)).toEqual(["uncovered", "uncovered", "uncovered"]);
+    expect(diagnostics).toEqual([]);
+  });
+});
+
+describe("renderTraceabilityMatrix", () => {
+  const rows = check().report.matrix;
+
+  it("renders a Markdown table with a dash for empty cells", () => {
+    expect(renderTraceabilityMatrix(rows, "markdown").split("\n")).toEqual([
+      "| Criterion | Requirement | Design Elements | Tasks | Status |",
+      "|---|---|---|---|---|",
+      "| REQ-1.1 | REQ-1 | DES-1 | 1.1 | covered |",
+      "| REQ-1.2 | REQ-1 | DES-1 | 1.1, 1.2 | covered |",
+      "| REQ-1.3 | REQ-1 | DES-2 | — | missing tasks |"
+    ]);
+  });
+
+  it("quotes CSV cells that contain commas", () => {
+    expect(renderTraceabilityMatrix(rows, "csv").split("\n")[2]).toBe("REQ-1.2,REQ-1,DES-1,\"1.1, 1.2\",covered");
+  });
+});
+
+describe("getTraceabilityMatrix", () => {
+  it("reads the spec files and reports the ones that are missing", async () => {
+    const dir = await createProject({
+      "specs/changes/rate-limiter/requirements.md": REQUIREMENTS,
+      "specs/changes/rate-limiter/design.md": DESIGN
+    });
+
+    const result = await getTraceabilityMatrix("rate-limiter", dir);
+
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics[0]).toMatchObject({ code: "STR004", file: "specs/changes/rate-limiter/tasks.md" });
+    expect(result.report.matrix.map(row => row.designElements)).toEqual([["DES-1"], ["DES-1"], ["DES-2"]]);
+  });
+});
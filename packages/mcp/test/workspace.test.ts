@@ -0,0 +1,68 @@
+import fs from "fs/promises";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { checkSlug, confineRoots, resolveInWorkspace, workspaceRootsFromUris } from "../src/workspace.js";
+import { createProject } from "./fixtures.js";
+
+describe("resolveInWorkspace", () => {
+  it("resolves paths relative to the first root", async () => {
+    const root = await createProject();
+
+    expect(await resolveInWorkspace("packages/api", [root])).toEqual({ path: path.join(root, "packages/api"), diagnostics: [] });
+    expect(await resolveInWorkspace(undefined, [root])).toEqual({ path: root, diagnostics: [] });
+  });
+
+  it("accepts paths inside any of the roots", async () => {
+    const [first, second] = [await createProject(), await createProject()];
+
+    expect((await resolveInWorkspace(second, [first, second])).path).toBe(second);
+  });
+
+  it("accepts children whose names start with two dots", async () => {
+    const root = await createProject();
+
+    expect(await resolveInWorkspace("..cache/specs", [root])).toEqual({ path: path.join(root, "..cache/specs"), diagnostics: [] });
+  });
+
+  it("rejects paths that leave the workspace", async () => {
+    const root = await createProject();
+
+    for (const requested of ["..", "/etc", "specs/../../other"]) {
+      const result = await resolveInWorkspace(requested, [root]);
+      expect(result.path).toBeUndefined();
+      expect(result.diagnostics.map(diagnostic => diagnostic.code)).toEqual(["WSP001"]);
+    }
+  });
+
+  it("follows symbolic links out of the workspace", async () => {
+    const [root, outside] = [await createProject(), await createProject()];
+    await fs.symlink(outside, path.join(root, "link"));
+
+    expect((await resolveInWorkspace("link/specs", [root])).diagnostics.map(diagnostic => diagnostic.code)).toEqual(["WSP001"]);
+  });
+});
+
+describe("workspaceRootsFromUris", () => {
+  it("keeps the file roots of the client", () => {
+    expect(workspaceRootsFromUris([{ uri: "file:///work/app" }, { uri: "https://example.com/repo" }])).toEqual(["/work/app"]);
+  });
+});
+
+describe("checkSlug", () => {
+  it("accepts kebab-case slugs and rejects paths", () => {
+    expect(checkSlug("rate-limiter")).toEqual([]);
+    for (const slug of ["../..", "Rate_Limiter", "a/b", 42]) {
+      expect(checkSlug(slug).map(diagnostic => diagnostic.code)).toEqual(["STR005"]);
+    }
+  });
+});
+
+describe("confineRoots", () => {
+  it("keeps roots inside the bound, narrows roots containing it and drops the others", async () => {
+    const [bound, other] = [await createProject(), await createProject()];
+    const inside = path.join(bound, "packages");
+
+    expect(await confineRoots([inside, "/", other], bound)).toEqual([inside, bound]);
+    expect(await confineRoots([other], bound)).toEqual([]);
+  });
+});